@@ -2,16 +2,55 @@ import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react'
 import { Business, Category, BusinessData } from './types';
 import CategoryGrid from './components/CategoryGrid';
 import BusinessList from './components/BusinessList';
-import { GoogleGenAI, Type } from "@google/genai";
+import OutboxPanel from './components/OutboxPanel';
+import ConflictResolver from './components/ConflictResolver';
+import AuditHistory from './components/AuditHistory';
+import BulkImport from './components/BulkImport';
+import ExportPanel from './components/ExportPanel';
+import OpenStatusBadge from './components/OpenStatusBadge';
+import OpeningHoursEditor from './components/OpeningHoursEditor';
+import MapView from './components/MapView';
+import LocationPicker from './components/LocationPicker';
+import ContactNumbersEditor from './components/ContactNumbersEditor';
+import SpeakButton from './components/SpeakButton';
+import SuggestionForm from './components/SuggestionForm';
+import ModerationQueue from './components/ModerationQueue';
+import AdminManager from './components/AdminManager';
+import TagBrowser from './components/TagBrowser';
+import PhotoGallery from './components/PhotoGallery';
+import PhotoUploader from './components/PhotoUploader';
+import CategoryManager from './components/CategoryManager';
+import FavoritesSection from './components/FavoritesSection';
+import PersonalBackupPanel from './components/PersonalBackupPanel';
+import ReviewSection from './components/ReviewSection';
+import CallFeedbackPrompt from './components/CallFeedbackPrompt';
+import ReviewModeration from './components/ReviewModeration';
+import DataHealthDashboard from './components/DataHealthDashboard';
+import UsageAnalytics from './components/UsageAnalytics';
+import LanguageSwitcher from './components/LanguageSwitcher';
 import * as SupabaseService from './supabaseClient';
+import { AiProviderError, AiResponseError, AiResult, askAi } from './aiService';
+import { OutboxEntry } from './cacheService';
+import { SearchHighlights, SearchIndex, buildSearchIndex, searchBusinesses } from './searchIndex';
+import { restrictToCandidates } from './aiRetrieval';
+import { SpeechError, SpeechSession, buildNameVocabulary, getSpeechBackend, normalizeSpokenQuery, spellOutPhoneNumber } from './speechService';
+import { ChatTurn, buildChatRequest, buildPromptContext, chatCandidates, clearTranscript, loadTranscript, saveTranscript, suggestFollowUps, turnBusinesses } from './aiChat';
+import { Coordinates, distancesFrom, formatDistance, getBusinessLocation, getCurrentPosition, sortByDistance } from './geo';
+import { dayName, findException, formatRanges, formatSchedule, getBusinessSchedule, isOpenNow, parseOpeningHours, rangesForDate } from './openingHours';
+import { allowedCategories, can, roleLabel } from './permissions';
+import { businessCategoryIds, collectTags, countByCategory, hasTag, isInCategory, sortCategories } from './businessGrouping';
+import { ContactChannel, PendingContact, getDeviceId, rememberCallCheck, shouldAskAboutContact, sortByRating } from './ratings';
+import { CONTACT_KINDS, businessContacts, canCall, checkContacts, contactKindLabel, formatPhoneNumber, primaryContactNumber, toTelHref, toWhatsAppUrl, whatsAppContact } from './phone';
+import { TRANSLATION_LOCALES, categoryName, cleanTranslations, formatNumber, localeTag, shopName, t, useLocale } from './i18n';
 import { User } from '@supabase/supabase-js';
 
 // --- HELPER FUNCTIONS ---
-const formatPhoneNumber = (phoneNumber: string): string => {
-    if (phoneNumber.length === 10) {
-        return `+91 ${phoneNumber.slice(0, 5)} ${phoneNumber.slice(5)}`;
-    }
-    return phoneNumber;
+// A search is logged once the visitor stops typing
+const SEARCH_SETTLE_MS = 1500;
+
+// Fire-and-forget; the analytics queue loads with IndexedDB, off the first paint
+const track = (send: (analytics: typeof import('./analytics')) => Promise<void>) => {
+    import('./analytics').then(send);
 };
 
 // --- CORE COMPONENTS ---
@@ -24,183 +63,162 @@ const LoadingSpinner: React.FC = () => (
 
 const Header: React.FC = () => (
     <header className="bg-gradient-to-br from-primary to-secondary text-white text-center p-6 rounded-lg mb-6 shadow-header animate-fadeInUp">
+        <div className="flex justify-end mb-2">
+            <LanguageSwitcher />
+        </div>
         <h1 className="font-inter text-3xl md:text-4xl font-bold tracking-tight">
-          जवळा व्यवसाय निर्देशिका
+          {t('app.title')}
         </h1>
-        <p className="mt-1 text-md opacity-90">तुमच्या गावातील सर्व व्यवसाय एकाच ठिकाणी!</p>
+        <p className="mt-1 text-md opacity-90">{t('app.tagline')}</p>
     </header>
 );
 
 // --- AI Assistant Components ---
 
-interface AiResult {
-    summary: string;
-    results: Array<{
-        type: 'business' | 'text';
-        businessId?: string;
-        content?: string;
-    }>;
-}
-
 const AiAssistant: React.FC<{
     businesses: Business[];
     categories: Category[];
+    searchIndex: SearchIndex;
     onViewBusiness: (business: Business) => void;
     query: string;
     onQueryChange: (query: string) => void;
-}> = ({ businesses, categories, onViewBusiness, query, onQueryChange }) => {
-    const [response, setResponse] = useState<AiResult | null>(null);
-    const [isLoading, setIsLoading] = useState(false);
+}> = ({ businesses, categories, searchIndex, onViewBusiness, query, onQueryChange }) => {
+    const [turns, setTurns] = useState<ChatTurn[]>([]);
+    const [pendingQuestion, setPendingQuestion] = useState('');
     const [error, setError] = useState('');
+    const [isListening, setIsListening] = useState(false);
+    const transcriptEndRef = useRef<HTMLDivElement>(null);
+    const speechSessionRef = useRef<SpeechSession | null>(null);
     const businessMap = useMemo(() => new Map(businesses.map(b => [b.id, b])), [businesses]);
+    const nameVocabulary = useMemo(() => buildNameVocabulary(businesses, categories), [businesses, categories]);
+    const speechBackend = useMemo(() => getSpeechBackend(), []);
+    const isLoading = pendingQuestion !== '';
 
-    const handleQuery = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!query.trim()) return;
+    useEffect(() => () => speechSessionRef.current?.cancel(), []);
 
-        setIsLoading(true);
-        setError('');
-        setResponse(null);
-
-        const businessContext = businesses.map(b => ({
-            id: b.id,
-            shopName: b.shopName,
-            ownerName: b.ownerName,
-            category: categories.find(c => c.id === b.category)?.name || 'Unknown',
-            services: b.services,
-            contact: b.contactNumber,
-        }));
+    useEffect(() => {
+        loadTranscript().then(setTurns);
+    }, []);
 
-        const prompt = `You are a very helpful assistant for the "Jawala Business Directory".
-        Your goal is to understand a user's request in Marathi and provide the most relevant information from the business list.
+    useEffect(() => {
+        if (turns.length > 0 || isLoading) {
+            transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+        }
+    }, [turns.length, isLoading]);
 
-        Here is the list of all available businesses:
-        ${JSON.stringify(businessContext, null, 2)}
+    const askQuestion = async (question: string) => {
+        if (!question.trim() || isLoading) return;
 
-        User's Request: "${query}"
+        setPendingQuestion(question);
+        setError('');
 
-        Analyze the request and respond with a JSON object. The JSON must contain:
-        1.  "summary": A short, conversational summary of your findings in Marathi.
-        2.  "results": An array of results. Each result can be one of two types:
-            -   type: "business": If you find a relevant business, include its "businessId".
-            -   type: "text": If the user asks for specific information (like a phone number) or if no business is a good match, provide a helpful answer in the "content" field.
+        // Only the best local matches (plus whatever the last answer named) go to the model
+        const candidates = chatCandidates(searchIndex, question, turns, businessMap);
+        const request = buildChatRequest(question, turns, candidates);
 
-        If you find multiple relevant businesses, list them all. If the request is generic or you cannot find a good match, provide a friendly text response.`;
-        
         try {
-            const modelName = process.env.AI_MODEL;
-            if (!modelName) {
-                throw new Error("AI model is not configured. Please set the AI_MODEL environment variable.");
-            }
-
-            let jsonStr: string;
-
-            if (modelName.startsWith('gemini') || modelName.startsWith('gemma')) {
-                const apiKey = process.env.GOOGLE_API_KEY;
-                if (!apiKey) {
-                    throw new Error("Google API key is not configured. Please set the GOOGLE_API_KEY environment variable for this model.");
-                }
-                const ai = new GoogleGenAI({ apiKey });
-                const result = await ai.models.generateContent({
-                    model: modelName,
-                    contents: prompt,
-                    config: {
-                        responseMimeType: "application/json",
-                        responseSchema: {
-                            type: Type.OBJECT,
-                            properties: {
-                                summary: { type: Type.STRING },
-                                results: {
-                                    type: Type.ARRAY,
-                                    items: {
-                                        type: Type.OBJECT,
-                                        properties: {
-                                            type: { type: Type.STRING },
-                                            businessId: { type: Type.STRING },
-                                            content: { type: Type.STRING },
-                                        }
-                                    }
-                                }
-                            }
-                        }
-                    }
-                });
-                jsonStr = result.text.trim();
-            } else if (modelName.startsWith('mistral') || modelName.startsWith('pixtral')) {
-                 const apiKey = process.env.MISTRAL_API_KEY;
-                 if (!apiKey) {
-                    throw new Error("Mistral API key is not configured. Please set the MISTRAL_API_KEY environment variable for this model.");
-                 }
-                 const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${apiKey}`,
-                    },
-                    body: JSON.stringify({
-                        model: modelName,
-                        messages: [{ role: 'user', content: prompt }],
-                        response_format: { type: "json_object" }
-                    })
-                });
-
-                if (!response.ok) {
-                    const errorData = await response.json();
-                    throw new Error(errorData.message || 'Mistral API error');
-                }
-
-                const data = await response.json();
-                jsonStr = data.choices[0].message.content;
-
-            } else {
-                 throw new Error(`Unsupported model configured in AI_MODEL: ${modelName}.`);
-            }
-
-            const parsedResponse = JSON.parse(jsonStr) as AiResult;
-            setResponse(parsedResponse);
-
+            const result = await askAi(request, buildPromptContext(request, candidates, categories, businessMap));
+            const turn: ChatTurn = {
+                question,
+                result: restrictToCandidates(result, candidates),
+                askedAt: Date.now(),
+            };
+            const nextTurns = [...turns, turn];
+            setTurns(nextTurns);
+            saveTranscript(nextTurns);
+            onQueryChange('');
+            track(Analytics => Analytics.trackAiQuery(question, turn.result.results.length));
         } catch (err) {
             console.error("AI Chat Error:", err);
-            let errorMessage = 'उत्तर मिळवताना एक समस्या आली. कृपया पुन्हा प्रयत्न करा.';
-            if (err instanceof Error) {
-                if (err.message.includes('AI_MODEL') || err.message.includes('API_KEY') || err.message.includes('Unsupported model')) {
-                    errorMessage = err.message;
-                } else if (err.message.includes('API key') || err.message.includes('authentication') || err.message.includes('Mistral API error')) {
-                    errorMessage = 'The provided API key is invalid. Please check your configuration.';
-                }
+            let errorMessage = t('ai.errorGeneric');
+            if (err instanceof AiResponseError) {
+                errorMessage = t('ai.errorUnreadable');
+            } else if (err instanceof AiProviderError && err.status === 429) {
+                errorMessage = t('ai.errorRateLimited');
+            } else if (err instanceof AiProviderError && err.message.includes('AI_')) {
+                // Configuration problems are worth showing as-is to whoever deploys the app
+                errorMessage = err.message;
             }
             setError(errorMessage);
         } finally {
-            setIsLoading(false);
+            setPendingQuestion('');
         }
     };
+
+    const handleQuery = (e: React.FormEvent) => {
+        e.preventDefault();
+        askQuestion(query);
+    };
     
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         onQueryChange(e.target.value);
-        if (response) setResponse(null);
         if (error) setError('');
     };
+
+    const handleVoiceInput = async () => {
+        if (!speechBackend) return;
+        if (speechSessionRef.current) {
+            speechSessionRef.current.stop();
+            return;
+        }
+
+        setError('');
+        setIsListening(true);
+        try {
+            const session = speechBackend.start({ lang: localeTag(), onInterim: onQueryChange });
+            speechSessionRef.current = session;
+            const transcript = await session.result;
+            if (transcript) onQueryChange(normalizeSpokenQuery(transcript, nameVocabulary));
+        } catch (err) {
+            if (err instanceof SpeechError) {
+                if (err.code !== 'aborted') setError(err.message);
+            } else {
+                console.error('Voice input error:', err);
+                setError(t('speech.failed'));
+            }
+        } finally {
+            speechSessionRef.current = null;
+            setIsListening(false);
+        }
+    };
+
+    const handleClearConversation = () => {
+        if (!window.confirm(t('ai.clearConfirm'))) return;
+        setTurns([]);
+        setError('');
+        clearTranscript();
+    };
     
     const AiBusinessResultCard: React.FC<{business: Business}> = ({ business }) => (
         <div className="bg-surface rounded-lg p-4 shadow-subtle border-l-4 border-secondary flex items-center justify-between gap-3">
             <div>
-                <h4 className="font-bold text-primary">{business.shopName}</h4>
+                <h4 className="font-bold text-primary">{shopName(business)}</h4>
                 <p className="text-sm text-text-secondary">{business.ownerName}</p>
                 <p className="text-sm text-text-primary font-semibold mt-1">{formatPhoneNumber(business.contactNumber)}</p>
             </div>
-            <button
-                onClick={() => onViewBusiness(business)}
-                className="bg-primary/10 text-primary font-bold py-2 px-4 rounded-lg hover:bg-primary/20 transition-colors"
-            >
-                पहा
-            </button>
+            <div className="flex items-center gap-2">
+                <SpeakButton text={t('common.spokenNumber', { name: shopName(business), digits: spellOutPhoneNumber(business.contactNumber) })} label={t('common.listenNumber')} />
+                <button
+                    onClick={() => onViewBusiness(business)}
+                    className="bg-primary/10 text-primary font-bold py-2 px-4 rounded-lg hover:bg-primary/20 transition-colors"
+                >
+                    {t('common.view')}
+                </button>
+            </div>
+        </div>
+    );
+
+    const QuestionBubble: React.FC<{text: string}> = ({ text }) => (
+        <div className="flex justify-end">
+            <p className="max-w-[85%] px-4 py-2 bg-primary text-white rounded-2xl rounded-br-sm">{text}</p>
         </div>
     );
     
     const AiResponseCard: React.FC<{aiResult: AiResult}> = ({aiResult}) => (
-        <div className="mt-6 space-y-4 animate-fadeInUp">
-            <div className="p-4 bg-primary/10 rounded-lg">
+        <div className="space-y-3">
+            <div className="p-4 bg-primary/10 rounded-lg flex items-start justify-between gap-3">
                 <p className="font-semibold text-text-primary">{aiResult.summary}</p>
+                <SpeakButton text={aiResult.summary} label={t('ai.listenAnswer')} />
             </div>
             <div className="space-y-3">
                 {aiResult.results.map((result, index) => {
@@ -217,36 +235,90 @@ const AiAssistant: React.FC<{
         </div>
     );
 
+    const lastTurn = turns[turns.length - 1];
+    const followUps = lastTurn && !isLoading ? suggestFollowUps(turnBusinesses(lastTurn, businessMap), turns) : [];
+
     return (
         <div className="bg-surface p-6 rounded-2xl shadow-card mb-8 animate-fadeInUp" style={{ animationDelay: '50ms' }}>
             <div className="flex items-center gap-3 mb-3">
                 <i className="fa-solid fa-wand-magic-sparkles text-2xl text-primary"></i>
-                <h2 className="font-inter text-2xl font-bold text-primary">शोध आणि AI मदतनीस</h2>
+                <h2 className="font-inter text-2xl font-bold text-primary">{t('ai.title')}</h2>
             </div>
-            <p className="text-text-secondary mb-4">व्यवसाय, मालक किंवा संपर्क शोधा. थेट सापडले नाही, तर आमचा AI मदतनीस मदत करेल!</p>
+            <p className="text-text-secondary mb-4">{t('ai.intro')}</p>
+
+            {(turns.length > 0 || isLoading) && (
+                <div className="mb-4 border-2 border-border-color rounded-xl bg-background">
+                    <div className="flex items-center justify-between px-4 py-2 border-b border-border-color">
+                        <span className="text-sm font-semibold text-text-secondary"><i className="fa-regular fa-comments mr-1"></i> {t('ai.conversation')}</span>
+                        {turns.length > 0 && (
+                            <button onClick={handleClearConversation} disabled={isLoading} className="text-sm text-red-600 hover:underline disabled:opacity-50">
+                                <i className="fa-solid fa-trash-can mr-1"></i> {t('ai.clear')}
+                            </button>
+                        )}
+                    </div>
+                    <div className="p-4 space-y-4 max-h-[32rem] overflow-y-auto">
+                        {turns.map(turn => (
+                            <div key={turn.askedAt} className="space-y-3 animate-fadeInUp">
+                                <QuestionBubble text={turn.question} />
+                                <AiResponseCard aiResult={turn.result} />
+                            </div>
+                        ))}
+                        {isLoading && (
+                            <div className="space-y-3">
+                                <QuestionBubble text={pendingQuestion} />
+                                <div className="flex items-center p-2">
+                                    <div className="w-6 h-6 border-4 border-t-primary border-gray-200 rounded-full animate-spin"></div>
+                                    <p className="ml-3 text-text-secondary animate-pulse">{t('ai.thinking')}</p>
+                                </div>
+                            </div>
+                        )}
+                        <div ref={transcriptEndRef}></div>
+                    </div>
+                    {followUps.length > 0 && (
+                        <div className="flex flex-wrap gap-2 px-4 pb-4">
+                            {followUps.map(question => (
+                                <button
+                                    key={question}
+                                    onClick={() => askQuestion(question)}
+                                    className="px-3 py-1.5 text-sm bg-surface border border-primary/40 text-primary rounded-full hover:bg-primary/10 transition-colors"
+                                >
+                                    {question}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
             
             <form onSubmit={handleQuery} className="flex flex-col sm:flex-row gap-3">
-                <input
-                    type="text"
-                    value={query}
-                    onChange={handleInputChange}
-                    placeholder="उदा. किराणा दुकान, राहुल पद्मावार, किंवा 'शेवया कुठे मिळतात?'"
-                    className="flex-grow w-full px-5 py-3 border-2 border-border-color rounded-full bg-background focus:outline-none focus:border-primary"
-                    disabled={isLoading}
-                />
+                <div className="relative flex-grow">
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={handleInputChange}
+                        placeholder={isListening ? t('ai.placeholderListening') : turns.length > 0 ? t('ai.placeholderFollowUp') : t('ai.placeholder')}
+                        className={`w-full px-5 py-3 border-2 border-border-color rounded-full bg-background focus:outline-none focus:border-primary ${speechBackend ? 'pr-14' : ''}`}
+                        disabled={isLoading || isListening}
+                    />
+                    {speechBackend && (
+                        <button
+                            type="button"
+                            onClick={handleVoiceInput}
+                            disabled={isLoading}
+                            title={isListening ? t('ai.voiceStop') : t('ai.voiceStart')}
+                            aria-label={isListening ? t('ai.voiceStop') : t('ai.voiceStart')}
+                            className={`absolute right-1.5 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full flex items-center justify-center transition-colors disabled:opacity-50 ${isListening ? 'bg-red-500 text-white animate-pulse' : 'bg-primary/10 text-primary hover:bg-primary/20'}`}
+                        >
+                            <i className={`fas ${isListening ? 'fa-stop' : 'fa-microphone'}`}></i>
+                        </button>
+                    )}
+                </div>
                 <button type="submit" disabled={isLoading || !query.trim()} className="px-8 py-3 bg-primary text-white font-semibold rounded-full hover:bg-green-700 transition-colors flex items-center justify-center gap-2 disabled:bg-primary disabled:opacity-60 disabled:cursor-not-allowed">
-                    {isLoading ? <><i className="fas fa-spinner fa-spin"></i> शोधत आहे...</> : <><i className="fa-solid fa-wand-magic-sparkles"></i> AI शोध</>}
+                    {isLoading ? <><i className="fas fa-spinner fa-spin"></i> {t('ai.searching')}</> : <><i className="fa-solid fa-wand-magic-sparkles"></i> {t('ai.submit')}</>}
                 </button>
             </form>
             
-            {isLoading && !response && (
-                <div className="flex items-center justify-center p-6">
-                    <div className="w-8 h-8 border-4 border-t-primary border-gray-200 rounded-full animate-spin"></div>
-                    <p className="ml-4 text-text-secondary animate-pulse">तुमच्यासाठी माहिती शोधत आहे...</p>
-                </div>
-            )}
             {error && <p className="text-center text-red-600 font-semibold p-4 mt-4 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
-            {response && <AiResponseCard aiResult={response} />}
         </div>
     );
 };
@@ -255,38 +327,70 @@ const AiAssistant: React.FC<{
 
 const BusinessDetailModal: React.FC<{
     business: Business | null;
+    categories: Category[];
+    now: Date;
+    distanceKm?: number;
     onClose: () => void;
-}> = ({ business, onClose }) => {
+    onReport: (business: Business) => void;
+    onCategorySelect: (categoryId: string) => void;
+    onTagSelect: (tag: string) => void;
+    isFavorite: boolean;
+    onToggleFavorite: (business: Business) => void;
+    note?: string;
+    onSaveNote: (businessId: string, text: string) => Promise<void>;
+    onContact: (business: Business, channel: ContactChannel) => void;
+    openReviewForm?: boolean;
+}> = ({ business, categories, now, distanceKm, onClose, onReport, onCategorySelect, onTagSelect, isFavorite, onToggleFavorite, note, onSaveNote, onContact, openReviewForm }) => {
     const [isSharing, setIsSharing] = useState(false);
+    const [noteDraft, setNoteDraft] = useState('');
+    const [isSavingNote, setIsSavingNote] = useState(false);
+
+    useEffect(() => {
+        setNoteDraft(note || '');
+    }, [business?.id, note]);
+
+    const saveNote = async () => {
+        if (!business) return;
+        setIsSavingNote(true);
+        try {
+            await onSaveNote(business.id, noteDraft);
+        } catch (error) {
+            console.error('Note save error:', error);
+            alert(t('detail.noteSaveFailed'));
+        } finally {
+            setIsSavingNote(false);
+        }
+    };
 
     const shareBusinessDetails = async () => {
         if (!business) return;
         setIsSharing(true);
+        track(Analytics => Analytics.trackContact(business.id, 'share'));
     
         const baseUrl = `${window.location.origin}${window.location.pathname}`;
         const shareUrl = `${baseUrl}?businessId=${business.id}`;
     
         const details = [
-            `*${business.shopName}*`,
+            `*${shopName(business)}*`,
             `👤 ${business.ownerName}`,
-            `📞 ${formatPhoneNumber(business.contactNumber)}`,
+            ...businessContacts(business).map(c => `${canCall(c) ? '📞' : '💬'} ${formatPhoneNumber(c.number)}${c.label ? ` (${c.label})` : ''}`),
         ];
     
         if (business.address) {
             details.push(`📍 ${business.address}`);
         }
         if (business.services && business.services.length > 0) {
-            details.push(`🛠️ सेवा: ${business.services.join(', ')}`);
+            details.push(`🛠️ ${t('share.services', { services: business.services.join(', ') })}`);
         }
         
-        details.push(`\n_~ जवळा व्यवसाय निर्देशिका द्वारे पाठवले ~_`);
+        details.push(`\n_~ ${t('share.sentVia')} ~_`);
     
         const shareText = details.join('\n');
         
         if (navigator.share) {
             try {
                 await navigator.share({
-                    title: `${business.shopName} | जवळा व्यवसाय निर्देशिका`,
+                    title: `${shopName(business)} | ${t('app.title')}`,
                     text: shareText, 
                     url: shareUrl,
                 });
@@ -298,9 +402,9 @@ const BusinessDetailModal: React.FC<{
         } else {
             try {
                 await navigator.clipboard.writeText(`${shareText}\n\n${shareUrl}`);
-                alert('शेअरिंग समर्थित नाही. तपशील आणि लिंक क्लिपबोर्डवर कॉपी केली आहे!');
+                alert(t('share.copied'));
             } catch (err) {
-                alert('तपशील कॉपी करू शकलो नाही.');
+                alert(t('share.copyFailed'));
                 console.error('Clipboard copy failed:', err);
             } finally {
                 setIsSharing(false);
@@ -324,34 +428,108 @@ const BusinessDetailModal: React.FC<{
         </div> : null
     );
     
-    const hasExtraDetails = business.address || business.openingHours || business.homeDelivery;
+    const schedule = getBusinessSchedule(business);
+    const todayException = schedule ? findException(schedule, now) : undefined;
+    const location = getBusinessLocation(business);
+    const hasExtraDetails = business.address || location || business.openingHours || schedule || business.homeDelivery;
+    const contacts = businessContacts(business);
+    const whatsApp = whatsAppContact(business);
+    const whatsAppUrl = whatsApp ? toWhatsAppUrl(whatsApp.number, t('app.whatsappGreeting')) : null;
+    const businessCategories = businessCategoryIds(business)
+        .map(id => categories.find(c => c.id === id))
+        .filter((category): category is Category => !!category);
 
     return (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
             <div className="bg-background rounded-xl shadow-xl w-11/12 max-w-md m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
                 <header className="bg-gradient-to-br from-primary to-secondary p-5 rounded-t-xl text-white relative">
                     <button onClick={onClose} className="absolute top-2 right-2 text-white/70 hover:text-white text-3xl w-8 h-8 flex items-center justify-center">&times;</button>
-                    <h3 className="font-inter text-2xl font-bold">{business.shopName}</h3>
+                    <button
+                        onClick={() => onToggleFavorite(business)}
+                        aria-pressed={isFavorite}
+                        aria-label={isFavorite ? t('common.removeFavorite') : t('common.addFavorite')}
+                        className={`absolute top-2 right-11 text-2xl w-8 h-8 flex items-center justify-center ${isFavorite ? 'text-amber-300' : 'text-white/70 hover:text-white'}`}
+                    >
+                        <i className={`${isFavorite ? 'fas' : 'far'} fa-star`}></i>
+                    </button>
+                    <h3 className="font-inter text-2xl font-bold pr-16">{shopName(business)}</h3>
                     <p className="opacity-90 text-base">{business.ownerName}</p>
+                    {schedule && <div className="mt-2"><OpenStatusBadge business={business} now={now} /></div>}
                 </header>
 
                 <main className="p-5 space-y-4 overflow-y-auto">
-                    <a href={`tel:${business.contactNumber}`} className="flex items-center gap-4 p-4 bg-surface rounded-lg shadow-subtle">
-                        <i className="fas fa-phone text-2xl text-primary"></i>
-                        <div>
-                            <p className="font-semibold text-text-primary">संपर्क</p>
-                            <p className="text-lg text-primary font-bold tracking-wider">{formatPhoneNumber(business.contactNumber)}</p>
-                        </div>
-                    </a>
+                    {business.photos && business.photos.length > 0 && (
+                        <PhotoGallery photos={business.photos} businessName={shopName(business)} />
+                    )}
+
+                    {contacts.map(contact => {
+                        // WhatsApp-only numbers open a chat instead of the dialer
+                        const callable = canCall(contact);
+                        return (
+                            <a
+                                key={contact.number}
+                                href={callable ? toTelHref(contact.number) : toWhatsAppUrl(contact.number, t('app.whatsappGreeting')) || undefined}
+                                target={callable ? undefined : '_blank'}
+                                rel={callable ? undefined : 'noopener noreferrer'}
+                                onClick={() => onContact(business, callable ? 'call' : 'whatsapp')}
+                                className="flex items-center gap-4 p-4 bg-surface rounded-lg shadow-subtle"
+                            >
+                                <i className={`${CONTACT_KINDS.find(k => k.kind === contact.kind)?.icon} text-2xl ${callable ? 'text-primary' : 'text-green-600'}`}></i>
+                                <div>
+                                    <p className="font-semibold text-text-primary">
+                                        {contact.label || contactKindLabel(contact.kind)}
+                                        {contact.label && <span className="text-sm font-normal text-text-secondary"> · {contactKindLabel(contact.kind)}</span>}
+                                    </p>
+                                    <p className="text-lg text-primary font-bold tracking-wider">{formatPhoneNumber(contact.number)}</p>
+                                </div>
+                                <SpeakButton text={t('common.spokenNumber', { name: shopName(business), digits: spellOutPhoneNumber(contact.number) })} label={t('common.listenNumber')} className="ml-auto" />
+                            </a>
+                        );
+                    })}
 
                     {hasExtraDetails && (
                       <div className="p-4 bg-surface rounded-lg shadow-subtle space-y-4">
-                          <DetailItem icon="fa-map-marker-alt" label="पत्ता" value={business.address} />
-                          <DetailItem icon="fa-clock" label="वेळ" value={business.openingHours} />
+                          <DetailItem icon="fa-map-marker-alt" label={t('detail.address')} value={business.address} />
+                          {location && (
+                              <a
+                                  href={`geo:${location.latitude},${location.longitude}?q=${location.latitude},${location.longitude}(${encodeURIComponent(shopName(business))})`}
+                                  className="flex items-center gap-4 text-primary font-semibold hover:underline"
+                              >
+                                  <i className="fas fa-route w-6 text-center text-secondary text-xl"></i>
+                                  <span>{t('detail.directions')}{distanceKm !== undefined && <span className="text-text-secondary font-normal"> · {t('detail.distanceAway', { distance: formatDistance(distanceKm) })}</span>}</span>
+                              </a>
+                          )}
+                          {schedule ? (
+                              <div className="flex items-start gap-4">
+                                  <i className="fas fa-clock w-6 text-center text-secondary text-xl pt-1"></i>
+                                  <div className="flex-grow">
+                                      <p className="font-semibold text-text-primary">{t('detail.hours')}</p>
+                                      <table className="w-full text-sm text-text-secondary">
+                                          <tbody>
+                                              {Array.from({ length: 7 }, (_, day) => {
+                                                  // Upcoming date for this weekday, so holiday exceptions show up
+                                                  const date = new Date(now);
+                                                  date.setDate(now.getDate() + ((day - now.getDay() + 7) % 7));
+                                                  const isToday = day === now.getDay();
+                                                  return (
+                                                      <tr key={day} className={isToday ? 'font-bold text-text-primary' : ''}>
+                                                          <td className="py-0.5 pr-3 whitespace-nowrap">{dayName(day)}</td>
+                                                          <td className="py-0.5">{formatRanges(rangesForDate(schedule, date))}</td>
+                                                      </tr>
+                                                  );
+                                              })}
+                                          </tbody>
+                                      </table>
+                                      {todayException?.note && <p className="text-sm text-red-600 mt-1">{t('detail.todayNote', { note: todayException.note })}</p>}
+                                  </div>
+                              </div>
+                          ) : (
+                              <DetailItem icon="fa-clock" label={t('detail.hours')} value={business.openingHours} />
+                          )}
                           {business.homeDelivery && 
                               <div className="flex items-center gap-4">
                                   <i className="fas fa-bicycle w-6 text-center text-secondary text-xl"></i>
-                                  <p className="font-bold text-green-700">होम डिलिव्हरी उपलब्ध</p>
+                                  <p className="font-bold text-green-700">{t('detail.homeDelivery')}</p>
                               </div>
                           }
                       </div>
@@ -359,15 +537,32 @@ const BusinessDetailModal: React.FC<{
 
                     {business.services && business.services.length > 0 && 
                         <div className="p-4 bg-surface rounded-lg shadow-subtle">
-                            <h4 className="font-bold text-text-primary mb-3">सेवा/उत्पादने:</h4>
+                            <h4 className="font-bold text-text-primary mb-3">{t('detail.services')}</h4>
                             <div className="flex flex-wrap gap-2">
                                 {business.services.map(s => <span key={s} className="bg-primary/10 text-primary text-sm font-semibold px-3 py-1 rounded-full">{s}</span>)}
                             </div>
                         </div>
                     }
+                    {(businessCategories.length > 1 || (business.tags && business.tags.length > 0)) &&
+                        <div className="p-4 bg-surface rounded-lg shadow-subtle">
+                            <h4 className="font-bold text-text-primary mb-3">{t('detail.categoriesAndTags')}</h4>
+                            <div className="flex flex-wrap gap-2">
+                                {businessCategories.map(category => (
+                                    <button key={category.id} onClick={() => onCategorySelect(category.id)} className="bg-secondary/10 text-secondary text-sm font-semibold px-3 py-1 rounded-full hover:bg-secondary/20">
+                                        <i className={`${category.icon} mr-1`}></i>{categoryName(category)}
+                                    </button>
+                                ))}
+                                {business.tags?.map(tag => (
+                                    <button key={tag} onClick={() => onTagSelect(tag)} className="bg-background text-text-secondary text-sm font-semibold px-3 py-1 rounded-full border border-border-color hover:text-primary hover:border-primary">
+                                        #{tag}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    }
                     {business.paymentOptions && business.paymentOptions.length > 0 &&
                       <div className="p-4 bg-surface rounded-lg shadow-subtle">
-                         <h4 className="font-bold text-text-primary mb-3">पेमेंट पर्याय:</h4>
+                         <h4 className="font-bold text-text-primary mb-3">{t('detail.payment')}</h4>
                          <div className="flex items-center gap-6">
                              {business.paymentOptions.map(p => (
                                <div key={p} className="flex flex-col items-center gap-1 text-text-secondary">
@@ -378,12 +573,42 @@ const BusinessDetailModal: React.FC<{
                          </div>
                       </div>
                     }
+
+                    <ReviewSection business={business} startWithForm={openReviewForm} />
+
+                    <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg shadow-subtle">
+                        <label htmlFor="business-note" className="font-bold text-text-primary flex items-center gap-2 mb-2">
+                            <i className="fas fa-sticky-note text-amber-600"></i> {t('detail.myNote')}
+                            <span className="text-xs font-normal text-text-secondary">{t('detail.noteDeviceOnly')}</span>
+                        </label>
+                        <textarea
+                            id="business-note"
+                            value={noteDraft}
+                            onChange={e => setNoteDraft(e.target.value)}
+                            rows={2}
+                            placeholder={t('detail.notePlaceholder')}
+                            className="w-full p-2 border border-amber-200 rounded-lg bg-surface text-sm"
+                        />
+                        {noteDraft.trim() !== (note || '') && (
+                            <button onClick={saveNote} disabled={isSavingNote} className="mt-2 px-4 py-1.5 bg-amber-600 text-white text-sm font-bold rounded-lg hover:bg-amber-700 disabled:opacity-60">
+                                {isSavingNote ? <><i className="fas fa-spinner fa-spin mr-1"></i>{t('common.saving')}</> : t('detail.saveNote')}
+                            </button>
+                        )}
+                    </div>
+
+                    <button onClick={() => onReport(business)} className="w-full text-sm text-text-secondary hover:text-primary hover:underline flex items-center justify-center gap-2">
+                        <i className="fas fa-flag"></i> {t('detail.report')}
+                    </button>
                 </main>
 
                 <footer className="p-4 border-t border-border-color grid grid-cols-2 gap-3 bg-background/70 rounded-b-xl">
-                    <a href={`https://wa.me/91${business.contactNumber}?text=${encodeURIComponent('नमस्कार, मी "जवळा व्यवसाय निर्देशिका" वरून आपला संपर्क घेतला आहे.')}`} target="_blank" rel="noopener noreferrer" className="w-full text-center py-3 rounded-lg transition-all flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold"><i className="fab fa-whatsapp text-xl"></i> WhatsApp</a>
+                    {whatsAppUrl ? (
+                        <a href={whatsAppUrl} target="_blank" rel="noopener noreferrer" onClick={() => onContact(business, 'whatsapp')} className="w-full text-center py-3 rounded-lg transition-all flex items-center justify-center gap-2 bg-green-600 hover:bg-green-700 text-white font-bold"><i className="fab fa-whatsapp text-xl"></i> WhatsApp</a>
+                    ) : (
+                        <span className="w-full text-center py-3 rounded-lg flex items-center justify-center gap-2 bg-gray-200 text-text-secondary font-bold cursor-not-allowed" title={t('detail.noWhatsAppTitle')}><i className="fab fa-whatsapp text-xl"></i> {t('detail.noWhatsApp')}</span>
+                    )}
                     <button onClick={shareBusinessDetails} disabled={isSharing} className="w-full text-center py-3 rounded-lg transition-all flex items-center justify-center gap-2 bg-secondary hover:bg-secondary/90 text-white font-bold disabled:bg-gray-400">
-                        {isSharing ? <><i className="fas fa-spinner fa-spin"></i> शेअर करत आहे...</> : <><i className="fas fa-share text-xl"></i> शेअर करा</>}
+                        {isSharing ? <><i className="fas fa-spinner fa-spin"></i> {t('detail.sharing')}</> : <><i className="fas fa-share text-xl"></i> {t('detail.share')}</>}
                     </button>
                 </footer>
             </div>
@@ -391,18 +616,39 @@ const BusinessDetailModal: React.FC<{
     );
 };
 
-const Footer: React.FC<{ onAdminLoginClick: () => void }> = ({ onAdminLoginClick }) => (
+const Footer: React.FC<{ onAdminLoginClick: () => void, onExportClick: () => void, onSuggestClick: () => void, onBackupClick: () => void }> = ({ onAdminLoginClick, onExportClick, onSuggestClick, onBackupClick }) => (
     <footer className="bg-gradient-to-br from-primary to-secondary text-white p-8 mt-16 text-center shadow-header">
         <div className="relative z-10 space-y-6">
-            <h3 className="font-inter text-2xl font-bold">तुमचा व्यवसाय वाढवा!</h3>
-            <p className="text-md opacity-90 max-w-lg mx-auto">तुमच्या व्यवसायाची माहिती आमच्या निर्देशिकेत जोडून संपूर्ण गावापर्यंत पोहोचा. नोंदणी प्रक्रिया अगदी सोपी आणि विनामूल्य आहे.</p>
+            <h3 className="font-inter text-2xl font-bold">{t('footer.growTitle')}</h3>
+            <p className="text-md opacity-90 max-w-lg mx-auto">{t('footer.growText')}</p>
             <div className="flex flex-col items-center gap-3">
                  <button
                     onClick={onAdminLoginClick}
                     className="inline-flex items-center gap-3 px-6 py-3 bg-white/20 hover:bg-white/30 text-white rounded-full transition-all transform hover:scale-105 shadow-lg font-semibold"
                 >
                     <i className="fas fa-user-shield text-xl"></i>
-                    <span className="text-lg font-bold">ॲडमिन लॉगिन / व्यवसाय जोडा</span>
+                    <span className="text-lg font-bold">{t('footer.adminLogin')}</span>
+                </button>
+                <button
+                    onClick={onSuggestClick}
+                    className="inline-flex items-center gap-2 px-5 py-2 text-white/90 hover:text-white hover:underline font-semibold"
+                >
+                    <i className="fas fa-lightbulb"></i>
+                    <span>{t('footer.suggest')}</span>
+                </button>
+                <button
+                    onClick={onExportClick}
+                    className="inline-flex items-center gap-2 px-5 py-2 text-white/90 hover:text-white hover:underline font-semibold"
+                >
+                    <i className="fas fa-download"></i>
+                    <span>{t('footer.export')}</span>
+                </button>
+                <button
+                    onClick={onBackupClick}
+                    className="inline-flex items-center gap-2 px-5 py-2 text-white/90 hover:text-white hover:underline font-semibold"
+                >
+                    <i className="fas fa-mobile-screen"></i>
+                    <span>{t('footer.backup')}</span>
                 </button>
             </div>
             <div className="text-sm opacity-80 pt-4">
@@ -414,7 +660,7 @@ const Footer: React.FC<{ onAdminLoginClick: () => void }> = ({ onAdminLoginClick
 
 // --- ADMIN COMPONENTS ---
 
-const LoginModal: React.FC<{ onLoginSuccess: (user: User) => void, onClose: () => void }> = ({ onLoginSuccess, onClose }) => {
+const LoginModal: React.FC<{ onLoginSuccess: (user: User, admin: SupabaseService.AdminProfile) => void, onClose: () => void }> = ({ onLoginSuccess, onClose }) => {
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [error, setError] = useState('');
@@ -426,11 +672,11 @@ const LoginModal: React.FC<{ onLoginSuccess: (user: User) => void, onClose: () =
         setIsLoading(true);
 
         try {
-            const { user } = await SupabaseService.signIn(email, password);
-            onLoginSuccess(user);
+            const { user, adminProfile } = await SupabaseService.signIn(email, password);
+            onLoginSuccess(user, adminProfile);
         } catch (err: any) {
             console.error('Login error:', err);
-            setError(err.message || 'लॉगिन अयशस्वी. कृपया पुन्हा प्रयत्न करा.');
+            setError(err.message || t('login.failed'));
         } finally {
             setIsLoading(false);
         }
@@ -439,13 +685,13 @@ const LoginModal: React.FC<{ onLoginSuccess: (user: User) => void, onClose: () =
     return (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
             <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-sm m-4 p-6" onClick={e => e.stopPropagation()}>
-                <h3 className="font-inter text-2xl font-bold text-primary mb-4 text-center">ॲडमिन लॉगिन</h3>
+                <h3 className="font-inter text-2xl font-bold text-primary mb-4 text-center">{t('login.title')}</h3>
                 <form onSubmit={handleLogin} className="space-y-4">
                     <input 
                         type="email" 
                         value={email} 
                         onChange={e => setEmail(e.target.value)} 
-                        placeholder="ईमेल" 
+                        placeholder={t('login.email')} 
                         className="w-full p-3 border-2 border-border-color rounded-lg" 
                         required 
                         disabled={isLoading}
@@ -454,7 +700,7 @@ const LoginModal: React.FC<{ onLoginSuccess: (user: User) => void, onClose: () =
                         type="password" 
                         value={password} 
                         onChange={e => setPassword(e.target.value)} 
-                        placeholder="पासवर्ड" 
+                        placeholder={t('login.password')} 
                         className="w-full p-3 border-2 border-border-color rounded-lg" 
                         required 
                         disabled={isLoading}
@@ -465,7 +711,7 @@ const LoginModal: React.FC<{ onLoginSuccess: (user: User) => void, onClose: () =
                         disabled={isLoading}
                         className="w-full bg-primary hover:bg-primary/90 text-white font-bold py-3 rounded-lg disabled:opacity-60 disabled:cursor-not-allowed"
                     >
-                        {isLoading ? 'लॉगिन करत आहे...' : 'लॉगिन करा'}
+                        {isLoading ? t('login.submitting') : t('login.submit')}
                     </button>
                 </form>
             </div>
@@ -474,48 +720,96 @@ const LoginModal: React.FC<{ onLoginSuccess: (user: User) => void, onClose: () =
 };
 
 const AdminDashboard: React.FC<{
+    admin: SupabaseService.AdminProfile;
     onAdd: () => void;
+    onImport: () => void;
     onEdit: () => void;
+    onOutbox: () => void;
+    outboxCount: number;
+    onHistory: () => void;
+    onModeration: () => void;
+    pendingSubmissionCount: number;
+    onReviews: () => void;
+    onDataHealth: () => void;
+    onAnalytics: () => void;
+    onMigrateHours: () => void;
+    onManageCategories: () => void;
+    onManageAdmins: () => void;
     onClose: () => void;
     onLogout: () => void;
-}> = ({ onAdd, onEdit, onClose, onLogout }) => (
+}> = ({ admin, onAdd, onImport, onEdit, onOutbox, outboxCount, onHistory, onModeration, pendingSubmissionCount, onReviews, onDataHealth, onAnalytics, onMigrateHours, onManageCategories, onManageAdmins, onClose, onLogout }) => (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
-        <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-sm m-4 p-6 text-center" onClick={e => e.stopPropagation()}>
-            <h3 className="font-inter text-2xl font-bold text-primary mb-6">ॲडमिन पॅनल</h3>
+        <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-sm m-4 p-6 text-center max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+            <h3 className="font-inter text-2xl font-bold text-primary">{t('admin.title')}</h3>
+            <p className="text-sm text-text-secondary mb-6">{admin.display_name} · {roleLabel(admin.role)}</p>
             <div className="space-y-4">
-                <button onClick={onAdd} className="w-full text-lg py-4 px-6 bg-primary text-white font-bold rounded-lg hover:bg-primary/90 transition-all flex items-center justify-center gap-3">
-                    <i className="fas fa-plus-circle"></i> नवीन व्यवसाय जोडा
-                </button>
+                {can(admin, 'business.add') && <button onClick={onAdd} className="w-full text-lg py-4 px-6 bg-primary text-white font-bold rounded-lg hover:bg-primary/90 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-plus-circle"></i> {t('admin.add')}
+                </button>}
+                {can(admin, 'business.import') && <button onClick={onImport} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-file-import"></i> {t('admin.import')}
+                </button>}
                 <button onClick={onEdit} className="w-full text-lg py-4 px-6 bg-secondary text-white font-bold rounded-lg hover:bg-secondary/90 transition-all flex items-center justify-center gap-3">
-                    <i className="fas fa-edit"></i> व्यवसाय संपादित करा
+                    <i className={`fas ${can(admin, 'business.edit') ? 'fa-edit' : 'fa-list'}`}></i> {can(admin, 'business.edit') ? t('admin.edit') : t('admin.list')}
+                </button>
+                <button onClick={onOutbox} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-cloud-upload-alt"></i> {t('admin.outbox')}
+                    {outboxCount > 0 && <span className="bg-primary text-white text-sm px-2 py-0.5 rounded-full">{formatNumber(outboxCount)}</span>}
                 </button>
+                <button onClick={onHistory} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-history"></i> {t('admin.history')}
+                </button>
+                {can(admin, 'submissions.review') && <button onClick={onModeration} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-inbox"></i> {t('admin.moderation')}
+                    {pendingSubmissionCount > 0 && <span className="bg-primary text-white text-sm px-2 py-0.5 rounded-full">{formatNumber(pendingSubmissionCount)}</span>}
+                </button>}
+                {can(admin, 'reviews.moderate') && <button onClick={onReviews} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-star-half-stroke"></i> {t('admin.reviews')}
+                </button>}
+                {can(admin, 'business.edit') && <button onClick={onDataHealth} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-stethoscope"></i> {t('admin.health')}
+                </button>}
+                {can(admin, 'analytics.view') && <button onClick={onAnalytics} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-chart-column"></i> {t('admin.analytics')}
+                </button>}
+                {can(admin, 'maintenance') && <button onClick={onMigrateHours} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-clock"></i> {t('admin.migrateHours')}
+                </button>}
+                {can(admin, 'categories.manage') && <button onClick={onManageCategories} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-layer-group"></i> {t('admin.categories')}
+                </button>}
+                {can(admin, 'admins.manage') && <button onClick={onManageAdmins} className="w-full text-lg py-4 px-6 bg-background text-primary border-2 border-primary font-bold rounded-lg hover:bg-primary/10 transition-all flex items-center justify-center gap-3">
+                    <i className="fas fa-users-cog"></i> {t('admin.admins')}
+                </button>}
                 <button onClick={onLogout} className="w-full text-lg py-4 px-6 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 transition-all flex items-center justify-center gap-3">
-                    <i className="fas fa-sign-out-alt"></i> लॉगआउट
+                    <i className="fas fa-sign-out-alt"></i> {t('admin.logout')}
                 </button>
             </div>
-            <button onClick={onClose} className="mt-6 text-sm text-text-secondary hover:underline">बंद करा</button>
+            <button onClick={onClose} className="mt-6 text-sm text-text-secondary hover:underline">{t('common.close')}</button>
         </div>
     </div>
 );
 
 const EditBusinessList: React.FC<{
+    admin: SupabaseService.AdminProfile;
     businesses: Business[];
     onSelect: (business: Business) => void;
     onDelete: (businessId: string) => void;
+    onHistory: (business: Business) => void;
     onClose: () => void;
     onBack: () => void;
-}> = ({ businesses, onSelect, onDelete, onClose, onBack }) => {
+}> = ({ admin, businesses, onSelect, onDelete, onHistory, onClose, onBack }) => {
     const [deletingId, setDeletingId] = useState<string | null>(null);
 
     const handleDelete = async (businessId: string, businessName: string) => {
-        if (!confirm(`खात्री आहे का की तुम्ही "${businessName}" हटवू इच्छिता?`)) return;
+        if (!confirm(t('admin.deleteConfirm', { name: businessName }))) return;
         
         setDeletingId(businessId);
         try {
             await onDelete(businessId);
         } catch (error) {
             console.error('Delete error:', error);
-            alert('व्यवसाय हटवताना त्रुटी आली');
+            alert(t('admin.deleteFailed'));
         } finally {
             setDeletingId(null);
         }
@@ -525,36 +819,43 @@ const EditBusinessList: React.FC<{
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
             <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-lg m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
                 <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
-                    <h3 className="font-inter text-xl font-bold text-primary">व्यवसाय संपादित करा</h3>
-                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> मागे</button>
+                    <h3 className="font-inter text-xl font-bold text-primary">{t('admin.edit')}</h3>
+                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
                 </header>
                 <ul className="overflow-y-auto p-4 space-y-2">
-                    {businesses.slice().sort((a,b) => a.shopName.localeCompare(b.shopName)).map(b => (
+                    {businesses.slice().sort((a,b) => shopName(a).localeCompare(shopName(b), localeTag())).map(b => (
                         <li key={b.id} className="flex justify-between items-center p-3 bg-background rounded-lg">
                             <div className="flex-1 min-w-0 pr-3">
-                                <p className="font-semibold truncate">{b.shopName}</p>
+                                <p className="font-semibold truncate">{shopName(b)}</p>
                                 <p className="text-sm text-text-secondary truncate">{b.ownerName}</p>
                             </div>
                             <div className="flex gap-2 flex-shrink-0">
                                 <button 
+                                    onClick={() => onHistory(b)} 
+                                    aria-label={t('admin.historyOf')}
+                                    className="px-3 py-2 bg-gray-200 text-text-secondary font-semibold rounded-lg text-sm hover:bg-gray-300"
+                                >
+                                    <i className="fas fa-history"></i>
+                                </button>
+                                {can(admin, 'business.edit', b.category) && <button 
                                     onClick={() => onSelect(b)} 
                                     className="px-3 py-2 bg-secondary text-white font-semibold rounded-lg text-sm hover:bg-secondary/90"
                                 >
-                                    संपादित करा
-                                </button>
-                                <button 
-                                    onClick={() => handleDelete(b.id, b.shopName)}
+                                    {t('common.edit')}
+                                </button>}
+                                {can(admin, 'business.delete', b.category) && <button 
+                                    onClick={() => handleDelete(b.id, shopName(b))}
                                     disabled={deletingId === b.id}
                                     className="px-3 py-2 bg-red-600 text-white font-semibold rounded-lg text-sm hover:bg-red-700 disabled:opacity-60 disabled:cursor-not-allowed"
                                 >
-                                    {deletingId === b.id ? '...' : 'हटवा'}
-                                </button>
+                                    {deletingId === b.id ? '...' : t('common.delete')}
+                                </button>}
                             </div>
                         </li>
                     ))}
                 </ul>
                 <footer className="p-3 border-t border-border-color text-center sticky bottom-0 bg-surface/80 backdrop-blur-sm">
-                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">बंद करा</button>
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
                 </footer>
             </div>
         </div>
@@ -584,13 +885,13 @@ const CustomDropdown: React.FC<CustomDropdownProps> = ({ options, selectedId, on
     return (
         <div className="relative w-full md:col-span-2" ref={dropdownRef}>
             <button type="button" onClick={() => setIsOpen(!isOpen)} className="w-full p-3 border-2 border-border-color rounded-lg text-left bg-surface flex justify-between items-center focus:outline-none focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all">
-                <span className={selectedOption ? 'text-text-primary' : 'text-text-secondary/80'}>{selectedOption ? selectedOption.name : placeholder}</span>
+                <span className={selectedOption ? 'text-text-primary' : 'text-text-secondary/80'}>{selectedOption ? categoryName(selectedOption) : placeholder}</span>
                 <i className={`fas fa-chevron-down text-text-secondary transition-transform duration-300 ${isOpen ? 'rotate-180' : ''}`}></i>
             </button>
             {isOpen && (
                 <ul className="absolute z-20 w-full mt-1 bg-surface border-2 border-border-color rounded-lg shadow-lg max-h-60 overflow-y-auto animate-fadeInUp" style={{ animationDuration: '200ms' }}>
                     {options.map(option => (
-                        <li key={option.id} onClick={() => { onChange(option.id); setIsOpen(false); }} className={`p-3 cursor-pointer hover:bg-primary/10 transition-colors ${selectedId === option.id ? 'bg-primary/10 font-semibold text-primary' : ''}`}>{option.name}</li>
+                        <li key={option.id} onClick={() => { onChange(option.id); setIsOpen(false); }} className={`p-3 cursor-pointer hover:bg-primary/10 transition-colors ${selectedId === option.id ? 'bg-primary/10 font-semibold text-primary' : ''}`}>{categoryName(option)}</li>
                     ))}
                 </ul>
             )}
@@ -599,25 +900,34 @@ const CustomDropdown: React.FC<CustomDropdownProps> = ({ options, selectedId, on
 };
 
 const BusinessForm: React.FC<{ 
+    admin: SupabaseService.AdminProfile,
     categories: Category[], 
     onClose: () => void, 
     onSave: (business: Business) => void,
     existingBusiness: Business | null,
     isSaving: boolean
-}> = ({ categories, onClose, onSave, existingBusiness, isSaving }) => {
-    const [formData, setFormData] = useState<Omit<Partial<Business>, 'services'> & { services?: string }>({});
+}> = ({ admin, categories, onClose, onSave, existingBusiness, isSaving }) => {
+    const [formData, setFormData] = useState<Omit<Partial<Business>, 'services' | 'tags'> & { services?: string; tags?: string }>({});
     const [formMessage, setFormMessage] = useState('');
-    const isEditing = !!existingBusiness;
+    const [contactErrors, setContactErrors] = useState<Array<string | null>>([]);
+    const isEditing = !!existingBusiness?.id;
+    const categoryOptions = useMemo(() => allowedCategories(admin, categories), [admin, categories]);
 
     useEffect(() => {
         if (existingBusiness) {
             setFormData({
                 ...existingBusiness,
+                schedule: getBusinessSchedule(existingBusiness) || undefined,
+                latitude: existingBusiness.latitude,
+                longitude: existingBusiness.longitude,
                 services: existingBusiness.services ? existingBusiness.services.join(', ') : '',
+                tags: existingBusiness.tags ? existingBusiness.tags.join(', ') : '',
+                contacts: businessContacts(existingBusiness).map(c => ({ ...c, number: formatPhoneNumber(c.number) })),
             });
         } else {
-             setFormData({ paymentOptions: [], category: '' });
+             setFormData({ paymentOptions: [], category: '', extraCategories: [], contacts: [] });
         }
+        setContactErrors([]);
     }, [existingBusiness]);
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -634,21 +944,50 @@ const BusinessForm: React.FC<{
             setFormData({ ...formData, paymentOptions: newOptions });
         }
     };
+
+    const toggleExtraCategory = (categoryId: string) => {
+        const current = formData.extraCategories || [];
+        setFormData({
+            ...formData,
+            extraCategories: current.includes(categoryId) ? current.filter(id => id !== categoryId) : [...current, categoryId],
+        });
+    };
     
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
+        const rows = formData.contacts?.length ? formData.contacts : [{ kind: 'mobile' as const, number: '' }];
+        const { contacts, errors } = checkContacts(rows);
+        if (errors.some(Boolean)) {
+            setFormData({ ...formData, contacts: rows });
+            setContactErrors(errors);
+            return;
+        }
+        const schedule = formData.schedule || parseOpeningHours(formData.openingHours) || undefined;
         const businessToSave: Business = {
             id: existingBusiness?.id || '',
             shopName: formData.shopName || '',
+            shopNameTranslations: cleanTranslations(formData.shopNameTranslations),
             ownerName: formData.ownerName || '',
-            contactNumber: formData.contactNumber || '',
+            contactNumber: primaryContactNumber(contacts),
+            contacts,
             category: formData.category || 'other',
+            extraCategories: (formData.extraCategories || []).filter(id => id !== formData.category),
+            tags: typeof formData.tags === 'string' ? formData.tags.split(',').map(s => s.trim()).filter(Boolean) : [],
+            updatedAt: existingBusiness?.updatedAt,
             address: formData.address,
-            openingHours: formData.openingHours,
+            openingHours: formData.openingHours || (schedule ? formatSchedule(schedule) : undefined),
+            schedule,
+            latitude: formData.latitude,
+            longitude: formData.longitude,
             homeDelivery: formData.homeDelivery,
             paymentOptions: formData.paymentOptions,
+            photos: formData.photos || [],
             services: typeof formData.services === 'string' ? formData.services.split(',').map(s => s.trim()).filter(Boolean) : [],
         };
+        if (!can(admin, isEditing ? 'business.edit' : 'business.add', businessToSave.category)) {
+            alert(t('form.noPermission'));
+            return;
+        }
         onSave(businessToSave);
     };
     
@@ -657,20 +996,73 @@ const BusinessForm: React.FC<{
     return (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
             <form onSubmit={handleSubmit} className="bg-surface rounded-xl shadow-xl w-11/12 max-w-2xl m-4 p-6 max-h-[90vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
-                <h3 className="font-inter text-2xl font-bold text-primary mb-6 text-center">{isEditing ? 'व्यवसाय अपडेट करा' : 'नवीन व्यवसाय जोडा'}</h3>
+                <h3 className="font-inter text-2xl font-bold text-primary mb-6 text-center">{isEditing ? t('form.titleEdit') : t('form.titleAdd')}</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <input name="shopName" value={formData.shopName || ''} onChange={handleChange} placeholder="दुकानाचे नाव" className={inputStyles} required disabled={isSaving} />
-                    <input name="ownerName" value={formData.ownerName || ''} onChange={handleChange} placeholder="मालकाचे नाव" className={inputStyles} required disabled={isSaving} />
-                    <input name="contactNumber" type="tel" value={formData.contactNumber || ''} onChange={handleChange} placeholder="संपर्क क्रमांक" className={`${inputStyles} md:col-span-2`} required disabled={isSaving} />
-                    <CustomDropdown options={categories} selectedId={formData.category} onChange={id => setFormData({...formData, category: id})} placeholder="श्रेणी निवडा" />
-                    <textarea name="address" value={formData.address || ''} onChange={handleChange} placeholder="पत्ता" className={`${inputStyles} md:col-span-2`} disabled={isSaving} />
-                    <input name="openingHours" value={formData.openingHours || ''} onChange={handleChange} placeholder="उघडण्याची वेळ (उदा. सकाळी १० ते रात्री ९)" className={`${inputStyles} md:col-span-2`} disabled={isSaving} />
-                    <textarea name="services" value={formData.services || ''} onChange={handleChange} placeholder="सेवा/उत्पादने (कॉमाने वेगळे करा)" className={`${inputStyles} md:col-span-2`} disabled={isSaving} />
+                    <input name="shopName" value={formData.shopName || ''} onChange={handleChange} placeholder={t('form.shopName')} className={inputStyles} required disabled={isSaving} />
+                    <input name="ownerName" value={formData.ownerName || ''} onChange={handleChange} placeholder={t('form.ownerName')} className={inputStyles} required disabled={isSaving} />
+                    <div className="md:col-span-2">
+                        <p className="text-sm font-semibold text-text-secondary mb-2">{t('common.translatedNames')}</p>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            {TRANSLATION_LOCALES.map(({ locale, label }) => (
+                                <input
+                                    key={locale}
+                                    lang={locale}
+                                    value={formData.shopNameTranslations?.[locale] || ''}
+                                    onChange={e => setFormData({ ...formData, shopNameTranslations: { ...formData.shopNameTranslations, [locale]: e.target.value } })}
+                                    placeholder={`${t('form.shopName')} · ${label}`}
+                                    className={inputStyles}
+                                    disabled={isSaving}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                    <ContactNumbersEditor
+                        contacts={formData.contacts?.length ? formData.contacts : [{ kind: 'mobile', number: '' }]}
+                        errors={contactErrors}
+                        onChange={(contacts, errors) => { setFormData(prev => ({ ...prev, contacts })); setContactErrors(errors); }}
+                        disabled={isSaving}
+                    />
+                    <CustomDropdown options={categoryOptions} selectedId={formData.category} onChange={id => setFormData({...formData, category: id})} placeholder={t('form.category')} />
+                    <div className="md:col-span-2">
+                        <p className="text-sm font-semibold text-text-secondary mb-2">{t('form.extraCategories')}</p>
+                        <div className="flex flex-wrap gap-2">
+                            {categories.filter(c => c.id !== formData.category).map(category => {
+                                const selected = formData.extraCategories?.includes(category.id);
+                                return (
+                                    <button
+                                        key={category.id}
+                                        type="button"
+                                        onClick={() => toggleExtraCategory(category.id)}
+                                        disabled={isSaving}
+                                        className={`px-2 py-1 text-xs rounded-full border transition-colors ${selected ? 'bg-primary text-white border-primary' : 'bg-surface border-border-color hover:border-primary'}`}
+                                    >
+                                        <i className={`${category.icon} mr-1`}></i>{categoryName(category)}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                    <textarea name="address" value={formData.address || ''} onChange={handleChange} placeholder={t('form.address')} className={`${inputStyles} md:col-span-2`} disabled={isSaving} />
+                    <input name="openingHours" value={formData.openingHours || ''} onChange={handleChange} placeholder={t('form.openingHours')} className={`${inputStyles} md:col-span-2`} disabled={isSaving} />
+                    <OpeningHoursEditor schedule={formData.schedule} text={formData.openingHours} onChange={schedule => setFormData({ ...formData, schedule })} disabled={isSaving} />
+                    <LocationPicker
+                        value={formData.latitude !== undefined && formData.longitude !== undefined ? { latitude: formData.latitude, longitude: formData.longitude } : null}
+                        onChange={location => setFormData(prev => ({ ...prev, latitude: location?.latitude, longitude: location?.longitude }))}
+                        disabled={isSaving}
+                    />
+                    <textarea name="services" value={formData.services || ''} onChange={handleChange} placeholder={t('form.services')} className={`${inputStyles} md:col-span-2`} disabled={isSaving} />
+                    <input name="tags" value={formData.tags || ''} onChange={handleChange} placeholder={t('form.tags')} className={`${inputStyles} md:col-span-2`} disabled={isSaving} />
+                    <PhotoUploader
+                        photos={formData.photos || []}
+                        businessId={existingBusiness?.id}
+                        onChange={photos => setFormData(prev => ({ ...prev, photos }))}
+                        disabled={isSaving}
+                    />
                 </div>
                 <div className="flex flex-wrap gap-6 my-4">
-                   <label className="flex items-center gap-2"><input type="checkbox" name="homeDelivery" checked={formData.homeDelivery || false} onChange={handleCheckboxChange} disabled={isSaving} /> होम डिलिव्हरी</label>
+                   <label className="flex items-center gap-2"><input type="checkbox" name="homeDelivery" checked={formData.homeDelivery || false} onChange={handleCheckboxChange} disabled={isSaving} /> {t('form.homeDelivery')}</label>
                    <fieldset className="flex items-center gap-4">
-                      <legend className="mr-2 font-semibold">पेमेंट:</legend>
+                      <legend className="mr-2 font-semibold">{t('form.payment')}</legend>
                       <label className="flex items-center gap-1"><input type="checkbox" value="UPI" checked={formData.paymentOptions?.includes('UPI') || false} onChange={handleCheckboxChange} disabled={isSaving} /> UPI</label>
                       <label className="flex items-center gap-1"><input type="checkbox" value="Cash" checked={formData.paymentOptions?.includes('Cash') || false} onChange={handleCheckboxChange} disabled={isSaving} /> Cash</label>
                       <label className="flex items-center gap-1"><input type="checkbox" value="Card" checked={formData.paymentOptions?.includes('Card') || false} onChange={handleCheckboxChange} disabled={isSaving} /> Card</label>
@@ -678,7 +1070,7 @@ const BusinessForm: React.FC<{
                 </div>
                 {formMessage && <p className="text-center text-green-600 mb-4 font-bold">{formMessage}</p>}
                 <button type="submit" disabled={isSaving} className="w-full bg-primary hover:bg-primary/90 text-white font-bold py-3 rounded-lg disabled:opacity-60 disabled:cursor-not-allowed">
-                    {isSaving ? 'सेव्ह करत आहे...' : (isEditing ? 'अपडेट करा' : 'व्यवसाय जोडा')}
+                    {isSaving ? t('form.saving') : (isEditing ? t('form.submitEdit') : t('form.submitAdd'))}
                 </button>
             </form>
         </div>
@@ -688,18 +1080,89 @@ const BusinessForm: React.FC<{
 // --- MAIN APP ---
 
 const App: React.FC = () => {
+    // Re-render the whole tree in the new language
+    const locale = useLocale();
     const [isLoading, setIsLoading] = useState<boolean>(true);
     const [businessData, setBusinessData] = useState<BusinessData>({ categories: [], businesses: [] });
     const [searchTerm, setSearchTerm] = useState<string>('');
     const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+    const [selectedTag, setSelectedTag] = useState<string | null>(null);
     const [viewedBusiness, setViewedBusiness] = useState<Business | null>(null);
+    const [favoriteIds, setFavoriteIds] = useState<string[]>([]);
+    const [recentIds, setRecentIds] = useState<string[]>([]);
+    const [notes, setNotes] = useState<Record<string, string>>({});
+    const [contactPrompt, setContactPrompt] = useState<{ business: Business; channel: ContactChannel } | null>(null);
+    const [reviewFormFor, setReviewFormFor] = useState<string | null>(null); // Business id
+    const pendingContactRef = useRef<PendingContact | null>(null);
+    const [showExport, setShowExport] = useState(false);
+    const [showBackup, setShowBackup] = useState(false);
+    const [openNowOnly, setOpenNowOnly] = useState(false);
+    const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+    const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
+    const [sortByNearest, setSortByNearest] = useState(false);
+    const [sortByTopRated, setSortByTopRated] = useState(false);
+    const [isLocating, setIsLocating] = useState(false);
+    const [now, setNow] = useState(() => new Date());
     
     // Admin state
     const [currentUser, setCurrentUser] = useState<User | null>(null);
+    const [currentAdmin, setCurrentAdmin] = useState<SupabaseService.AdminProfile | null>(null);
     const [showLogin, setShowLogin] = useState(false);
-    const [adminView, setAdminView] = useState<'dashboard' | 'add' | 'edit-list' | null>(null);
+    const [adminView, setAdminView] = useState<'dashboard' | 'add' | 'edit-list' | 'outbox' | 'history' | 'import' | 'moderation' | 'admins' | 'categories' | 'reviews' | 'health' | 'analytics' | null>(null);
+    // Where the business form goes back to after editing
+    const [editReturnView, setEditReturnView] = useState<'edit-list' | 'health'>('edit-list');
     const [businessToEdit, setBusinessToEdit] = useState<Business | null>(null);
+    const [historyBusiness, setHistoryBusiness] = useState<Business | null>(null);
+    const [submissionToReview, setSubmissionToReview] = useState<SupabaseService.DbSubmission | null>(null);
+    const [pendingSubmissionCount, setPendingSubmissionCount] = useState(0);
+    const [suggestionTarget, setSuggestionTarget] = useState<{ business: Business | null } | null>(null);
     const [isSaving, setIsSaving] = useState(false);
+    const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+    const [conflictEntry, setConflictEntry] = useState<OutboxEntry | null>(null);
+    const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+
+    // Re-read businesses from the local cache after optimistic admin writes
+    const reloadBusinessesFromCache = useCallback(async () => {
+        const CacheService = await import('./cacheService');
+        const businesses = await CacheService.getCachedBusinesses();
+        setBusinessData(prev => ({ ...prev, businesses }));
+    }, []);
+
+    // Keep open/closed badges current
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    // Load this device's favourites, recently viewed and notes
+    const loadPersonalData = useCallback(async () => {
+        try {
+            const CacheService = await import('./cacheService');
+            const [favorites, recents, savedNotes] = await Promise.all([
+                CacheService.getFavoriteIds(),
+                CacheService.getRecentIds(),
+                CacheService.getNotes(),
+            ]);
+            setFavoriteIds(favorites);
+            setRecentIds(recents);
+            setNotes(savedNotes);
+        } catch (error) {
+            console.warn('⚠️ Could not load personal data:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadPersonalData();
+    }, [loadPersonalData]);
+
+    // Every opened business goes to the top of "recently viewed"
+    useEffect(() => {
+        if (!viewedBusiness) return;
+        (async () => {
+            const CacheService = await import('./cacheService');
+            setRecentIds(await CacheService.addRecent(viewedBusiness.id));
+        })().catch(error => console.warn('⚠️ Could not save recent view:', error));
+    }, [viewedBusiness?.id]);
 
     // Load initial data
     useEffect(() => {
@@ -717,7 +1180,7 @@ const App: React.FC = () => {
                 if (cachedData[0].length > 0) {
                     // Show cached data immediately
                     setBusinessData({
-                        categories: cachedData[1].sort((a, b) => a.name.localeCompare(b.name)),
+                        categories: sortCategories(cachedData[1]),
                         businesses: cachedData[0]
                     });
                     setIsLoading(false);
@@ -740,14 +1203,20 @@ const App: React.FC = () => {
                             SupabaseService.fetchBusinesses()
                         ]);
                         return { categories, businesses };
-                    }
+                    },
+                    // Fetch only changes since the local version
+                    SupabaseService.fetchBusinessChanges
                 );
 
+                // Fill the thumbnail cache in the background so cards have photos offline
+                CacheService.prefetchThumbnails(syncResult.businesses)
+                    .catch(error => console.warn('⚠️ Thumbnail prefetch failed:', error));
+
                 // Update UI with fresh data if sync happened
                 if (syncResult.action !== 'no_change') {
                     console.log(`📱 Data ${syncResult.fromCache ? 'from cache' : 'synced from server'}`);
                     setBusinessData({
-                        categories: syncResult.categories.sort((a, b) => a.name.localeCompare(b.name)),
+                        categories: sortCategories(syncResult.categories),
                         businesses: syncResult.businesses
                     });
                 }
@@ -768,14 +1237,15 @@ const App: React.FC = () => {
                 // Check for existing session
                 const user = await SupabaseService.getCurrentUser();
                 if (user) {
-                    const isAdmin = await SupabaseService.isUserAdmin(user.id);
-                    if (isAdmin) {
+                    const adminProfile = await SupabaseService.loadAdminProfile(user.id);
+                    if (adminProfile) {
                         setCurrentUser(user);
+                        setCurrentAdmin(adminProfile);
                     }
                 }
             } catch (error) {
                 console.error('Error loading data:', error);
-                alert('डेटा लोड करताना त्रुटी आली. पेज रीफ्रेश करा.');
+                alert(t('app.loadError'));
             } finally {
                 setIsLoading(false);
             }
@@ -796,7 +1266,8 @@ const App: React.FC = () => {
                 await CacheService.updateCachedBusiness(newBusiness);
                 setBusinessData(prev => ({
                     ...prev,
-                    businesses: [newBusiness, ...prev.businesses]
+                    // Our own replayed adds may already be in state
+                    businesses: [newBusiness, ...prev.businesses.filter(b => b.id !== newBusiness.id)]
                 }));
             } else if (payload.eventType === 'UPDATE' && payload.new) {
                 const updatedBusiness = SupabaseService.dbBusinessToBusiness(payload.new);
@@ -832,9 +1303,64 @@ const App: React.FC = () => {
         };
     }, []);
 
+    // Offline admin queue: track entries and replay when the connection returns
+    useEffect(() => {
+        let unsubscribeOutbox = () => {};
+        let removeOnline = () => {};
+        let removeOffline = () => {};
+        let stopAnalytics = () => {};
+
+        const replay = async () => {
+            const OutboxService = await import('./outboxService');
+            await OutboxService.replayOutbox();
+            await reloadBusinessesFromCache();
+        };
+
+        // Background sync waits for the answer and is retried unless every edit went out
+        const handleSwMessage = async (event: MessageEvent) => {
+            if (!event.data || event.data.type !== 'REPLAY_OUTBOX') return;
+            const reply = event.ports[0];
+            try {
+                await replay();
+                const CacheService = await import('./cacheService');
+                const unsent = (await CacheService.getOutboxEntries()).filter(e => e.status === 'pending').length;
+                reply?.postMessage(unsent === 0 ? { ok: true } : { ok: false, error: `${unsent} changes still unsent` });
+            } catch (error: any) {
+                reply?.postMessage({ ok: false, error: error?.message || String(error) });
+            }
+        };
+
+        (async () => {
+            const [CacheService, OutboxService, Analytics] = await Promise.all([
+                import('./cacheService'),
+                import('./outboxService'),
+                import('./analytics'),
+            ]);
+            unsubscribeOutbox = OutboxService.subscribeToOutbox(setOutboxEntries);
+            stopAnalytics = Analytics.startUsageAnalytics();
+            removeOnline = CacheService.onOnline(() => {
+                setIsOnline(true);
+                replay();
+            });
+            removeOffline = CacheService.onOffline(() => setIsOnline(false));
+            if (CacheService.isOnline()) replay();
+        })();
+
+        navigator.serviceWorker?.addEventListener('message', handleSwMessage);
+
+        return () => {
+            unsubscribeOutbox();
+            removeOnline();
+            removeOffline();
+            stopAnalytics();
+            navigator.serviceWorker?.removeEventListener('message', handleSwMessage);
+        };
+    }, [reloadBusinessesFromCache]);
+
     const handleCategorySelect = useCallback((categoryId: string | null) => {
         setSelectedCategory(categoryId);
         if (categoryId !== null) {
+          track(Analytics => Analytics.trackCategory(categoryId));
           const businessListElement = document.getElementById('business-list-anchor');
           if (businessListElement) {
               businessListElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
@@ -842,11 +1368,93 @@ const App: React.FC = () => {
         }
     }, []);
     
+    const handleTagSelect = useCallback((tag: string | null) => {
+        setSelectedTag(tag);
+        if (tag !== null) {
+            document.getElementById('business-list-anchor')?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }
+    }, []);
+
+    // Location is only requested once the visitor asks for distance sorting
+    const handleToggleNearest = async () => {
+        if (sortByNearest) {
+            setSortByNearest(false);
+            return;
+        }
+        setIsLocating(true);
+        try {
+            setUserLocation(await getCurrentPosition());
+            setSortByNearest(true);
+            setSortByTopRated(false);
+        } catch (error: any) {
+            alert(error.message);
+        } finally {
+            setIsLocating(false);
+        }
+    };
+
+    const handleToggleTopRated = () => {
+        setSortByTopRated(!sortByTopRated);
+        setSortByNearest(false);
+    };
+
+    // --- Call Feedback ---
+    const handleContact = (business: Business, channel: ContactChannel) => {
+        pendingContactRef.current = { businessId: business.id, channel, startedAt: Date.now() };
+        track(Analytics => Analytics.trackContact(business.id, channel));
+    };
+
+    // Coming back from the dialer or WhatsApp: ask whether the number worked
+    useEffect(() => {
+        const handleVisibilityChange = () => {
+            const contact = pendingContactRef.current;
+            if (document.visibilityState !== 'visible' || !contact) return;
+            pendingContactRef.current = null;
+            const business = businessData.businesses.find(b => b.id === contact.businessId);
+            if (business && shouldAskAboutContact(contact)) {
+                setContactPrompt({ business, channel: contact.channel });
+            }
+        };
+        document.addEventListener('visibilitychange', handleVisibilityChange);
+        return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }, [businessData.businesses]);
+
+    const handleCallAnswer = async (numberCorrect: boolean) => {
+        if (!contactPrompt) return;
+        const { business } = contactPrompt;
+        setContactPrompt(null);
+        rememberCallCheck(business.id);
+        try {
+            await SupabaseService.submitCallCheck(business.id, numberCorrect, getDeviceId());
+        } catch (error) {
+            // Losing one answer is fine; don't bother the visitor about it
+            console.warn('⚠️ Call feedback not sent:', error);
+        }
+        if (!numberCorrect && confirm(t('admin.wrongNumberSuggest'))) {
+            setSuggestionTarget({ business });
+        }
+    };
+
+    const handleRateFromPrompt = () => {
+        if (!contactPrompt) return;
+        setViewedBusiness(contactPrompt.business);
+        setReviewFormFor(contactPrompt.business.id);
+        setContactPrompt(null);
+    };
+
+    useEffect(() => {
+        if (adminView !== 'dashboard' || !can(currentAdmin, 'submissions.review')) return;
+        SupabaseService.countPendingSubmissions()
+            .then(setPendingSubmissionCount)
+            .catch(error => console.error('Pending submissions count error:', error));
+    }, [adminView, currentAdmin]);
+
     // --- Admin Handlers ---
     const handleAdminLoginClick = () => setShowLogin(true);
     
-    const handleLoginSuccess = (user: User) => {
+    const handleLoginSuccess = (user: User, admin: SupabaseService.AdminProfile) => {
         setCurrentUser(user);
+        setCurrentAdmin(admin);
         setShowLogin(false);
         setAdminView('dashboard');
     };
@@ -855,11 +1463,12 @@ const App: React.FC = () => {
         try {
             await SupabaseService.signOut();
             setCurrentUser(null);
+            setCurrentAdmin(null);
             setAdminView(null);
-            alert('तुम्ही यशस्वीरित्या लॉगआउट झाला आहात.');
+            alert(t('admin.loggedOut'));
         } catch (error) {
             console.error('Logout error:', error);
-            alert('लॉगआउट करताना त्रुटी आली.');
+            alert(t('admin.logoutFailed'));
         }
     };
 
@@ -868,78 +1477,286 @@ const App: React.FC = () => {
         setBusinessToEdit(null); 
     };
 
+    // Report how an outbox write ended. Returns false when a conflict dialog
+    // was opened instead; throws when the server rejected the write.
+    const reportOutboxResult = (entry: OutboxEntry | undefined, successMessage: string): boolean => {
+        if (entry?.status === 'failed' && entry.conflict) {
+            // Someone else saved first - let the admin merge the two versions
+            setConflictEntry(entry);
+            return false;
+        }
+        if (entry?.status === 'failed') {
+            throw new Error(entry.error);
+        }
+        alert(entry?.status === 'pending'
+            ? t('admin.savedOffline')
+            : successMessage);
+        return true;
+    };
+
     const handleSaveBusiness = async (businessToSave: Business) => {
         setIsSaving(true);
         try {
-            if (businessToSave.id) {
-                // Update existing
-                await SupabaseService.updateBusiness(businessToSave);
-                alert('व्यवसाय यशस्वीरित्या अपडेट झाला!');
-            } else {
-                // Add new
-                await SupabaseService.addBusiness(businessToSave);
-                alert('व्यवसाय यशस्वीरित्या जोडला गेला!');
-            }
-
-            // Reload businesses
-            const businesses = await SupabaseService.fetchBusinesses();
-            setBusinessData(prev => ({ ...prev, businesses }));
+            const OutboxService = await import('./outboxService');
+            // Files of photos taken off the business stay in the bucket: older
+            // versions in the change history still point at them.
+            const entry = await OutboxService.saveBusiness(businessToSave);
+            await reloadBusinessesFromCache();
+
+            const saved = reportOutboxResult(entry, businessToSave.id
+                ? t('admin.updated')
+                : t('admin.added'));
+            if (!saved) return;
             
-            setAdminView('dashboard');
+            setAdminView(businessToEdit && editReturnView === 'health' ? 'health' : 'dashboard');
             setBusinessToEdit(null);
         } catch (error: any) {
             console.error('Save error:', error);
-            alert(`व्यवसाय सेव्ह करताना त्रुटी: ${error.message}`);
+            alert(t('admin.saveFailed', { error: error.message }));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleResolveConflict = async (merged: Partial<SupabaseService.DbBusiness>) => {
+        if (!conflictEntry) return;
+        setIsSaving(true);
+        try {
+            const OutboxService = await import('./outboxService');
+            const business = SupabaseService.dbBusinessToBusiness(merged as SupabaseService.DbBusiness);
+            const entry = await OutboxService.resolveConflict(conflictEntry, business);
+            await reloadBusinessesFromCache();
+
+            // The server may have changed yet again while merging
+            if (!reportOutboxResult(entry, t('admin.updated'))) return;
+            setConflictEntry(null);
+            if (adminView === 'add') {
+                setAdminView('dashboard');
+                setBusinessToEdit(null);
+            }
+        } catch (error: any) {
+            console.error('Conflict resolve error:', error);
+            alert(t('admin.saveFailed', { error: error.message }));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    // Leaving the dialog keeps the failed entry but stops showing the rejected edit
+    const handleCancelConflict = async () => {
+        if (!conflictEntry) return;
+        const entry = conflictEntry;
+        setConflictEntry(null);
+        try {
+            const OutboxService = await import('./outboxService');
+            await OutboxService.showServerVersion(entry);
+            await reloadBusinessesFromCache();
+        } catch (error) {
+            console.error('Conflict cancel error:', error);
+        }
+    };
+
+    // Re-apply the state a business had before an audited change
+    const handleRestoreVersion = async (log: SupabaseService.AuditLog) => {
+        try {
+            const OutboxService = await import('./outboxService');
+            const restored = SupabaseService.dbBusinessToBusiness(log.old_data);
+            const current = businessData.businesses.find(b => b.id === log.business_id);
+
+            const entry = current
+                ? await OutboxService.saveBusiness({ ...restored, id: current.id, updatedAt: current.updatedAt })
+                : await OutboxService.restoreBusiness({ ...restored, id: log.business_id });
+            await reloadBusinessesFromCache();
+
+            reportOutboxResult(entry, current
+                ? t('admin.versionRestored')
+                : t('admin.businessRestored'));
+        } catch (error: any) {
+            console.error('Restore error:', error);
+            alert(t('admin.restoreFailed', { error: error.message }));
+        }
+    };
+
+    // Apply a reviewed suggestion straight to the server; moderation needs a connection anyway
+    const handleApproveSubmission = async (submission: SupabaseService.DbSubmission, business: Business) => {
+        setIsSaving(true);
+        try {
+            const CacheService = await import('./cacheService');
+            const saved = await SupabaseService.approveSubmission(submission, business);
+            await CacheService.applyCachedBusinessChanges([saved], []);
+            await reloadBusinessesFromCache();
+            alert(submission.kind === 'new' ? t('admin.approvedNew') : t('admin.approvedUpdate'));
+            setSubmissionToReview(null);
+        } catch (error: any) {
+            console.error('Approve submission error:', error);
+            alert(t('admin.approveFailed', { error: error.message }));
         } finally {
             setIsSaving(false);
         }
     };
 
+    // Category edits go straight to the server; refetch so cache and state match it
+    const handleCategoriesChanged = async () => {
+        const CacheService = await import('./cacheService');
+        const categories = await SupabaseService.fetchCategories();
+        await CacheService.setCachedCategories(categories);
+        setBusinessData(prev => ({ ...prev, categories: sortCategories(categories) }));
+    };
+
+    const handleCategoriesMerged = async (movedBusinesses: Business[]) => {
+        const CacheService = await import('./cacheService');
+        await CacheService.applyCachedBusinessChanges(movedBusinesses, []);
+        await reloadBusinessesFromCache();
+        await handleCategoriesChanged();
+    };
+
+    const handleMigrateOpeningHours = async () => {
+        if (!confirm(t('admin.migrateConfirm'))) return;
+        try {
+            const { migrated, unparsed } = await SupabaseService.migrateOpeningHours();
+            const skipped = unparsed.length > 0
+                ? `\n\n${t('admin.migrateUnparsed')}\n${unparsed.map(b => `• ${b.shop_name}: ${b.opening_hours}`).join('\n')}`
+                : '';
+            alert(`${t('admin.migrated', { count: migrated })}${skipped}`);
+        } catch (error: any) {
+            console.error('Opening hours migration error:', error);
+            alert(t('admin.migrateFailed', { error: error.message }));
+        }
+    };
+
+    // Bulk import sends each batch straight to the server in one insert
+    const handleImportBatch = async (businesses: Business[]) => {
+        const CacheService = await import('./cacheService');
+        const saved = await SupabaseService.addBusinesses(businesses);
+        await CacheService.applyCachedBusinessChanges(saved, []);
+        await reloadBusinessesFromCache();
+    };
+
     const handleDeleteBusiness = async (businessId: string) => {
+        const business = businessData.businesses.find(b => b.id === businessId);
+        if (!business) return;
+
         try {
-            await SupabaseService.deleteBusiness(businessId);
-            
-            // Reload businesses
-            const businesses = await SupabaseService.fetchBusinesses();
-            setBusinessData(prev => ({ ...prev, businesses }));
+            const OutboxService = await import('./outboxService');
+            const entry = await OutboxService.deleteBusiness(business);
+            await reloadBusinessesFromCache();
             
-            alert('व्यवसाय यशस्वीरित्या हटवला!');
+            if (entry?.status === 'failed') throw new Error(entry.error);
+            alert(entry?.status === 'pending'
+                ? t('admin.deletedOffline')
+                : t('admin.deleted'));
         } catch (error: any) {
             console.error('Delete error:', error);
             throw error;
         }
     };
 
+    const handleToggleFavorite = async (business: Business) => {
+        const isFavorite = !favoriteIds.includes(business.id);
+        setFavoriteIds(prev => isFavorite ? [...prev, business.id] : prev.filter(id => id !== business.id));
+        try {
+            const CacheService = await import('./cacheService');
+            await CacheService.setFavorite(business.id, isFavorite);
+        } catch (error) {
+            console.error('Favorite save error:', error);
+            setFavoriteIds(prev => isFavorite ? prev.filter(id => id !== business.id) : [...prev, business.id]);
+        }
+    };
+
+    const handleClearRecents = async () => {
+        const CacheService = await import('./cacheService');
+        await CacheService.clearRecents();
+        setRecentIds([]);
+    };
+
+    const handleSaveNote = async (businessId: string, text: string) => {
+        const CacheService = await import('./cacheService');
+        await CacheService.setNote(businessId, text);
+        setNotes(prev => {
+            const { [businessId]: _, ...rest } = prev;
+            return text.trim() ? { ...rest, [businessId]: text.trim() } : rest;
+        });
+    };
+
+    // The business a suggestion would produce, for editing before approval
+    const reviewedBusiness = useMemo(
+        () => submissionToReview
+            ? SupabaseService.submissionToBusiness(submissionToReview, businessData.businesses.find(b => b.id === submissionToReview.business_id))
+            : null,
+        [submissionToReview, businessData.businesses]
+    );
+
+    const searchIndex = useMemo(
+        () => buildSearchIndex(businessData.businesses, businessData.categories),
+        // The index holds names in the current language
+        [businessData.businesses, businessData.categories, locale]
+    );
+
+    const searchHits = useMemo(
+        () => (searchTerm.trim() ? searchBusinesses(searchIndex, searchTerm) : []),
+        [searchIndex, searchTerm]
+    );
+
+    const searchHighlights = useMemo(() => {
+        return searchHits.reduce((acc, hit) => {
+            acc[hit.business.id] = hit.highlights;
+            return acc;
+        }, {} as Record<string, SearchHighlights>);
+    }, [searchHits]);
+
+    const distances = useMemo(
+        () => (userLocation ? distancesFrom(businessData.businesses, userLocation) : {}),
+        [businessData.businesses, userLocation]
+    );
+
     const filteredBusinesses = useMemo(() => {
         const baseList = businessData.businesses;
-        const searchTermLower = searchTerm.toLowerCase();
 
+        let list = baseList;
         if (searchTerm) {
-            return baseList.filter(business =>
-                business.shopName.toLowerCase().includes(searchTermLower) ||
-                business.ownerName.toLowerCase().includes(searchTermLower) ||
-                business.contactNumber.includes(searchTermLower)
-            );
+            // Already ranked best match first
+            list = searchHits.map(hit => hit.business);
+        } else {
+            if (selectedCategory) list = list.filter(business => isInCategory(business, selectedCategory));
+            if (selectedTag) list = list.filter(business => hasTag(business, selectedTag));
         }
 
-        if (selectedCategory) {
-            return baseList.filter(business => business.category === selectedCategory);
-        }
+        if (openNowOnly) list = list.filter(business => isOpenNow(business, now));
+        if (sortByNearest) return sortByDistance(list, distances);
+        return sortByTopRated ? sortByRating(list) : list;
+    }, [businessData.businesses, searchTerm, searchHits, selectedCategory, selectedTag, openNowOnly, now, sortByNearest, sortByTopRated, distances]);
 
-        return baseList;
-    }, [businessData.businesses, searchTerm, selectedCategory]);
+    // Searches that find nothing show which trades are missing from the directory
+    const lastTrackedSearchRef = useRef('');
+    useEffect(() => {
+        const query = searchTerm.trim();
+        if (query.length < 2 || query === lastTrackedSearchRef.current) return;
+        const timer = setTimeout(() => {
+            lastTrackedSearchRef.current = query;
+            track(Analytics => Analytics.trackSearch(query, filteredBusinesses.length));
+        }, SEARCH_SETTLE_MS);
+        return () => clearTimeout(timer);
+    }, [searchTerm, filteredBusinesses.length]);
 
-    const businessCounts = useMemo(() => {
-        return businessData.businesses.reduce((acc, business) => {
-            acc[business.category] = (acc[business.category] || 0) + 1;
-            return acc;
-        }, {} as Record<string, number>);
-    }, [businessData.businesses]);
+    const businessCounts = useMemo(() => countByCategory(businessData.businesses), [businessData.businesses]);
+
+    const tags = useMemo(() => collectTags(businessData.businesses), [businessData.businesses]);
+
+    const favoriteIdSet = useMemo(() => new Set(favoriteIds), [favoriteIds]);
+
+    // Ids of businesses that have since been removed are skipped, not forgotten
+    const { favoriteBusinesses, recentBusinesses } = useMemo(() => {
+        const byId = new Map(businessData.businesses.map(b => [b.id, b]));
+        const resolve = (ids: string[]) => ids.map(id => byId.get(id)).filter((b): b is Business => !!b);
+        return { favoriteBusinesses: resolve(favoriteIds), recentBusinesses: resolve(recentIds) };
+    }, [businessData.businesses, favoriteIds, recentIds]);
 
     if (isLoading) return <LoadingSpinner />;
 
     const selectedCategoryDetails = selectedCategory ? businessData.categories.find(c => c.id === selectedCategory) : null;
     const isSearching = searchTerm.length > 0;
+    // The query is highlighted, so split the heading around it
+    const [searchTitleBefore, searchTitleAfter = ''] = t('list.searchResults').split('{query}');
 
     return (
         <div className="min-h-screen flex flex-col">
@@ -948,75 +1765,322 @@ const App: React.FC = () => {
                 <AiAssistant 
                     businesses={businessData.businesses} 
                     categories={businessData.categories} 
+                    searchIndex={searchIndex}
                     onViewBusiness={setViewedBusiness} 
                     query={searchTerm} 
                     onQueryChange={setSearchTerm} 
                 />
 
+                {!isSearching && (
+                    <FavoritesSection
+                        favorites={favoriteBusinesses}
+                        recents={recentBusinesses}
+                        onViewDetails={setViewedBusiness}
+                        onToggleFavorite={handleToggleFavorite}
+                        onClearRecents={handleClearRecents}
+                        onContact={handleContact}
+                    />
+                )}
+
                 {!isSearching && (
                     <div className="mb-12">
-                        <CategoryGrid categories={businessData.categories} businessCounts={businessCounts} selectedCategory={selectedCategory} onCategorySelect={handleCategorySelect} />
+                        <CategoryGrid categories={businessData.categories} businessCounts={businessCounts} totalCount={businessData.businesses.length} selectedCategory={selectedCategory} onCategorySelect={handleCategorySelect} />
+                        <TagBrowser tags={tags} selectedTag={selectedTag} onTagSelect={handleTagSelect} />
                     </div>
                 )}
                 
                 <div id="business-list-anchor" className="scroll-mt-6"></div>
+
+                <div className="flex flex-wrap justify-end gap-2 mb-4">
+                    <div className="inline-flex rounded-full bg-surface shadow-subtle p-1 mr-auto">
+                        {([['list', 'fa-list', t('list.viewList')], ['map', 'fa-map-location-dot', t('list.viewMap')]] as const).map(([mode, icon, label]) => (
+                            <button
+                                key={mode}
+                                onClick={() => setViewMode(mode)}
+                                aria-pressed={viewMode === mode}
+                                className={`inline-flex items-center gap-2 px-4 py-1.5 rounded-full text-sm font-bold transition-all ${viewMode === mode ? 'bg-primary text-white' : 'text-text-secondary hover:text-primary'}`}
+                            >
+                                <i className={`fas ${icon}`}></i> {label}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={handleToggleNearest}
+                        disabled={isLocating}
+                        aria-pressed={sortByNearest}
+                        className={`inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold shadow-subtle transition-all disabled:opacity-60 ${sortByNearest ? 'bg-primary text-white' : 'bg-surface text-text-secondary hover:text-primary'}`}
+                    >
+                        <i className={`fas ${isLocating ? 'fa-spinner fa-spin' : 'fa-location-arrow'}`}></i> {t('list.nearestFirst')}
+                    </button>
+                    <button
+                        onClick={handleToggleTopRated}
+                        aria-pressed={sortByTopRated}
+                        className={`inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold shadow-subtle transition-all ${sortByTopRated ? 'bg-primary text-white' : 'bg-surface text-text-secondary hover:text-primary'}`}
+                    >
+                        <i className="fas fa-star"></i> {t('list.topRatedFirst')}
+                    </button>
+                    <button
+                        onClick={() => setOpenNowOnly(!openNowOnly)}
+                        aria-pressed={openNowOnly}
+                        className={`inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold shadow-subtle transition-all ${openNowOnly ? 'bg-green-600 text-white' : 'bg-surface text-text-secondary hover:text-primary'}`}
+                    >
+                        <i className="fas fa-door-open"></i> {t('list.openNowOnly')}
+                    </button>
+                </div>
                 
                 {isSearching && filteredBusinesses.length > 0 && (
                     <div className="text-center mb-8">
-                        <h2 className="text-3xl font-bold font-inter text-text-primary">"<span className="text-primary">{searchTerm}</span>" साठी शोध परिणाम <span className="text-xl font-normal text-text-secondary ml-2">({filteredBusinesses.length})</span></h2>
+                        <h2 className="text-3xl font-bold font-inter text-text-primary">{searchTitleBefore}<span className="text-primary">{searchTerm}</span>{searchTitleAfter} <span className="text-xl font-normal text-text-secondary ml-2">({formatNumber(filteredBusinesses.length)})</span></h2>
                     </div>
                 )}
                 
                 {!isSearching && selectedCategoryDetails && (
                      <div className="text-center mb-8">
                         <i className={`${selectedCategoryDetails.icon} text-4xl text-primary mb-2`}></i>
-                        <h2 className="text-3xl font-bold font-inter text-text-primary">{selectedCategoryDetails.name}<span className="text-xl font-normal text-text-secondary ml-2">({filteredBusinesses.length})</span></h2>
+                        <h2 className="text-3xl font-bold font-inter text-text-primary">{categoryName(selectedCategoryDetails)}<span className="text-xl font-normal text-text-secondary ml-2">({formatNumber(filteredBusinesses.length)})</span></h2>
+                    </div>
+                )}
+
+                {!isSearching && selectedTag && (
+                    <div className="flex justify-center mb-8">
+                        <span className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary font-bold">
+                            <i className="fas fa-hashtag"></i>{selectedTag}
+                            {!selectedCategoryDetails && <span className="font-normal text-text-secondary">({formatNumber(filteredBusinesses.length)})</span>}
+                            <button onClick={() => setSelectedTag(null)} className="ml-1 text-text-secondary hover:text-primary" aria-label={t('list.removeTag')}>
+                                <i className="fas fa-times"></i>
+                            </button>
+                        </span>
                     </div>
                 )}
 
                 <div id="business-list">
-                    <BusinessList 
-                        businesses={filteredBusinesses} 
-                        categories={businessData.categories} 
-                        selectedCategoryId={selectedCategory} 
-                        onViewDetails={setViewedBusiness}
-                        isSearching={isSearching} 
-                    />
+                    {viewMode === 'map' ? (
+                        <MapView
+                            businesses={filteredBusinesses}
+                            categories={businessData.categories}
+                            userLocation={userLocation}
+                            onViewDetails={setViewedBusiness}
+                        />
+                    ) : (
+                        <BusinessList 
+                            businesses={filteredBusinesses} 
+                            categories={businessData.categories} 
+                            selectedCategoryId={selectedCategory} 
+                            onViewDetails={setViewedBusiness}
+                            isSearching={isSearching} 
+                            highlights={isSearching ? searchHighlights : undefined}
+                            now={now}
+                            distances={sortByNearest ? distances : undefined}
+                            favoriteIds={favoriteIdSet}
+                            notes={notes}
+                            onToggleFavorite={handleToggleFavorite}
+                            onContact={handleContact}
+                            sortedByRating={sortByTopRated}
+                        />
+                    )}
                 </div>
             </main>
 
-            <BusinessDetailModal business={viewedBusiness} onClose={() => setViewedBusiness(null)} />
+            <BusinessDetailModal
+                business={viewedBusiness}
+                categories={businessData.categories}
+                now={now}
+                distanceKm={viewedBusiness ? distances[viewedBusiness.id] : undefined}
+                onClose={() => { setViewedBusiness(null); setReviewFormFor(null); }}
+                onReport={business => setSuggestionTarget({ business })}
+                onCategorySelect={categoryId => { setViewedBusiness(null); setSearchTerm(''); setSelectedTag(null); handleCategorySelect(categoryId); }}
+                onTagSelect={tag => { setViewedBusiness(null); setSearchTerm(''); setSelectedCategory(null); handleTagSelect(tag); }}
+                isFavorite={!!viewedBusiness && favoriteIdSet.has(viewedBusiness.id)}
+                onToggleFavorite={handleToggleFavorite}
+                note={viewedBusiness ? notes[viewedBusiness.id] : undefined}
+                onSaveNote={handleSaveNote}
+                onContact={handleContact}
+                openReviewForm={!!viewedBusiness && reviewFormFor === viewedBusiness.id}
+            />
+
+            {contactPrompt && <CallFeedbackPrompt
+                business={contactPrompt.business}
+                channel={contactPrompt.channel}
+                onAnswer={handleCallAnswer}
+                onRate={handleRateFromPrompt}
+                onDismiss={() => setContactPrompt(null)}
+            />}
             
             {/* --- Admin Modals --- */}
             {showLogin && <LoginModal onLoginSuccess={handleLoginSuccess} onClose={() => setShowLogin(false)} />}
             
-            {adminView === 'dashboard' && <AdminDashboard 
+            {adminView === 'dashboard' && currentAdmin && <AdminDashboard 
+                admin={currentAdmin}
                 onAdd={() => { setBusinessToEdit(null); setAdminView('add'); }}
+                onImport={() => setAdminView('import')}
                 onEdit={() => setAdminView('edit-list')}
+                onOutbox={() => setAdminView('outbox')}
+                outboxCount={outboxEntries.filter(e => e.status !== 'synced').length}
+                onHistory={() => { setHistoryBusiness(null); setAdminView('history'); }}
+                onModeration={() => setAdminView('moderation')}
+                onReviews={() => setAdminView('reviews')}
+                onDataHealth={() => setAdminView('health')}
+                onAnalytics={() => setAdminView('analytics')}
+                pendingSubmissionCount={pendingSubmissionCount}
+                onMigrateHours={handleMigrateOpeningHours}
+                onManageCategories={() => setAdminView('categories')}
+                onManageAdmins={() => setAdminView('admins')}
                 onLogout={handleLogout}
                 onClose={handleCloseAdmin}
             />}
 
-            {adminView === 'edit-list' && <EditBusinessList
+            {adminView === 'edit-list' && currentAdmin && <EditBusinessList
+                admin={currentAdmin}
                 businesses={businessData.businesses}
-                onSelect={(business) => { setBusinessToEdit(business); setAdminView('add'); }}
+                onSelect={(business) => { setBusinessToEdit(business); setEditReturnView('edit-list'); setAdminView('add'); }}
                 onDelete={handleDeleteBusiness}
+                onHistory={(business) => { setHistoryBusiness(business); setAdminView('history'); }}
+                onBack={() => setAdminView('dashboard')}
+                onClose={handleCloseAdmin}
+            />}
+
+            {adminView === 'import' && <BulkImport
+                categories={businessData.categories}
+                existingBusinesses={businessData.businesses}
+                onImportBatch={handleImportBatch}
+                onBack={() => setAdminView('dashboard')}
+                onClose={handleCloseAdmin}
+            />}
+
+            {adminView === 'history' && <AuditHistory
+                businessId={historyBusiness?.id}
+                businessName={historyBusiness ? shopName(historyBusiness) : undefined}
+                categories={businessData.categories}
+                onRestore={handleRestoreVersion}
+                canRestore={can(currentAdmin, 'business.edit')}
+                onBack={() => setAdminView(historyBusiness ? 'edit-list' : 'dashboard')}
+                onClose={() => { setHistoryBusiness(null); handleCloseAdmin(); }}
+            />}
+
+            {adminView === 'moderation' && currentAdmin && !submissionToReview && <ModerationQueue
+                admin={currentAdmin}
+                businesses={businessData.businesses}
+                categories={businessData.categories}
+                onApprove={handleApproveSubmission}
+                onEditAndApprove={setSubmissionToReview}
                 onBack={() => setAdminView('dashboard')}
                 onClose={handleCloseAdmin}
             />}
 
-            {adminView === 'add' && <BusinessForm
+            {adminView === 'moderation' && currentAdmin && submissionToReview && <BusinessForm
+                admin={currentAdmin}
+                categories={businessData.categories}
+                onSave={business => handleApproveSubmission(submissionToReview, business)}
+                existingBusiness={reviewedBusiness}
+                isSaving={isSaving}
+                onClose={() => setSubmissionToReview(null)}
+            />}
+
+            {adminView === 'categories' && <CategoryManager
+                categories={businessData.categories}
+                businesses={businessData.businesses}
+                onCategoriesChanged={handleCategoriesChanged}
+                onMerged={handleCategoriesMerged}
+                onBack={() => setAdminView('dashboard')}
+                onClose={handleCloseAdmin}
+            />}
+
+            {adminView === 'reviews' && currentAdmin && <ReviewModeration
+                admin={currentAdmin}
+                onBack={() => setAdminView('dashboard')}
+                onClose={handleCloseAdmin}
+            />}
+
+            {adminView === 'analytics' && <UsageAnalytics
+                businesses={businessData.businesses}
+                categories={businessData.categories}
+                onBack={() => setAdminView('dashboard')}
+                onClose={handleCloseAdmin}
+            />}
+
+            {adminView === 'health' && currentAdmin && <DataHealthDashboard
+                admin={currentAdmin}
+                businesses={businessData.businesses}
+                categories={businessData.categories}
+                onEdit={(business) => { setBusinessToEdit(business); setEditReturnView('health'); setAdminView('add'); }}
+                onBack={() => setAdminView('dashboard')}
+                onClose={handleCloseAdmin}
+            />}
+
+            {adminView === 'admins' && currentAdmin && <AdminManager
+                currentAdminId={currentAdmin.id}
+                categories={businessData.categories}
+                onBack={() => setAdminView('dashboard')}
+                onClose={handleCloseAdmin}
+            />}
+
+            {adminView === 'outbox' && <OutboxPanel
+                entries={outboxEntries}
+                isOnline={isOnline}
+                onRetry={async (entry) => {
+                    const OutboxService = await import('./outboxService');
+                    await OutboxService.retryOutboxEntry(entry);
+                    await reloadBusinessesFromCache();
+                }}
+                onResolve={setConflictEntry}
+                onDiscard={async (entry) => {
+                    if (!confirm(t('admin.discardConfirm', { name: entry.shopName }))) return;
+                    const OutboxService = await import('./outboxService');
+                    await OutboxService.discardOutboxEntry(entry);
+                    await reloadBusinessesFromCache();
+                }}
+                onSyncNow={async () => {
+                    const OutboxService = await import('./outboxService');
+                    await OutboxService.replayOutbox();
+                    await reloadBusinessesFromCache();
+                }}
+                onClearSynced={async () => {
+                    const OutboxService = await import('./outboxService');
+                    await OutboxService.clearSyncedEntries();
+                }}
+                onBack={() => setAdminView('dashboard')}
+                onClose={handleCloseAdmin}
+            />}
+
+            {adminView === 'add' && currentAdmin && <BusinessForm
+                admin={currentAdmin}
                 categories={businessData.categories}
                 onSave={handleSaveBusiness}
                 existingBusiness={businessToEdit}
                 isSaving={isSaving}
                 onClose={() => {
-                    setAdminView(businessToEdit ? 'edit-list' : 'dashboard');
+                    setAdminView(businessToEdit ? editReturnView : 'dashboard');
                     setBusinessToEdit(null);
                 }}
             />}
 
-            <Footer onAdminLoginClick={handleAdminLoginClick} />
+            {conflictEntry?.conflict && <ConflictResolver
+                localBusiness={SupabaseService.businessToDbBusiness(conflictEntry.business!)}
+                serverBusiness={conflictEntry.conflict.server}
+                categories={businessData.categories}
+                onResolve={handleResolveConflict}
+                onCancel={handleCancelConflict}
+                isSaving={isSaving}
+            />}
+
+            {showExport && <ExportPanel
+                data={businessData}
+                initialCategoryId={selectedCategory}
+                onClose={() => setShowExport(false)}
+            />}
+
+            {showBackup && <PersonalBackupPanel
+                onClose={() => setShowBackup(false)}
+                onRestored={loadPersonalData}
+            />}
+
+            {suggestionTarget && <SuggestionForm
+                business={suggestionTarget.business}
+                categories={businessData.categories}
+                onClose={() => setSuggestionTarget(null)}
+            />}
+
+            <Footer onAdminLoginClick={handleAdminLoginClick} onExportClick={() => setShowExport(true)} onSuggestClick={() => setSuggestionTarget({ business: null })} onBackupClick={() => setShowBackup(true)} />
         </div>
     );
 };
@@ -0,0 +1,154 @@
+import { Business, Category } from './types';
+import { AiResult } from './aiService';
+import { SearchIndex } from './searchIndex';
+import { AI_CANDIDATE_LIMIT, retrieveCandidates, toPromptBusinesses } from './aiRetrieval';
+import { getBusinessSchedule } from './openingHours';
+import { MessageKey, categoryName, getLocale, t } from './i18n';
+import { AI_REQUEST_LIMITS, AiChatRequest, PromptContext, requestBusinessIds } from './supabase/functions/_shared/aiPrompt.ts';
+
+// ============================================
+// AI Chat: multi-turn conversation with the assistant
+// ============================================
+
+export interface ChatTurn {
+  question: string;
+  result: AiResult;
+  askedAt: number;
+}
+
+const TRANSCRIPT_KEY = 'ai_transcript';
+const MAX_STORED_TURNS = 20;
+
+// ============================================
+// Transcript persistence (IndexedDB metadata store)
+// ============================================
+
+export async function loadTranscript(): Promise<ChatTurn[]> {
+  try {
+    const CacheService = await import('./cacheService');
+    const turns = await CacheService.getMetadata(TRANSCRIPT_KEY);
+    return Array.isArray(turns) ? turns : [];
+  } catch (error) {
+    console.error('❌ Error loading AI transcript:', error);
+    return [];
+  }
+}
+
+export async function saveTranscript(turns: ChatTurn[]): Promise<void> {
+  try {
+    const CacheService = await import('./cacheService');
+    await CacheService.setMetadata(TRANSCRIPT_KEY, turns.slice(-MAX_STORED_TURNS));
+  } catch (error) {
+    console.error('❌ Error saving AI transcript:', error);
+  }
+}
+
+export async function clearTranscript(): Promise<void> {
+  await saveTranscript([]);
+}
+
+// ============================================
+// Resolving follow-ups
+// ============================================
+
+/** Businesses the assistant named in a turn, in the order it gave them. */
+export const turnBusinesses = (turn: ChatTurn, businessMap: Map<string, Business>): Business[] =>
+  turn.result.results
+    .filter(item => item.type === 'business' && item.businessId)
+    .map(item => businessMap.get(item.businessId!))
+    .filter((b): b is Business => !!b);
+
+/**
+ * Candidates for the next question: whatever the previous answer named (so
+ * "which of them deliver?" has something to refer to), followed by fresh
+ * matches for the new question.
+ */
+export const chatCandidates = (
+  index: SearchIndex,
+  question: string,
+  turns: ChatTurn[],
+  businessMap: Map<string, Business>
+): Business[] => {
+  const previous = turns.length > 0 ? turnBusinesses(turns[turns.length - 1], businessMap) : [];
+  const seen = new Set(previous.map(b => b.id));
+  const fresh = retrieveCandidates(index, question, AI_CANDIDATE_LIMIT).filter(b => !seen.has(b.id));
+  return [...previous, ...fresh].slice(0, AI_REQUEST_LIMITS.candidates);
+};
+
+// ============================================
+// Request for the assistant
+// ============================================
+
+/** What goes over the network: ids and the conversation, never a prompt. */
+export const buildChatRequest = (question: string, turns: ChatTurn[], candidates: Business[]): AiChatRequest => ({
+  question: question.slice(0, AI_REQUEST_LIMITS.questionLength),
+  candidateIds: candidates.map(b => b.id),
+  history: turns.slice(-AI_REQUEST_LIMITS.historyTurns).map(turn => ({
+    question: turn.question.slice(0, AI_REQUEST_LIMITS.questionLength),
+    summary: turn.result.summary.slice(0, AI_REQUEST_LIMITS.summaryLength),
+    businessIds: turn.result.results
+      .filter(item => item.type === 'business' && item.businessId)
+      .map(item => item.businessId!)
+      .slice(0, AI_REQUEST_LIMITS.businessIdsPerTurn),
+  })),
+  language: getLocale(),
+});
+
+const formatNow = (now: Date): string =>
+  `${now.toLocaleDateString('en-US', { weekday: 'long' })} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+
+/** The directory details a local model's prompt is built from. */
+export const buildPromptContext = (
+  request: AiChatRequest,
+  candidates: Business[],
+  categories: Category[],
+  businessMap: Map<string, Business>,
+  now: Date = new Date()
+): PromptContext => ({
+  businesses: toPromptBusinesses(candidates, categories),
+  businessNames: Object.fromEntries(
+    requestBusinessIds(request)
+      .map(id => businessMap.get(id))
+      .filter((b): b is Business => !!b)
+      .map(b => [b.id, b.shopName])
+  ),
+  categories: categories.map(c => ({ name: c.name, translatedName: categoryName(c) })),
+  now: formatNow(now),
+});
+
+// ============================================
+// Suggested follow-ups
+// ============================================
+
+const PAYMENT_FOLLOW_UPS: Record<string, MessageKey> = {
+  UPI: 'followUp.upi',
+  Card: 'followUp.card',
+};
+
+/**
+ * Follow-up questions worth offering after an answer, based on what the
+ * named businesses actually record (delivery, payment modes, hours).
+ */
+export const suggestFollowUps = (businesses: Business[], turns: ChatTurn[]): string[] => {
+  if (businesses.length === 0) return [];
+
+  const suggestions: string[] = [];
+  if (businesses.some(b => b.homeDelivery)) {
+    suggestions.push(t('followUp.delivery'));
+  }
+
+  const paymentModes = new Set(businesses.flatMap(b => b.paymentOptions || []));
+  for (const [mode, question] of Object.entries(PAYMENT_FOLLOW_UPS)) {
+    if (paymentModes.has(mode)) suggestions.push(t(question));
+  }
+
+  if (businesses.some(b => getBusinessSchedule(b))) {
+    suggestions.push(t('followUp.openNow'));
+  }
+  if (businesses.length > 1 && businesses.some(b => b.address)) {
+    suggestions.push(t('followUp.addresses'));
+  }
+
+  const asked = new Set(turns.map(turn => turn.question));
+  return suggestions.filter(question => !asked.has(question));
+};
@@ -0,0 +1,85 @@
+import { Business, Category } from './types';
+import { SearchIndex, searchBusinesses } from './searchIndex';
+import { AiResult } from './aiService';
+import { PromptBusiness } from './supabase/functions/_shared/aiPrompt.ts';
+
+// ============================================
+// AI Retrieval: only send likely candidates to the model
+// ============================================
+
+export const AI_CANDIDATE_LIMIT = 20;
+
+// Question and filler words that say nothing about which business is meant
+const STOP_WORDS = new Set([
+  'कुठे', 'कुठं', 'कोठे', 'कोण', 'कोणते', 'कोणती', 'कोणता', 'काय', 'का', 'कसे', 'किती',
+  'आहे', 'आहेत', 'असेल', 'मिळेल', 'मिळतात', 'मिळते', 'मिळतील', 'मिळतो', 'भेटेल',
+  'मला', 'आम्हाला', 'हवे', 'हवा', 'हवी', 'हवेत', 'पाहिजे', 'सांगा', 'द्या', 'दाखवा', 'शोधा',
+  'आणि', 'किंवा', 'व', 'ची', 'चा', 'चे', 'साठी', 'मध्ये', 'गावात', 'इथे', 'येथे', 'एक', 'कोणी',
+  'यापैकी', 'त्यापैकी', 'यांचे', 'त्यांचे', 'यांचा', 'त्यांचा', 'ते', 'हे', 'आता',
+  'कहाँ', 'कहां', 'कौन', 'कौनसा', 'क्या', 'है', 'हैं', 'मिलेगा', 'मिलेगी', 'मिलते', 'मुझे', 'चाहिए', 'बताओ', 'बताइए',
+  'और', 'या', 'का', 'की', 'के', 'में', 'लिए', 'इनमें', 'उनमें', 'इनका', 'उनका', 'अब',
+  'where', 'what', 'who', 'which', 'is', 'are', 'the', 'a', 'an', 'i', 'me', 'need', 'want', 'find', 'show', 'in', 'for', 'of',
+  'them', 'those', 'they',
+]);
+
+const stripStopWords = (query: string): string =>
+  query
+    .split(/[\s,.;:!?()"'?]+/)
+    .filter(word => word && !STOP_WORDS.has(word.toLowerCase()))
+    .join(' ');
+
+/**
+ * Pick the businesses most likely to answer the question, scored over
+ * names, services, category names and addresses. Words are matched loosely
+ * ("any" mode), so a question only needs to mention one relevant thing.
+ */
+export const retrieveCandidates = (
+  index: SearchIndex,
+  query: string,
+  limit: number = AI_CANDIDATE_LIMIT
+): Business[] => {
+  const keywords = stripStopWords(query);
+  if (!keywords) return [];
+  return searchBusinesses(index, keywords, { match: 'any' })
+    .slice(0, limit)
+    .map(hit => hit.business);
+};
+
+/**
+ * The prompt records for a local model. Mirrors what the ai-assistant Edge
+ * Function reads from the database for a hosted one.
+ */
+export const toPromptBusinesses = (businesses: Business[], categories: Category[]): PromptBusiness[] => {
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+  return businesses.map(b => ({
+    id: b.id,
+    shopName: b.shopName,
+    ownerName: b.ownerName,
+    category: categoryNames.get(b.category) || 'Unknown',
+    otherCategories: (b.extraCategories || []).map(id => categoryNames.get(id)).filter((name): name is string => !!name),
+    tags: b.tags,
+    services: b.services,
+    contact: b.contactNumber,
+    address: b.address,
+    openingHours: b.openingHours,
+    weeklySchedule: b.schedule,
+    homeDelivery: b.homeDelivery,
+    paymentOptions: b.paymentOptions,
+    rating: b.rating?.count ? `${b.rating.average}/5 (${b.rating.count} reviews)` : undefined,
+  }));
+};
+
+/**
+ * Drop business results whose id was not among the candidates we sent;
+ * anything else is a made-up id.
+ */
+export const restrictToCandidates = (result: AiResult, candidates: Business[]): AiResult => {
+  const allowed = new Set(candidates.map(b => b.id));
+  const results = result.results.filter(item => {
+    if (item.type !== 'business') return true;
+    if (item.businessId && allowed.has(item.businessId)) return true;
+    console.warn('⚠️ Ignoring AI result with unknown businessId:', item.businessId);
+    return false;
+  });
+  return { ...result, results };
+};
@@ -0,0 +1,58 @@
+import { supabase } from './supabaseClient';
+import {
+  AiProvider,
+  AiProviderError,
+  AiResult,
+  createOpenAiCompatibleProvider,
+  parseAiResult,
+} from './supabase/functions/_shared/aiProviders.ts';
+import { AiChatRequest, PromptContext, buildChatPrompt } from './supabase/functions/_shared/aiPrompt.ts';
+
+export type { AiResult, AiResultItem } from './supabase/functions/_shared/aiProviders.ts';
+export { AiProviderError, AiResponseError } from './supabase/functions/_shared/aiProviders.ts';
+
+// ============================================
+// AI Service
+// ============================================
+// AI_PROVIDER picks the backend at build time:
+// - "edge" (default): the ai-assistant Edge Function, which holds the hosted
+//   provider's API key on the server and builds the prompt itself from the
+//   ids it is sent.
+// - "openai-compatible": talk straight to a model on our own hardware
+//   (Ollama, llama.cpp) at AI_BASE_URL; no secret is involved.
+
+const AI_CONFIG = {
+  provider: process.env.AI_PROVIDER || 'edge',
+  baseUrl: process.env.AI_BASE_URL || '',
+  model: process.env.AI_MODEL || '',
+};
+
+const askEdgeFunction = async (request: AiChatRequest): Promise<AiResult> => {
+  const { data, error } = await supabase.functions.invoke('ai-assistant', { body: request });
+  // FunctionsHttpError keeps the Response, so a 429 from the rate limit can be told apart
+  if (error) throw new AiProviderError('edge', error.message, (error as { context?: Response }).context?.status);
+  return parseAiResult(typeof data === 'string' ? data : JSON.stringify(data));
+};
+
+/** The in-browser provider; the edge backend has none, as it never sees a prompt here. */
+export const getAiProvider = (): AiProvider => {
+  switch (AI_CONFIG.provider) {
+    case 'openai-compatible':
+      if (!AI_CONFIG.baseUrl || !AI_CONFIG.model) {
+        throw new AiProviderError(AI_CONFIG.provider, 'AI_BASE_URL and AI_MODEL must be set for the local model');
+      }
+      return createOpenAiCompatibleProvider(AI_CONFIG.baseUrl, AI_CONFIG.model);
+    default:
+      throw new AiProviderError(AI_CONFIG.provider, `Unsupported AI_PROVIDER: ${AI_CONFIG.provider}`);
+  }
+};
+
+/**
+ * Ask the configured backend and validate the answer. The context is only
+ * used by a local model; the Edge Function looks the businesses up itself.
+ */
+export const askAi = async (request: AiChatRequest, context: PromptContext): Promise<AiResult> => {
+  if (AI_CONFIG.provider === 'edge') return askEdgeFunction(request);
+  const provider = getAiProvider();
+  return parseAiResult(await provider.generate(buildChatPrompt(request, context)));
+};
@@ -0,0 +1,114 @@
+import * as CacheService from './cacheService';
+import { QueuedUsageEvent, UsageEventKind } from './cacheService';
+import * as SupabaseService from './supabaseClient';
+
+// ============================================
+// Anonymous Usage Analytics
+// ============================================
+// What villagers search for (and don't find), which categories they open
+// and which businesses they then call, message or share. Events carry no
+// device id, account, location or time of day, and search text loses any
+// long run of digits (phone numbers). They wait in IndexedDB and go out in
+// batches when online, so tracking never slows the app or needs a network.
+
+const MAX_QUEUED = 500;    // Oldest events are dropped beyond this
+const BATCH_SIZE = 100;    // Also the server's per-call limit
+const FLUSH_DELAY_MS = 10_000;
+const MAX_QUERY_LENGTH = 80;
+
+export type UsageEvent = Omit<QueuedUsageEvent, 'id' | 'day'>;
+
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushInFlight: Promise<void> | null = null;
+
+const localDay = (date = new Date()): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Lower-cased, single-spaced, without phone-number-like digit runs. */
+export const cleanQuery = (text: string): string =>
+  text
+    .normalize('NFC')
+    .replace(/[\d०-९][\d०-९\s-]{4,}/g, ' ')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_QUERY_LENGTH);
+
+// Admins testing the directory would swamp the real numbers
+const isTrackingOff = (): boolean =>
+  SupabaseService.getActiveAdmin() !== null || navigator.doNotTrack === '1';
+
+const scheduleFlush = () => {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushUsageEvents();
+  }, FLUSH_DELAY_MS);
+};
+
+/** Queue an event. Never throws: analytics must not break the page. */
+export async function trackEvent(event: UsageEvent): Promise<void> {
+  if (isTrackingOff()) return;
+  const query = event.query === undefined ? undefined : cleanQuery(event.query);
+  if (query === '') return;
+
+  try {
+    await CacheService.addUsageEvent({ ...event, query, day: localDay() }, MAX_QUEUED);
+    if (CacheService.isOnline()) scheduleFlush();
+  } catch (error) {
+    console.warn('⚠️ Usage event not queued:', error);
+  }
+}
+
+export const trackSearch = (query: string, resultCount: number) =>
+  trackEvent({ kind: 'search', query, resultCount });
+
+export const trackAiQuery = (query: string, resultCount: number) =>
+  trackEvent({ kind: 'ai_query', query, resultCount });
+
+export const trackCategory = (categoryId: string) =>
+  trackEvent({ kind: 'category', categoryId });
+
+export const trackContact = (businessId: string, kind: Extract<UsageEventKind, 'call' | 'whatsapp' | 'share'>) =>
+  trackEvent({ kind, businessId });
+
+/**
+ * Send queued events in batches. Events stay queued when sending fails,
+ * and only one flush runs at a time.
+ */
+export function flushUsageEvents(): Promise<void> {
+  if (flushInFlight) return flushInFlight;
+
+  flushInFlight = (async () => {
+    try {
+      while (CacheService.isOnline()) {
+        const batch = await CacheService.getUsageEvents(BATCH_SIZE);
+        if (batch.length === 0) break;
+        await SupabaseService.recordUsageEvents(batch);
+        await CacheService.deleteUsageEvents(batch.map(e => e.id!));
+        if (batch.length < BATCH_SIZE) break;
+      }
+    } catch (error) {
+      console.warn('⚠️ Usage events not sent, will retry:', error);
+    } finally {
+      flushInFlight = null;
+    }
+  })();
+
+  return flushInFlight;
+}
+
+/** Flush now, whenever the connection returns and when the page is hidden. */
+export function startUsageAnalytics(): () => void {
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flushUsageEvents();
+  };
+  const removeOnline = CacheService.onOnline(() => flushUsageEvents());
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  if (CacheService.isOnline()) flushUsageEvents();
+
+  return () => {
+    removeOnline();
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+  };
+}
@@ -0,0 +1,117 @@
+import { BusinessContact, Category, OpeningSchedule } from './types';
+import { DbBusiness } from './supabaseClient';
+import { formatSchedule } from './openingHours';
+import { contactKindLabel, formatPhoneNumber } from './phone';
+import { LOCALES, MessageKey, categoryName, t } from './i18n';
+
+// ============================================
+// Field-by-field comparison of business rows
+// ============================================
+// Works on the snake_case DbBusiness shape, which is also what
+// business_audit_log stores in old_data/new_data.
+
+export type BusinessField =
+  | 'shop_name'
+  | 'shop_name_translations'
+  | 'owner_name'
+  | 'contact_number'
+  | 'contacts'
+  | 'category'
+  | 'extra_categories'
+  | 'tags'
+  | 'address'
+  | 'opening_hours'
+  | 'opening_schedule'
+  | 'latitude'
+  | 'longitude'
+  | 'services'
+  | 'home_delivery'
+  | 'payment_options'
+  | 'photos';
+
+export const BUSINESS_FIELDS: Array<{ key: BusinessField; labelKey: MessageKey }> = [
+  { key: 'shop_name', labelKey: 'field.shopName' },
+  { key: 'shop_name_translations', labelKey: 'field.shopNameTranslations' },
+  { key: 'owner_name', labelKey: 'field.ownerName' },
+  { key: 'contact_number', labelKey: 'field.contactNumber' },
+  { key: 'contacts', labelKey: 'field.contacts' },
+  { key: 'category', labelKey: 'field.category' },
+  { key: 'extra_categories', labelKey: 'field.extraCategories' },
+  { key: 'tags', labelKey: 'field.tags' },
+  { key: 'address', labelKey: 'field.address' },
+  { key: 'opening_hours', labelKey: 'field.openingHours' },
+  { key: 'opening_schedule', labelKey: 'field.schedule' },
+  { key: 'latitude', labelKey: 'field.latitude' },
+  { key: 'longitude', labelKey: 'field.longitude' },
+  { key: 'services', labelKey: 'field.services' },
+  { key: 'home_delivery', labelKey: 'field.homeDelivery' },
+  { key: 'payment_options', labelKey: 'field.payment' },
+  { key: 'photos', labelKey: 'field.photos' },
+];
+
+export interface FieldDiff {
+  key: BusinessField;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+// jsonb hands objects back with its own key order, so sort keys before comparing
+const stableStringify = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]))
+      : v
+  );
+
+// Treat missing, empty and default values alike so only real edits show up
+const normalize = (value: unknown): string => {
+  if (value === null || value === undefined || value === false) return '';
+  if (Array.isArray(value)) return value.map(v => (v && typeof v === 'object' ? stableStringify(v) : v)).join('\u0000');
+  if (typeof value === 'object') return stableStringify(value);
+  return String(value).trim();
+};
+
+export const fieldValuesEqual = (a: unknown, b: unknown): boolean => normalize(a) === normalize(b);
+
+/**
+ * List the fields that differ between two versions of a business.
+ * Either side may be missing (insert or delete).
+ */
+export const diffBusinesses = (
+  before?: Partial<DbBusiness> | null,
+  after?: Partial<DbBusiness> | null
+): FieldDiff[] =>
+  BUSINESS_FIELDS
+    .map(({ key, labelKey }) => ({ key, label: t(labelKey), before: before?.[key], after: after?.[key] }))
+    .filter(diff => !fieldValuesEqual(diff.before, diff.after));
+
+export const formatFieldValue = (
+  key: BusinessField,
+  value: unknown,
+  categories: Category[] = []
+): string => {
+  const nameOf = (id: string) => {
+    const category = categories.find(c => c.id === id);
+    return category ? categoryName(category) : id;
+  };
+  if (key === 'home_delivery') return t(value ? 'common.yes' : 'common.no');
+  if (key === 'category' && typeof value === 'string') return nameOf(value);
+  if (key === 'extra_categories' && Array.isArray(value)) {
+    return value.length > 0 ? value.map(nameOf).join(', ') : '—';
+  }
+  if (key === 'shop_name_translations') {
+    const entries = LOCALES.filter(l => (value as Record<string, string> | null)?.[l.locale]);
+    return entries.length > 0 ? entries.map(l => `${l.label}: ${(value as Record<string, string>)[l.locale]}`).join(', ') : '—';
+  }
+  if (key === 'contacts') {
+    return Array.isArray(value) && value.length > 0
+      ? (value as BusinessContact[]).map(c => `${formatPhoneNumber(c.number)} (${c.label || contactKindLabel(c.kind)})`).join(', ')
+      : '—';
+  }
+  if (key === 'photos') return Array.isArray(value) && value.length > 0 ? t('field.photoCount', { count: value.length }) : '—';
+  if (key === 'opening_schedule') return value ? formatSchedule(value as OpeningSchedule) : '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (value === null || value === undefined || value === '') return '—';
+  return String(value);
+};
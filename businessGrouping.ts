@@ -0,0 +1,83 @@
+import { Business, Category } from './types';
+
+export interface CategoryGroup {
+  category: Category;
+  businesses: Business[];
+}
+
+/**
+ * Group businesses under their categories: categories in the order they are
+ * given (the admins' manual order, see sortCategories), businesses in list
+ * order. A business in several categories appears in each of them; unknown
+ * and empty categories are left out.
+ */
+export const groupBusinessesByCategory = (
+  businesses: Business[],
+  categories: Category[]
+): CategoryGroup[] => {
+  const categoryMap = new Map<string, Category>(categories.map(cat => [cat.id, cat]));
+  const groups = new Map<string, CategoryGroup>();
+
+  for (const business of businesses) {
+    for (const categoryId of businessCategoryIds(business)) {
+      const category = categoryMap.get(categoryId);
+      if (!category) continue;
+
+      let group = groups.get(category.id);
+      if (!group) {
+        group = { category, businesses: [] };
+        groups.set(category.id, group);
+      }
+      group.businesses.push(business);
+    }
+  }
+
+  return categories
+    .map(category => groups.get(category.id))
+    .filter((group): group is CategoryGroup => !!group);
+};
+
+/**
+ * Categories in the order admins arranged them; any without a position yet
+ * follow alphabetically.
+ */
+export const sortCategories = (categories: Category[]): Category[] =>
+  categories.slice().sort((a, b) =>
+    (a.sortOrder ?? Infinity) - (b.sortOrder ?? Infinity) || a.name.localeCompare(b.name)
+  );
+
+/** The primary category first, then any extra ones, without repeats. */
+export const businessCategoryIds = (business: Business): string[] =>
+  Array.from(new Set([business.category, ...(business.extraCategories || [])]));
+
+export const isInCategory = (business: Business, categoryId: string): boolean =>
+  business.category === categoryId || (business.extraCategories || []).includes(categoryId);
+
+/** How many businesses each category lists; a business counts once in each of its categories. */
+export const countByCategory = (businesses: Business[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const business of businesses) {
+    for (const categoryId of businessCategoryIds(business)) {
+      counts[categoryId] = (counts[categoryId] || 0) + 1;
+    }
+  }
+  return counts;
+};
+
+/** Tags in use, most common first. Tags differing only in case count as one. */
+export const collectTags = (businesses: Business[]): Array<{ tag: string; count: number }> => {
+  const tags = new Map<string, { tag: string; count: number }>();
+  for (const business of businesses) {
+    for (const tag of business.tags || []) {
+      const key = tag.trim().toLowerCase();
+      if (!key) continue;
+      const entry = tags.get(key) || { tag: tag.trim(), count: 0 };
+      entry.count++;
+      tags.set(key, entry);
+    }
+  }
+  return Array.from(tags.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+export const hasTag = (business: Business, tag: string): boolean =>
+  (business.tags || []).some(t => t.trim().toLowerCase() === tag.trim().toLowerCase());
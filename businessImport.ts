@@ -0,0 +1,268 @@
+import { Business, Category } from './types';
+import { parseOpeningHours } from './openingHours';
+import { businessContacts, guessContactKind, parsePhoneNumber, phoneKey } from './phone';
+import { toAsciiDigits } from './searchIndex';
+import { MessageKey, t } from './i18n';
+
+// ============================================
+// Bulk Import: parse CSV/XLSX rows into businesses
+// ============================================
+
+export type ImportField =
+  | 'shopName'
+  | 'ownerName'
+  | 'contactNumber'
+  | 'category'
+  | 'extraCategories'
+  | 'tags'
+  | 'address'
+  | 'openingHours'
+  | 'services'
+  | 'homeDelivery'
+  | 'paymentOptions'
+  | 'latitude'
+  | 'longitude';
+
+// Header aliases are compared after lower-casing and removing spaces/punctuation
+export const IMPORT_FIELDS: Array<{ key: ImportField; labelKey: MessageKey; required: boolean; aliases: string[] }> = [
+  { key: 'shopName', labelKey: 'field.shopName', required: true, aliases: ['shopname', 'shop', 'name', 'दुकानाचेनाव', 'दुकान', 'व्यवसाय'] },
+  { key: 'ownerName', labelKey: 'field.ownerName', required: true, aliases: ['ownername', 'owner', 'मालकाचेनाव', 'मालक'] },
+  { key: 'contactNumber', labelKey: 'field.contactNumber', required: true, aliases: ['contactnumber', 'contact', 'phone', 'mobile', 'संपर्कक्रमांक', 'संपर्क', 'मोबाईल', 'फोन'] },
+  { key: 'category', labelKey: 'field.category', required: true, aliases: ['category', 'श्रेणी', 'प्रकार'] },
+  { key: 'extraCategories', labelKey: 'field.extraCategories', required: false, aliases: ['extracategories', 'othercategories', 'इतरश्रेणी'] },
+  { key: 'tags', labelKey: 'field.tags', required: false, aliases: ['tags', 'टॅग', 'टॅग्ज'] },
+  { key: 'address', labelKey: 'field.address', required: false, aliases: ['address', 'पत्ता'] },
+  { key: 'openingHours', labelKey: 'field.openingHours', required: false, aliases: ['openinghours', 'hours', 'timing', 'वेळ'] },
+  { key: 'services', labelKey: 'field.services', required: false, aliases: ['services', 'products', 'सेवा', 'उत्पादने', 'सेवाउत्पादने'] },
+  { key: 'homeDelivery', labelKey: 'field.homeDelivery', required: false, aliases: ['homedelivery', 'delivery', 'होमडिलिव्हरी', 'डिलिव्हरी'] },
+  { key: 'paymentOptions', labelKey: 'field.payment', required: false, aliases: ['paymentoptions', 'payment', 'पेमेंट'] },
+  { key: 'latitude', labelKey: 'field.latitude', required: false, aliases: ['latitude', 'lat', 'अक्षांश'] },
+  { key: 'longitude', labelKey: 'field.longitude', required: false, aliases: ['longitude', 'lng', 'lon', 'long', 'रेखांश'] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportIssue {
+  level: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportRow {
+  rowNumber: number; // 1-based spreadsheet row, counting the header
+  business: Business;
+  issues: ImportIssue[];
+}
+
+// ============================================
+// Reading files
+// ============================================
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes, CRLF.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const readImportFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const { readSheet } = await import('read-excel-file/browser');
+    const sheet = await readSheet(file);
+    return sheet
+      .map(row => row.map(cell => (cell === null || cell === undefined ? '' : String(cell))))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+  }
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+    return parseCsv(await file.text());
+  }
+  throw new Error(t('import.wrongFileType'));
+};
+
+// ============================================
+// Column mapping
+// ============================================
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[\s_\-./()]+/g, '');
+
+export const detectColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex(h => field.aliases.includes(h));
+    if (index !== -1) mapping[field.key] = index;
+  }
+  return mapping;
+};
+
+// ============================================
+// Value parsing and validation
+// ============================================
+
+const splitList = (value: string): string[] =>
+  value.split(/[,;|]/).map(s => s.trim()).filter(Boolean);
+
+const parseYesNo = (value: string): boolean =>
+  ['yes', 'y', 'true', '1', 'हो', 'होय', 'आहे'].includes(value.trim().toLowerCase());
+
+const PAYMENT_ALIASES: Record<string, string> = {
+  upi: 'UPI', 'यूपीआय': 'UPI', gpay: 'UPI', phonepe: 'UPI',
+  cash: 'Cash', 'रोख': 'Cash', 'कॅश': 'Cash',
+  card: 'Card', 'कार्ड': 'Card',
+};
+
+const parsePaymentOptions = (value: string): string[] =>
+  Array.from(new Set(splitList(value).map(p => PAYMENT_ALIASES[p.toLowerCase()] || p)));
+
+const parseCoordinate = (value: string, limit: number): number | null => {
+  const number = Number(toAsciiDigits(value).trim());
+  return value.trim() !== '' && Number.isFinite(number) && Math.abs(number) <= limit ? number : null;
+};
+
+const normalizeName = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const resolveCategory = (value: string, categories: Category[]): Category | undefined => {
+  const needle = normalizeName(value);
+  return categories.find(c => c.id === value.trim() || normalizeName(c.name) === needle);
+};
+
+/**
+ * Turn data rows into businesses and attach per-row errors and warnings.
+ * Duplicates are checked against existing businesses and earlier rows.
+ */
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  categories: Category[],
+  existing: Business[]
+): ImportRow[] => {
+  const knownPhones = new Map<string, string>();
+  const knownNames = new Map<string, string>();
+  for (const b of existing) {
+    // Any of a business's numbers counts, not just the primary one
+    for (const contact of businessContacts(b)) {
+      const phone = phoneKey(contact.number);
+      if (phone) knownPhones.set(phone, b.shopName);
+    }
+    knownNames.set(normalizeName(b.shopName), b.shopName);
+  }
+
+  return rows.map((row, index) => {
+    const cell = (field: ImportField): string => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] || '').trim();
+    };
+
+    const issues: ImportIssue[] = [];
+
+    for (const field of IMPORT_FIELDS) {
+      if (field.required && !cell(field.key)) {
+        issues.push({ level: 'error', message: t('import.fieldEmpty', { field: t(field.labelKey) }) });
+      }
+    }
+
+    const rawPhone = cell('contactNumber');
+    const parsedPhone = rawPhone ? parsePhoneNumber(rawPhone) : null;
+    const phone = parsedPhone?.ok ? parsedPhone.number : null;
+    if (parsedPhone && !parsedPhone.ok) {
+      issues.push({ level: 'error', message: t('import.badPhone', { phone: rawPhone, error: parsedPhone.error }) });
+    }
+
+    const rawCategory = cell('category');
+    const category = rawCategory ? resolveCategory(rawCategory, categories) : undefined;
+    if (rawCategory && !category) {
+      issues.push({ level: 'error', message: t('import.unknownCategory', { category: rawCategory }) });
+    }
+
+    const extraCategories: string[] = [];
+    for (const rawExtra of splitList(cell('extraCategories'))) {
+      const extra = resolveCategory(rawExtra, categories);
+      if (extra) extraCategories.push(extra.id);
+      else issues.push({ level: 'warning', message: t('import.unknownExtraCategory', { category: rawExtra }) });
+    }
+
+    const shopName = cell('shopName');
+    if (phone && knownPhones.has(phone)) {
+      issues.push({ level: 'warning', message: t('import.duplicatePhone', { name: knownPhones.get(phone) }) });
+    }
+    if (shopName && knownNames.has(normalizeName(shopName))) {
+      issues.push({ level: 'warning', message: t('import.duplicateName', { name: knownNames.get(normalizeName(shopName)) }) });
+    }
+    if (phone) knownPhones.set(phone, shopName);
+    if (shopName) knownNames.set(normalizeName(shopName), shopName);
+
+    const openingHours = cell('openingHours');
+    const schedule = parseOpeningHours(openingHours);
+    if (openingHours && !schedule) {
+      issues.push({ level: 'warning', message: t('import.hoursUnparsed') });
+    }
+
+    const rawLatitude = cell('latitude');
+    const rawLongitude = cell('longitude');
+    let latitude = parseCoordinate(rawLatitude, 90);
+    let longitude = parseCoordinate(rawLongitude, 180);
+    if ((rawLatitude || rawLongitude) && (latitude === null || longitude === null)) {
+      issues.push({ level: 'warning', message: t('import.badLocation') });
+      latitude = longitude = null;
+    }
+
+    const business: Business = {
+      id: '',
+      shopName,
+      ownerName: cell('ownerName'),
+      contactNumber: phone || rawPhone,
+      contacts: phone ? [{ kind: guessContactKind(phone), number: phone }] : undefined,
+      category: category?.id || '',
+      extraCategories: extraCategories.filter(id => id !== category?.id),
+      tags: splitList(cell('tags')),
+      address: cell('address') || undefined,
+      openingHours: openingHours || undefined,
+      schedule: schedule || undefined,
+      services: splitList(cell('services')),
+      homeDelivery: parseYesNo(cell('homeDelivery')),
+      paymentOptions: parsePaymentOptions(cell('paymentOptions')),
+      latitude: latitude ?? undefined,
+      longitude: longitude ?? undefined,
+    };
+
+    return { rowNumber: index + 2, business, issues };
+  });
+};
@@ -1,4 +1,5 @@
 import { Business, Category } from './types';
+import { DbBusiness } from './supabaseClient';
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
 
 // IndexedDB Schema
@@ -19,10 +20,92 @@ interface JawalaDB extends DBSchema {
       updated_at: number;
     };
   };
+  outbox: {
+    key: number;
+    value: OutboxEntry;
+  };
+  thumbnails: {
+    key: string; // Thumbnail URL
+    value: {
+      url: string;
+      blob: Blob;
+      cached_at: number;
+    };
+  };
+  // The visitor's own data below: never synced, and kept by clearCache()
+  favorites: {
+    key: string; // Business id
+    value: FavoriteRecord;
+  };
+  recents: {
+    key: string;
+    value: RecentRecord;
+  };
+  notes: {
+    key: string;
+    value: BusinessNote;
+  };
+  // Anonymous usage events waiting to be sent (see analytics.ts)
+  usageEvents: {
+    key: number;
+    value: QueuedUsageEvent;
+  };
+}
+
+export interface FavoriteRecord {
+  businessId: string;
+  added_at: number;
+}
+
+export interface RecentRecord {
+  businessId: string;
+  viewed_at: number;
+}
+
+export interface BusinessNote {
+  businessId: string;
+  text: string;
+  updated_at: number;
+}
+
+// Everything in the personal stores, as moved between devices by personalBackup.ts
+export interface PersonalData {
+  favorites: FavoriteRecord[];
+  recents: RecentRecord[];
+  notes: BusinessNote[];
+}
+
+export type UsageEventKind = 'search' | 'ai_query' | 'category' | 'call' | 'whatsapp' | 'share';
+
+export interface QueuedUsageEvent {
+  id?: number;
+  kind: UsageEventKind;
+  query?: string;        // search and ai_query, already cleaned
+  resultCount?: number;  // search and ai_query
+  categoryId?: string;   // category
+  businessId?: string;   // call, whatsapp and share
+  day: string;           // Local YYYY-MM-DD; nothing finer is kept
+}
+
+export type OutboxOperation = 'add' | 'update' | 'delete';
+export type OutboxStatus = 'pending' | 'synced' | 'failed';
+
+// A queued admin write, replayed against Supabase when back online
+export interface OutboxEntry {
+  id?: number;
+  operation: OutboxOperation;
+  businessId: string; // Temporary local id for queued adds
+  business?: Business; // Payload for add/update
+  shopName: string; // Kept for display after a delete
+  status: OutboxStatus;
+  error?: string;
+  conflict?: { server: DbBusiness | null }; // Set when the server copy changed meanwhile
+  created_at: number;
+  updated_at: number;
 }
 
 const DB_NAME = 'jawala-business-db';
-const DB_VERSION = 1;
+export const DB_VERSION = 5;
 
 let dbInstance: IDBPDatabase<JawalaDB> | null = null;
 
@@ -46,6 +129,32 @@ export async function initDB(): Promise<IDBPDatabase<JawalaDB>> {
       if (!db.objectStoreNames.contains('metadata')) {
         db.createObjectStore('metadata', { keyPath: 'key' });
       }
+      
+      // Outbox store (admin writes waiting to be sent)
+      if (!db.objectStoreNames.contains('outbox')) {
+        db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+      }
+      
+      // Photo thumbnails, so cards still show them offline
+      if (!db.objectStoreNames.contains('thumbnails')) {
+        db.createObjectStore('thumbnails', { keyPath: 'url' });
+      }
+      
+      // Personal data: favourites, recently viewed and private notes
+      if (!db.objectStoreNames.contains('favorites')) {
+        db.createObjectStore('favorites', { keyPath: 'businessId' });
+      }
+      if (!db.objectStoreNames.contains('recents')) {
+        db.createObjectStore('recents', { keyPath: 'businessId' });
+      }
+      if (!db.objectStoreNames.contains('notes')) {
+        db.createObjectStore('notes', { keyPath: 'businessId' });
+      }
+      
+      // Usage events waiting for a connection
+      if (!db.objectStoreNames.contains('usageEvents')) {
+        db.createObjectStore('usageEvents', { keyPath: 'id', autoIncrement: true });
+      }
     },
   });
 
@@ -113,6 +222,189 @@ export async function setCachedCategories(categories: Category[]): Promise<void>
   await tx.done;
 }
 
+// ============================================
+// Thumbnail Caching
+// ============================================
+
+// Inline (data:) thumbnails from the development photo stub need no caching
+const isCacheableUrl = (url: string): boolean => /^https?:/.test(url);
+
+export async function getCachedThumbnail(url: string): Promise<Blob | null> {
+  const db = await initDB();
+  const entry = await db.get('thumbnails', url);
+  return entry ? entry.blob : null;
+}
+
+/**
+ * Return the thumbnail from the cache, downloading and storing it first
+ * if needed. Null when it is neither cached nor reachable.
+ */
+export async function loadThumbnail(url: string): Promise<Blob | null> {
+  const cached = await getCachedThumbnail(url);
+  if (cached || !isCacheableUrl(url) || !isOnline()) return cached;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const db = await initDB();
+    await db.put('thumbnails', { url, blob, cached_at: Date.now() });
+    return blob;
+  } catch (error) {
+    console.warn('⚠️ Thumbnail download failed:', url, error);
+    return null;
+  }
+}
+
+/**
+ * Download every thumbnail the directory uses and drop ones no business
+ * uses any more. Runs in the background after a sync.
+ */
+export async function prefetchThumbnails(businesses: Business[]): Promise<number> {
+  if (!isOnline()) return 0;
+
+  const wanted = new Set(
+    businesses.flatMap(b => (b.photos || []).map(p => p.thumbUrl)).filter(isCacheableUrl)
+  );
+  const db = await initDB();
+  const cachedUrls = await db.getAllKeys('thumbnails');
+
+  const stale = cachedUrls.filter(url => !wanted.has(url));
+  if (stale.length > 0) {
+    const tx = db.transaction('thumbnails', 'readwrite');
+    for (const url of stale) {
+      await tx.store.delete(url);
+    }
+    await tx.done;
+  }
+
+  const cached = new Set(cachedUrls);
+  let downloaded = 0;
+  // One at a time: there may be hundreds and this must not crowd out the UI
+  for (const url of wanted) {
+    if (cached.has(url)) continue;
+    if (await loadThumbnail(url)) downloaded++;
+  }
+  if (downloaded > 0) console.log(`🖼️ Cached ${downloaded} thumbnails`);
+  return downloaded;
+}
+
+// ============================================
+// Personal Data (favourites, recently viewed, notes)
+// ============================================
+// Stored only on this device. Entries are kept even if the business
+// disappears from the directory, so a restored business gets them back.
+
+const RECENT_LIMIT = 20;
+
+/** Favourite business ids, oldest first. */
+export async function getFavoriteIds(): Promise<string[]> {
+  const db = await initDB();
+  const favorites = await db.getAll('favorites');
+  return favorites.sort((a, b) => a.added_at - b.added_at).map(f => f.businessId);
+}
+
+export async function setFavorite(businessId: string, isFavorite: boolean): Promise<void> {
+  const db = await initDB();
+  if (isFavorite) {
+    await db.put('favorites', { businessId, added_at: Date.now() });
+  } else {
+    await db.delete('favorites', businessId);
+  }
+}
+
+/** Recently viewed business ids, most recent first. */
+export async function getRecentIds(): Promise<string[]> {
+  const db = await initDB();
+  const recents = await db.getAll('recents');
+  return recents.sort((a, b) => b.viewed_at - a.viewed_at).map(r => r.businessId);
+}
+
+export async function addRecent(businessId: string): Promise<string[]> {
+  const db = await initDB();
+  await db.put('recents', { businessId, viewed_at: Date.now() });
+
+  const ids = await getRecentIds();
+  const overflow = ids.slice(RECENT_LIMIT);
+  if (overflow.length > 0) {
+    const tx = db.transaction('recents', 'readwrite');
+    for (const id of overflow) {
+      await tx.store.delete(id);
+    }
+    await tx.done;
+  }
+  return ids.slice(0, RECENT_LIMIT);
+}
+
+export async function clearRecents(): Promise<void> {
+  const db = await initDB();
+  await db.clear('recents');
+}
+
+export async function getNotes(): Promise<Record<string, string>> {
+  const db = await initDB();
+  const notes = await db.getAll('notes');
+  return Object.fromEntries(notes.map(n => [n.businessId, n.text]));
+}
+
+/** Save a note; an empty one is deleted. */
+export async function setNote(businessId: string, text: string): Promise<void> {
+  const db = await initDB();
+  if (text.trim()) {
+    await db.put('notes', { businessId, text: text.trim(), updated_at: Date.now() });
+  } else {
+    await db.delete('notes', businessId);
+  }
+}
+
+export async function getPersonalData(): Promise<PersonalData> {
+  const db = await initDB();
+  const [favorites, recents, notes] = await Promise.all([
+    db.getAll('favorites'),
+    db.getAll('recents'),
+    db.getAll('notes'),
+  ]);
+  return { favorites, recents, notes };
+}
+
+/**
+ * Write personal data from another device. 'replace' drops what is here
+ * first; 'merge' keeps both, with the earlier favourite date, the later
+ * view and the newer note winning per business.
+ */
+export async function importPersonalData(data: PersonalData, mode: 'merge' | 'replace'): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction(['favorites', 'recents', 'notes'], 'readwrite');
+  const favorites = tx.objectStore('favorites');
+  const recents = tx.objectStore('recents');
+  const notes = tx.objectStore('notes');
+
+  if (mode === 'replace') {
+    await Promise.all([favorites.clear(), recents.clear(), notes.clear()]);
+  }
+
+  for (const favorite of data.favorites) {
+    const existing = await favorites.get(favorite.businessId);
+    if (!existing || favorite.added_at < existing.added_at) await favorites.put(favorite);
+  }
+  for (const recent of data.recents) {
+    const existing = await recents.get(recent.businessId);
+    if (!existing || recent.viewed_at > existing.viewed_at) await recents.put(recent);
+  }
+  for (const note of data.notes) {
+    const existing = await notes.get(note.businessId);
+    if (!existing || note.updated_at > existing.updated_at) await notes.put(note);
+  }
+
+  // Two merged histories can exceed the limit
+  const allRecents = (await recents.getAll()).sort((a, b) => b.viewed_at - a.viewed_at);
+  for (const recent of allRecents.slice(RECENT_LIMIT)) {
+    await recents.delete(recent.businessId);
+  }
+
+  await tx.done;
+}
+
 // ============================================
 // Businesses Caching
 // ============================================
@@ -128,20 +420,33 @@ export async function getCachedBusinesses(): Promise<Business[]> {
   });
 }
 
-export async function setCachedBusinesses(businesses: Business[]): Promise<void> {
+/**
+ * Replace the cached businesses with a full copy from the server. Businesses
+ * whose add is still waiting in the outbox are not on the server yet, so they
+ * are put back. Returns everything now in the cache.
+ */
+export async function setCachedBusinesses(businesses: Business[]): Promise<Business[]> {
   const db = await initDB();
-  const tx = db.transaction('businesses', 'readwrite');
-  
+  const tx = db.transaction(['businesses', 'outbox'], 'readwrite');
+  const store = tx.objectStore('businesses');
+
+  const pendingAdds = (await tx.objectStore('outbox').getAll())
+    .filter(e => e.operation === 'add' && e.status !== 'synced' && e.business)
+    .map(e => e.business!);
+  const serverIds = new Set(businesses.map(b => b.id));
+  const cached = [...businesses, ...pendingAdds.filter(b => !serverIds.has(b.id))];
+
   // Clear existing
-  await tx.store.clear();
+  await store.clear();
   
   // Add new with sync timestamp
   const now = Date.now();
-  for (const business of businesses) {
-    await tx.store.put({ ...business, _synced_at: now });
+  for (const business of cached) {
+    await store.put({ ...business, _synced_at: now });
   }
   
   await tx.done;
+  return cached;
 }
 
 export async function updateCachedBusiness(business: Business): Promise<void> {
@@ -154,6 +459,67 @@ export async function deleteCachedBusiness(businessId: string): Promise<void> {
   await db.delete('businesses', businessId);
 }
 
+/**
+ * Apply a server delta to the local cache in a single transaction.
+ * Deletions run first so a business that was deleted and later restored
+ * ends up present in the cache.
+ */
+export async function applyCachedBusinessChanges(
+  updated: Business[],
+  deletedIds: string[]
+): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('businesses', 'readwrite');
+
+  for (const id of deletedIds) {
+    await tx.store.delete(id);
+  }
+
+  const now = Date.now();
+  for (const business of updated) {
+    await tx.store.put({ ...business, _synced_at: now });
+  }
+
+  await tx.done;
+}
+
+// ============================================
+// Outbox (offline admin writes)
+// ============================================
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  const db = await initDB();
+  return await db.getAll('outbox');
+}
+
+export async function addOutboxEntry(entry: OutboxEntry): Promise<number> {
+  const db = await initDB();
+  return await db.add('outbox', entry);
+}
+
+export async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  const db = await initDB();
+  await db.put('outbox', { ...entry, updated_at: Date.now() });
+}
+
+export async function deleteOutboxEntry(id: number): Promise<void> {
+  const db = await initDB();
+  await db.delete('outbox', id);
+}
+
+export async function clearSyncedOutboxEntries(): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('outbox', 'readwrite');
+  
+  for (const entry of await tx.store.getAll()) {
+    if (entry.status === 'synced' && entry.id !== undefined) {
+      await tx.store.delete(entry.id);
+    }
+  }
+  
+  await tx.done;
+}
+
 // ============================================
 // Sync Strategy Functions
 // ============================================
@@ -165,12 +531,18 @@ export interface SyncResult {
   fromCache: boolean;
 }
 
+export interface SyncChanges {
+  businesses: Business[]; // Rows with updated_at newer than the local version
+  deletedIds: string[]; // Tombstones for rows deleted since the local version
+  categories: Category[];
+}
+
 /**
  * Determines if we need to sync data from server
  * Returns: 
  * - 'no_change': Local data is up to date
  * - 'full_sync': Need to fetch all data
- * - 'incremental_sync': Only fetch changes (if supported)
+ * - 'incremental_sync': Only fetch rows changed since the local version
  */
 export async function checkSyncNeeded(
   remoteVersion: DataVersion
@@ -183,28 +555,75 @@ export async function checkSyncNeeded(
     return 'full_sync';
   }
   
-  // Count changed - need sync
+  // Cache was wiped but version survived - deltas have nothing to apply to
+  const db = await initDB();
+  if (localVersion.business_count > 0 && (await db.count('businesses')) === 0) {
+    console.log('🔄 Local cache is empty - fetching all data');
+    return 'full_sync';
+  }
+  
+  // Count changed - fetch changes and tombstones
   if (localVersion.business_count !== remoteVersion.business_count) {
     console.log(`🔄 Count changed: ${localVersion.business_count} → ${remoteVersion.business_count}`);
-    return 'full_sync';
+    return 'incremental_sync';
   }
   
-  // Last updated timestamp changed - need sync
+  // Last updated timestamp changed - fetch changes
   if (localVersion.last_updated !== remoteVersion.last_updated) {
     console.log(`🔄 Data updated: ${localVersion.last_updated} → ${remoteVersion.last_updated}`);
-    return 'full_sync';
+    return 'incremental_sync';
   }
   
   console.log('✅ Local data is up to date');
   return 'no_change';
 }
 
+/**
+ * Fetch only what changed since the local version and merge it into the cache.
+ * Returns null when the merged cache does not match the remote count, in which
+ * case the caller should fall back to a full sync.
+ */
+async function incrementalSync(
+  localVersion: DataVersion,
+  remoteVersion: DataVersion,
+  fetchChanges: (since: string) => Promise<SyncChanges>
+): Promise<SyncResult | null> {
+  console.log(`📥 Fetching changes since ${localVersion.last_updated}...`);
+  const changes = await fetchChanges(localVersion.last_updated);
+  
+  await Promise.all([
+    applyCachedBusinessChanges(changes.businesses, changes.deletedIds),
+    setCachedCategories(changes.categories),
+  ]);
+  
+  const businesses = await getCachedBusinesses();
+  if (businesses.length !== remoteVersion.business_count) {
+    console.warn(`⚠️ Delta mismatch: ${businesses.length} cached vs ${remoteVersion.business_count} remote`);
+    return null;
+  }
+  
+  await setLocalVersion({
+    ...remoteVersion,
+    last_sync: Date.now(),
+  });
+  
+  console.log(`✅ Applied ${changes.businesses.length} changes, ${changes.deletedIds.length} deletions`);
+  
+  return {
+    action: 'incremental_sync',
+    businesses,
+    categories: changes.categories,
+    fromCache: false,
+  };
+}
+
 /**
  * Smart sync: Only fetch if needed, otherwise use cache
  */
 export async function smartSync(
   fetchRemoteVersion: () => Promise<DataVersion>,
-  fetchAllData: () => Promise<{ businesses: Business[]; categories: Category[] }>
+  fetchAllData: () => Promise<{ businesses: Business[]; categories: Category[] }>,
+  fetchChanges: (since: string) => Promise<SyncChanges>
 ): Promise<SyncResult> {
   try {
     // Step 1: Silent check for remote version (lightweight)
@@ -228,12 +647,21 @@ export async function smartSync(
       };
     }
     
-    // Step 3: Fetch fresh data
+    // Step 3: Try a delta sync first
+    if (syncAction === 'incremental_sync') {
+      const localVersion = await getLocalVersion();
+      const result = localVersion
+        ? await incrementalSync(localVersion, remoteVersion, fetchChanges)
+        : null;
+      if (result) return result;
+    }
+    
+    // Step 4: Fetch fresh data
     console.log('📥 Fetching fresh data from server...');
     const { businesses, categories } = await fetchAllData();
     
-    // Step 4: Update cache
-    await Promise.all([
+    // Step 5: Update cache
+    const [cachedBusinesses] = await Promise.all([
       setCachedBusinesses(businesses),
       setCachedCategories(categories),
       setLocalVersion({
@@ -246,7 +674,7 @@ export async function smartSync(
     
     return {
       action: 'full_sync',
-      businesses,
+      businesses: cachedBusinesses,
       categories,
       fromCache: false,
     };
@@ -269,6 +697,42 @@ export async function smartSync(
   }
 }
 
+// ============================================
+// Usage Events (anonymous analytics queue)
+// ============================================
+
+/** Queue an event, dropping the oldest ones beyond maxQueued. */
+export async function addUsageEvent(event: QueuedUsageEvent, maxQueued: number): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('usageEvents', 'readwrite');
+  await tx.store.add(event);
+  let excess = (await tx.store.count()) - maxQueued;
+  if (excess > 0) {
+    let cursor = await tx.store.openCursor();
+    while (cursor && excess > 0) {
+      await cursor.delete();
+      excess--;
+      cursor = await cursor.continue();
+    }
+  }
+  await tx.done;
+}
+
+/** The oldest queued events first. */
+export async function getUsageEvents(limit: number): Promise<QueuedUsageEvent[]> {
+  const db = await initDB();
+  return await db.getAll('usageEvents', undefined, limit);
+}
+
+export async function deleteUsageEvents(ids: number[]): Promise<void> {
+  const db = await initDB();
+  const tx = db.transaction('usageEvents', 'readwrite');
+  for (const id of ids) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+}
+
 // ============================================
 // Offline Detection
 // ============================================
@@ -291,12 +755,17 @@ export function onOffline(callback: () => void): () => void {
 // Cache Management
 // ============================================
 
+// Note: the outbox, the usage event queue and the personal stores (favourites,
+// recents, notes) are deliberately left alone so queued work and the visitor's
+// own data survive
 export async function clearCache(): Promise<void> {
   const db = await initDB();
   await Promise.all([
     db.clear('businesses'),
     db.clear('categories'),
-    db.clear('metadata'),
+    // Only the sync version: metadata also holds the AI chat transcript
+    db.delete('metadata', 'data_version'),
+    db.clear('thumbnails'),
   ]);
   console.log('🗑️ Cache cleared');
 }
@@ -304,18 +773,21 @@ export async function clearCache(): Promise<void> {
 export async function getCacheSize(): Promise<{
   businesses: number;
   categories: number;
+  thumbnails: number;
   lastSync: number | null;
 }> {
   const db = await initDB();
-  const [businesses, categories, version] = await Promise.all([
+  const [businesses, categories, thumbnails, version] = await Promise.all([
     db.count('businesses'),
     db.count('categories'),
+    db.count('thumbnails'),
     getLocalVersion(),
   ]);
   
   return {
     businesses,
     categories,
+    thumbnails,
     lastSync: version?.last_sync || null,
   };
 }
@@ -325,7 +797,7 @@ export async function getCacheSize(): Promise<{
 // ============================================
 
 export async function registerBackgroundSync(): Promise<void> {
-  if ('serviceWorker' in navigator && 'sync' in (self as any).registration) {
+  if ('serviceWorker' in navigator && 'SyncManager' in window) {
     try {
       const registration = await navigator.serviceWorker.ready;
       await (registration as any).sync.register('sync-businesses');
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { Category } from '../types';
+import * as SupabaseService from '../supabaseClient';
+import { AdminProfile, AdminRole } from '../supabaseClient';
+import { ADMIN_ROLES, roleLabel } from '../permissions';
+import { categoryName, t } from '../i18n';
+
+interface AdminManagerProps {
+    currentAdminId: string;
+    categories: Category[];
+    onBack: () => void;
+    onClose: () => void;
+}
+
+interface RoleDraft {
+    role: AdminRole;
+    category_ids: string[];
+}
+
+const RoleFields: React.FC<{
+    draft: RoleDraft;
+    categories: Category[];
+    onChange: (draft: RoleDraft) => void;
+    disabled?: boolean;
+}> = ({ draft, categories, onChange, disabled }) => {
+    const toggleCategory = (categoryId: string) => {
+        const ids = draft.category_ids.includes(categoryId)
+            ? draft.category_ids.filter(id => id !== categoryId)
+            : [...draft.category_ids, categoryId];
+        onChange({ ...draft, category_ids: ids });
+    };
+
+    return (
+        <div className="space-y-2">
+            <select
+                value={draft.role}
+                onChange={e => onChange({ ...draft, role: e.target.value as AdminRole })}
+                className="w-full p-2 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary text-sm"
+                disabled={disabled}
+            >
+                {ADMIN_ROLES.map(({ role, labelKey, descriptionKey }) => (
+                    <option key={role} value={role}>{t(labelKey)} – {t(descriptionKey)}</option>
+                ))}
+            </select>
+            {draft.role === 'category_moderator' && (
+                <div className="flex flex-wrap gap-2">
+                    {categories.map(category => {
+                        const selected = draft.category_ids.includes(category.id);
+                        return (
+                            <button
+                                key={category.id}
+                                type="button"
+                                onClick={() => toggleCategory(category.id)}
+                                disabled={disabled}
+                                className={`px-2 py-1 text-xs rounded-full border transition-colors ${selected ? 'bg-primary text-white border-primary' : 'bg-surface border-border-color hover:border-primary'}`}
+                            >
+                                {categoryName(category)}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const AdminManager: React.FC<AdminManagerProps> = ({ currentAdminId, categories, onBack, onClose }) => {
+    const [admins, setAdmins] = useState<AdminProfile[]>([]);
+    const [drafts, setDrafts] = useState<Record<string, RoleDraft>>({});
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [invite, setInvite] = useState({ email: '', display_name: '' });
+    const [inviteRole, setInviteRole] = useState<RoleDraft>({ role: 'editor', category_ids: [] });
+    const [isInviting, setIsInviting] = useState(false);
+
+    const loadAdmins = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            const profiles = await SupabaseService.fetchAdminProfiles();
+            setAdmins(profiles);
+            setDrafts(Object.fromEntries(profiles.map(p => [p.id, { role: p.role, category_ids: p.category_ids || [] }])));
+        } catch (err) {
+            console.error('Admin list error:', err);
+            setError(t('admins.loadFailed'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadAdmins();
+    }, []);
+
+    const isChanged = (admin: AdminProfile) => {
+        const draft = drafts[admin.id];
+        if (!draft) return false;
+        return draft.role !== admin.role
+            || draft.category_ids.slice().sort().join() !== (admin.category_ids || []).slice().sort().join();
+    };
+
+    const handleSave = async (admin: AdminProfile) => {
+        const draft = drafts[admin.id];
+        if (draft.role === 'category_moderator' && draft.category_ids.length === 0) {
+            alert(t('admins.pickCategory'));
+            return;
+        }
+        setBusyId(admin.id);
+        try {
+            const updated = await SupabaseService.updateAdminProfile(admin.id, draft);
+            setAdmins(prev => prev.map(a => (a.id === updated.id ? updated : a)));
+        } catch (err: any) {
+            console.error('Update admin error:', err);
+            alert(t('admins.saveFailed', { error: err.message }));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRemove = async (admin: AdminProfile) => {
+        if (!confirm(t('admins.removeConfirm', { name: admin.display_name }))) return;
+        setBusyId(admin.id);
+        try {
+            await SupabaseService.removeAdmin(admin.id);
+            setAdmins(prev => prev.filter(a => a.id !== admin.id));
+        } catch (err: any) {
+            console.error('Remove admin error:', err);
+            alert(t('admins.removeFailed', { error: err.message }));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (inviteRole.role === 'category_moderator' && inviteRole.category_ids.length === 0) {
+            alert(t('admins.pickCategory'));
+            return;
+        }
+        setIsInviting(true);
+        try {
+            await SupabaseService.inviteAdmin({ ...invite, ...inviteRole });
+            alert(t('admins.invited', { email: invite.email }));
+            setInvite({ email: '', display_name: '' });
+            setInviteRole({ role: 'editor', category_ids: [] });
+            await loadAdmins();
+        } catch (err: any) {
+            console.error('Invite admin error:', err);
+            alert(t('admins.inviteFailed', { error: err.message }));
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const inputStyles = "w-full p-2 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary text-sm";
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-2xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
+                    <h3 className="font-inter text-xl font-bold text-primary">{t('admin.admins')}</h3>
+                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
+                </header>
+
+                <div className="overflow-y-auto p-4 space-y-6">
+                    <form onSubmit={handleInvite} className="p-4 bg-background rounded-lg space-y-3">
+                        <h4 className="font-bold text-text-primary"><i className="fas fa-user-plus mr-2 text-primary"></i>{t('admins.inviteTitle')}</h4>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <input type="email" value={invite.email} onChange={e => setInvite({ ...invite, email: e.target.value })} placeholder={t('admins.email')} className={inputStyles} required disabled={isInviting} />
+                            <input value={invite.display_name} onChange={e => setInvite({ ...invite, display_name: e.target.value })} placeholder={t('admins.name')} className={inputStyles} disabled={isInviting} />
+                        </div>
+                        <RoleFields draft={inviteRole} categories={categories} onChange={setInviteRole} disabled={isInviting} />
+                        <button type="submit" disabled={isInviting} className="px-4 py-2 bg-primary text-white font-semibold rounded-lg text-sm hover:bg-primary/90 disabled:opacity-60 disabled:cursor-not-allowed">
+                            {isInviting ? t('admins.sending') : t('admins.sendInvite')}
+                        </button>
+                    </form>
+
+                    {isLoading && (
+                        <div className="flex items-center justify-center p-6">
+                            <div className="w-8 h-8 border-4 border-t-primary border-gray-200 rounded-full animate-spin"></div>
+                        </div>
+                    )}
+                    {error && <p className="text-center text-red-600 font-semibold p-4 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+
+                    {!isLoading && admins.length > 0 && (
+                        <ul className="space-y-3">
+                            {admins.map(admin => {
+                                const isSelf = admin.id === currentAdminId;
+                                const isBusy = busyId === admin.id;
+                                return (
+                                    <li key={admin.id} className="p-4 bg-background rounded-lg space-y-3">
+                                        <div className="flex flex-wrap justify-between items-center gap-2">
+                                            <div className="min-w-0">
+                                                <p className="font-semibold truncate">{admin.display_name}{isSelf && <span className="text-text-secondary font-normal"> ({t('admins.you')})</span>}</p>
+                                                <p className="text-sm text-text-secondary truncate">{admin.email} · {roleLabel(admin.role)}</p>
+                                            </div>
+                                            {!isSelf && (
+                                                <button onClick={() => handleRemove(admin)} disabled={busyId !== null} className="px-3 py-1 bg-red-600 text-white font-semibold rounded-lg text-sm hover:bg-red-700 disabled:opacity-60 disabled:cursor-not-allowed">
+                                                    {isBusy ? '...' : t('admins.remove')}
+                                                </button>
+                                            )}
+                                        </div>
+                                        {/* Changing your own role could lock you out of this screen */}
+                                        {!isSelf && drafts[admin.id] && (
+                                            <>
+                                                <RoleFields
+                                                    draft={drafts[admin.id]}
+                                                    categories={categories}
+                                                    onChange={draft => setDrafts(prev => ({ ...prev, [admin.id]: draft }))}
+                                                    disabled={isBusy}
+                                                />
+                                                {isChanged(admin) && (
+                                                    <button onClick={() => handleSave(admin)} disabled={busyId !== null} className="px-3 py-1 bg-secondary text-white font-semibold rounded-lg text-sm hover:bg-secondary/90 disabled:opacity-60 disabled:cursor-not-allowed">
+                                                        {isBusy ? '...' : t('admins.saveChanges')}
+                                                    </button>
+                                                )}
+                                            </>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+
+                <footer className="p-3 border-t border-border-color text-center sticky bottom-0 bg-surface/80 backdrop-blur-sm">
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default AdminManager;
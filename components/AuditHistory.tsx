@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Category } from '../types';
+import * as SupabaseService from '../supabaseClient';
+import { AuditLog } from '../supabaseClient';
+import { diffBusinesses, formatFieldValue } from '../businessDiff';
+import { MessageKey, formatDateTime, t } from '../i18n';
+
+interface AuditHistoryProps {
+    businessId?: string; // Omit to show recent changes across all businesses
+    businessName?: string;
+    categories: Category[];
+    onRestore: (log: AuditLog) => Promise<void>;
+    canRestore?: boolean;
+    onBack: () => void;
+    onClose: () => void;
+}
+
+const actionStyles: Record<AuditLog['action'], { labelKey: MessageKey; icon: string; className: string }> = {
+    INSERT: { labelKey: 'history.inserted', icon: 'fas fa-plus', className: 'bg-green-100 text-green-800' },
+    UPDATE: { labelKey: 'history.updated', icon: 'fas fa-pen', className: 'bg-blue-100 text-blue-800' },
+    DELETE: { labelKey: 'history.deleted', icon: 'fas fa-trash', className: 'bg-red-100 text-red-800' },
+    SUBMISSION_APPROVED: { labelKey: 'history.approved', icon: 'fas fa-check', className: 'bg-teal-100 text-teal-800' },
+    SUBMISSION_REJECTED: { labelKey: 'history.rejected', icon: 'fas fa-xmark', className: 'bg-amber-100 text-amber-800' },
+};
+
+const AuditHistory: React.FC<AuditHistoryProps> = ({ businessId, businessName, categories, onRestore, canRestore = true, onBack, onClose }) => {
+    const [logs, setLogs] = useState<AuditLog[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [restoringId, setRestoringId] = useState<number | null>(null);
+
+    const loadLogs = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            setLogs(await SupabaseService.fetchAuditLogs(businessId));
+        } catch (err) {
+            console.error('Audit log error:', err);
+            setError(t('history.loadFailed'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadLogs();
+    }, [businessId]);
+
+    const handleRestore = async (log: AuditLog) => {
+        const name = log.old_data?.shop_name || '';
+        if (!confirm(t('history.restoreConfirm', { name }))) return;
+
+        setRestoringId(log.id);
+        try {
+            await onRestore(log);
+            await loadLogs();
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-2xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
+                    <div className="min-w-0">
+                        <h3 className="font-inter text-xl font-bold text-primary">{t('admin.history')}</h3>
+                        {businessName && <p className="text-sm text-text-secondary truncate">{businessName}</p>}
+                    </div>
+                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2 flex-shrink-0"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
+                </header>
+
+                <div className="overflow-y-auto p-4">
+                    {isLoading && (
+                        <div className="flex items-center justify-center p-6">
+                            <div className="w-8 h-8 border-4 border-t-primary border-gray-200 rounded-full animate-spin"></div>
+                        </div>
+                    )}
+                    {error && <p className="text-center text-red-600 font-semibold p-4 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+                    {!isLoading && !error && logs.length === 0 && (
+                        <p className="p-8 text-center text-text-secondary">{t('history.empty')}</p>
+                    )}
+
+                    {!isLoading && logs.length > 0 && (
+                        <ol className="relative border-l-2 border-border-color ml-3 space-y-6">
+                            {logs.map(log => {
+                                const style = actionStyles[log.action];
+                                const diffs = diffBusinesses(log.old_data, log.new_data);
+                                const shopName = log.new_data?.shop_name || log.old_data?.shop_name;
+                                return (
+                                    <li key={log.id} className="ml-6">
+                                        <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full text-xs ${style.className}`}>
+                                            <i className={style.icon}></i>
+                                        </span>
+                                        <div className="p-3 bg-background rounded-lg">
+                                            <div className="flex flex-wrap justify-between items-center gap-2">
+                                                <p className="font-semibold">
+                                                    {!businessId && shopName && <span className="text-primary">{shopName} · </span>}
+                                                    {t(style.labelKey)}
+                                                </p>
+                                                <p className="text-xs text-text-secondary">
+                                                    <i className="fas fa-user-shield mr-1"></i>{log.admin_name || '—'} · {formatDateTime(log.performed_at)}
+                                                </p>
+                                            </div>
+
+                                            {log.action === 'UPDATE' && diffs.length > 0 && (
+                                                <ul className="mt-2 space-y-1 text-sm">
+                                                    {diffs.map(diff => (
+                                                        <li key={diff.key} className="break-words">
+                                                            <span className="font-semibold text-text-primary">{diff.label}: </span>
+                                                            <span className="line-through text-red-600">{formatFieldValue(diff.key, diff.before, categories)}</span>
+                                                            <i className="fas fa-arrow-right mx-2 text-text-secondary text-xs"></i>
+                                                            <span className="text-green-700">{formatFieldValue(diff.key, diff.after, categories)}</span>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                            {log.action !== 'UPDATE' && diffs.length > 0 && (
+                                                <ul className="mt-2 space-y-1 text-sm text-text-secondary">
+                                                    {diffs.map(diff => (
+                                                        <li key={diff.key} className="break-words">
+                                                            <span className="font-semibold text-text-primary">{diff.label}: </span>
+                                                            {formatFieldValue(diff.key, log.action === 'DELETE' ? diff.before : diff.after, categories)}
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+
+                                            {log.new_data?.message && (
+                                                <p className="mt-2 text-sm italic text-text-secondary break-words">"{log.new_data.message}"</p>
+                                            )}
+                                            {log.action === 'SUBMISSION_REJECTED' && log.new_data?.reject_reason && (
+                                                <p className="mt-2 text-sm text-amber-800 break-words"><span className="font-semibold">{t('history.reason')} </span>{log.new_data.reject_reason}</p>
+                                            )}
+
+                                            {canRestore && log.old_data && (
+                                                <button
+                                                    onClick={() => handleRestore(log)}
+                                                    disabled={restoringId !== null}
+                                                    className="mt-3 px-3 py-1 bg-secondary text-white font-semibold rounded-lg text-sm hover:bg-secondary/90 disabled:opacity-60 disabled:cursor-not-allowed"
+                                                >
+                                                    <i className="fas fa-undo mr-1"></i>
+                                                    {restoringId === log.id ? '...' : (log.action === 'DELETE' ? t('history.restoreBusiness') : t('history.restoreVersion'))}
+                                                </button>
+                                            )}
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    )}
+                </div>
+
+                <footer className="p-3 border-t border-border-color text-center sticky bottom-0 bg-surface/80 backdrop-blur-sm">
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default AuditHistory;
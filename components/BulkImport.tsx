@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { Business, Category } from '../types';
+import { ColumnMapping, IMPORT_FIELDS, ImportField, buildImportRows, detectColumnMapping, readImportFile } from '../businessImport';
+import { formatPhoneNumber } from '../phone';
+import { categoryName, t } from '../i18n';
+
+interface BulkImportProps {
+    categories: Category[];
+    existingBusinesses: Business[];
+    onImportBatch: (businesses: Business[]) => Promise<void>;
+    onBack: () => void;
+    onClose: () => void;
+}
+
+const BATCH_SIZE = 20;
+
+const BulkImport: React.FC<BulkImportProps> = ({ categories, existingBusinesses, onImportBatch, onBack, onClose }) => {
+    const [fileName, setFileName] = useState('');
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [dataRows, setDataRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [excluded, setExcluded] = useState<Set<number>>(new Set());
+    const [error, setError] = useState('');
+    const [progress, setProgress] = useState<{ done: number; total: number; failed: number } | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+
+    const importRows = useMemo(
+        () => buildImportRows(dataRows, mapping, categories, existingBusinesses),
+        [dataRows, mapping, categories, existingBusinesses]
+    );
+
+    const hasErrors = (rowNumber: number) =>
+        importRows.some(r => r.rowNumber === rowNumber && r.issues.some(i => i.level === 'error'));
+
+    const selectedRows = importRows.filter(r => !excluded.has(r.rowNumber) && !r.issues.some(i => i.level === 'error'));
+
+    const categoryNameById = (id: string) => {
+        const category = categories.find(c => c.id === id);
+        return category ? categoryName(category) : '';
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setError('');
+        setProgress(null);
+        try {
+            const [headerRow = [], ...rows] = await readImportFile(file);
+            const detected = detectColumnMapping(headerRow);
+            const preview = buildImportRows(rows, detected, categories, existingBusinesses);
+
+            setFileName(file.name);
+            setHeaders(headerRow);
+            setDataRows(rows);
+            setMapping(detected);
+            // Likely duplicates start unticked; the admin can opt them in
+            setExcluded(new Set(preview.filter(r => r.issues.length > 0).map(r => r.rowNumber)));
+        } catch (err: any) {
+            console.error('Import read error:', err);
+            setError(err.message || t('import.readFailed'));
+        } finally {
+            e.target.value = '';
+        }
+    };
+
+    const handleMappingChange = (field: ImportField, value: string) => {
+        const next = { ...mapping };
+        if (value === '') {
+            delete next[field];
+        } else {
+            next[field] = Number(value);
+        }
+        setMapping(next);
+    };
+
+    const toggleRow = (rowNumber: number) => {
+        const next = new Set(excluded);
+        if (next.has(rowNumber)) {
+            next.delete(rowNumber);
+        } else {
+            next.add(rowNumber);
+        }
+        setExcluded(next);
+    };
+
+    const handleImport = async () => {
+        const toImport = selectedRows;
+        if (toImport.length === 0) return;
+        if (!confirm(t('import.confirm', { count: toImport.length }))) return;
+
+        setIsImporting(true);
+        let done = 0;
+        let failed = 0;
+        const imported = new Set(excluded);
+        setProgress({ done, total: toImport.length, failed });
+
+        for (let i = 0; i < toImport.length; i += BATCH_SIZE) {
+            const batch = toImport.slice(i, i + BATCH_SIZE);
+            try {
+                await onImportBatch(batch.map(r => r.business));
+                // Untick imported rows so a retry only sends the failed ones
+                batch.forEach(r => imported.add(r.rowNumber));
+                setExcluded(new Set(imported));
+            } catch (err) {
+                console.error('Import batch error:', err);
+                failed += batch.length;
+            }
+            done += batch.length;
+            setProgress({ done, total: toImport.length, failed });
+        }
+
+        setIsImporting(false);
+        if (failed === 0) {
+            setDataRows([]);
+            setHeaders([]);
+            setFileName('');
+        }
+    };
+
+    const selectStyles = "w-full p-2 border-2 border-border-color rounded-lg bg-surface text-sm focus:outline-none focus:border-primary";
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-4xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
+                    <h3 className="font-inter text-xl font-bold text-primary">{t('import.title')}</h3>
+                    <button onClick={onBack} disabled={isImporting} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
+                </header>
+
+                <div className="overflow-y-auto p-4 space-y-4">
+                    <label className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-border-color rounded-lg cursor-pointer hover:border-primary">
+                        <i className="fas fa-file-upload text-3xl text-primary"></i>
+                        <span className="font-semibold">{fileName || t('import.chooseFile')}</span>
+                        <span className="text-xs text-text-secondary">{t('import.headerHint')}</span>
+                        <input type="file" accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" onChange={handleFileChange} className="hidden" disabled={isImporting} />
+                    </label>
+
+                    {error && <p className="text-center text-red-600 font-semibold p-3 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+
+                    {progress && (
+                        <div className="p-3 bg-background rounded-lg">
+                            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                                <div className="h-full bg-primary" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div>
+                            </div>
+                            <p className="text-sm text-text-secondary mt-2">
+                                {t('import.progress', { added: progress.done - progress.failed, total: progress.total })}
+                                {progress.failed > 0 && <span className="text-red-600 ml-2">({t('import.failedCount', { count: progress.failed })})</span>}
+                            </p>
+                        </div>
+                    )}
+
+                    {headers.length > 0 && (
+                        <>
+                            <div>
+                                <h4 className="font-bold text-text-primary mb-2">{t('import.matchColumns')}</h4>
+                                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                                    {IMPORT_FIELDS.map(field => (
+                                        <label key={field.key} className="text-sm">
+                                            <span className="font-semibold">{t(field.labelKey)}{field.required && <span className="text-red-600"> *</span>}</span>
+                                            <select value={mapping[field.key] ?? ''} onChange={e => handleMappingChange(field.key, e.target.value)} className={selectStyles} disabled={isImporting}>
+                                                <option value="">— {t('common.no')} —</option>
+                                                {headers.map((header, index) => <option key={index} value={index}>{header || t('import.column', { index: index + 1 })}</option>)}
+                                            </select>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead>
+                                        <tr className="text-left border-b-2 border-border-color">
+                                            <th className="p-2"></th>
+                                            <th className="p-2">{t('import.row')}</th>
+                                            <th className="p-2">{t('field.shopName')}</th>
+                                            <th className="p-2">{t('import.owner')}</th>
+                                            <th className="p-2">{t('usage.contacts')}</th>
+                                            <th className="p-2">{t('field.category')}</th>
+                                            <th className="p-2">{t('import.check')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {importRows.map(row => {
+                                            const rowHasErrors = hasErrors(row.rowNumber);
+                                            return (
+                                                <tr key={row.rowNumber} className={`border-b border-border-color align-top ${rowHasErrors ? 'bg-red-50' : ''}`}>
+                                                    <td className="p-2">
+                                                        <input type="checkbox" checked={!rowHasErrors && !excluded.has(row.rowNumber)} disabled={rowHasErrors || isImporting} onChange={() => toggleRow(row.rowNumber)} />
+                                                    </td>
+                                                    <td className="p-2 text-text-secondary">{row.rowNumber}</td>
+                                                    <td className="p-2 font-semibold">{row.business.shopName}</td>
+                                                    <td className="p-2">{row.business.ownerName}</td>
+                                                    <td className="p-2 whitespace-nowrap">{formatPhoneNumber(row.business.contactNumber)}</td>
+                                                    <td className="p-2">{categoryNameById(row.business.category)}</td>
+                                                    <td className="p-2">
+                                                        {row.issues.length === 0
+                                                            ? <i className="fas fa-check-circle text-green-600"></i>
+                                                            : row.issues.map((issue, i) => (
+                                                                <p key={i} className={issue.level === 'error' ? 'text-red-600' : 'text-yellow-700'}>
+                                                                    <i className={`fas ${issue.level === 'error' ? 'fa-times-circle' : 'fa-exclamation-triangle'} mr-1`}></i>{issue.message}
+                                                                </p>
+                                                            ))}
+                                                    </td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <footer className="p-3 border-t border-border-color flex justify-center items-center gap-4 sticky bottom-0 bg-surface/80 backdrop-blur-sm">
+                    {headers.length > 0 && (
+                        <button onClick={handleImport} disabled={isImporting || selectedRows.length === 0} className="px-6 py-2 bg-primary text-white font-bold rounded-lg hover:bg-primary/90 disabled:opacity-60 disabled:cursor-not-allowed">
+                            {isImporting ? t('backup.restoring') : t('import.submit', { count: selectedRows.length })}
+                        </button>
+                    )}
+                    <button onClick={onClose} disabled={isImporting} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default BulkImport;
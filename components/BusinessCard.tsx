@@ -1,54 +1,146 @@
 import React from 'react';
 import { Business } from '../types';
+import { SearchField, SearchHighlights } from '../searchIndex';
+import HighlightedText from './HighlightedText';
+import OpenStatusBadge from './OpenStatusBadge';
+import ThumbnailImage from './ThumbnailImage';
+import { coverPhoto } from '../photoService';
+import { formatDistance } from '../geo';
+import { ContactChannel, formatRating, isNumberDoubtful } from '../ratings';
+import { callContact, formatPhoneNumber, toTelHref, toWhatsAppUrl, whatsAppContact } from '../phone';
+import { formatNumber, shopName, t } from '../i18n';
 
 interface BusinessCardProps {
     business: Business;
     onViewDetails: (business: Business) => void;
+    highlights?: SearchHighlights;
+    now: Date;
+    distanceKm?: number;
+    isFavorite?: boolean;
+    onToggleFavorite?: (business: Business) => void;
+    note?: string; // The visitor's private note
+    onContact?: (business: Business, channel: ContactChannel) => void;
 }
 
-const formatPhoneNumber = (phoneNumber: string): string => {
-    if (phoneNumber.length === 10) {
-        return `+91 ${phoneNumber.slice(0, 5)} ${phoneNumber.slice(5)}`;
-    }
-    return phoneNumber;
-};
+// Fields not shown on the card; the first one that matched is shown as an extra line
+const EXTRA_MATCH_FIELDS: Array<{ field: SearchField; icon: string }> = [
+    { field: 'otherNames', icon: 'fas fa-language' },
+    { field: 'services', icon: 'fas fa-concierge-bell' },
+    { field: 'tags', icon: 'fas fa-hashtag' },
+    { field: 'category', icon: 'fas fa-tag' },
+    { field: 'address', icon: 'fas fa-map-marker-alt' },
+];
+
+const BusinessCard: React.FC<BusinessCardProps> = ({ business, onViewDetails, highlights, now, distanceKm, isFavorite = false, onToggleFavorite, note, onContact }) => {
+    const extraMatch = highlights && EXTRA_MATCH_FIELDS.find(({ field }) => highlights[field]);
+    const extraMatchText = extraMatch && highlights?.[extraMatch.field];
+    const formattedPhone = formatPhoneNumber(business.contactNumber);
+    // Businesses with only a WhatsApp number get a chat button instead of a call button
+    const callNumber = callContact(business)?.number;
+    const chatNumber = callNumber ? undefined : whatsAppContact(business)?.number;
+    const chatUrl = chatNumber ? toWhatsAppUrl(chatNumber) : null;
+    const cover = coverPhoto(business);
 
-const BusinessCard: React.FC<BusinessCardProps> = ({ business, onViewDetails }) => {
     return (
         <div className={`relative group bg-surface rounded-xl shadow-card transition-all duration-300 border-l-4 border-transparent hover:border-primary hover:shadow-card-hover hover:scale-[1.02] ${business.homeDelivery ? 'pt-5 px-5 pb-8' : 'p-5'}`}>
             
             {business.homeDelivery && (
-                <div className="absolute bottom-0 right-0 bg-secondary text-white text-xs font-bold px-3 py-1 rounded-tl-lg rounded-br-xl flex items-center gap-1.5" title="होम डिलिव्हरी उपलब्ध">
+                <div className="absolute bottom-0 right-0 bg-secondary text-white text-xs font-bold px-3 py-1 rounded-tl-lg rounded-br-xl flex items-center gap-1.5" title={t('detail.homeDelivery')}>
                     <i className="fas fa-bicycle"></i>
-                    <span>डिलिव्हरी</span>
+                    <span>{t('card.delivery')}</span>
                 </div>
             )}
 
             <div className="flex justify-between items-start gap-4">
+                {cover && (
+                    <button onClick={() => onViewDetails(business)} className="flex-shrink-0" aria-label={t('card.viewPhotos')}>
+                        <ThumbnailImage url={cover.thumbUrl} alt={shopName(business)} className="w-16 h-16 sm:w-20 sm:h-20 rounded-lg" />
+                    </button>
+                )}
+
                 {/* Left side: Info */}
                 <div className="flex-grow min-w-0">
-                    <h4 className="font-inter text-lg font-bold text-primary pr-16 truncate group-hover:whitespace-normal" title={business.shopName}>{business.shopName}</h4>
+                    <h4 className="font-inter text-lg font-bold text-primary pr-16 truncate group-hover:whitespace-normal" title={shopName(business)}>
+                        <HighlightedText text={shopName(business)} ranges={highlights?.shopName?.ranges} />
+                    </h4>
+                    <div className="mt-1 flex flex-wrap items-center gap-2">
+                        <OpenStatusBadge business={business} now={now} />
+                        {distanceKm !== undefined && (
+                            <span className="inline-flex items-center gap-1.5 text-xs font-bold px-2.5 py-1 rounded-full bg-blue-50 text-blue-700">
+                                <i className="fas fa-location-arrow"></i>{formatDistance(distanceKm)}
+                            </span>
+                        )}
+                        {business.rating?.average != null && business.rating.count > 0 && (
+                            <span className="inline-flex items-center gap-1 text-xs font-bold px-2.5 py-1 rounded-full bg-amber-50 text-amber-700" title={t('reviews.count', { count: business.rating.count })}>
+                                <i className="fas fa-star"></i>{formatRating(business.rating.average)}
+                                <span className="font-normal">({formatNumber(business.rating.count)})</span>
+                            </span>
+                        )}
+                    </div>
                     <div className="mt-2 space-y-1.5 text-text-secondary">
                         <p className="flex items-center gap-3">
                             <i className="fas fa-user w-4 text-center text-gray-400"></i>
-                            <span>{business.ownerName}</span>
+                            <span><HighlightedText text={business.ownerName} ranges={highlights?.ownerName?.ranges} /></span>
                         </p>
                         <p className="flex items-center gap-3">
                             <i className="fas fa-phone w-4 text-center text-gray-400"></i>
-                            <span className="font-semibold text-text-primary tracking-wider">{formatPhoneNumber(business.contactNumber)}</span>
+                            <span className="font-semibold text-text-primary tracking-wider">
+                                <HighlightedText text={formattedPhone} ranges={highlights?.contactNumber ? [[0, formattedPhone.length]] : undefined} />
+                            </span>
+                            {isNumberDoubtful(business.rating) && (
+                                <span className="text-xs font-bold text-red-600" title={t('card.numberDoubtfulTitle')}>
+                                    <i className="fas fa-triangle-exclamation mr-1"></i>{t('card.numberDoubtful')}
+                                </span>
+                            )}
                         </p>
+                        {note && (
+                            <p className="flex items-center gap-3 text-sm text-amber-700">
+                                <i className="fas fa-sticky-note w-4 text-center"></i>
+                                <span className="truncate">{note}</span>
+                            </p>
+                        )}
+                        {extraMatch && extraMatchText && (
+                            <p className="flex items-center gap-3 text-sm">
+                                <i className={`${extraMatch.icon} w-4 text-center text-gray-400`}></i>
+                                <span className="truncate"><HighlightedText text={extraMatchText.text} ranges={extraMatchText.ranges} /></span>
+                            </p>
+                        )}
                     </div>
                 </div>
 
                 {/* Right side: Actions */}
                 <div className="flex flex-col items-center justify-center gap-2 pt-1 flex-shrink-0">
-                    <a 
-                        href={`tel:${business.contactNumber}`} 
-                        aria-label={`Call ${business.ownerName}`}
-                        className="flex items-center justify-center w-9 h-9 bg-primary text-white rounded-full shadow-md transition-all transform hover:scale-110 hover:shadow-lg"
-                    >
-                        <i className="fas fa-phone text-lg"></i>
-                    </a>
+                    {chatUrl ? (
+                        <a
+                            href={chatUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={() => onContact?.(business, 'whatsapp')}
+                            aria-label={`WhatsApp ${business.ownerName}`}
+                            className="flex items-center justify-center w-9 h-9 bg-green-600 text-white rounded-full shadow-md transition-all transform hover:scale-110 hover:shadow-lg"
+                        >
+                            <i className="fab fa-whatsapp text-lg"></i>
+                        </a>
+                    ) : (
+                        <a 
+                            href={toTelHref(callNumber || business.contactNumber)} 
+                            onClick={() => onContact?.(business, 'call')}
+                            aria-label={`Call ${business.ownerName}`}
+                            className="flex items-center justify-center w-9 h-9 bg-primary text-white rounded-full shadow-md transition-all transform hover:scale-110 hover:shadow-lg"
+                        >
+                            <i className="fas fa-phone text-lg"></i>
+                        </a>
+                    )}
+                    {onToggleFavorite && (
+                        <button
+                            onClick={() => onToggleFavorite(business)}
+                            aria-label={isFavorite ? t('common.removeFavorite') : t('common.addFavorite')}
+                            aria-pressed={isFavorite}
+                            className={`flex items-center justify-center w-9 h-9 rounded-full transition-all transform hover:scale-110 ${isFavorite ? 'bg-amber-100 text-amber-500' : 'bg-gray-100 text-gray-400 hover:text-amber-500'}`}
+                        >
+                            <i className={`${isFavorite ? 'fas' : 'far'} fa-star text-lg`}></i>
+                        </button>
+                    )}
                     <button
                         onClick={() => onViewDetails(business)}
                         aria-label="View more details"
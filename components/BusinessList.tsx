@@ -1,6 +1,10 @@
 import React from 'react';
 import { Business, Category } from '../types';
 import BusinessCard from './BusinessCard';
+import { groupBusinessesByCategory } from '../businessGrouping';
+import { SearchHighlights } from '../searchIndex';
+import { ContactChannel } from '../ratings';
+import { categoryName, t } from '../i18n';
 
 interface BusinessListProps {
     businesses: Business[];
@@ -8,18 +12,26 @@ interface BusinessListProps {
     selectedCategoryId: string | null;
     onViewDetails: (business: Business) => void;
     isSearching?: boolean;
+    highlights?: Record<string, SearchHighlights>;
+    now: Date;
+    distances?: Record<string, number>; // Set when sorted nearest first
+    favoriteIds?: Set<string>;
+    notes?: Record<string, string>;
+    onToggleFavorite?: (business: Business) => void;
+    onContact?: (business: Business, channel: ContactChannel) => void;
+    sortedByRating?: boolean; // Keep the given order instead of grouping by category
 }
 
 // No Results Component
 const NoResults: React.FC = () => (
     <div className="flex flex-col items-center text-center p-12 bg-gradient-to-br from-gray-50 to-white rounded-xl shadow-card animate-fadeInUp">
         <span className="text-7xl mb-5">🔍</span>
-        <h3 className="text-3xl font-bold font-inter text-text-primary">काहीही सापडले नाही</h3>
-        <p className="text-text-secondary mt-2 text-lg">कृपया तुमचा शोध बदला किंवा वेगळी श्रेणी निवडा.</p>
+        <h3 className="text-3xl font-bold font-inter text-text-primary">{t('list.noResults')}</h3>
+        <p className="text-text-secondary mt-2 text-lg">{t('list.noResultsHint')}</p>
     </div>
 );
 
-const BusinessList: React.FC<BusinessListProps> = ({ businesses, categories, selectedCategoryId, onViewDetails, isSearching = false }) => {
+const BusinessList: React.FC<BusinessListProps> = ({ businesses, categories, selectedCategoryId, onViewDetails, isSearching = false, highlights, now, distances, favoriteIds, notes, onToggleFavorite, onContact, sortedByRating = false }) => {
     if (businesses.length === 0) {
         if (isSearching) {
             return null; // Show a blank space during search if no results are found
@@ -30,12 +42,22 @@ const BusinessList: React.FC<BusinessListProps> = ({ businesses, categories, sel
     const renderBusinessCards = (businessList: Business[]) => (
         businessList.map((business, index) => (
             <div key={business.id} className="animate-fadeInUp" style={{ animationDelay: `${index * 50}ms` }}>
-                <BusinessCard business={business} onViewDetails={onViewDetails} />
+                <BusinessCard
+                    business={business}
+                    onViewDetails={onViewDetails}
+                    highlights={highlights?.[business.id]}
+                    now={now}
+                    distanceKm={distances?.[business.id]}
+                    isFavorite={favoriteIds?.has(business.id)}
+                    onToggleFavorite={onToggleFavorite}
+                    note={notes?.[business.id]}
+                    onContact={onContact}
+                />
             </div>
         ))
     );
 
-    if (selectedCategoryId || isSearching) {
+    if (selectedCategoryId || isSearching || distances || sortedByRating) {
         return (
             <div className="space-y-4">
                 {renderBusinessCards(businesses)}
@@ -43,25 +65,16 @@ const BusinessList: React.FC<BusinessListProps> = ({ businesses, categories, sel
         );
     }
 
-    const groupedBusinesses = businesses.reduce((acc, business) => {
-        (acc[business.category] = acc[business.category] || []).push(business);
-        return acc;
-    }, {} as Record<string, Business[]>);
-
-    const categoryMap = new Map<string, Category>(categories.map(cat => [cat.id, cat]));
+    const groupedBusinesses = groupBusinessesByCategory(businesses, categories);
 
     return (
         <div className="space-y-12">
-            {Object.keys(groupedBusinesses).map((categoryId, groupIndex) => {
-                const businessGroup = groupedBusinesses[categoryId];
-                const category = categoryMap.get(categoryId);
-                if (!category) return null;
-                
+            {groupedBusinesses.map(({ category, businesses: businessGroup }, groupIndex) => {
                 return (
-                    <div key={categoryId} className="animate-fadeInUp" style={{ animationDelay: `${groupIndex * 100}ms`}}>
+                    <div key={category.id} className="animate-fadeInUp" style={{ animationDelay: `${groupIndex * 100}ms`}}>
                         <div className="flex items-center gap-4 mb-5 pb-3 border-b-2 border-secondary sticky top-2 z-10 bg-background/80 backdrop-blur-sm">
                              <i className={`${category.icon} text-2xl text-secondary`}></i>
-                            <h3 className="text-2xl font-bold font-inter text-primary">{category.name}</h3>
+                            <h3 className="text-2xl font-bold font-inter text-primary">{categoryName(category)}</h3>
                         </div>
                         <div className="space-y-4">
                             {renderBusinessCards(businessGroup)}
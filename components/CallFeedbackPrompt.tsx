@@ -0,0 +1,36 @@
+import React from 'react';
+import { Business } from '../types';
+import { ContactChannel } from '../ratings';
+import { shopName, t } from '../i18n';
+
+interface CallFeedbackPromptProps {
+    business: Business;
+    channel: ContactChannel;
+    onAnswer: (numberCorrect: boolean) => void;
+    onRate: () => void;
+    onDismiss: () => void;
+}
+
+// Shown when the visitor comes back from the dialer or WhatsApp
+const CallFeedbackPrompt: React.FC<CallFeedbackPromptProps> = ({ business, channel, onAnswer, onRate, onDismiss }) => (
+    <div className="fixed bottom-4 inset-x-4 sm:left-auto sm:right-4 sm:w-96 z-50 bg-surface rounded-xl shadow-xl border border-border-color p-4 animate-fadeInUp" role="dialog" aria-label={t('feedback.question')}>
+        <button onClick={onDismiss} className="absolute top-2 right-2 text-text-secondary hover:text-primary text-2xl w-8 h-8 flex items-center justify-center" aria-label={t('common.close')}>&times;</button>
+        <p className="font-bold text-text-primary pr-8">
+            <i className={`${channel === 'whatsapp' ? 'fab fa-whatsapp text-green-600' : 'fas fa-phone text-primary'} mr-2`}></i>
+            {shopName(business)} – {t('feedback.question')}
+        </p>
+        <div className="grid grid-cols-2 gap-2 mt-3">
+            <button onClick={() => onAnswer(true)} className="py-2 rounded-lg bg-green-600 text-white font-bold hover:bg-green-700">
+                <i className="fas fa-check mr-1"></i>{t('common.yes')}
+            </button>
+            <button onClick={() => onAnswer(false)} className="py-2 rounded-lg bg-red-50 text-red-700 border border-red-200 font-bold hover:bg-red-100">
+                <i className="fas fa-xmark mr-1"></i>{t('feedback.wrongNumber')}
+            </button>
+        </div>
+        <button onClick={onRate} className="w-full mt-2 text-sm text-primary font-semibold hover:underline">
+            <i className="fas fa-star mr-1"></i>{t('feedback.rate')}
+        </button>
+    </div>
+);
+
+export default CallFeedbackPrompt;
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Category } from '../types';
+import { categoryName, t } from '../i18n';
 
 interface CategoryItemProps {
     name: string;
@@ -43,23 +44,20 @@ const CategoryItem: React.FC<CategoryItemProps> = ({ name, icon, count, isSelect
 interface CategoryGridProps {
     categories: Category[];
     businessCounts: Record<string, number>;
+    totalCount: number; // Not the sum of businessCounts: a business can be in several categories
     selectedCategory: string | null;
     onCategorySelect: (id: string | null) => void;
 }
 
-const CategoryGrid: React.FC<CategoryGridProps> = ({ categories, businessCounts, selectedCategory, onCategorySelect }) => {
+const CategoryGrid: React.FC<CategoryGridProps> = ({ categories, businessCounts, totalCount, selectedCategory, onCategorySelect }) => {
     const isAnyCategorySelected = selectedCategory !== null;
 
-    const allCategoriesCount = React.useMemo(() => 
-        Object.values(businessCounts).reduce((sum: number, count: number) => sum + count, 0), 
-    [businessCounts]);
-
     return (
         <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 lg:grid-cols-6 gap-4 animate-fadeInUp" style={{ animationDelay: '200ms' }}>
             <CategoryItem
-                name="सर्व श्रेण्या"
+                name={t('common.allCategories')}
                 icon="fas fa-th-large"
-                count={allCategoriesCount}
+                count={totalCount}
                 isSelected={selectedCategory === null}
                 onClick={() => onCategorySelect(null)}
                 isHidden={isAnyCategorySelected}
@@ -68,7 +66,7 @@ const CategoryGrid: React.FC<CategoryGridProps> = ({ categories, businessCounts,
             {categories.map((category, index) => (
                 <CategoryItem
                     key={category.id}
-                    name={category.name}
+                    name={categoryName(category)}
                     icon={category.icon}
                     count={businessCounts[category.id] || 0}
                     isSelected={selectedCategory === category.id}
@@ -0,0 +1,336 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Business, Category, LocalizedText } from '../types';
+import * as SupabaseService from '../supabaseClient';
+import { countByCategory } from '../businessGrouping';
+import { TRANSLATION_LOCALES, categoryName, cleanTranslations, t } from '../i18n';
+
+interface CategoryManagerProps {
+    categories: Category[];
+    businesses: Business[];
+    onCategoriesChanged: () => Promise<void>;
+    onMerged: (movedBusinesses: Business[]) => Promise<void>;
+    onBack: () => void;
+    onClose: () => void;
+}
+
+// Common Font Awesome icons for village trades; any other class string can be typed in
+const ICON_CHOICES = [
+    'fa-solid fa-store', 'fa-solid fa-cart-shopping', 'fa-solid fa-utensils', 'fa-solid fa-mug-hot',
+    'fa-solid fa-hospital', 'fa-solid fa-pills', 'fa-solid fa-tooth', 'fa-solid fa-graduation-cap',
+    'fa-solid fa-bus', 'fa-solid fa-truck', 'fa-solid fa-car', 'fa-solid fa-motorcycle',
+    'fa-solid fa-tractor', 'fa-solid fa-seedling', 'fa-solid fa-cow', 'fa-solid fa-apple-whole',
+    'fa-solid fa-scissors', 'fa-solid fa-shirt', 'fa-solid fa-gem', 'fa-solid fa-camera',
+    'fa-solid fa-hammer', 'fa-solid fa-screwdriver-wrench', 'fa-solid fa-bolt', 'fa-solid fa-water',
+    'fa-solid fa-plug', 'fa-solid fa-mobile-screen', 'fa-solid fa-desktop', 'fa-solid fa-paperclip',
+    'fa-solid fa-house', 'fa-solid fa-landmark', 'fa-solid fa-envelope', 'fa-solid fa-newspaper',
+    'fa-solid fa-cake-candles', 'fa-solid fa-leaf', 'fa-solid fa-hands-praying', 'fa-solid fa-dumbbell',
+];
+
+const CATEGORY_ID_PATTERN = /^[a-z0-9_]+$/;
+
+const IconPicker: React.FC<{
+    value: string;
+    onChange: (icon: string) => void;
+    disabled?: boolean;
+}> = ({ value, onChange, disabled }) => (
+    <div className="space-y-2">
+        <div className="flex items-center gap-2">
+            <span className="w-10 h-10 flex items-center justify-center rounded-lg bg-primary/10 text-primary text-xl flex-shrink-0">
+                <i className={value || 'fa-solid fa-question'}></i>
+            </span>
+            <input
+                value={value}
+                onChange={e => onChange(e.target.value)}
+                placeholder="fa-solid fa-store"
+                className="w-full p-2 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary text-sm font-mono"
+                disabled={disabled}
+            />
+        </div>
+        <div className="grid grid-cols-9 gap-1">
+            {ICON_CHOICES.map(icon => (
+                <button
+                    key={icon}
+                    type="button"
+                    onClick={() => onChange(icon)}
+                    disabled={disabled}
+                    title={icon}
+                    className={`h-8 rounded-md border transition-colors ${value === icon ? 'bg-primary text-white border-primary' : 'bg-surface border-border-color text-text-secondary hover:border-primary'}`}
+                >
+                    <i className={icon}></i>
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+const NameTranslations: React.FC<{
+    value?: LocalizedText;
+    onChange: (translations: LocalizedText) => void;
+    className: string;
+    disabled?: boolean;
+}> = ({ value, onChange, className, disabled }) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {TRANSLATION_LOCALES.map(({ locale, label }) => (
+            <input
+                key={locale}
+                lang={locale}
+                value={value?.[locale] || ''}
+                onChange={e => onChange({ ...value, [locale]: e.target.value })}
+                placeholder={t('categories.nameIn', { language: label })}
+                className={className}
+                disabled={disabled}
+            />
+        ))}
+    </div>
+);
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, businesses, onCategoriesChanged, onMerged, onBack, onClose }) => {
+    const [order, setOrder] = useState<Category[]>(categories);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<{ name: string; icon: string; nameTranslations?: LocalizedText }>({ name: '', icon: '' });
+    const [mergingId, setMergingId] = useState<string | null>(null);
+    const [mergeTargetId, setMergeTargetId] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [newCategory, setNewCategory] = useState<{ id: string; name: string; icon: string; nameTranslations?: LocalizedText }>({ id: '', name: '', icon: 'fa-solid fa-store' });
+    const [isAdding, setIsAdding] = useState(false);
+
+    // Start over from the saved order whenever the list itself changes
+    useEffect(() => {
+        setOrder(categories);
+    }, [categories]);
+
+    const businessCounts = useMemo(() => countByCategory(businesses), [businesses]);
+
+    const isOrderChanged = order.some((category, index) => category.id !== categories[index]?.id);
+
+    const moveCategory = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= order.length) return;
+        const next = order.slice();
+        [next[index], next[target]] = [next[target], next[index]];
+        setOrder(next);
+    };
+
+    const handleSaveOrder = async () => {
+        setBusyId('order');
+        try {
+            await SupabaseService.reorderCategories(order);
+            await onCategoriesChanged();
+        } catch (err: any) {
+            console.error('Reorder categories error:', err);
+            alert(t('categories.orderFailed', { error: err.message }));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const startEditing = (category: Category) => {
+        setMergingId(null);
+        setEditingId(category.id);
+        setDraft({ name: category.name, icon: category.icon, nameTranslations: category.nameTranslations });
+    };
+
+    const handleSaveEdit = async (category: Category) => {
+        if (!draft.name.trim() || !draft.icon.trim()) {
+            alert(t('categories.nameAndIconRequired'));
+            return;
+        }
+        setBusyId(category.id);
+        try {
+            await SupabaseService.updateCategory({ ...category, name: draft.name.trim(), nameTranslations: cleanTranslations(draft.nameTranslations), icon: draft.icon.trim() });
+            await onCategoriesChanged();
+            setEditingId(null);
+        } catch (err: any) {
+            console.error('Update category error:', err);
+            alert(t('categories.saveFailed', { error: err.message }));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleMerge = async (source: Category) => {
+        const target = categories.find(c => c.id === mergeTargetId);
+        if (!target) return;
+        const count = businessCounts[source.id] || 0;
+        if (!confirm(t('categories.mergeConfirm', { source: categoryName(source), target: categoryName(target), count }))) return;
+
+        setBusyId(source.id);
+        try {
+            const moved = await SupabaseService.mergeCategories(source.id, target.id);
+            await onMerged(moved);
+            setMergingId(null);
+            setMergeTargetId('');
+        } catch (err: any) {
+            console.error('Merge categories error:', err);
+            alert(t('categories.mergeFailed', { error: err.message }));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (category: Category) => {
+        if (!confirm(t('categories.deleteConfirm', { name: categoryName(category) }))) return;
+        setBusyId(category.id);
+        try {
+            await SupabaseService.deleteCategory(category.id);
+            await onCategoriesChanged();
+        } catch (err: any) {
+            console.error('Delete category error:', err);
+            alert(err instanceof SupabaseService.CategoryInUseError ? err.message : t('categories.deleteFailed', { error: err.message }));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const id = newCategory.id.trim();
+        if (!CATEGORY_ID_PATTERN.test(id)) {
+            alert(t('categories.badId'));
+            return;
+        }
+        if (categories.some(c => c.id === id)) {
+            alert(t('categories.idTaken'));
+            return;
+        }
+        setIsAdding(true);
+        try {
+            // New categories go to the end of the list
+            const sortOrder = Math.max(0, ...categories.map(c => c.sortOrder || 0)) + 1;
+            await SupabaseService.addCategory({ id, name: newCategory.name.trim(), nameTranslations: cleanTranslations(newCategory.nameTranslations), icon: newCategory.icon.trim(), sortOrder });
+            await onCategoriesChanged();
+            setNewCategory({ id: '', name: '', icon: 'fa-solid fa-store' });
+        } catch (err: any) {
+            console.error('Add category error:', err);
+            alert(t('categories.addFailed', { error: err.message }));
+        } finally {
+            setIsAdding(false);
+        }
+    };
+
+    const inputStyles = "w-full p-2 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary text-sm";
+    const isBusy = busyId !== null;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-2xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
+                    <div>
+                        <h3 className="font-inter text-xl font-bold text-primary">{t('admin.categories')}</h3>
+                        <p className="text-sm text-text-secondary">{t('categories.count', { count: categories.length })}</p>
+                    </div>
+                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
+                </header>
+
+                <div className="overflow-y-auto p-4 space-y-6">
+                    <form onSubmit={handleAdd} className="p-4 bg-background rounded-lg space-y-3">
+                        <h4 className="font-bold text-text-primary"><i className="fas fa-plus-circle mr-2 text-primary"></i>{t('categories.new')}</h4>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <input value={newCategory.name} onChange={e => setNewCategory({ ...newCategory, name: e.target.value })} placeholder={t('categories.namePlaceholder')} className={inputStyles} required disabled={isAdding} />
+                            <input value={newCategory.id} onChange={e => setNewCategory({ ...newCategory, id: e.target.value.toLowerCase() })} placeholder={t('categories.idPlaceholder')} className={`${inputStyles} font-mono`} required disabled={isAdding} />
+                        </div>
+                        <NameTranslations value={newCategory.nameTranslations} onChange={nameTranslations => setNewCategory({ ...newCategory, nameTranslations })} className={inputStyles} disabled={isAdding} />
+                        <IconPicker value={newCategory.icon} onChange={icon => setNewCategory({ ...newCategory, icon })} disabled={isAdding} />
+                        <button type="submit" disabled={isAdding || !newCategory.icon.trim()} className="px-4 py-2 bg-primary text-white font-semibold rounded-lg text-sm hover:bg-primary/90 disabled:opacity-60 disabled:cursor-not-allowed">
+                            {isAdding ? t('categories.adding') : t('categories.add')}
+                        </button>
+                    </form>
+
+                    {isOrderChanged && (
+                        <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                            <p className="text-sm text-amber-800">{t('categories.orderChanged')}</p>
+                            <div className="flex gap-2">
+                                <button onClick={() => setOrder(categories)} disabled={isBusy} className="px-3 py-1 text-sm text-text-secondary hover:underline">{t('common.cancel')}</button>
+                                <button onClick={handleSaveOrder} disabled={isBusy} className="px-3 py-1 bg-primary text-white font-semibold rounded-lg text-sm hover:bg-primary/90 disabled:opacity-60 disabled:cursor-not-allowed">
+                                    {busyId === 'order' ? '...' : t('categories.saveOrder')}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    <ul className="space-y-2">
+                        {order.map((category, index) => {
+                            const count = businessCounts[category.id] || 0;
+                            const isEditing = editingId === category.id;
+                            const isMerging = mergingId === category.id;
+                            return (
+                                <li key={category.id} className="p-3 bg-background rounded-lg space-y-3">
+                                    <div className="flex items-center gap-3">
+                                        <div className="flex flex-col">
+                                            <button onClick={() => moveCategory(index, -1)} disabled={isBusy || index === 0} className="text-text-secondary hover:text-primary disabled:opacity-30" aria-label={t('categories.moveUp')}>
+                                                <i className="fas fa-chevron-up"></i>
+                                            </button>
+                                            <button onClick={() => moveCategory(index, 1)} disabled={isBusy || index === order.length - 1} className="text-text-secondary hover:text-primary disabled:opacity-30" aria-label={t('categories.moveDown')}>
+                                                <i className="fas fa-chevron-down"></i>
+                                            </button>
+                                        </div>
+                                        <span className="w-10 h-10 flex items-center justify-center rounded-lg bg-primary/10 text-primary text-lg flex-shrink-0">
+                                            <i className={category.icon}></i>
+                                        </span>
+                                        <div className="flex-grow min-w-0">
+                                            <p className="font-semibold truncate">{category.name}</p>
+                                            <p className="text-xs text-text-secondary truncate"><span className="font-mono">{category.id}</span> · {t('export.businessCount', { count })}{categoryName(category) !== category.name && ` · ${categoryName(category)}`}</p>
+                                        </div>
+                                        <div className="flex gap-1 flex-shrink-0">
+                                            <button onClick={() => isEditing ? setEditingId(null) : startEditing(category)} disabled={isBusy} className="w-8 h-8 rounded-md text-secondary hover:bg-secondary/10 disabled:opacity-60" title={t('common.edit')}>
+                                                <i className="fas fa-pen"></i>
+                                            </button>
+                                            <button onClick={() => { setEditingId(null); setMergingId(isMerging ? null : category.id); setMergeTargetId(''); }} disabled={isBusy || categories.length < 2} className="w-8 h-8 rounded-md text-primary hover:bg-primary/10 disabled:opacity-60" title={t('categories.mergeInto')}>
+                                                <i className="fas fa-code-merge"></i>
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(category)}
+                                                disabled={isBusy || count > 0}
+                                                className="w-8 h-8 rounded-md text-red-600 hover:bg-red-50 disabled:opacity-30 disabled:cursor-not-allowed"
+                                                title={count > 0 ? t('categories.notEmpty') : t('common.delete')}
+                                            >
+                                                <i className="fas fa-trash"></i>
+                                            </button>
+                                        </div>
+                                    </div>
+
+                                    {isEditing && (
+                                        <div className="space-y-2">
+                                            <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputStyles} disabled={isBusy} />
+                                            <NameTranslations value={draft.nameTranslations} onChange={nameTranslations => setDraft({ ...draft, nameTranslations })} className={inputStyles} disabled={isBusy} />
+                                            <IconPicker value={draft.icon} onChange={icon => setDraft({ ...draft, icon })} disabled={isBusy} />
+                                            <div className="flex gap-2">
+                                                <button onClick={() => handleSaveEdit(category)} disabled={isBusy} className="px-3 py-1 bg-secondary text-white font-semibold rounded-lg text-sm hover:bg-secondary/90 disabled:opacity-60 disabled:cursor-not-allowed">
+                                                    {busyId === category.id ? '...' : t('common.save')}
+                                                </button>
+                                                <button onClick={() => setEditingId(null)} disabled={isBusy} className="px-3 py-1 text-sm text-text-secondary hover:underline">{t('common.cancel')}</button>
+                                            </div>
+                                        </div>
+                                    )}
+
+                                    {isMerging && (
+                                        <div className="space-y-2">
+                                            <p className="text-sm text-text-secondary">{t('categories.mergeHelp')}</p>
+                                            <div className="flex gap-2">
+                                                <select value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)} className={inputStyles} disabled={isBusy}>
+                                                    <option value="">{t('categories.choose')}</option>
+                                                    {categories.filter(c => c.id !== category.id).map(c => (
+                                                        <option key={c.id} value={c.id}>{categoryName(c)}</option>
+                                                    ))}
+                                                </select>
+                                                <button onClick={() => handleMerge(category)} disabled={isBusy || !mergeTargetId} className="px-3 py-1 bg-primary text-white font-semibold rounded-lg text-sm hover:bg-primary/90 disabled:opacity-60 disabled:cursor-not-allowed whitespace-nowrap">
+                                                    {busyId === category.id ? '...' : t('categories.merge')}
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                </div>
+
+                <footer className="p-3 border-t border-border-color text-center sticky bottom-0 bg-surface/80 backdrop-blur-sm">
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default CategoryManager;
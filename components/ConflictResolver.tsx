@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Category } from '../types';
+import { DbBusiness } from '../supabaseClient';
+import { BusinessField, diffBusinesses, formatFieldValue } from '../businessDiff';
+import { t } from '../i18n';
+
+interface ConflictResolverProps {
+    localBusiness: Partial<DbBusiness>;
+    serverBusiness: DbBusiness | null;
+    categories: Category[];
+    onResolve: (merged: Partial<DbBusiness>) => void;
+    onCancel: () => void;
+    isSaving: boolean;
+}
+
+type Choice = 'local' | 'server';
+
+const ConflictResolver: React.FC<ConflictResolverProps> = ({ localBusiness, serverBusiness, categories, onResolve, onCancel, isSaving }) => {
+    const diffs = diffBusinesses(serverBusiness, localBusiness);
+    const [choices, setChoices] = useState<Partial<Record<BusinessField, Choice>>>({});
+
+    const choiceFor = (key: BusinessField): Choice => choices[key] || 'local';
+
+    const handleResolve = () => {
+        if (!serverBusiness) {
+            // Deleted meanwhile: the only way to keep the edit is to add it again
+            onResolve({ ...localBusiness, id: '' });
+            return;
+        }
+        const merged: Partial<DbBusiness> = { ...serverBusiness };
+        for (const diff of diffs) {
+            if (choiceFor(diff.key) === 'local') {
+                Object.assign(merged, { [diff.key]: diff.after });
+            }
+        }
+        onResolve(merged);
+    };
+
+    const optionClasses = (selected: boolean) =>
+        `flex-1 text-left p-3 rounded-lg border-2 transition-all ${selected ? 'border-primary bg-primary/10' : 'border-border-color bg-surface hover:border-primary/50'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onCancel}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-2xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color">
+                    <h3 className="font-inter text-xl font-bold text-primary flex items-center gap-2">
+                        <i className="fas fa-code-merge"></i> {t('conflict.title')}
+                    </h3>
+                    <p className="text-sm text-text-secondary mt-1">
+                        {serverBusiness
+                            ? t('conflict.changedHelp')
+                            : t('conflict.deletedHelp')}
+                    </p>
+                </header>
+
+                <div className="overflow-y-auto p-4 space-y-4">
+                    {serverBusiness && diffs.length === 0 && (
+                        <p className="text-center text-text-secondary">{t('conflict.noDifference')}</p>
+                    )}
+                    {serverBusiness && diffs.map(diff => (
+                        <div key={diff.key}>
+                            <p className="font-semibold text-text-primary mb-2">{diff.label}</p>
+                            <div className="flex flex-col sm:flex-row gap-2">
+                                <button type="button" onClick={() => setChoices({ ...choices, [diff.key]: 'local' })} className={optionClasses(choiceFor(diff.key) === 'local')}>
+                                    <span className="block text-xs font-bold text-primary mb-1">{t('conflict.yours')}</span>
+                                    <span className="break-words">{formatFieldValue(diff.key, diff.after, categories)}</span>
+                                </button>
+                                <button type="button" onClick={() => setChoices({ ...choices, [diff.key]: 'server' })} className={optionClasses(choiceFor(diff.key) === 'server')}>
+                                    <span className="block text-xs font-bold text-secondary mb-1">{t('conflict.server')}</span>
+                                    <span className="break-words">{formatFieldValue(diff.key, diff.before, categories)}</span>
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <footer className="p-4 border-t border-border-color grid grid-cols-2 gap-3">
+                    <button onClick={onCancel} disabled={isSaving} className="py-3 rounded-lg bg-gray-200 text-text-secondary font-bold hover:bg-gray-300 disabled:opacity-60">
+                        {t('common.cancel')}
+                    </button>
+                    <button onClick={handleResolve} disabled={isSaving} className="py-3 rounded-lg bg-primary text-white font-bold hover:bg-primary/90 disabled:opacity-60">
+                        {isSaving ? t('common.saving') : (serverBusiness ? t('conflict.saveChosen') : t('conflict.addAgain'))}
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default ConflictResolver;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { BusinessContact, ContactKind } from '../types';
+import { CONTACT_KINDS, MAX_CONTACTS, formatPhoneNumber, parsePhoneNumber } from '../phone';
+import { MessageKey, t } from '../i18n';
+
+interface ContactNumbersEditorProps {
+    contacts: BusinessContact[]; // Numbers as typed until the form is saved
+    errors: Array<string | null>;
+    onChange: (contacts: BusinessContact[], errors: Array<string | null>) => void;
+    disabled?: boolean;
+}
+
+const PLACEHOLDERS: Record<ContactKind, MessageKey> = {
+    mobile: 'phone.mobilePlaceholder',
+    landline: 'phone.landlinePlaceholder',
+    whatsapp: 'phone.whatsappPlaceholder',
+};
+
+const ContactNumbersEditor: React.FC<ContactNumbersEditorProps> = ({ contacts, errors: givenErrors, onChange, disabled }) => {
+    const errors = contacts.map((_, i) => givenErrors[i] ?? null);
+    const inputStyles = "p-2 border-2 rounded-lg bg-surface focus:outline-none focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all";
+
+    const update = (index: number, changes: Partial<BusinessContact>) => {
+        // Editing a row clears its error until it is checked again
+        onChange(
+            contacts.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+            errors.map((e, i) => (i === index ? null : e))
+        );
+    };
+
+    // Check a row when the cursor leaves it, and tidy the number if it is fine
+    const check = (index: number) => {
+        const contact = contacts[index];
+        if (!contact.number.trim()) return;
+        const result = parsePhoneNumber(contact.number, contact.kind);
+        onChange(
+            contacts.map((c, i) => (i === index && result.ok ? { ...c, number: formatPhoneNumber(result.number) } : c)),
+            errors.map((e, i) => (i === index ? (result.ok ? null : result.error) : e))
+        );
+    };
+
+    const add = () => onChange([...contacts, { kind: 'mobile', number: '' }], [...errors, null]);
+
+    const remove = (index: number) => onChange(contacts.filter((_, i) => i !== index), errors.filter((_, i) => i !== index));
+
+    const move = (index: number) => {
+        // Up one place; the first number is the one calls go to
+        const next = [...contacts];
+        const nextErrors = [...errors];
+        [next[index - 1], next[index]] = [next[index], next[index - 1]];
+        [nextErrors[index - 1], nextErrors[index]] = [nextErrors[index], nextErrors[index - 1]];
+        onChange(next, nextErrors);
+    };
+
+    return (
+        <div className="md:col-span-2 space-y-2">
+            <p className="text-sm font-semibold text-text-secondary">{t('phone.numbersLabel')}</p>
+            {contacts.map((contact, index) => (
+                <div key={index}>
+                    <div className="flex flex-wrap sm:flex-nowrap gap-2 items-center">
+                        <select
+                            value={contact.kind}
+                            onChange={e => update(index, { kind: e.target.value as ContactKind })}
+                            onBlur={() => check(index)}
+                            className={`${inputStyles} border-border-color`}
+                            aria-label={t('phone.kind')}
+                            disabled={disabled}
+                        >
+                            {CONTACT_KINDS.map(k => <option key={k.kind} value={k.kind}>{t(k.labelKey)}</option>)}
+                        </select>
+                        <input
+                            type="tel"
+                            value={contact.number}
+                            onChange={e => update(index, { number: e.target.value })}
+                            onBlur={() => check(index)}
+                            placeholder={t(PLACEHOLDERS[contact.kind])}
+                            className={`${inputStyles} flex-grow min-w-0 ${errors[index] ? 'border-red-400' : 'border-border-color'}`}
+                            aria-invalid={!!errors[index]}
+                            maxLength={20}
+                            disabled={disabled}
+                        />
+                        <input
+                            value={contact.label || ''}
+                            onChange={e => update(index, { label: e.target.value })}
+                            placeholder={t('phone.labelPlaceholder')}
+                            className={`${inputStyles} border-border-color w-32`}
+                            maxLength={30}
+                            disabled={disabled}
+                        />
+                        {index > 0 && (
+                            <button type="button" onClick={() => move(index)} className="text-text-secondary hover:text-primary px-1" title={t('phone.moveUp')} disabled={disabled}>
+                                <i className="fas fa-arrow-up"></i>
+                            </button>
+                        )}
+                        {contacts.length > 1 && (
+                            <button type="button" onClick={() => remove(index)} className="text-text-secondary hover:text-red-600 px-1" title={t('phone.remove')} disabled={disabled}>
+                                <i className="fas fa-trash"></i>
+                            </button>
+                        )}
+                    </div>
+                    {errors[index] && <p className="text-sm text-red-600 mt-1"><i className="fas fa-circle-exclamation mr-1"></i>{errors[index]}</p>}
+                </div>
+            ))}
+            {contacts.length < MAX_CONTACTS && (
+                <button type="button" onClick={add} className="text-sm font-semibold text-primary hover:underline disabled:opacity-60" disabled={disabled}>
+                    <i className="fas fa-plus mr-1"></i>{t('phone.add')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ContactNumbersEditor;
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { Business, Category } from '../types';
+import { AdminProfile } from '../supabaseClient';
+import { DEFAULT_STALE_AFTER_DAYS, INCOMPLETE_BELOW, analyzeDataHealth } from '../dataHealth';
+import { can } from '../permissions';
+import { formatPhoneNumber } from '../phone';
+import { categoryName, formatDate, shopName, t } from '../i18n';
+
+interface DataHealthDashboardProps {
+    admin: AdminProfile;
+    businesses: Business[];
+    categories: Category[];
+    onEdit: (business: Business) => void;
+    onBack: () => void;
+    onClose: () => void;
+}
+
+type HealthTab = 'incomplete' | 'stale' | 'duplicates' | 'phones';
+
+const STALE_CHOICES = [30, 90, 180, 365];
+const STALE_DAYS_KEY = 'jawala-stale-after-days';
+
+const loadStaleDays = (): number => {
+    const saved = Number(localStorage.getItem(STALE_DAYS_KEY));
+    return saved > 0 ? saved : DEFAULT_STALE_AFTER_DAYS;
+};
+
+const scoreColor = (score: number) =>
+    score >= 85 ? 'text-green-700 bg-green-100' : score >= INCOMPLETE_BELOW ? 'text-amber-700 bg-amber-100' : 'text-red-700 bg-red-100';
+
+const DataHealthDashboard: React.FC<DataHealthDashboardProps> = ({ admin, businesses, categories, onEdit, onBack, onClose }) => {
+    const [tab, setTab] = useState<HealthTab>('incomplete');
+    const [staleDays, setStaleDays] = useState(loadStaleDays);
+
+    const report = useMemo(() => analyzeDataHealth(businesses, staleDays), [businesses, staleDays]);
+    const categoryNames = useMemo(() => new Map(categories.map(c => [c.id, categoryName(c)])), [categories]);
+
+    const handleStaleDaysChange = (days: number) => {
+        setStaleDays(days);
+        localStorage.setItem(STALE_DAYS_KEY, String(days));
+    };
+
+    const tabs: Array<{ tab: HealthTab; icon: string; label: string; count: number }> = [
+        { tab: 'incomplete', icon: 'fa-list-check', label: t('health.incomplete'), count: report.incomplete.length },
+        { tab: 'stale', icon: 'fa-hourglass-half', label: t('health.stale'), count: report.stale.length },
+        { tab: 'duplicates', icon: 'fa-clone', label: t('health.duplicates'), count: report.duplicates.length },
+        { tab: 'phones', icon: 'fa-phone-slash', label: t('health.badPhones'), count: report.invalidPhones.length },
+    ];
+
+    // One row per business, with a button straight into the edit form
+    const renderRow = (business: Business, detail: React.ReactNode) => (
+        <li key={business.id} className="p-3 bg-background rounded-lg flex items-center gap-3">
+            <span className={`text-xs font-bold px-2 py-1 rounded-full flex-shrink-0 ${scoreColor(report.completeness[business.id].score)}`}>
+                {report.completeness[business.id].score}%
+            </span>
+            <div className="flex-grow min-w-0">
+                <p className="font-bold text-primary truncate">{shopName(business)}</p>
+                <p className="text-xs text-text-secondary">{categoryNames.get(business.category) || business.category} · {formatPhoneNumber(business.contactNumber)}</p>
+                <div className="text-sm text-text-secondary mt-1">{detail}</div>
+            </div>
+            {can(admin, 'business.edit', business.category) && (
+                <button onClick={() => onEdit(business)} className="px-3 py-1 bg-primary text-white font-semibold rounded-lg text-sm hover:bg-primary/90 flex-shrink-0">
+                    <i className="fas fa-pen mr-1"></i>{t('health.fix')}
+                </button>
+            )}
+        </li>
+    );
+
+    const renderEmpty = (text: string) => (
+        <p className="p-8 text-center text-text-secondary"><i className="fas fa-circle-check text-green-600 mr-2"></i>{text}</p>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-2xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
+                    <div>
+                        <h3 className="font-inter text-xl font-bold text-primary">{t('admin.health')}</h3>
+                        <p className="text-sm text-text-secondary">{t('health.summary', { count: businesses.length, score: report.averageScore })}</p>
+                    </div>
+                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
+                </header>
+
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 p-3 border-b border-border-color">
+                    {tabs.map(t => (
+                        <button
+                            key={t.tab}
+                            onClick={() => setTab(t.tab)}
+                            aria-pressed={tab === t.tab}
+                            className={`p-2 rounded-lg text-left transition-all ${tab === t.tab ? 'bg-primary text-white' : 'bg-background text-text-secondary hover:text-primary'}`}
+                        >
+                            <i className={`fas ${t.icon} mr-1`}></i>
+                            <span className="text-sm font-bold">{t.label}</span>
+                            <span className="block text-2xl font-bold">{t.count}</span>
+                        </button>
+                    ))}
+                </div>
+
+                <div className="overflow-y-auto p-4">
+                    {tab === 'incomplete' && (
+                        report.incomplete.length === 0 ? renderEmpty(t('health.allComplete', { score: INCOMPLETE_BELOW })) : (
+                            <ul className="space-y-2">
+                                {report.incomplete.map(business => renderRow(business, (
+                                    <>{t('health.missing', { fields: report.completeness[business.id].missing.map(m => m.label).join(', ') })}</>
+                                )))}
+                            </ul>
+                        )
+                    )}
+
+                    {tab === 'stale' && (
+                        <>
+                            <label className="flex items-center gap-2 text-sm text-text-secondary mb-3">
+                                {t('health.staleAfter')}:
+                                <select
+                                    value={staleDays}
+                                    onChange={e => handleStaleDaysChange(Number(e.target.value))}
+                                    className="p-1 border-2 border-border-color rounded-lg bg-surface"
+                                >
+                                    {[...new Set([...STALE_CHOICES, staleDays])].sort((a, b) => a - b).map(days => (
+                                        <option key={days} value={days}>{t('health.days', { count: days })}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            {report.stale.length === 0 ? renderEmpty(t('health.noneStale', { count: staleDays })) : (
+                                <ul className="space-y-2">
+                                    {report.stale.map(({ business, days }) => renderRow(business, (
+                                        days === null
+                                            ? t('health.updatedUnknown')
+                                            : t('health.updatedAgo', { count: days, date: formatDate(business.updatedAt!) })
+                                    )))}
+                                </ul>
+                            )}
+                        </>
+                    )}
+
+                    {tab === 'duplicates' && (
+                        report.duplicates.length === 0 ? renderEmpty(t('health.noDuplicates')) : (
+                            <div className="space-y-4">
+                                {report.duplicates.map(group => (
+                                    <section key={`${group.reason}-${group.businesses.map(b => b.id).join('-')}`} className="p-3 border-2 border-dashed border-border-color rounded-lg">
+                                        <p className="text-sm font-bold text-text-primary mb-2">
+                                            <i className={`fas ${group.reason === 'phone' ? 'fa-phone' : 'fa-font'} mr-2 text-secondary`}></i>
+                                            {group.reason === 'phone' ? t('health.samePhone') : t('health.similarNames')}
+                                        </p>
+                                        <ul className="space-y-2">
+                                            {group.businesses.map(business => renderRow(business, business.ownerName))}
+                                        </ul>
+                                    </section>
+                                ))}
+                            </div>
+                        )
+                    )}
+
+                    {tab === 'phones' && (
+                        report.invalidPhones.length === 0 ? renderEmpty(t('health.allPhonesOk')) : (
+                            <ul className="space-y-2">
+                                {report.invalidPhones.map(({ business, problem }) => renderRow(business, (
+                                    <span className="text-red-600">{problem}</span>
+                                )))}
+                            </ul>
+                        )
+                    )}
+                </div>
+
+                <footer className="p-3 border-t border-border-color text-center sticky bottom-0 bg-surface/80 backdrop-blur-sm">
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default DataHealthDashboard;
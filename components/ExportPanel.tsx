@@ -0,0 +1,83 @@
+import React, { useMemo, useState } from 'react';
+import { BusinessData } from '../types';
+import { downloadFile, exportFileName, printBooklet, selectExportData, toCsv, toJson, toVcf } from '../directoryExport';
+import { categoryName, t } from '../i18n';
+
+interface ExportPanelProps {
+    data: BusinessData;
+    initialCategoryId: string | null;
+    onClose: () => void;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ data, initialCategoryId, onClose }) => {
+    const [categoryId, setCategoryId] = useState<string | null>(initialCategoryId);
+
+    const exportData = useMemo(() => selectExportData(data, categoryId), [data, categoryId]);
+    const category = categoryId ? data.categories.find(c => c.id === categoryId) : undefined;
+    const usedCategories = useMemo(() => selectExportData(data, null).categories, [data]);
+
+    const formats = [
+        {
+            label: 'CSV (Excel)', icon: 'fas fa-file-csv',
+            run: () => downloadFile(toCsv(exportData), exportFileName(category, 'csv'), 'text/csv'),
+        },
+        {
+            label: 'JSON', icon: 'fas fa-file-code',
+            run: () => downloadFile(toJson(exportData), exportFileName(category, 'json'), 'application/json'),
+        },
+        {
+            label: t('export.vcard'), icon: 'fas fa-address-book',
+            run: () => downloadFile(toVcf(exportData), exportFileName(category, 'vcf'), 'text/vcard'),
+        },
+        {
+            label: t('export.booklet'), icon: 'fas fa-print',
+            run: () => printBooklet(exportData, category ? `${t('app.title')} - ${categoryName(category)}` : undefined),
+        },
+    ];
+
+    const handleExport = (run: () => void) => {
+        try {
+            run();
+        } catch (error) {
+            console.error('Export error:', error);
+            alert(t('export.failed'));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-sm m-4 p-6" onClick={e => e.stopPropagation()}>
+                <h3 className="font-inter text-2xl font-bold text-primary mb-4 text-center">{t('export.title')}</h3>
+
+                <label className="block text-sm font-semibold text-text-primary mb-1">{t('export.what')}</label>
+                <select
+                    value={categoryId || ''}
+                    onChange={e => setCategoryId(e.target.value || null)}
+                    className="w-full p-3 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary mb-1"
+                >
+                    <option value="">{t('common.allCategories')}</option>
+                    {usedCategories.map(c => <option key={c.id} value={c.id}>{categoryName(c)}</option>)}
+                </select>
+                <p className="text-xs text-text-secondary mb-4">{t('export.businessCount', { count: exportData.businesses.length })} · {t('export.worksOffline')}</p>
+
+                <div className="grid grid-cols-2 gap-3">
+                    {formats.map(format => (
+                        <button
+                            key={format.label}
+                            onClick={() => handleExport(format.run)}
+                            disabled={exportData.businesses.length === 0}
+                            className="flex flex-col items-center gap-2 p-4 bg-background rounded-lg hover:bg-primary/10 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                            <i className={`${format.icon} text-2xl text-primary`}></i>
+                            <span className="text-sm font-semibold text-center">{format.label}</span>
+                        </button>
+                    ))}
+                </div>
+
+                <button onClick={onClose} className="mt-6 w-full text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+            </div>
+        </div>
+    );
+};
+
+export default ExportPanel;
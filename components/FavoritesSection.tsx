@@ -0,0 +1,76 @@
+import React from 'react';
+import { Business } from '../types';
+import { ContactChannel } from '../ratings';
+import { callContact, toTelHref } from '../phone';
+import { shopName, t } from '../i18n';
+
+interface FavoritesSectionProps {
+    favorites: Business[];
+    recents: Business[];
+    onViewDetails: (business: Business) => void;
+    onToggleFavorite: (business: Business) => void;
+    onClearRecents: () => void;
+    onContact?: (business: Business, channel: ContactChannel) => void;
+}
+
+// Quick access for people who call the same few numbers every day
+const FavoritesSection: React.FC<FavoritesSectionProps> = ({ favorites, recents, onViewDetails, onToggleFavorite, onClearRecents, onContact }) => {
+    if (favorites.length === 0 && recents.length === 0) return null;
+
+    return (
+        <div className="mb-8 space-y-6 animate-fadeInUp">
+            {favorites.length > 0 && (
+                <section>
+                    <h2 className="text-lg font-bold font-inter text-text-primary mb-3"><i className="fas fa-star text-amber-500 mr-2"></i>{t('favorites.title')}</h2>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {favorites.map(business => (
+                            <div key={business.id} className="flex items-center gap-3 p-3 bg-surface rounded-xl shadow-card">
+                                <button onClick={() => onViewDetails(business)} className="flex-grow min-w-0 text-left">
+                                    <p className="font-bold text-primary truncate">{shopName(business)}</p>
+                                    <p className="text-sm text-text-secondary truncate">{business.ownerName}</p>
+                                </button>
+                                <a
+                                    href={toTelHref(callContact(business)?.number || business.contactNumber)}
+                                    onClick={() => onContact?.(business, 'call')}
+                                    aria-label={t('favorites.call', { name: business.ownerName })}
+                                    className="flex items-center justify-center w-10 h-10 bg-primary text-white rounded-full shadow-md flex-shrink-0 hover:scale-110 transition-transform"
+                                >
+                                    <i className="fas fa-phone"></i>
+                                </a>
+                                <button
+                                    onClick={() => onToggleFavorite(business)}
+                                    aria-label={t('common.removeFavorite')}
+                                    className="w-8 h-8 text-amber-500 hover:text-gray-400 flex-shrink-0"
+                                >
+                                    <i className="fas fa-star"></i>
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {recents.length > 0 && (
+                <section>
+                    <div className="flex items-center justify-between mb-3">
+                        <h2 className="text-lg font-bold font-inter text-text-primary"><i className="fas fa-history text-secondary mr-2"></i>{t('favorites.recent')}</h2>
+                        <button onClick={onClearRecents} className="text-sm text-text-secondary hover:underline">{t('favorites.clearRecent')}</button>
+                    </div>
+                    <div className="flex gap-2 overflow-x-auto pb-2">
+                        {recents.map(business => (
+                            <button
+                                key={business.id}
+                                onClick={() => onViewDetails(business)}
+                                className="flex-shrink-0 px-4 py-2 bg-surface rounded-full shadow-subtle text-sm font-semibold text-text-primary hover:text-primary whitespace-nowrap"
+                            >
+                                {shopName(business)}
+                            </button>
+                        ))}
+                    </div>
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default FavoritesSection;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { HighlightRange } from '../searchIndex';
+
+interface HighlightedTextProps {
+    text: string;
+    ranges?: HighlightRange[];
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, ranges }) => {
+    if (!ranges || ranges.length === 0) return <>{text}</>;
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end], i) => {
+        if (start < cursor) start = cursor;
+        if (end <= start) return;
+        if (start > cursor) parts.push(text.slice(cursor, start));
+        parts.push(<mark key={i} className="bg-yellow-200 text-inherit rounded px-0.5">{text.slice(start, end)}</mark>);
+        cursor = end;
+    });
+    if (cursor < text.length) parts.push(text.slice(cursor));
+
+    return <>{parts}</>;
+};
+
+export default HighlightedText;
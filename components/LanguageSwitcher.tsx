@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+import { LOCALES, setLocale, t, useLocale } from '../i18n';
+import { Locale } from '../types';
+
+const LanguageSwitcher: React.FC = () => {
+    const locale = useLocale();
+    const [loading, setLoading] = useState<Locale | null>(null);
+
+    const choose = async (next: Locale) => {
+        if (next === locale || loading) return;
+        setLoading(next);
+        try {
+            await setLocale(next);
+        } catch (error) {
+            console.error('Language load error:', error);
+            alert(t('language.loadFailed'));
+        } finally {
+            setLoading(null);
+        }
+    };
+
+    return (
+        <div role="group" aria-label={t('language.choose')} className="inline-flex rounded-full bg-white/20 p-1">
+            {LOCALES.map(({ locale: option, label }) => (
+                <button
+                    key={option}
+                    lang={option}
+                    onClick={() => choose(option)}
+                    aria-pressed={locale === option}
+                    className={`px-3 py-1 rounded-full text-sm font-bold transition-all ${locale === option ? 'bg-white text-primary' : 'text-white/90 hover:text-white'}`}
+                >
+                    {loading === option ? <i className="fas fa-spinner fa-spin"></i> : label}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Map as LeafletMap, Marker } from 'leaflet';
+import { Coordinates, MAP_CONFIG, getCurrentPosition, roundCoordinate } from '../geo';
+import { t } from '../i18n';
+
+interface LocationPickerProps {
+    value: Coordinates | null;
+    onChange: (location: Coordinates | null) => void;
+    disabled?: boolean;
+}
+
+type LeafletModule = typeof import('../leafletLoader');
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange, disabled }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const mapRef = useRef<LeafletMap | null>(null);
+    const markerRef = useRef<Marker | null>(null);
+    const onChangeRef = useRef(onChange);
+    const [leaflet, setLeaflet] = useState<LeafletModule | null>(null);
+    const [isLocating, setIsLocating] = useState(false);
+
+    onChangeRef.current = onChange;
+
+    const pick = (latitude: number, longitude: number) =>
+        onChangeRef.current({ latitude: roundCoordinate(latitude), longitude: roundCoordinate(longitude) });
+
+    // The map is created once; later value changes only move the marker
+    useEffect(() => {
+        let cancelled = false;
+
+        import('../leafletLoader').then(module => {
+            if (cancelled || !containerRef.current) return;
+            const L = module.default;
+            const center = value || MAP_CONFIG.defaultCenter;
+            const map = L.map(containerRef.current).setView([center.latitude, center.longitude], value ? 17 : MAP_CONFIG.defaultZoom);
+            module.createTileLayer().addTo(map);
+            map.on('click', e => pick(e.latlng.lat, e.latlng.lng));
+            mapRef.current = map;
+            setLeaflet(module);
+        }).catch(error => console.error('Map load error:', error));
+
+        return () => {
+            cancelled = true;
+            mapRef.current?.remove();
+            mapRef.current = null;
+            markerRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        const map = mapRef.current;
+        if (!leaflet || !map) return;
+
+        if (!value) {
+            markerRef.current?.remove();
+            markerRef.current = null;
+            return;
+        }
+
+        const point: [number, number] = [value.latitude, value.longitude];
+        if (markerRef.current) {
+            markerRef.current.setLatLng(point);
+        } else {
+            markerRef.current = leaflet.default.marker(point, { icon: leaflet.createPinIcon(), draggable: true })
+                .on('dragend', e => {
+                    const { lat, lng } = (e.target as Marker).getLatLng();
+                    pick(lat, lng);
+                })
+                .addTo(map);
+        }
+        if (!map.getBounds().contains(point)) map.panTo(point);
+    }, [leaflet, value]);
+
+    const handleUseCurrentLocation = async () => {
+        setIsLocating(true);
+        try {
+            const position = await getCurrentPosition();
+            pick(position.latitude, position.longitude);
+            mapRef.current?.setView([position.latitude, position.longitude], 17);
+        } catch (error: any) {
+            alert(error.message);
+        } finally {
+            setIsLocating(false);
+        }
+    };
+
+    return (
+        <div className="md:col-span-2 space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-semibold text-text-primary">{t('location.title')}</span>
+                <div className="flex gap-4 text-sm">
+                    <button type="button" onClick={handleUseCurrentLocation} disabled={disabled || isLocating} className="font-semibold text-primary hover:underline disabled:opacity-60">
+                        <i className={`fas ${isLocating ? 'fa-spinner fa-spin' : 'fa-location-crosshairs'} mr-1`}></i>{t('location.current')}
+                    </button>
+                    {value && (
+                        <button type="button" onClick={() => onChange(null)} disabled={disabled} className="font-semibold text-red-600 hover:underline disabled:opacity-60">{t('location.remove')}</button>
+                    )}
+                </div>
+            </div>
+            <div ref={containerRef} className={`h-56 w-full rounded-lg border-2 border-border-color z-0 ${disabled ? 'pointer-events-none opacity-60' : ''}`}></div>
+            <p className="text-xs text-text-secondary">
+                {value
+                    ? `${value.latitude}, ${value.longitude} — ${t('location.changeHint')}`
+                    : t('location.pickHint')}
+            </p>
+        </div>
+    );
+};
+
+export default LocationPicker;
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { LayerGroup, Map as LeafletMap } from 'leaflet';
+import { Business, Category } from '../types';
+import { Coordinates, MAP_CONFIG, getBusinessLocation } from '../geo';
+import { shopName, t } from '../i18n';
+
+interface MapViewProps {
+    businesses: Business[];
+    categories: Category[];
+    userLocation: Coordinates | null;
+    onViewDetails: (business: Business) => void;
+}
+
+type LeafletModule = typeof import('../leafletLoader');
+
+const MapView: React.FC<MapViewProps> = ({ businesses, categories, userLocation, onViewDetails }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const mapRef = useRef<LeafletMap | null>(null);
+    const markersRef = useRef<LayerGroup | null>(null);
+    const [leaflet, setLeaflet] = useState<LeafletModule | null>(null);
+    const [loadError, setLoadError] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+
+        import('../leafletLoader')
+            .then(module => {
+                if (cancelled || !containerRef.current) return;
+                const L = module.default;
+                const { latitude, longitude } = MAP_CONFIG.defaultCenter;
+                const map = L.map(containerRef.current).setView([latitude, longitude], MAP_CONFIG.defaultZoom);
+                module.createTileLayer().addTo(map);
+                mapRef.current = map;
+                markersRef.current = L.layerGroup().addTo(map);
+                setLeaflet(module);
+            })
+            .catch(error => {
+                console.error('Map load error:', error);
+                setLoadError(t('map.loadFailed'));
+            });
+
+        return () => {
+            cancelled = true;
+            mapRef.current?.remove();
+            mapRef.current = null;
+            markersRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        const map = mapRef.current;
+        const markers = markersRef.current;
+        if (!leaflet || !map || !markers) return;
+
+        const L = leaflet.default;
+        const categoryMap = new Map(categories.map(c => [c.id, c]));
+        const points: Array<[number, number]> = [];
+
+        markers.clearLayers();
+        for (const business of businesses) {
+            const location = getBusinessLocation(business);
+            if (!location) continue;
+            const point: [number, number] = [location.latitude, location.longitude];
+            points.push(point);
+            L.marker(point, { icon: leaflet.createPinIcon(categoryMap.get(business.category)), title: shopName(business) })
+                .bindTooltip(shopName(business), { direction: 'top', offset: [0, -36] })
+                .on('click', () => onViewDetails(business))
+                .addTo(markers);
+        }
+
+        if (userLocation) {
+            const point: [number, number] = [userLocation.latitude, userLocation.longitude];
+            points.push(point);
+            L.marker(point, { icon: leaflet.createUserIcon(), title: t('map.youAreHere'), zIndexOffset: 1000 }).addTo(markers);
+        }
+
+        if (points.length === 1) {
+            map.setView(points[0], Math.max(map.getZoom(), 16));
+        } else if (points.length > 1) {
+            map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 17 });
+        }
+    }, [leaflet, businesses, categories, userLocation, onViewDetails]);
+
+    const missingCount = businesses.filter(b => !getBusinessLocation(b)).length;
+
+    return (
+        <div className="space-y-2 animate-fadeInUp">
+            <div className="relative rounded-xl overflow-hidden shadow-card border border-border-color bg-gray-100">
+                <div ref={containerRef} className="h-[60vh] w-full z-0"></div>
+                {!leaflet && (
+                    <div className="absolute inset-0 flex items-center justify-center text-text-secondary">
+                        {loadError || <><i className="fas fa-spinner fa-spin mr-2"></i> {t('map.loading')}</>}
+                    </div>
+                )}
+            </div>
+            {missingCount > 0 && (
+                <p className="text-sm text-text-secondary text-center">
+                    <i className="fas fa-info-circle mr-1"></i>{t('map.missing', { count: missingCount })}
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default MapView;
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Business, Category } from '../types';
+import * as SupabaseService from '../supabaseClient';
+import { AdminProfile, DbSubmission } from '../supabaseClient';
+import { diffBusinesses, formatFieldValue } from '../businessDiff';
+import { can } from '../permissions';
+import { businessContacts, phoneKey } from '../phone';
+import { MessageKey, formatDateTime, shopName, t } from '../i18n';
+
+interface ModerationQueueProps {
+    admin: AdminProfile;
+    businesses: Business[];
+    categories: Category[];
+    onApprove: (submission: DbSubmission, business: Business) => Promise<void>;
+    onEditAndApprove: (submission: DbSubmission) => void;
+    onBack: () => void;
+    onClose: () => void;
+}
+
+const QUICK_REJECT_REASONS: MessageKey[] = ['moderation.reasonIncomplete', 'moderation.reasonExists', 'moderation.reasonUnverified', 'moderation.reasonOutside'];
+
+const ModerationQueue: React.FC<ModerationQueueProps> = ({ admin, businesses, categories, onApprove, onEditAndApprove, onBack, onClose }) => {
+    const [submissions, setSubmissions] = useState<DbSubmission[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [rejectingId, setRejectingId] = useState<string | null>(null);
+    const [rejectReason, setRejectReason] = useState('');
+
+    const businessMap = useMemo(() => new Map(businesses.map(b => [b.id, b])), [businesses]);
+
+    const loadSubmissions = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            setSubmissions(await SupabaseService.fetchSubmissions('pending'));
+        } catch (err) {
+            console.error('Submissions load error:', err);
+            setError(t('moderation.loadFailed'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadSubmissions();
+    }, []);
+
+    const handleApprove = async (submission: DbSubmission) => {
+        const current = submission.business_id ? businessMap.get(submission.business_id) : null;
+        const business = SupabaseService.submissionToBusiness(submission, current);
+        if (!confirm(t('moderation.approveConfirm', { name: shopName(business) }))) return;
+
+        setBusyId(submission.id);
+        try {
+            await onApprove(submission, business);
+            await loadSubmissions();
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleReject = async (submission: DbSubmission) => {
+        if (!rejectReason.trim()) return;
+        setBusyId(submission.id);
+        try {
+            await SupabaseService.rejectSubmission(submission.id, rejectReason.trim());
+            setRejectingId(null);
+            setRejectReason('');
+            await loadSubmissions();
+        } catch (err: any) {
+            console.error('Reject submission error:', err);
+            alert(t('moderation.rejectFailed', { error: err.message }));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const renderSubmission = (submission: DbSubmission) => {
+        const isCorrection = submission.kind === 'correction';
+        const current = submission.business_id ? businessMap.get(submission.business_id) : undefined;
+        const currentDb = current ? SupabaseService.businessToDbBusiness(current) : null;
+        const diffs = isCorrection
+            ? diffBusinesses(currentDb, { ...currentDb, ...submission.payload })
+            : diffBusinesses(null, submission.payload);
+        const title = submission.payload.shop_name || (current && shopName(current)) || '—';
+        const targetMissing = isCorrection && !current;
+        const phone = submission.payload.contact_number ? phoneKey(submission.payload.contact_number) : '';
+        const duplicate = !isCorrection && phone
+            ? businesses.find(b => businessContacts(b).some(c => phoneKey(c.number) === phone))
+            : undefined;
+        const isBusy = busyId === submission.id;
+        // Approving adds or edits a business, so the admin needs that right too
+        const category = current?.category || submission.payload.category || undefined;
+        const mayApprove = can(admin, 'submissions.review', category)
+            && can(admin, isCorrection ? 'business.edit' : 'business.add', category);
+
+        return (
+            <li key={submission.id} className="p-4 bg-background rounded-lg space-y-3">
+                <div className="flex flex-wrap justify-between items-start gap-2">
+                    <div className="min-w-0">
+                        <span className={`inline-block text-xs font-bold px-2 py-0.5 rounded-full mr-2 ${isCorrection ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'}`}>
+                            {isCorrection ? t('moderation.correction') : t('moderation.newBusiness')}
+                        </span>
+                        <span className="font-bold text-primary">{title}</span>
+                    </div>
+                    <p className="text-xs text-text-secondary">
+                        {formatDateTime(submission.created_at)}
+                        {(submission.submitter_name || submission.submitter_contact) && (
+                            <> · <i className="fas fa-user mr-1"></i>{[submission.submitter_name, submission.submitter_contact].filter(Boolean).join(', ')}</>
+                        )}
+                    </p>
+                </div>
+
+                {submission.message && (
+                    <p className="text-sm p-2 bg-surface border-l-4 border-secondary rounded italic break-words">"{submission.message}"</p>
+                )}
+
+                {diffs.length > 0 && (
+                    <ul className="space-y-1 text-sm">
+                        {diffs.map(diff => (
+                            <li key={diff.key} className="break-words">
+                                <span className="font-semibold text-text-primary">{diff.label}: </span>
+                                {isCorrection && (
+                                    <>
+                                        <span className="line-through text-red-600">{formatFieldValue(diff.key, diff.before, categories)}</span>
+                                        <i className="fas fa-arrow-right mx-2 text-text-secondary text-xs"></i>
+                                    </>
+                                )}
+                                <span className="text-green-700">{formatFieldValue(diff.key, diff.after, categories)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {targetMissing && (
+                    <p className="text-sm text-red-600"><i className="fas fa-triangle-exclamation mr-1"></i>{t('moderation.targetDeleted')}</p>
+                )}
+                {duplicate && (
+                    <p className="text-sm text-amber-700"><i className="fas fa-clone mr-1"></i>{t('moderation.duplicate', { name: shopName(duplicate) })}</p>
+                )}
+
+                {rejectingId === submission.id ? (
+                    <div className="space-y-2">
+                        <div className="flex flex-wrap gap-2">
+                            {QUICK_REJECT_REASONS.map(reason => (
+                                <button key={reason} onClick={() => setRejectReason(t(reason))} className="px-2 py-1 text-xs bg-surface border border-border-color rounded-full hover:border-primary">
+                                    {t(reason)}
+                                </button>
+                            ))}
+                        </div>
+                        <textarea
+                            value={rejectReason}
+                            onChange={e => setRejectReason(e.target.value)}
+                            placeholder={t('moderation.rejectReason')}
+                            className="w-full p-2 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary text-sm"
+                            rows={2}
+                            maxLength={500}
+                            disabled={isBusy}
+                        />
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => handleReject(submission)}
+                                disabled={isBusy || !rejectReason.trim()}
+                                className="px-3 py-1 bg-red-600 text-white font-semibold rounded-lg text-sm hover:bg-red-700 disabled:opacity-60 disabled:cursor-not-allowed"
+                            >
+                                {isBusy ? '...' : t('moderation.reject')}
+                            </button>
+                            <button onClick={() => { setRejectingId(null); setRejectReason(''); }} disabled={isBusy} className="px-3 py-1 text-sm text-text-secondary hover:underline">{t('common.cancel')}</button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={() => handleApprove(submission)}
+                            disabled={busyId !== null || targetMissing || !mayApprove}
+                            className="px-3 py-1 bg-primary text-white font-semibold rounded-lg text-sm hover:bg-primary/90 disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                            <i className="fas fa-check mr-1"></i>{isBusy ? '...' : t('moderation.approve')}
+                        </button>
+                        <button
+                            onClick={() => onEditAndApprove(submission)}
+                            disabled={busyId !== null || targetMissing || !mayApprove}
+                            className="px-3 py-1 bg-secondary text-white font-semibold rounded-lg text-sm hover:bg-secondary/90 disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                            <i className="fas fa-pen mr-1"></i>{t('moderation.editAndApprove')}
+                        </button>
+                        <button
+                            onClick={() => { setRejectingId(submission.id); setRejectReason(''); }}
+                            disabled={busyId !== null || !can(admin, 'submissions.review', category)}
+                            className="px-3 py-1 bg-red-50 text-red-700 border border-red-200 font-semibold rounded-lg text-sm hover:bg-red-100 disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                            <i className="fas fa-xmark mr-1"></i>{t('moderation.reject')}
+                        </button>
+                    </div>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-2xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
+                    <div>
+                        <h3 className="font-inter text-xl font-bold text-primary">{t('admin.moderation')}</h3>
+                        {!isLoading && <p className="text-sm text-text-secondary">{t('moderation.pending', { count: submissions.length })}</p>}
+                    </div>
+                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
+                </header>
+
+                <div className="overflow-y-auto p-4">
+                    {isLoading && (
+                        <div className="flex items-center justify-center p-6">
+                            <div className="w-8 h-8 border-4 border-t-primary border-gray-200 rounded-full animate-spin"></div>
+                        </div>
+                    )}
+                    {error && <p className="text-center text-red-600 font-semibold p-4 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+                    {!isLoading && !error && submissions.length === 0 && (
+                        <p className="p-8 text-center text-text-secondary">{t('moderation.empty')}</p>
+                    )}
+                    {!isLoading && submissions.length > 0 && (
+                        <ul className="space-y-4">{submissions.map(renderSubmission)}</ul>
+                    )}
+                </div>
+
+                <footer className="p-3 border-t border-border-color text-center sticky bottom-0 bg-surface/80 backdrop-blur-sm">
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default ModerationQueue;
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Business } from '../types';
+import { describeOpenStatus, getBusinessSchedule, getOpenStatus } from '../openingHours';
+
+interface OpenStatusBadgeProps {
+    business: Business;
+    now: Date;
+}
+
+const OpenStatusBadge: React.FC<OpenStatusBadgeProps> = ({ business, now }) => {
+    const schedule = getBusinessSchedule(business);
+    if (!schedule) return null;
+
+    const status = getOpenStatus(schedule, now);
+    const isOpen = status.state === 'open';
+
+    return (
+        <span className={`inline-flex items-center gap-1.5 text-xs font-bold px-2.5 py-1 rounded-full ${isOpen ? 'bg-green-100 text-green-700' : 'bg-red-50 text-red-600'}`}>
+            <i className={`fas ${isOpen ? 'fa-door-open' : 'fa-door-closed'}`}></i>
+            {describeOpenStatus(status)}
+        </span>
+    );
+};
+
+export default OpenStatusBadge;
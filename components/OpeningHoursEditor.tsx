@@ -0,0 +1,159 @@
+import React from 'react';
+import { OpeningSchedule, ScheduleException, TimeRange } from '../types';
+import { createSchedule, dayName, parseOpeningHours } from '../openingHours';
+import { t } from '../i18n';
+
+interface OpeningHoursEditorProps {
+    schedule?: OpeningSchedule;
+    text?: string;
+    onChange: (schedule: OpeningSchedule | undefined) => void;
+    disabled?: boolean;
+}
+
+const DEFAULT_RANGE: TimeRange = { open: '10:00', close: '20:00' };
+
+const WEEK_DAYS = [0, 1, 2, 3, 4, 5, 6]; // Sunday first, as Date.getDay()
+
+const today = (): string => {
+    const date = new Date();
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const OpeningHoursEditor: React.FC<OpeningHoursEditorProps> = ({ schedule, text, onChange, disabled }) => {
+    const timeInputStyles = "p-1.5 border-2 border-border-color rounded-lg bg-surface text-sm focus:outline-none focus:border-primary";
+    const smallButtonStyles = "text-sm font-semibold text-primary hover:underline disabled:opacity-60";
+
+    const handleFillFromText = () => {
+        const parsed = parseOpeningHours(text);
+        if (!parsed) {
+            alert(t('hoursEditor.unparsed'));
+            return;
+        }
+        onChange(parsed);
+    };
+
+    if (!schedule) {
+        return (
+            <div className="md:col-span-2 p-3 border-2 border-dashed border-border-color rounded-lg flex flex-wrap items-center justify-between gap-3">
+                <span className="text-sm text-text-secondary">{t('hoursEditor.none')}</span>
+                <div className="flex gap-4">
+                    {text && <button type="button" onClick={handleFillFromText} className={smallButtonStyles} disabled={disabled}>{t('hoursEditor.fillFromText')}</button>}
+                    <button type="button" onClick={() => onChange(createSchedule([DEFAULT_RANGE]))} className={smallButtonStyles} disabled={disabled}>
+                        <i className="fas fa-plus mr-1"></i>{t('hoursEditor.create')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const setDayRanges = (day: number, ranges: TimeRange[]) => {
+        const days = schedule.days.map((dayRanges, i) => (i === day ? ranges : dayRanges));
+        onChange({ ...schedule, days });
+    };
+
+    const updateRange = (day: number, index: number, field: keyof TimeRange, value: string) => {
+        setDayRanges(day, schedule.days[day].map((range, i) => (i === index ? { ...range, [field]: value } : range)));
+    };
+
+    const copyToAllDays = (day: number) => {
+        onChange({ ...schedule, days: schedule.days.map(() => schedule.days[day].map(range => ({ ...range }))) });
+    };
+
+    const exceptions = schedule.exceptions || [];
+
+    const setExceptions = (next: ScheduleException[]) => {
+        onChange({ ...schedule, exceptions: next.length > 0 ? next : undefined });
+    };
+
+    const updateException = (index: number, changes: Partial<ScheduleException>) => {
+        setExceptions(exceptions.map((exception, i) => (i === index ? { ...exception, ...changes } : exception)));
+    };
+
+    return (
+        <div className="md:col-span-2 p-3 border-2 border-border-color rounded-lg space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h4 className="font-bold text-text-primary">{t('hoursEditor.title')}</h4>
+                <div className="flex gap-4">
+                    {text && <button type="button" onClick={handleFillFromText} className={smallButtonStyles} disabled={disabled}>{t('hoursEditor.fillFromText')}</button>}
+                    <button type="button" onClick={() => onChange(undefined)} className="text-sm font-semibold text-red-600 hover:underline disabled:opacity-60" disabled={disabled}>{t('hoursEditor.remove')}</button>
+                </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+                <span className="font-semibold">{t('hoursEditor.weeklyOff')}:</span>
+                <select
+                    value={schedule.weeklyClosedDay ?? ''}
+                    onChange={e => onChange({ ...schedule, weeklyClosedDay: e.target.value === '' ? undefined : Number(e.target.value) })}
+                    className={timeInputStyles}
+                    disabled={disabled}
+                >
+                    <option value="">{t('common.no')}</option>
+                    {WEEK_DAYS.map(day => <option key={day} value={day}>{dayName(day)}</option>)}
+                </select>
+            </label>
+
+            <div className="space-y-2">
+                {WEEK_DAYS.map(day => {
+                    const ranges = schedule.days[day] || [];
+                    const isWeeklyOff = schedule.weeklyClosedDay === day;
+                    return (
+                        <div key={day} className="flex flex-wrap items-center gap-2 text-sm border-b border-border-color pb-2">
+                            <span className="w-20 font-semibold">{dayName(day)}</span>
+                            {isWeeklyOff ? (
+                                <span className="text-red-600 font-semibold">{t('hoursEditor.weeklyOff')}</span>
+                            ) : (
+                                <>
+                                    {ranges.length === 0 && <span className="text-text-secondary">{t('hours.closed')}</span>}
+                                    {ranges.map((range, index) => (
+                                        <span key={index} className="flex items-center gap-1">
+                                            <input type="time" value={range.open} onChange={e => updateRange(day, index, 'open', e.target.value)} className={timeInputStyles} required disabled={disabled} />
+                                            <span>{t('hoursEditor.to')}</span>
+                                            <input type="time" value={range.close === '24:00' ? '23:59' : range.close} onChange={e => updateRange(day, index, 'close', e.target.value)} className={timeInputStyles} required disabled={disabled} />
+                                            <button type="button" onClick={() => setDayRanges(day, ranges.filter((_, i) => i !== index))} className="text-red-600 px-1" aria-label={t('hoursEditor.removeTime')} disabled={disabled}>
+                                                <i className="fas fa-times"></i>
+                                            </button>
+                                        </span>
+                                    ))}
+                                    <button type="button" onClick={() => setDayRanges(day, [...ranges, { ...DEFAULT_RANGE }])} className={smallButtonStyles} disabled={disabled}>+ {t('hoursEditor.addTime')}</button>
+                                    {ranges.length > 0 && (
+                                        <button type="button" onClick={() => copyToAllDays(day)} className="text-xs text-text-secondary hover:underline ml-auto" disabled={disabled}>{t('hoursEditor.applyToAll')}</button>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    );
+                })}
+                <p className="text-xs text-text-secondary">{t('hoursEditor.overnightHelp')}</p>
+            </div>
+
+            <div className="space-y-2">
+                <h5 className="font-semibold text-sm">{t('hoursEditor.exceptions')}</h5>
+                {exceptions.map((exception, index) => {
+                    const isClosed = exception.ranges.length === 0;
+                    return (
+                        <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                            <input type="date" value={exception.date} onChange={e => updateException(index, { date: e.target.value })} className={timeInputStyles} required disabled={disabled} />
+                            <label className="flex items-center gap-1">
+                                <input type="checkbox" checked={isClosed} onChange={e => updateException(index, { ranges: e.target.checked ? [] : [{ ...DEFAULT_RANGE }] })} disabled={disabled} /> {t('hours.closed')}
+                            </label>
+                            {!isClosed && (
+                                <span className="flex items-center gap-1">
+                                    <input type="time" value={exception.ranges[0].open} onChange={e => updateException(index, { ranges: [{ ...exception.ranges[0], open: e.target.value }] })} className={timeInputStyles} required disabled={disabled} />
+                                    <span>{t('hoursEditor.to')}</span>
+                                    <input type="time" value={exception.ranges[0].close} onChange={e => updateException(index, { ranges: [{ ...exception.ranges[0], close: e.target.value }] })} className={timeInputStyles} required disabled={disabled} />
+                                </span>
+                            )}
+                            <input value={exception.note || ''} onChange={e => updateException(index, { note: e.target.value || undefined })} placeholder={t('hoursEditor.reason')} className={`${timeInputStyles} flex-grow`} disabled={disabled} />
+                            <button type="button" onClick={() => setExceptions(exceptions.filter((_, i) => i !== index))} className="text-red-600 px-1" aria-label={t('hoursEditor.removeDay')} disabled={disabled}>
+                                <i className="fas fa-trash"></i>
+                            </button>
+                        </div>
+                    );
+                })}
+                <button type="button" onClick={() => setExceptions([...exceptions, { date: today(), ranges: [] }])} className={smallButtonStyles} disabled={disabled}>+ {t('hoursEditor.addHoliday')}</button>
+            </div>
+        </div>
+    );
+};
+
+export default OpeningHoursEditor;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { OutboxEntry, OutboxOperation, OutboxStatus } from '../cacheService';
+import { MessageKey, formatDateTime, t } from '../i18n';
+
+interface OutboxPanelProps {
+    entries: OutboxEntry[];
+    isOnline: boolean;
+    onRetry: (entry: OutboxEntry) => void;
+    onDiscard: (entry: OutboxEntry) => void;
+    onResolve: (entry: OutboxEntry) => void;
+    onSyncNow: () => void;
+    onClearSynced: () => void;
+    onBack: () => void;
+    onClose: () => void;
+}
+
+const operationLabels: Record<OutboxOperation, MessageKey> = {
+    add: 'outbox.add',
+    update: 'outbox.update',
+    delete: 'outbox.delete',
+};
+
+const statusStyles: Record<OutboxStatus, { labelKey: MessageKey; icon: string; className: string }> = {
+    pending: { labelKey: 'outbox.pending', icon: 'fas fa-clock', className: 'bg-yellow-100 text-yellow-800' },
+    synced: { labelKey: 'outbox.synced', icon: 'fas fa-check-circle', className: 'bg-green-100 text-green-800' },
+    failed: { labelKey: 'outbox.failed', icon: 'fas fa-exclamation-circle', className: 'bg-red-100 text-red-800' },
+};
+
+const OutboxPanel: React.FC<OutboxPanelProps> = ({ entries, isOnline, onRetry, onDiscard, onResolve, onSyncNow, onClearSynced, onBack, onClose }) => {
+    const sortedEntries = entries.slice().sort((a, b) => b.created_at - a.created_at);
+    const hasPending = entries.some(e => e.status === 'pending');
+    const hasSynced = entries.some(e => e.status === 'synced');
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-lg m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
+                    <h3 className="font-inter text-xl font-bold text-primary">{t('admin.outbox')}</h3>
+                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
+                </header>
+
+                {!isOnline && (
+                    <p className="mx-4 mt-4 p-3 text-sm bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+                        <i className="fas fa-wifi mr-2"></i>{t('outbox.offline')}
+                    </p>
+                )}
+
+                {sortedEntries.length === 0 ? (
+                    <p className="p-8 text-center text-text-secondary">{t('outbox.empty')}</p>
+                ) : (
+                    <ul className="overflow-y-auto p-4 space-y-2">
+                        {sortedEntries.map(entry => {
+                            const status = statusStyles[entry.status];
+                            return (
+                                <li key={entry.id} className="p-3 bg-background rounded-lg">
+                                    <div className="flex justify-between items-center gap-3">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-semibold truncate">{entry.shopName}</p>
+                                            <p className="text-sm text-text-secondary">
+                                                {t(operationLabels[entry.operation])} · {formatDateTime(entry.created_at)}
+                                            </p>
+                                        </div>
+                                        <span className={`text-xs font-bold px-2 py-1 rounded-full flex items-center gap-1 flex-shrink-0 ${status.className}`}>
+                                            <i className={status.icon}></i> {t(status.labelKey)}
+                                        </span>
+                                    </div>
+                                    {entry.status === 'failed' && (
+                                        <div className="mt-2 space-y-2">
+                                            {entry.error && <p className="text-sm text-red-600 break-words">{entry.error}</p>}
+                                            <div className="flex gap-2">
+                                                {entry.conflict ? (
+                                                    <button onClick={() => onResolve(entry)} className="px-3 py-1 bg-primary text-white font-semibold rounded-lg text-sm hover:bg-primary/90">
+                                                        {t('outbox.resolve')}
+                                                    </button>
+                                                ) : (
+                                                    <button onClick={() => onRetry(entry)} className="px-3 py-1 bg-secondary text-white font-semibold rounded-lg text-sm hover:bg-secondary/90">
+                                                        {t('outbox.retry')}
+                                                    </button>
+                                                )}
+                                                <button onClick={() => onDiscard(entry)} className="px-3 py-1 bg-red-600 text-white font-semibold rounded-lg text-sm hover:bg-red-700">
+                                                    {t('common.cancel')}
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+
+                <footer className="p-3 border-t border-border-color flex justify-center gap-4 sticky bottom-0 bg-surface/80 backdrop-blur-sm">
+                    {hasPending && isOnline && (
+                        <button onClick={onSyncNow} className="text-sm text-primary font-semibold hover:underline">{t('outbox.syncNow')}</button>
+                    )}
+                    {hasSynced && (
+                        <button onClick={onClearSynced} className="text-sm text-text-secondary hover:underline">{t('outbox.clearSynced')}</button>
+                    )}
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default OutboxPanel;
@@ -0,0 +1,321 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { downloadFile } from '../directoryExport';
+import {
+    BackupError, PersonalBackup, QrChunk, backupFileName, createBackup, decodeQrFrame,
+    joinQrChunks, parseBackup, parseQrText, renderQrCode, restoreBackup, serializeBackup, toQrTexts,
+} from '../personalBackup';
+import { formatDateTime, formatNumber, t } from '../i18n';
+
+interface PersonalBackupPanelProps {
+    onClose: () => void;
+    onRestored: () => void;
+}
+
+const QR_ADVANCE_MS = 2500;
+const SCAN_INTERVAL_MS = 300;
+
+const BackupSummary: React.FC<{ backup: PersonalBackup }> = ({ backup }) => (
+    <ul className="grid grid-cols-3 gap-2 text-center">
+        {[
+            { icon: 'fa-star text-amber-500', count: backup.favorites.length, label: t('backup.favorites') },
+            { icon: 'fa-sticky-note text-amber-600', count: backup.notes.length, label: t('backup.notes') },
+            { icon: 'fa-history text-secondary', count: backup.recents.length, label: t('backup.recents') },
+        ].map(item => (
+            <li key={item.label} className="p-3 bg-background rounded-lg">
+                <i className={`fas ${item.icon} text-xl`}></i>
+                <p className="text-2xl font-bold text-text-primary">{formatNumber(item.count)}</p>
+                <p className="text-xs text-text-secondary">{item.label}</p>
+            </li>
+        ))}
+    </ul>
+);
+
+// Shows the backup as QR codes, one after another, for the other phone to scan
+const QrSequence: React.FC<{ backup: PersonalBackup }> = ({ backup }) => {
+    const [images, setImages] = useState<string[]>([]);
+    const [index, setIndex] = useState(0);
+    const [isPaused, setIsPaused] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all(toQrTexts(backup).map(renderQrCode))
+            .then(urls => { if (!cancelled) setImages(urls); })
+            .catch(error => {
+                console.error('QR render error:', error);
+                alert(t('backup.qrFailed'));
+            });
+        return () => { cancelled = true; };
+    }, [backup]);
+
+    useEffect(() => {
+        if (images.length < 2 || isPaused) return;
+        const timer = setInterval(() => setIndex(i => (i + 1) % images.length), QR_ADVANCE_MS);
+        return () => clearInterval(timer);
+    }, [images.length, isPaused]);
+
+    if (images.length === 0) {
+        return <p className="text-center text-text-secondary py-8"><i className="fas fa-spinner fa-spin mr-2"></i>{t('backup.qrPreparing')}</p>;
+    }
+
+    return (
+        <div className="flex flex-col items-center gap-3">
+            <img src={images[index]} alt={t('backup.qrAlt', { index: index + 1, total: images.length })} className="w-64 h-64 bg-white rounded-lg shadow-subtle" />
+            <p className="font-bold text-text-primary">{formatNumber(index + 1)} / {formatNumber(images.length)}</p>
+            {images.length > 1 && (
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setIndex(i => (i - 1 + images.length) % images.length)} className="w-9 h-9 rounded-full bg-background text-text-secondary hover:text-primary" aria-label={t('backup.previous')}>
+                        <i className="fas fa-chevron-left"></i>
+                    </button>
+                    <button onClick={() => setIsPaused(p => !p)} className="w-9 h-9 rounded-full bg-background text-text-secondary hover:text-primary" aria-label={isPaused ? t('backup.play') : t('speech.stop')}>
+                        <i className={`fas ${isPaused ? 'fa-play' : 'fa-pause'}`}></i>
+                    </button>
+                    <button onClick={() => setIndex(i => (i + 1) % images.length)} className="w-9 h-9 rounded-full bg-background text-text-secondary hover:text-primary" aria-label={t('backup.next')}>
+                        <i className="fas fa-chevron-right"></i>
+                    </button>
+                </div>
+            )}
+            <p className="text-xs text-text-secondary text-center">{t('backup.qrHelp')}</p>
+        </div>
+    );
+};
+
+// Reads backup QR codes from the camera until every piece has been seen
+const QrScanner: React.FC<{ onComplete: (text: string) => void; onCancel: () => void }> = ({ onComplete, onCancel }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const chunksRef = useRef(new Map<number, QrChunk>());
+    const [progress, setProgress] = useState<{ received: number; total: number } | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        let stream: MediaStream | null = null;
+        let timer: ReturnType<typeof setInterval> | undefined;
+        let done = false;
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+        const scanFrame = async () => {
+            const video = videoRef.current;
+            if (done || !video || video.readyState < video.HAVE_ENOUGH_DATA) return;
+            canvas.width = video.videoWidth;
+            canvas.height = video.videoHeight;
+            ctx.drawImage(video, 0, 0);
+            const text = await decodeQrFrame(ctx.getImageData(0, 0, canvas.width, canvas.height));
+            const chunk = text ? parseQrText(text) : null;
+            if (!chunk || done) return;
+
+            const chunks = chunksRef.current;
+            const first = chunks.values().next().value;
+            // A code from a different backup starts the collection over
+            if (first && first.backupId !== chunk.backupId) chunks.clear();
+            chunks.set(chunk.index, chunk);
+            setProgress({ received: chunks.size, total: chunk.total });
+
+            if (chunks.size === chunk.total) {
+                done = true;
+                try {
+                    onComplete(joinQrChunks(chunks));
+                } catch (err: any) {
+                    setError(err.message);
+                }
+            }
+        };
+
+        (async () => {
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+            } catch (err) {
+                console.error('Camera error:', err);
+                setError(new BackupError('camera-unavailable').message);
+                return;
+            }
+            if (done || !videoRef.current) return;
+            videoRef.current.srcObject = stream;
+            await videoRef.current.play().catch(() => {});
+            timer = setInterval(() => { scanFrame().catch(err => console.warn('⚠️ QR scan failed:', err)); }, SCAN_INTERVAL_MS);
+        })();
+
+        return () => {
+            done = true;
+            if (timer) clearInterval(timer);
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    return (
+        <div className="space-y-3">
+            {error ? (
+                <p className="text-center text-red-600 font-semibold p-4 bg-red-50 border border-red-200 rounded-lg">{error}</p>
+            ) : (
+                <>
+                    <video ref={videoRef} muted playsInline className="w-full aspect-square object-cover bg-black rounded-lg" />
+                    <p className="text-center text-sm text-text-secondary">
+                        {progress
+                            ? t('backup.scanProgress', { received: progress.received, total: progress.total })
+                            : t('backup.scanHelp')}
+                    </p>
+                </>
+            )}
+            <button onClick={onCancel} className="w-full py-2 text-text-secondary font-semibold hover:underline">{t('common.cancel')}</button>
+        </div>
+    );
+};
+
+const PersonalBackupPanel: React.FC<PersonalBackupPanelProps> = ({ onClose, onRestored }) => {
+    const [tab, setTab] = useState<'export' | 'import'>('export');
+    const [backup, setBackup] = useState<PersonalBackup | null>(null);
+    const [showQr, setShowQr] = useState(false);
+    const [isScanning, setIsScanning] = useState(false);
+    const [incoming, setIncoming] = useState<PersonalBackup | null>(null);
+    const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [error, setError] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        createBackup()
+            .then(setBackup)
+            .catch(err => {
+                console.error('Backup error:', err);
+                setError(t('backup.createFailed'));
+            });
+    }, []);
+
+    const readIncoming = async (text: string) => {
+        setError('');
+        setIsScanning(false);
+        try {
+            setIncoming(await parseBackup(text));
+        } catch (err: any) {
+            setError(err instanceof BackupError ? err.message : t('backup.readFailed'));
+        }
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) await readIncoming(await file.text());
+    };
+
+    const handleRestore = async () => {
+        if (!incoming) return;
+        if (mode === 'replace' && !window.confirm(t('backup.replaceConfirm'))) return;
+        setIsRestoring(true);
+        try {
+            await restoreBackup(incoming, mode);
+            onRestored();
+            alert(t('backup.restored'));
+            onClose();
+        } catch (err) {
+            console.error('Restore error:', err);
+            setError(t('backup.restoreFailed'));
+        } finally {
+            setIsRestoring(false);
+        }
+    };
+
+    const isEmpty = backup && backup.favorites.length + backup.notes.length + backup.recents.length === 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-md m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex items-center justify-between sticky top-0 bg-surface/80 backdrop-blur-sm rounded-t-xl">
+                    <h3 className="font-inter text-xl font-bold text-primary"><i className="fas fa-mobile-screen mr-2"></i>{t('backup.title')}</h3>
+                    <button onClick={onClose} className="text-text-secondary hover:text-primary text-3xl w-8 h-8 flex items-center justify-center" aria-label={t('common.close')}>&times;</button>
+                </header>
+
+                <div className="flex p-2 gap-2 border-b border-border-color">
+                    {([['export', 'fa-upload', 'backup.send'], ['import', 'fa-download', 'backup.receive']] as const).map(([value, icon, labelKey]) => (
+                        <button
+                            key={value}
+                            onClick={() => { setTab(value); setError(''); setIsScanning(false); setShowQr(false); }}
+                            aria-pressed={tab === value}
+                            className={`flex-1 py-2 rounded-lg font-bold text-sm ${tab === value ? 'bg-primary text-white' : 'text-text-secondary hover:text-primary'}`}
+                        >
+                            <i className={`fas ${icon} mr-2`}></i>{t(labelKey)}
+                        </button>
+                    ))}
+                </div>
+
+                <main className="p-5 space-y-4 overflow-y-auto">
+                    <p className="text-sm text-text-secondary">{t('backup.intro')}</p>
+
+                    {tab === 'export' && (
+                        !backup ? (
+                            !error && <p className="text-center text-text-secondary"><i className="fas fa-spinner fa-spin mr-2"></i>{t('backup.preparing')}</p>
+                        ) : showQr ? (
+                            <QrSequence backup={backup} />
+                        ) : (
+                            <>
+                                <BackupSummary backup={backup} />
+                                {isEmpty && <p className="text-center text-sm text-text-secondary">{t('backup.empty')}</p>}
+                                <div className="grid grid-cols-2 gap-3">
+                                    <button
+                                        onClick={() => downloadFile(serializeBackup(backup), backupFileName(), 'application/json')}
+                                        disabled={!!isEmpty}
+                                        className="py-3 rounded-lg bg-secondary text-white font-bold hover:bg-secondary/90 disabled:opacity-60"
+                                    >
+                                        <i className="fas fa-file-arrow-down mr-2"></i>{t('backup.file')}
+                                    </button>
+                                    <button
+                                        onClick={() => setShowQr(true)}
+                                        disabled={!!isEmpty}
+                                        className="py-3 rounded-lg bg-primary text-white font-bold hover:bg-primary/90 disabled:opacity-60"
+                                    >
+                                        <i className="fas fa-qrcode mr-2"></i>{t('backup.qr')}
+                                    </button>
+                                </div>
+                            </>
+                        )
+                    )}
+
+                    {tab === 'import' && (
+                        isScanning ? (
+                            <QrScanner onComplete={readIncoming} onCancel={() => setIsScanning(false)} />
+                        ) : incoming ? (
+                            <>
+                                <BackupSummary backup={incoming} />
+                                {incoming.exportedAt && (
+                                    <p className="text-xs text-center text-text-secondary">{t('backup.takenAt', { date: formatDateTime(incoming.exportedAt) })}</p>
+                                )}
+                                <fieldset className="space-y-2">
+                                    {([
+                                        ['merge', 'backup.merge', 'backup.mergeHint'],
+                                        ['replace', 'backup.replace', 'backup.replaceHint'],
+                                    ] as const).map(([value, labelKey, hintKey]) => (
+                                        <label key={value} className={`flex items-start gap-3 p-3 rounded-lg border-2 cursor-pointer ${mode === value ? 'border-primary bg-primary/5' : 'border-border-color'}`}>
+                                            <input type="radio" name="restore-mode" checked={mode === value} onChange={() => setMode(value)} className="mt-1" />
+                                            <span>
+                                                <span className="font-bold text-text-primary">{t(labelKey)}</span>
+                                                <span className="block text-xs text-text-secondary">{t(hintKey)}</span>
+                                            </span>
+                                        </label>
+                                    ))}
+                                </fieldset>
+                                <div className="flex gap-3">
+                                    <button onClick={() => setIncoming(null)} disabled={isRestoring} className="flex-1 py-3 rounded-lg bg-background text-text-secondary font-bold">{t('common.back')}</button>
+                                    <button onClick={handleRestore} disabled={isRestoring} className="flex-1 py-3 rounded-lg bg-primary text-white font-bold hover:bg-primary/90 disabled:opacity-60">
+                                        {isRestoring ? <><i className="fas fa-spinner fa-spin mr-2"></i>{t('backup.restoring')}</> : t('backup.restore')}
+                                    </button>
+                                </div>
+                            </>
+                        ) : (
+                            <div className="grid grid-cols-2 gap-3">
+                                <button onClick={() => fileInputRef.current?.click()} className="py-3 rounded-lg bg-secondary text-white font-bold hover:bg-secondary/90">
+                                    <i className="fas fa-file-import mr-2"></i>{t('backup.chooseFile')}
+                                </button>
+                                <button onClick={() => { setError(''); setIsScanning(true); }} className="py-3 rounded-lg bg-primary text-white font-bold hover:bg-primary/90">
+                                    <i className="fas fa-camera mr-2"></i>{t('backup.scan')}
+                                </button>
+                                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFile} className="hidden" />
+                            </div>
+                        )
+                    )}
+
+                    {error && <p className="text-center text-red-600 font-semibold p-3 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+                </main>
+            </div>
+        </div>
+    );
+};
+
+export default PersonalBackupPanel;
@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { BusinessPhoto } from '../types';
+import { photoKindLabel } from '../photoService';
+import { t } from '../i18n';
+import ThumbnailImage from './ThumbnailImage';
+
+interface PhotoGalleryProps {
+    photos: BusinessPhoto[];
+    businessName: string;
+}
+
+// Full-size photo, falling back to the cached thumbnail when offline
+const GalleryImage: React.FC<{ photo: BusinessPhoto; alt: string }> = ({ photo, alt }) => {
+    const [useThumbnail, setUseThumbnail] = useState(false);
+
+    if (useThumbnail) {
+        return <ThumbnailImage url={photo.thumbUrl} alt={alt} className="w-full h-full" />;
+    }
+    return (
+        <img
+            src={photo.url}
+            alt={alt}
+            className="w-full h-full object-contain bg-black"
+            loading="lazy"
+            onError={() => setUseThumbnail(true)}
+        />
+    );
+};
+
+// Swipe uses native scroll snapping, so it works with touch, trackpad and keyboard alike
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ photos, businessName }) => {
+    const [index, setIndex] = useState(0);
+    const trackRef = useRef<HTMLDivElement>(null);
+
+    if (photos.length === 0) return null;
+
+    const handleScroll = () => {
+        const track = trackRef.current;
+        if (!track) return;
+        setIndex(Math.round(track.scrollLeft / track.clientWidth));
+    };
+
+    const scrollTo = (target: number) => {
+        const track = trackRef.current;
+        if (!track) return;
+        track.scrollTo({ left: target * track.clientWidth, behavior: 'smooth' });
+    };
+
+    const current = photos[Math.min(index, photos.length - 1)];
+
+    return (
+        <div className="relative bg-black rounded-lg overflow-hidden shadow-subtle">
+            <div
+                ref={trackRef}
+                onScroll={handleScroll}
+                className="flex overflow-x-auto snap-x snap-mandatory aspect-[4/3]"
+                style={{ scrollbarWidth: 'none' }}
+            >
+                {photos.map(photo => (
+                    <div key={photo.id} className="w-full h-full flex-shrink-0 snap-center">
+                        <GalleryImage photo={photo} alt={`${businessName} – ${photoKindLabel(photo.kind)}`} />
+                    </div>
+                ))}
+            </div>
+
+            <span className="absolute top-2 left-2 bg-black/60 text-white text-xs font-semibold px-2 py-1 rounded-full">
+                {photoKindLabel(current.kind)}{current.caption ? ` · ${current.caption}` : ''}
+            </span>
+
+            {photos.length > 1 && (
+                <>
+                    <button
+                        onClick={() => scrollTo(index - 1)}
+                        disabled={index === 0}
+                        className="absolute left-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-black/50 text-white disabled:opacity-0 transition-opacity"
+                        aria-label={t('gallery.previous')}
+                    >
+                        <i className="fas fa-chevron-left"></i>
+                    </button>
+                    <button
+                        onClick={() => scrollTo(index + 1)}
+                        disabled={index >= photos.length - 1}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-black/50 text-white disabled:opacity-0 transition-opacity"
+                        aria-label={t('gallery.next')}
+                    >
+                        <i className="fas fa-chevron-right"></i>
+                    </button>
+                    <div className="absolute bottom-2 inset-x-0 flex justify-center gap-1.5">
+                        {photos.map((photo, i) => (
+                            <button
+                                key={photo.id}
+                                onClick={() => scrollTo(i)}
+                                className={`w-2 h-2 rounded-full transition-all ${i === index ? 'bg-white w-4' : 'bg-white/50'}`}
+                                aria-label={t('gallery.photo', { number: i + 1 })}
+                            />
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default PhotoGallery;
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { BusinessPhoto, PhotoKind } from '../types';
+import { MAX_PHOTOS, PHOTO_KINDS, uploadBusinessPhoto } from '../photoService';
+import { t } from '../i18n';
+import ThumbnailImage from './ThumbnailImage';
+
+interface PhotoUploaderProps {
+    photos: BusinessPhoto[];
+    businessId?: string;
+    onChange: (photos: BusinessPhoto[]) => void;
+    disabled?: boolean;
+}
+
+const PhotoUploader: React.FC<PhotoUploaderProps> = ({ photos, businessId, onChange, disabled }) => {
+    const [kind, setKind] = useState<PhotoKind>('shopfront');
+    const [uploadingCount, setUploadingCount] = useState(0);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    // Uploads finish one by one; build on the latest list, not the one they started with
+    const photosRef = useRef(photos);
+    photosRef.current = photos;
+
+    const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from((e.target.files || []) as ArrayLike<File>).slice(0, MAX_PHOTOS - photos.length);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        setUploadingCount(files.length);
+        const failures: string[] = [];
+        for (const file of files) {
+            try {
+                const photo = await uploadBusinessPhoto(file, kind, businessId);
+                photosRef.current = [...photosRef.current, photo];
+                onChange(photosRef.current);
+            } catch (err: any) {
+                console.error('Photo upload error:', err);
+                failures.push(`${file.name}: ${err.message}`);
+            }
+            setUploadingCount(count => count - 1);
+        }
+        if (failures.length > 0) alert(`${t('photo.someFailed')}\n${failures.join('\n')}`);
+    };
+
+    const updatePhoto = (id: string, changes: Partial<BusinessPhoto>) =>
+        onChange(photos.map(p => (p.id === id ? { ...p, ...changes } : p)));
+
+    const movePhotoFirst = (id: string) => {
+        const photo = photos.find(p => p.id === id);
+        if (photo) onChange([photo, ...photos.filter(p => p.id !== id)]);
+    };
+
+    const isBusy = disabled || uploadingCount > 0;
+
+    return (
+        <div className="md:col-span-2 p-3 border-2 border-dashed border-border-color rounded-lg space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-text-secondary"><i className="fas fa-camera mr-2"></i>{t('photo.count', { count: photos.length, max: MAX_PHOTOS })}</span>
+                <select value={kind} onChange={e => setKind(e.target.value as PhotoKind)} className="ml-auto p-2 border-2 border-border-color rounded-lg bg-surface text-sm" disabled={isBusy}>
+                    {PHOTO_KINDS.map(k => <option key={k.kind} value={k.kind}>{t(k.labelKey)}</option>)}
+                </select>
+                <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isBusy || photos.length >= MAX_PHOTOS}
+                    className="px-3 py-2 bg-secondary text-white font-semibold rounded-lg text-sm hover:bg-secondary/90 disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                    {uploadingCount > 0
+                        ? <><i className="fas fa-spinner fa-spin mr-1"></i>{t('photo.uploading', { count: uploadingCount })}</>
+                        : <><i className="fas fa-upload mr-1"></i>{t('photo.add')}</>}
+                </button>
+                <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+            </div>
+
+            {photos.length > 0 && (
+                <ul className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {photos.map((photo, index) => (
+                        <li key={photo.id} className="space-y-1">
+                            <div className="relative">
+                                <ThumbnailImage url={photo.thumbUrl} alt="" className="w-full aspect-square rounded-lg" />
+                                {index === 0 && <span className="absolute top-1 left-1 bg-primary text-white text-[10px] font-bold px-1.5 py-0.5 rounded">{t('photo.main')}</span>}
+                                <button
+                                    type="button"
+                                    onClick={() => onChange(photos.filter(p => p.id !== photo.id))}
+                                    disabled={isBusy}
+                                    className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/60 text-white text-xs"
+                                    aria-label={t('photo.remove')}
+                                >
+                                    <i className="fas fa-times"></i>
+                                </button>
+                            </div>
+                            <select value={photo.kind} onChange={e => updatePhoto(photo.id, { kind: e.target.value as PhotoKind })} className="w-full p-1 border border-border-color rounded bg-surface text-xs" disabled={isBusy}>
+                                {PHOTO_KINDS.map(k => <option key={k.kind} value={k.kind}>{t(k.labelKey)}</option>)}
+                            </select>
+                            <input value={photo.caption || ''} onChange={e => updatePhoto(photo.id, { caption: e.target.value || undefined })} placeholder={t('photo.caption')} className="w-full p-1 border border-border-color rounded bg-surface text-xs" disabled={isBusy} />
+                            {index > 0 && (
+                                <button type="button" onClick={() => movePhotoFirst(photo.id)} disabled={isBusy} className="text-xs text-primary hover:underline">{t('photo.makeMain')}</button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default PhotoUploader;
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import * as SupabaseService from '../supabaseClient';
+import { AdminProfile, ModerationReview } from '../supabaseClient';
+import { can } from '../permissions';
+import { MessageKey, formatDateTime, localize, t } from '../i18n';
+import StarRating from './StarRating';
+
+interface ReviewModerationProps {
+    admin: AdminProfile;
+    onBack: () => void;
+    onClose: () => void;
+}
+
+type ReviewFilter = 'reported' | 'recent' | 'hidden';
+
+const FILTERS: Array<{ filter: ReviewFilter; labelKey: MessageKey }> = [
+    { filter: 'reported', labelKey: 'reviewMod.reported' },
+    { filter: 'recent', labelKey: 'reviewMod.recent' },
+    { filter: 'hidden', labelKey: 'reviewMod.hidden' },
+];
+
+const QUICK_HIDE_REASONS: MessageKey[] = ['reviewMod.reasonAbusive', 'reviewMod.reasonPersonal', 'reviewMod.reasonSpam', 'reviewMod.reasonUnrelated'];
+
+const ReviewModeration: React.FC<ReviewModerationProps> = ({ admin, onBack, onClose }) => {
+    const [filter, setFilter] = useState<ReviewFilter>('reported');
+    const [reviews, setReviews] = useState<ModerationReview[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [hidingId, setHidingId] = useState<string | null>(null);
+    const [hideReason, setHideReason] = useState('');
+
+    const loadReviews = async () => {
+        setIsLoading(true);
+        setError('');
+        try {
+            setReviews(await SupabaseService.fetchReviewsForModeration(filter));
+        } catch (err) {
+            console.error('Reviews load error:', err);
+            setError(t('reviewMod.loadFailed'));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadReviews();
+    }, [filter]);
+
+    const runAction = async (review: ModerationReview, action: () => Promise<void>) => {
+        setBusyId(review.id);
+        try {
+            await action();
+            setHidingId(null);
+            setHideReason('');
+            await loadReviews();
+        } catch (err: any) {
+            console.error('Review moderation error:', err);
+            alert(t('common.error', { error: err.message }));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = (review: ModerationReview) => {
+        if (!confirm(t('reviewMod.deleteConfirm'))) return;
+        runAction(review, () => SupabaseService.deleteReview(review));
+    };
+
+    const renderReview = (review: ModerationReview) => {
+        const isBusy = busyId === review.id;
+        const mayModerate = can(admin, 'reviews.moderate', review.business?.category);
+
+        return (
+            <li key={review.id} className="p-4 bg-background rounded-lg space-y-2">
+                <div className="flex flex-wrap justify-between items-start gap-2">
+                    <div className="min-w-0">
+                        <span className="font-bold text-primary mr-2">{review.business ? localize(review.business.shop_name, review.business.shop_name_translations) : '—'}</span>
+                        <StarRating value={review.rating} className="text-sm" />
+                    </div>
+                    <p className="text-xs text-text-secondary">
+                        {formatDateTime(review.created_at)}
+                        {review.reviewer_name && <> · <i className="fas fa-user mr-1"></i>{review.reviewer_name}</>}
+                    </p>
+                </div>
+
+                {review.comment
+                    ? <p className="text-sm p-2 bg-surface border-l-4 border-secondary rounded italic break-words">"{review.comment}"</p>
+                    : <p className="text-sm text-text-secondary italic">{t('reviewMod.ratingOnly')}</p>}
+
+                {!!review.report_count && (
+                    <p className="text-sm text-red-600"><i className="fas fa-flag mr-1"></i>{t('reviewMod.reportCount', { count: review.report_count })}</p>
+                )}
+                {review.status === 'hidden' && (
+                    <p className="text-sm text-text-secondary"><i className="fas fa-eye-slash mr-1"></i>{t('reviewMod.hiddenLabel')}{review.hidden_reason ? `: ${review.hidden_reason}` : ''}</p>
+                )}
+
+                {hidingId === review.id ? (
+                    <div className="space-y-2">
+                        <div className="flex flex-wrap gap-2">
+                            {QUICK_HIDE_REASONS.map(reason => (
+                                <button key={reason} onClick={() => setHideReason(t(reason))} className="px-2 py-1 text-xs bg-surface border border-border-color rounded-full hover:border-primary">
+                                    {t(reason)}
+                                </button>
+                            ))}
+                        </div>
+                        <input
+                            value={hideReason}
+                            onChange={e => setHideReason(e.target.value)}
+                            placeholder={t('reviewMod.hideReason')}
+                            maxLength={200}
+                            className="w-full p-2 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary text-sm"
+                            disabled={isBusy}
+                        />
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => runAction(review, () => SupabaseService.setReviewStatus(review, 'hidden', hideReason.trim()))}
+                                disabled={isBusy}
+                                className="px-3 py-1 bg-red-600 text-white font-semibold rounded-lg text-sm hover:bg-red-700 disabled:opacity-60"
+                            >
+                                {isBusy ? '...' : t('reviewMod.hide')}
+                            </button>
+                            <button onClick={() => setHidingId(null)} disabled={isBusy} className="px-3 py-1 text-sm text-text-secondary hover:underline">{t('common.cancel')}</button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex flex-wrap gap-2">
+                        {review.status === 'visible' ? (
+                            <>
+                                {!!review.report_count && (
+                                    <button
+                                        onClick={() => runAction(review, () => SupabaseService.setReviewStatus(review, 'visible'))}
+                                        disabled={busyId !== null || !mayModerate}
+                                        className="px-3 py-1 bg-primary text-white font-semibold rounded-lg text-sm hover:bg-primary/90 disabled:opacity-60 disabled:cursor-not-allowed"
+                                    >
+                                        <i className="fas fa-check mr-1"></i>{t('reviewMod.dismiss')}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => { setHidingId(review.id); setHideReason(''); }}
+                                    disabled={busyId !== null || !mayModerate}
+                                    className="px-3 py-1 bg-red-50 text-red-700 border border-red-200 font-semibold rounded-lg text-sm hover:bg-red-100 disabled:opacity-60 disabled:cursor-not-allowed"
+                                >
+                                    <i className="fas fa-eye-slash mr-1"></i>{t('reviewMod.hide')}
+                                </button>
+                            </>
+                        ) : (
+                            <button
+                                onClick={() => runAction(review, () => SupabaseService.setReviewStatus(review, 'visible'))}
+                                disabled={busyId !== null || !mayModerate}
+                                className="px-3 py-1 bg-secondary text-white font-semibold rounded-lg text-sm hover:bg-secondary/90 disabled:opacity-60 disabled:cursor-not-allowed"
+                            >
+                                <i className="fas fa-eye mr-1"></i>{t('reviewMod.unhide')}
+                            </button>
+                        )}
+                        <button
+                            onClick={() => handleDelete(review)}
+                            disabled={busyId !== null || !mayModerate}
+                            className="px-3 py-1 text-sm text-red-700 hover:underline disabled:opacity-60 disabled:cursor-not-allowed"
+                        >
+                            <i className="fas fa-trash mr-1"></i>{t('common.delete')}
+                        </button>
+                    </div>
+                )}
+            </li>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-2xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
+                    <h3 className="font-inter text-xl font-bold text-primary">{t('admin.reviews')}</h3>
+                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
+                </header>
+
+                <div className="flex gap-2 p-3 border-b border-border-color">
+                    {FILTERS.map(f => (
+                        <button
+                            key={f.filter}
+                            onClick={() => setFilter(f.filter)}
+                            aria-pressed={filter === f.filter}
+                            className={`px-3 py-1 rounded-full text-sm font-bold ${filter === f.filter ? 'bg-primary text-white' : 'bg-background text-text-secondary hover:text-primary'}`}
+                        >
+                            {t(f.labelKey)}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="overflow-y-auto p-4">
+                    {isLoading && (
+                        <div className="flex items-center justify-center p-6">
+                            <div className="w-8 h-8 border-4 border-t-primary border-gray-200 rounded-full animate-spin"></div>
+                        </div>
+                    )}
+                    {error && <p className="text-center text-red-600 font-semibold p-4 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+                    {!isLoading && !error && reviews.length === 0 && (
+                        <p className="p-8 text-center text-text-secondary">{t('reviewMod.empty')}</p>
+                    )}
+                    {!isLoading && reviews.length > 0 && (
+                        <ul className="space-y-4">{reviews.map(renderReview)}</ul>
+                    )}
+                </div>
+
+                <footer className="p-3 border-t border-border-color text-center sticky bottom-0 bg-surface/80 backdrop-blur-sm">
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default ReviewModeration;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Business } from '../types';
+import * as SupabaseService from '../supabaseClient';
+import { DbReview } from '../supabaseClient';
+import { formatRating, getDeviceId, isNumberDoubtful } from '../ratings';
+import StarRating from './StarRating';
+import { formatDate, t } from '../i18n';
+
+interface ReviewSectionProps {
+    business: Business;
+    startWithForm?: boolean; // Opened from the after-call prompt
+}
+
+const ReviewSection: React.FC<ReviewSectionProps> = ({ business, startWithForm = false }) => {
+    const [reviews, setReviews] = useState<DbReview[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadFailed, setLoadFailed] = useState(false);
+    const [showForm, setShowForm] = useState(startWithForm);
+    const [rating, setRating] = useState(0);
+    const [comment, setComment] = useState('');
+    const [reviewerName, setReviewerName] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [reportedIds, setReportedIds] = useState<Set<string>>(new Set());
+
+    const loadReviews = async () => {
+        setIsLoading(true);
+        setLoadFailed(false);
+        try {
+            setReviews(await SupabaseService.fetchReviews(business.id));
+        } catch (err) {
+            // Offline is normal here; the summary still comes from the cache
+            console.warn('⚠️ Reviews load failed:', err);
+            setLoadFailed(true);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        setShowForm(startWithForm);
+        setRating(0);
+        setComment('');
+        loadReviews();
+    }, [business.id, startWithForm]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!rating) return;
+        setIsSubmitting(true);
+        try {
+            await SupabaseService.submitReview({
+                business_id: business.id,
+                rating,
+                comment: comment.trim() || null,
+                reviewer_name: reviewerName.trim() || null,
+                device_id: getDeviceId(),
+            });
+            setShowForm(false);
+            setRating(0);
+            setComment('');
+            alert(t('reviews.thanks'));
+            await loadReviews();
+        } catch (err: any) {
+            console.error('Review submit error:', err);
+            alert(err.message || t('reviews.sendFailed'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleReport = async (review: DbReview) => {
+        if (!confirm(t('reviews.reportConfirm'))) return;
+        try {
+            await SupabaseService.reportReview(review.id, getDeviceId());
+            setReportedIds(prev => new Set(prev).add(review.id));
+        } catch (err) {
+            console.error('Review report error:', err);
+            alert(err instanceof SupabaseService.SubmissionError ? err.message : t('reviews.reportFailed'));
+        }
+    };
+
+    const summary = business.rating;
+    const checks = summary ? summary.numberOk + summary.numberWrong : 0;
+
+    return (
+        <div className="p-4 bg-surface rounded-lg shadow-subtle space-y-4">
+            <div className="flex items-center justify-between gap-3">
+                <h4 className="font-bold text-text-primary">{t('reviews.title')}:</h4>
+                {!showForm && (
+                    <button onClick={() => setShowForm(true)} className="text-sm font-semibold text-primary hover:underline">
+                        <i className="fas fa-pen mr-1"></i>{t('reviews.rate')}
+                    </button>
+                )}
+            </div>
+
+            {summary?.average != null && summary.count > 0 ? (
+                <div className="flex items-center gap-3">
+                    <span className="text-3xl font-bold text-text-primary">{formatRating(summary.average)}</span>
+                    <div>
+                        <StarRating value={summary.average} />
+                        <p className="text-xs text-text-secondary">{t('reviews.count', { count: summary.count })}</p>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-sm text-text-secondary">{t('reviews.none')}</p>
+            )}
+
+            {checks > 0 && (
+                <p className={`text-sm ${isNumberDoubtful(summary) ? 'text-red-600 font-semibold' : 'text-text-secondary'}`}>
+                    <i className={`fas ${isNumberDoubtful(summary) ? 'fa-triangle-exclamation' : 'fa-phone-volume'} mr-2`}></i>
+                    {isNumberDoubtful(summary)
+                        ? t('reviews.numberWrong', { count: summary!.numberWrong })
+                        : t('reviews.numberOk', { count: summary!.numberOk })}
+                </p>
+            )}
+
+            {showForm && (
+                <form onSubmit={handleSubmit} className="p-3 bg-background rounded-lg space-y-3">
+                    <StarRating value={rating} onChange={setRating} className="text-3xl" />
+                    <textarea
+                        value={comment}
+                        onChange={e => setComment(e.target.value)}
+                        placeholder={t('reviews.commentPlaceholder')}
+                        rows={3}
+                        maxLength={500}
+                        className="w-full p-2 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary text-sm"
+                        disabled={isSubmitting}
+                    />
+                    <input
+                        value={reviewerName}
+                        onChange={e => setReviewerName(e.target.value)}
+                        placeholder={t('reviews.namePlaceholder')}
+                        maxLength={60}
+                        className="w-full p-2 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary text-sm"
+                        disabled={isSubmitting}
+                    />
+                    <div className="flex gap-2">
+                        <button type="submit" disabled={!rating || isSubmitting} className="px-4 py-2 bg-primary text-white font-bold rounded-lg text-sm hover:bg-primary/90 disabled:opacity-60 disabled:cursor-not-allowed">
+                            {isSubmitting ? <><i className="fas fa-spinner fa-spin mr-1"></i>{t('suggest.sending')}</> : t('backup.send')}
+                        </button>
+                        <button type="button" onClick={() => setShowForm(false)} disabled={isSubmitting} className="px-4 py-2 text-sm text-text-secondary hover:underline">{t('common.cancel')}</button>
+                    </div>
+                </form>
+            )}
+
+            {isLoading ? (
+                <p className="text-sm text-text-secondary"><i className="fas fa-spinner fa-spin mr-2"></i>{t('reviews.loading')}</p>
+            ) : loadFailed ? (
+                <p className="text-sm text-text-secondary">{t('reviews.offline')}</p>
+            ) : reviews.length > 0 && (
+                <ul className="space-y-3">
+                    {reviews.map(review => (
+                        <li key={review.id} className="border-t border-border-color pt-3">
+                            <div className="flex items-center justify-between gap-2">
+                                <StarRating value={review.rating} className="text-sm" />
+                                <span className="text-xs text-text-secondary">{formatDate(review.created_at)}</span>
+                            </div>
+                            {review.comment && <p className="text-sm text-text-primary mt-1 break-words">{review.comment}</p>}
+                            <div className="flex items-center justify-between mt-1">
+                                <span className="text-xs text-text-secondary">{review.reviewer_name || t('reviews.anonymous')}</span>
+                                {reportedIds.has(review.id) ? (
+                                    <span className="text-xs text-text-secondary">{t('reviews.reported')}</span>
+                                ) : (
+                                    <button onClick={() => handleReport(review)} className="text-xs text-text-secondary hover:text-red-600">
+                                        <i className="fas fa-flag mr-1"></i>{t('reviews.report')}
+                                    </button>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ReviewSection;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { isSpeechSynthesisSupported, speak, stopSpeaking } from '../speechService';
+import { t } from '../i18n';
+
+interface SpeakButtonProps {
+    text: string;
+    label?: string;
+    className?: string;
+}
+
+const SpeakButton: React.FC<SpeakButtonProps> = ({ text, label = t('speech.listen'), className = '' }) => {
+    const [isSpeaking, setIsSpeaking] = useState(false);
+
+    if (!isSpeechSynthesisSupported()) return null;
+
+    const handleClick = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (isSpeaking) {
+            stopSpeaking();
+            setIsSpeaking(false);
+            return;
+        }
+        setIsSpeaking(true);
+        speak(text, () => setIsSpeaking(false));
+    };
+
+    return (
+        <button
+            type="button"
+            onClick={handleClick}
+            title={isSpeaking ? t('speech.stop') : label}
+            aria-label={isSpeaking ? t('speech.stop') : label}
+            className={`w-9 h-9 flex-shrink-0 flex items-center justify-center rounded-full bg-primary/10 text-primary hover:bg-primary/20 transition-colors ${className}`}
+        >
+            <i className={`fas ${isSpeaking ? 'fa-stop' : 'fa-volume-high'}`}></i>
+        </button>
+    );
+};
+
+export default SpeakButton;
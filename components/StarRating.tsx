@@ -0,0 +1,44 @@
+import React from 'react';
+import { t } from '../i18n';
+
+interface StarRatingProps {
+    value: number;                     // 0–5; halves are shown when read-only
+    onChange?: (value: number) => void; // Makes the stars tappable
+    className?: string;
+}
+
+const StarRating: React.FC<StarRatingProps> = ({ value, onChange, className = '' }) => {
+    const starClass = (star: number) => {
+        if (value >= star) return 'fas fa-star';
+        if (!onChange && value >= star - 0.5) return 'fas fa-star-half-stroke';
+        return 'far fa-star';
+    };
+
+    if (!onChange) {
+        return (
+            <span className={`inline-flex gap-0.5 text-amber-500 ${className}`} aria-label={t('stars.outOfFive', { count: value })}>
+                {[1, 2, 3, 4, 5].map(star => <i key={star} className={starClass(star)}></i>)}
+            </span>
+        );
+    }
+
+    return (
+        <span className={`inline-flex gap-1 ${className}`} role="radiogroup" aria-label={t('stars.label')}>
+            {[1, 2, 3, 4, 5].map(star => (
+                <button
+                    key={star}
+                    type="button"
+                    role="radio"
+                    aria-checked={value === star}
+                    aria-label={t('stars.count', { count: star })}
+                    onClick={() => onChange(star)}
+                    className={`text-amber-500 hover:scale-110 transition-transform ${value >= star ? '' : 'opacity-60'}`}
+                >
+                    <i className={starClass(star)}></i>
+                </button>
+            ))}
+        </span>
+    );
+};
+
+export default StarRating;
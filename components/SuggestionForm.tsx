@@ -0,0 +1,199 @@
+import React, { useRef, useState } from 'react';
+import { Business, Category } from '../types';
+import * as SupabaseService from '../supabaseClient';
+import { DbBusiness, SubmissionError } from '../supabaseClient';
+import { BusinessField, fieldValuesEqual } from '../businessDiff';
+import { formatPhoneNumber, parsePhoneNumber, phoneKey, toE164 } from '../phone';
+import { categoryName, shopName, t } from '../i18n';
+
+interface SuggestionFormProps {
+    business: Business | null; // Set to report wrong info about it; null to suggest a new business
+    categories: Category[];
+    onClose: () => void;
+}
+
+interface FormState {
+    shopName: string;
+    ownerName: string;
+    contactNumber: string;
+    category: string;
+    address: string;
+    openingHours: string;
+    services: string;
+    message: string;
+    submitterName: string;
+    submitterContact: string;
+    website: string; // Honeypot: hidden from people, filled in by bots
+}
+
+// Submissions faster than this after opening the form are almost always bots
+const MIN_FILL_TIME_MS = 3000;
+
+const SUGGESTABLE_FIELDS: BusinessField[] = ['shop_name', 'owner_name', 'contact_number', 'category', 'address', 'opening_hours', 'services'];
+
+const SuggestionForm: React.FC<SuggestionFormProps> = ({ business, categories, onClose }) => {
+    const isCorrection = !!business;
+    const openedAt = useRef(Date.now());
+    const [form, setForm] = useState<FormState>({
+        shopName: business?.shopName || '',
+        ownerName: business?.ownerName || '',
+        contactNumber: business ? formatPhoneNumber(business.contactNumber) : '',
+        category: business?.category || '',
+        address: business?.address || '',
+        openingHours: business?.openingHours || '',
+        services: business?.services?.join(', ') || '',
+        message: '',
+        submitterName: '',
+        submitterContact: '',
+        website: '',
+    });
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [isSent, setIsSent] = useState(false);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+        setForm({ ...form, [e.target.name]: e.target.value });
+    };
+
+    // Only the fields the villager actually changed (or filled in, for a new business)
+    const buildPayload = (): Partial<DbBusiness> => {
+        const typedPhone = form.contactNumber.trim();
+        const proposed: Partial<DbBusiness> = {
+            shop_name: form.shopName.trim(),
+            owner_name: form.ownerName.trim(),
+            contact_number: toE164(typedPhone) || typedPhone,
+            category: form.category,
+            address: form.address.trim(),
+            opening_hours: form.openingHours.trim(),
+            services: form.services.split(',').map(s => s.trim()).filter(Boolean),
+        };
+        const current = business ? SupabaseService.businessToDbBusiness(business) : {};
+        // The same number written another way is not a correction
+        if (business && phoneKey(typedPhone) === phoneKey(business.contactNumber)) {
+            proposed.contact_number = current.contact_number;
+        }
+
+        const payload: Partial<DbBusiness> = {};
+        for (const key of SUGGESTABLE_FIELDS) {
+            if (!fieldValuesEqual(current[key], proposed[key])) {
+                (payload as Record<string, unknown>)[key] = proposed[key];
+            }
+        }
+        return payload;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+
+        // Quietly drop what looks like a bot; it gets no hint about why
+        if (form.website || Date.now() - openedAt.current < MIN_FILL_TIME_MS) {
+            setIsSent(true);
+            return;
+        }
+
+        const payload = buildPayload();
+        if (isCorrection && Object.keys(payload).length === 0 && !form.message.trim()) {
+            setError(t('suggest.needCorrection'));
+            return;
+        }
+        if (!isCorrection && (!form.shopName.trim() || !form.contactNumber.trim())) {
+            setError(t('suggest.needNameAndPhone'));
+            return;
+        }
+        const phone = payload.contact_number ? parsePhoneNumber(payload.contact_number) : null;
+        if (phone && !phone.ok) {
+            setError(`${t('field.contactNumber')}: ${phone.error}`);
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            await SupabaseService.submitSuggestion({
+                kind: isCorrection ? 'correction' : 'new',
+                business_id: business?.id || null,
+                payload,
+                message: form.message.trim() || null,
+                submitter_name: form.submitterName.trim() || null,
+                submitter_contact: form.submitterContact.trim() || null,
+            });
+            setIsSent(true);
+        } catch (err) {
+            console.error('Suggestion submit error:', err);
+            setError(err instanceof SubmissionError
+                ? err.message
+                : t('suggest.sendFailed'));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const inputStyles = "w-full p-3 border-2 border-border-color rounded-lg bg-surface focus:outline-none focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all";
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-lg m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center">
+                    <div className="min-w-0">
+                        <h3 className="font-inter text-xl font-bold text-primary">{isCorrection ? t('suggest.titleCorrection') : t('footer.suggest')}</h3>
+                        {business && <p className="text-sm text-text-secondary truncate">{shopName(business)}</p>}
+                    </div>
+                    <button onClick={onClose} className="text-text-secondary hover:text-text-primary text-3xl w-8 h-8 flex items-center justify-center">&times;</button>
+                </header>
+
+                {isSent ? (
+                    <div className="p-8 text-center space-y-4">
+                        <i className="fas fa-circle-check text-5xl text-green-600"></i>
+                        <p className="font-semibold text-text-primary">{t('suggest.thanks')}</p>
+                        <p className="text-sm text-text-secondary">{t('suggest.afterReview')}</p>
+                        <button onClick={onClose} className="px-6 py-2 bg-primary text-white font-semibold rounded-lg hover:bg-primary/90">{t('common.close')}</button>
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="p-5 space-y-3 overflow-y-auto">
+                        <p className="text-sm text-text-secondary">
+                            {isCorrection
+                                ? t('suggest.introCorrection')
+                                : t('suggest.introNew')}
+                        </p>
+                        <input name="shopName" value={form.shopName} onChange={handleChange} placeholder={t('form.shopName')} className={inputStyles} required={!isCorrection} maxLength={150} disabled={isSubmitting} />
+                        <input name="ownerName" value={form.ownerName} onChange={handleChange} placeholder={t('form.ownerName')} className={inputStyles} maxLength={150} disabled={isSubmitting} />
+                        <input name="contactNumber" type="tel" value={form.contactNumber} onChange={handleChange} placeholder={t('field.contactNumber')} className={inputStyles} required={!isCorrection} maxLength={20} disabled={isSubmitting} />
+                        <select name="category" value={form.category} onChange={handleChange} className={inputStyles} disabled={isSubmitting}>
+                            <option value="">{t('suggest.categoryIfKnown')}</option>
+                            {categories.map(category => <option key={category.id} value={category.id}>{categoryName(category)}</option>)}
+                        </select>
+                        <textarea name="address" value={form.address} onChange={handleChange} placeholder={t('form.address')} className={inputStyles} rows={2} maxLength={300} disabled={isSubmitting} />
+                        <input name="openingHours" value={form.openingHours} onChange={handleChange} placeholder={t('form.openingHours')} className={inputStyles} maxLength={150} disabled={isSubmitting} />
+                        <textarea name="services" value={form.services} onChange={handleChange} placeholder={t('form.services')} className={inputStyles} rows={2} maxLength={500} disabled={isSubmitting} />
+                        <textarea
+                            name="message"
+                            value={form.message}
+                            onChange={handleChange}
+                            placeholder={isCorrection ? t('suggest.messageCorrection') : t('suggest.messageNew')}
+                            className={inputStyles}
+                            rows={3}
+                            maxLength={1000}
+                            disabled={isSubmitting}
+                        />
+
+                        <fieldset className="pt-2 border-t border-border-color space-y-3">
+                            <legend className="text-sm font-semibold text-text-secondary pt-2">{t('suggest.aboutYou')}</legend>
+                            <input name="submitterName" value={form.submitterName} onChange={handleChange} placeholder={t('suggest.yourName')} className={inputStyles} maxLength={100} disabled={isSubmitting} />
+                            <input name="submitterContact" value={form.submitterContact} onChange={handleChange} placeholder={t('suggest.yourPhone')} className={inputStyles} maxLength={100} disabled={isSubmitting} />
+                        </fieldset>
+
+                        <input name="website" value={form.website} onChange={handleChange} className="hidden" tabIndex={-1} autoComplete="off" aria-hidden="true" />
+
+                        {error && <p className="text-center text-red-600 font-semibold p-3 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+
+                        <button type="submit" disabled={isSubmitting} className="w-full bg-primary hover:bg-primary/90 text-white font-bold py-3 rounded-lg disabled:opacity-60 disabled:cursor-not-allowed">
+                            {isSubmitting ? t('suggest.sending') : t('suggest.send')}
+                        </button>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SuggestionForm;
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { t } from '../i18n';
+
+interface TagBrowserProps {
+    tags: Array<{ tag: string; count: number }>;
+    selectedTag: string | null;
+    onTagSelect: (tag: string | null) => void;
+}
+
+// Enough to fit on two lines on a phone; the rest stay behind "more"
+const COLLAPSED_TAG_COUNT = 12;
+
+const TagBrowser: React.FC<TagBrowserProps> = ({ tags, selectedTag, onTagSelect }) => {
+    const [showAll, setShowAll] = useState(false);
+
+    if (tags.length === 0) return null;
+
+    const visibleTags = tags.slice(0, showAll ? tags.length : COLLAPSED_TAG_COUNT);
+    // Keep the active tag visible even when it is not among the most common
+    if (selectedTag && !visibleTags.some(entry => entry.tag.toLowerCase() === selectedTag.toLowerCase())) {
+        const selected = tags.find(entry => entry.tag.toLowerCase() === selectedTag.toLowerCase());
+        if (selected) visibleTags.push(selected);
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 mt-6 animate-fadeInUp" style={{ animationDelay: '300ms' }}>
+            <span className="text-sm font-semibold text-text-secondary mr-1"><i className="fas fa-hashtag mr-1"></i>{t('tags.label')}</span>
+            {visibleTags.map(({ tag, count }) => {
+                const isSelected = selectedTag?.toLowerCase() === tag.toLowerCase();
+                return (
+                    <button
+                        key={tag}
+                        onClick={() => onTagSelect(isSelected ? null : tag)}
+                        aria-pressed={isSelected}
+                        className={`px-3 py-1 rounded-full text-sm font-semibold transition-all ${isSelected ? 'bg-primary text-white' : 'bg-surface text-text-secondary shadow-subtle hover:text-primary'}`}
+                    >
+                        {tag} <span className="text-xs opacity-70">({count})</span>
+                    </button>
+                );
+            })}
+            {tags.length > COLLAPSED_TAG_COUNT && (
+                <button onClick={() => setShowAll(!showAll)} className="text-sm text-primary hover:underline">
+                    {showAll ? t('tags.showLess') : t('tags.more', { count: tags.length - COLLAPSED_TAG_COUNT })}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default TagBrowser;
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+
+interface ThumbnailImageProps {
+    url: string;
+    alt: string;
+    className?: string;
+}
+
+// Shows a photo thumbnail from the IndexedDB cache (downloading it into the
+// cache on first view), so thumbnails keep working offline.
+const ThumbnailImage: React.FC<ThumbnailImageProps> = ({ url, alt, className = '' }) => {
+    const [src, setSrc] = useState<string | null>(url.startsWith('data:') ? url : null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        if (url.startsWith('data:')) {
+            setSrc(url);
+            return;
+        }
+
+        let objectUrl: string | null = null;
+        let cancelled = false;
+        setSrc(null);
+        setFailed(false);
+
+        (async () => {
+            const CacheService = await import('../cacheService');
+            const blob = await CacheService.loadThumbnail(url);
+            if (cancelled) return;
+            if (blob) {
+                objectUrl = URL.createObjectURL(blob);
+                setSrc(objectUrl);
+            } else {
+                setFailed(true);
+            }
+        })();
+
+        return () => {
+            cancelled = true;
+            if (objectUrl) URL.revokeObjectURL(objectUrl);
+        };
+    }, [url]);
+
+    if (failed || !src) {
+        return (
+            <div className={`flex items-center justify-center bg-gray-100 text-gray-300 ${className}`} aria-label={alt}>
+                <i className={`fas ${failed ? 'fa-image' : 'fa-spinner fa-spin'}`}></i>
+            </div>
+        );
+    }
+
+    return <img src={src} alt={alt} className={`object-cover ${className}`} loading="lazy" />;
+};
+
+export default ThumbnailImage;
@@ -0,0 +1,256 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Business, Category } from '../types';
+import * as SupabaseService from '../supabaseClient';
+import { UsageReport } from '../supabaseClient';
+import { UsageEventKind } from '../cacheService';
+import { MessageKey, categoryName, formatDate, formatNumber, shopName, t } from '../i18n';
+
+interface UsageAnalyticsProps {
+    businesses: Business[];
+    categories: Category[];
+    onBack: () => void;
+    onClose: () => void;
+}
+
+const PERIODS = [7, 30, 90];
+
+const METRICS: Array<{ id: string; labelKey: MessageKey; kinds: UsageEventKind[] }> = [
+    { id: 'search', labelKey: 'usage.searches', kinds: ['search'] },
+    { id: 'contacts', labelKey: 'usage.contacts', kinds: ['call', 'whatsapp', 'share'] },
+    { id: 'ai', labelKey: 'usage.aiQuestions', kinds: ['ai_query'] },
+    { id: 'category', labelKey: 'usage.categoriesOpened', kinds: ['category'] },
+];
+
+// The report's days are plain dates, so build the axis the same way
+const dayKey = (date: Date): string =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const lastDays = (count: number): string[] => {
+    const today = new Date();
+    return Array.from({ length: count }, (_, i) => dayKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - (count - 1 - i))));
+};
+
+const formatDay = (day: string) => formatDate(`${day}T00:00:00`, { day: 'numeric', month: 'short' });
+
+const UsageAnalytics: React.FC<UsageAnalyticsProps> = ({ businesses, categories, onBack, onClose }) => {
+    const [days, setDays] = useState(30);
+    const [metric, setMetric] = useState(METRICS[0].id);
+    const [report, setReport] = useState<UsageReport | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        setError('');
+        SupabaseService.fetchUsageReport(days)
+            .then(result => { if (!cancelled) setReport(result); })
+            .catch(err => {
+                console.error('Usage report error:', err);
+                if (!cancelled) setError(t('usage.loadFailed'));
+            })
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [days]);
+
+    const businessMap = useMemo(() => new Map(businesses.map(b => [b.id, b])), [businesses]);
+    const categoryMap = useMemo(() => new Map(categories.map(c => [c.id, c])), [categories]);
+
+    const totals = useMemo(() => {
+        const byKind: Partial<Record<UsageEventKind, number>> = {};
+        for (const row of report?.daily || []) byKind[row.kind] = (byKind[row.kind] || 0) + row.count;
+        return byKind;
+    }, [report]);
+
+    const trend = useMemo(() => {
+        const kinds = METRICS.find(m => m.id === metric)!.kinds;
+        const counts = new Map<string, number>();
+        for (const row of report?.daily || []) {
+            if (kinds.includes(row.kind)) counts.set(row.day, (counts.get(row.day) || 0) + row.count);
+        }
+        return lastDays(days).map(day => ({ day, count: counts.get(day) || 0 }));
+    }, [report, metric, days]);
+
+    const trendMax = Math.max(1, ...trend.map(point => point.count));
+    const emptySearchCount = report?.searches.reduce((sum, s) => sum + s.empty_count, 0) || 0;
+    const categoryMax = Math.max(1, ...(report?.categories || []).map(c => c.count));
+
+    const tiles = [
+        { icon: 'fa-magnifying-glass', label: t('usage.searches'), value: totals.search || 0 },
+        { icon: 'fa-circle-question', label: t('usage.emptySearches'), value: emptySearchCount, warn: true },
+        { icon: 'fa-robot', label: t('usage.aiQuestions'), value: totals.ai_query || 0 },
+        { icon: 'fa-phone', label: t('usage.callsAndShares'), value: (totals.call || 0) + (totals.whatsapp || 0) + (totals.share || 0) },
+    ];
+
+    const sectionTitle = (icon: string, text: string) => (
+        <h4 className="font-bold text-text-primary mb-2"><i className={`fas ${icon} mr-2 text-secondary`}></i>{text}</h4>
+    );
+
+    const renderQueries = (rows: Array<{ query: string; count: number; empty_count: number }>, empty: string) => (
+        rows.length === 0 ? <p className="text-sm text-text-secondary">{empty}</p> : (
+            <ul className="space-y-1">
+                {rows.map(row => (
+                    <li key={row.query} className="flex items-center justify-between gap-2 text-sm p-2 bg-background rounded-lg">
+                        <span className="truncate">{row.query}</span>
+                        <span className="flex-shrink-0 text-text-secondary">
+                            {row.empty_count > 0 && <span className="text-red-600 mr-2" title={t('usage.noResults')}>{t('usage.emptyCount', { count: row.empty_count })} ·</span>}
+                            {formatNumber(row.count)}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        )
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 animate-fadeInUp" style={{animationDuration: '0.3s'}} onClick={onClose}>
+            <div className="bg-surface rounded-xl shadow-xl w-11/12 max-w-2xl m-4 flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+                <header className="p-4 border-b border-border-color flex justify-between items-center sticky top-0 bg-surface/80 backdrop-blur-sm">
+                    <div>
+                        <h3 className="font-inter text-xl font-bold text-primary">{t('admin.analytics')}</h3>
+                        <p className="text-sm text-text-secondary">{t('usage.anonymous')}</p>
+                    </div>
+                    <button onClick={onBack} className="text-sm text-text-secondary hover:underline flex items-center gap-2"><i className="fas fa-arrow-left"></i> {t('common.back')}</button>
+                </header>
+
+                <div className="flex gap-2 p-3 border-b border-border-color">
+                    {PERIODS.map(period => (
+                        <button
+                            key={period}
+                            onClick={() => setDays(period)}
+                            aria-pressed={days === period}
+                            className={`px-3 py-1 rounded-full text-sm font-bold ${days === period ? 'bg-primary text-white' : 'bg-background text-text-secondary hover:text-primary'}`}
+                        >
+                            {t('usage.lastDays', { count: period })}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="overflow-y-auto p-4 space-y-6">
+                    {isLoading && (
+                        <div className="flex items-center justify-center p-6">
+                            <div className="w-8 h-8 border-4 border-t-primary border-gray-200 rounded-full animate-spin"></div>
+                        </div>
+                    )}
+                    {error && <p className="text-center text-red-600 font-semibold p-4 bg-red-50 border border-red-200 rounded-lg">{error}</p>}
+
+                    {!isLoading && !error && report && (
+                        <>
+                            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                {tiles.map(tile => (
+                                    <div key={tile.label} className={`p-3 rounded-lg ${tile.warn && tile.value > 0 ? 'bg-red-50 text-red-700' : 'bg-background text-text-secondary'}`}>
+                                        <i className={`fas ${tile.icon} mr-1`}></i>
+                                        <span className="text-sm font-bold">{tile.label}</span>
+                                        <span className="block text-2xl font-bold text-text-primary">{formatNumber(tile.value)}</span>
+                                    </div>
+                                ))}
+                            </div>
+
+                            <section>
+                                <div className="flex flex-wrap gap-2 mb-3">
+                                    {METRICS.map(m => (
+                                        <button
+                                            key={m.id}
+                                            onClick={() => setMetric(m.id)}
+                                            aria-pressed={metric === m.id}
+                                            className={`px-2 py-1 text-xs rounded-full border transition-colors ${metric === m.id ? 'bg-primary text-white border-primary' : 'bg-surface border-border-color hover:border-primary'}`}
+                                        >
+                                            {t(m.labelKey)}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="flex items-end gap-px h-32 p-2 bg-background rounded-lg" role="img" aria-label={t('usage.dailyChart')}>
+                                    {trend.map(point => (
+                                        <div
+                                            key={point.day}
+                                            title={`${formatDay(point.day)}: ${formatNumber(point.count)}`}
+                                            className="flex-1 bg-primary/70 hover:bg-primary rounded-t-sm min-h-[2px]"
+                                            style={{ height: `${(point.count / trendMax) * 100}%` }}
+                                        ></div>
+                                    ))}
+                                </div>
+                                <div className="flex justify-between text-xs text-text-secondary mt-1">
+                                    <span>{formatDay(trend[0].day)}</span>
+                                    <span>{t('usage.maxPerDay', { count: trendMax })}</span>
+                                    <span>{formatDay(trend[trend.length - 1].day)}</span>
+                                </div>
+                            </section>
+
+                            <section>
+                                {sectionTitle('fa-circle-question', t('usage.emptySearchesTitle'))}
+                                {report.empty_searches.length === 0 ? (
+                                    <p className="text-sm text-text-secondary">{t('usage.allFound')}</p>
+                                ) : (
+                                    <ul className="space-y-1">
+                                        {report.empty_searches.map(row => (
+                                            <li key={row.query} className="flex items-center justify-between gap-2 text-sm p-2 bg-red-50 rounded-lg">
+                                                <span className="font-semibold truncate">{row.query}</span>
+                                                <span className="flex-shrink-0 text-text-secondary">{t('usage.timesLast', { count: row.count, day: formatDay(row.last_day) })}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </section>
+
+                            <section>
+                                {sectionTitle('fa-magnifying-glass', t('usage.popularSearches'))}
+                                {renderQueries(report.searches, t('usage.noSearches'))}
+                            </section>
+
+                            <section>
+                                {sectionTitle('fa-robot', t('usage.aiQuestionsTitle'))}
+                                {renderQueries(report.ai_queries, t('usage.noQuestions'))}
+                            </section>
+
+                            <section>
+                                {sectionTitle('fa-table-cells', t('usage.categoriesTitle'))}
+                                {report.categories.length === 0 ? <p className="text-sm text-text-secondary">{t('usage.noData')}</p> : (
+                                    <ul className="space-y-1">
+                                        {report.categories.map(row => {
+                                            const category = categoryMap.get(row.category_id);
+                                            return (
+                                                <li key={row.category_id} className="text-sm">
+                                                    <div className="flex justify-between">
+                                                        <span>{category && <i className={`${category.icon} mr-1 text-primary`}></i>}{category ? categoryName(category) : row.category_id}</span>
+                                                        <span className="text-text-secondary">{formatNumber(row.count)}</span>
+                                                    </div>
+                                                    <div className="h-1.5 bg-background rounded-full mt-1">
+                                                        <div className="h-full bg-secondary rounded-full" style={{ width: `${(row.count / categoryMax) * 100}%` }}></div>
+                                                    </div>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+                            </section>
+
+                            <section>
+                                {sectionTitle('fa-phone-volume', t('usage.topBusinesses'))}
+                                {report.businesses.length === 0 ? <p className="text-sm text-text-secondary">{t('usage.noData')}</p> : (
+                                    <ul className="space-y-1">
+                                        {report.businesses.map(row => (
+                                            <li key={row.business_id} className="flex items-center justify-between gap-2 text-sm p-2 bg-background rounded-lg">
+                                                <span className="truncate">{businessMap.has(row.business_id) ? shopName(businessMap.get(row.business_id)) : '—'}</span>
+                                                <span className="flex-shrink-0 text-text-secondary space-x-3">
+                                                    <span title={t('usage.calls')}><i className="fas fa-phone mr-1"></i>{formatNumber(row.calls)}</span>
+                                                    <span title="WhatsApp"><i className="fab fa-whatsapp mr-1"></i>{formatNumber(row.whatsapp)}</span>
+                                                    <span title={t('detail.share')}><i className="fas fa-share mr-1"></i>{formatNumber(row.shares)}</span>
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </section>
+                        </>
+                    )}
+                </div>
+
+                <footer className="p-3 border-t border-border-color text-center sticky bottom-0 bg-surface/80 backdrop-blur-sm">
+                    <button onClick={onClose} className="text-sm text-text-secondary hover:underline">{t('common.close')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default UsageAnalytics;
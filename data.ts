@@ -2,51 +2,51 @@ import { BusinessData } from './types';
 
 export const data: BusinessData = {
     "categories": [
-        { "id": "medical", "name": "वैद्यकीय सेवा", "icon": "fa-solid fa-hospital" },
-        { "id": "police_services", "name": "पोलीस सेवा", "icon": "fa-solid fa-id-badge" },
-        { "id": "water_services", "name": "पाणी पुरवठा", "icon": "fa-solid fa-water" },
-        { "id": "electric_board_services", "name": "विद्युत मंडळ सेवा", "icon": "fa-solid fa-bolt" },
-        { "id": "government_services", "name": "सरकारी सेवा", "icon": "fas fa-institution" },
-        { "id": "education", "name": "शैक्षणिक सेवा", "icon": "fa-solid fa-graduation-cap" },
-        { "id": "transportation", "name": "वाहतूक सेवा", "icon": "fa-solid fa-bus" },
-        { "id": "goods_transport", "name": "वितरण वाहतूक सेवा", "icon": "fa-solid fa-truck" },
-        { "id": "rural_construction", "name": "ग्रामीण बांधकाम सेवा", "icon": "fa-solid fa-house" },
-        { "id": "groceries", "name": "किराणा दुकाने", "icon": "fa-solid fa-cart-shopping" },
-        { "id": "fruits_vegetables", "name": "फळे व भाजीपाला विक्रेते", "icon": "fa-solid fa-apple-whole" },
-        { "id": "dairy", "name": "दुग्ध उत्पादन", "icon": "fa-solid fa-cow" },
-        { "id": "restaurants", "name": "रेस्टोरंट", "icon": "fa-solid fa-utensils" },
-        { "id": "pharmacies", "name": "औषधालय", "icon": "fa-solid fa-pills" },
-        { "id": "agriculture_centers", "name": "कृषी केंद्र", "icon": "fa-solid fa-seedling" },
-        { "id": "agriculture", "name": "शेती संबंधित", "icon": "fa-solid fa-tractor" },
-        { "id": "vermicelli_processing", "name": "शेवया उत्पादन", "icon": "fa-solid fa-stroopwafel" },
-        { "id": "automobile", "name": "ऑटोमोबाइल सर्विस", "icon": "fas fa-car" },
-        { "id": "local_administration", "name": "स्थानिक प्रशासन", "icon": "fa-solid fa-landmark" },
-        { "id": "post_office", "name": "पोस्ट ऑफिस", "icon": "fa-solid fa-envelope" },
-        { "id": "newspaper_services", "name": "वृत्तपत्र सेवा", "icon": "fa-solid fa-newspaper" },
-        { "id": "salons", "name": "सलून", "icon": "fa-solid fa-scissors" },
-        { "id": "ladies_tailors", "name": "लेडीज टेलर", "icon": "fa-solid fa-person-dress" },
-        { "id": "gents_tailors", "name": "जेंट्स टेलर", "icon": "fa-solid fa-user-tie" },
-        { "id": "makeup_artists", "name": "मेकअप आर्टिस्ट", "icon": "fa-solid fa-brush" },
-        { "id": "photography", "name": "फोटोग्राफी", "icon": "fa-solid fa-camera" },
-        { "id": "puja_items", "name": "पूजा साहित्य", "icon": "fa-solid fa-praying-hands" },
-        { "id": "flowers", "name": "फुलांचे दुकान", "icon": "fa-solid fa-leaf" },
-        { "id": "clothing", "name": "कपडे दुकान", "icon": "fa-solid fa-tags" },
-        { "id": "electronics", "name": "इलेक्ट्रॉनिक्स", "icon": "fa-solid fa-plug" },
-        { "id": "stationery", "name": "स्टेशनरी", "icon": "fa-solid fa-paperclip" },
-        { "id": "mobile_accessories", "name": "मोबाईल व अक्सेसरीज", "icon": "fa-solid fa-tablet-screen-button" },
-        { "id": "jewelry_shops", "name": "ज्वेलरी शॉप", "icon": "fa-solid fa-gem" },
-        { "id": "carpentry_services", "name": "सुतारकाम", "icon": "fa-solid fa-hammer" },
-        { "id": "blacksmith_services", "name": "लोहारकाम", "icon": "fa-solid fa-hammer" },
-        { "id": "hardware", "name": "हार्डवेयर दुकान", "icon": "fa-solid fa-screwdriver-wrench" },
-        { "id": "welding_shop", "name": "वेल्डिंग दुकान", "icon": "fa-solid fa-fire" },
-        { "id": "bakeries_sweets", "name": "बेकरी आणि मिठाई", "icon": "fa-solid fa-birthday-cake" },
-        { "id": "internet_cafe", "name": "इंटरनेट/सायबर कॅफे", "icon": "fa-solid fa-desktop" },
-        { "id": "street_vendors", "name": "रस्त्यावरच्या टपर्या", "icon": "fa-solid fa-mug-hot" },
-        { "id": "veterinary_services", "name": "पशु वैद्यकीय सेवा", "icon": "fa-solid fa-paw" },
-        { "id": "seasonal_sellers", "name": "फटाके विक्रेते", "icon": "fa-solid fa-bomb" },
-        { "id": "opticals", "name": "ऑप्टिकल्स", "icon": "fa-solid fa-glasses" },
-        { "id": "shoe_repair", "name": "बूट मरम्मत", "icon": "fa-solid fa-shoe-prints" },
-        { "id": "paint_decor", "name": "पेंट व डेकोर", "icon": "fa-solid fa-paint-roller" }
+        { "id": "medical", "name": "वैद्यकीय सेवा", "nameTranslations": { "hi": "चिकित्सा सेवाएँ", "en": "Medical services" }, "icon": "fa-solid fa-hospital" },
+        { "id": "police_services", "name": "पोलीस सेवा", "nameTranslations": { "hi": "पुलिस सेवाएँ", "en": "Police" }, "icon": "fa-solid fa-id-badge" },
+        { "id": "water_services", "name": "पाणी पुरवठा", "nameTranslations": { "hi": "जल आपूर्ति", "en": "Water supply" }, "icon": "fa-solid fa-water" },
+        { "id": "electric_board_services", "name": "विद्युत मंडळ सेवा", "nameTranslations": { "hi": "बिजली बोर्ड सेवाएँ", "en": "Electricity board" }, "icon": "fa-solid fa-bolt" },
+        { "id": "government_services", "name": "सरकारी सेवा", "nameTranslations": { "hi": "सरकारी सेवाएँ", "en": "Government services" }, "icon": "fas fa-institution" },
+        { "id": "education", "name": "शैक्षणिक सेवा", "nameTranslations": { "hi": "शैक्षणिक सेवाएँ", "en": "Education" }, "icon": "fa-solid fa-graduation-cap" },
+        { "id": "transportation", "name": "वाहतूक सेवा", "nameTranslations": { "hi": "परिवहन सेवाएँ", "en": "Transport" }, "icon": "fa-solid fa-bus" },
+        { "id": "goods_transport", "name": "वितरण वाहतूक सेवा", "nameTranslations": { "hi": "माल ढुलाई सेवाएँ", "en": "Goods transport" }, "icon": "fa-solid fa-truck" },
+        { "id": "rural_construction", "name": "ग्रामीण बांधकाम सेवा", "nameTranslations": { "hi": "ग्रामीण निर्माण सेवाएँ", "en": "Construction" }, "icon": "fa-solid fa-house" },
+        { "id": "groceries", "name": "किराणा दुकाने", "nameTranslations": { "hi": "किराना दुकानें", "en": "Grocery shops" }, "icon": "fa-solid fa-cart-shopping" },
+        { "id": "fruits_vegetables", "name": "फळे व भाजीपाला विक्रेते", "nameTranslations": { "hi": "फल और सब्ज़ी विक्रेता", "en": "Fruits and vegetables" }, "icon": "fa-solid fa-apple-whole" },
+        { "id": "dairy", "name": "दुग्ध उत्पादन", "nameTranslations": { "hi": "डेयरी उत्पाद", "en": "Dairy" }, "icon": "fa-solid fa-cow" },
+        { "id": "restaurants", "name": "रेस्टोरंट", "nameTranslations": { "hi": "रेस्टोरेंट", "en": "Restaurants" }, "icon": "fa-solid fa-utensils" },
+        { "id": "pharmacies", "name": "औषधालय", "nameTranslations": { "hi": "दवाखाना / मेडिकल स्टोर", "en": "Pharmacies" }, "icon": "fa-solid fa-pills" },
+        { "id": "agriculture_centers", "name": "कृषी केंद्र", "nameTranslations": { "hi": "कृषि केंद्र", "en": "Agri input shops" }, "icon": "fa-solid fa-seedling" },
+        { "id": "agriculture", "name": "शेती संबंधित", "nameTranslations": { "hi": "खेती संबंधित", "en": "Farming services" }, "icon": "fa-solid fa-tractor" },
+        { "id": "vermicelli_processing", "name": "शेवया उत्पादन", "nameTranslations": { "hi": "सेवइयाँ उत्पादन", "en": "Vermicelli making" }, "icon": "fa-solid fa-stroopwafel" },
+        { "id": "automobile", "name": "ऑटोमोबाइल सर्विस", "nameTranslations": { "hi": "ऑटोमोबाइल सर्विस", "en": "Vehicle service" }, "icon": "fas fa-car" },
+        { "id": "local_administration", "name": "स्थानिक प्रशासन", "nameTranslations": { "hi": "स्थानीय प्रशासन", "en": "Local administration" }, "icon": "fa-solid fa-landmark" },
+        { "id": "post_office", "name": "पोस्ट ऑफिस", "nameTranslations": { "hi": "डाकघर", "en": "Post office" }, "icon": "fa-solid fa-envelope" },
+        { "id": "newspaper_services", "name": "वृत्तपत्र सेवा", "nameTranslations": { "hi": "समाचार पत्र सेवा", "en": "Newspapers" }, "icon": "fa-solid fa-newspaper" },
+        { "id": "salons", "name": "सलून", "nameTranslations": { "hi": "सैलून", "en": "Salons" }, "icon": "fa-solid fa-scissors" },
+        { "id": "ladies_tailors", "name": "लेडीज टेलर", "nameTranslations": { "hi": "लेडीज़ टेलर", "en": "Ladies tailors" }, "icon": "fa-solid fa-person-dress" },
+        { "id": "gents_tailors", "name": "जेंट्स टेलर", "nameTranslations": { "hi": "जेंट्स टेलर", "en": "Gents tailors" }, "icon": "fa-solid fa-user-tie" },
+        { "id": "makeup_artists", "name": "मेकअप आर्टिस्ट", "nameTranslations": { "hi": "मेकअप आर्टिस्ट", "en": "Makeup artists" }, "icon": "fa-solid fa-brush" },
+        { "id": "photography", "name": "फोटोग्राफी", "nameTranslations": { "hi": "फ़ोटोग्राफ़ी", "en": "Photography" }, "icon": "fa-solid fa-camera" },
+        { "id": "puja_items", "name": "पूजा साहित्य", "nameTranslations": { "hi": "पूजा सामग्री", "en": "Puja items" }, "icon": "fa-solid fa-praying-hands" },
+        { "id": "flowers", "name": "फुलांचे दुकान", "nameTranslations": { "hi": "फूलों की दुकान", "en": "Flower shops" }, "icon": "fa-solid fa-leaf" },
+        { "id": "clothing", "name": "कपडे दुकान", "nameTranslations": { "hi": "कपड़ों की दुकान", "en": "Clothing" }, "icon": "fa-solid fa-tags" },
+        { "id": "electronics", "name": "इलेक्ट्रॉनिक्स", "nameTranslations": { "hi": "इलेक्ट्रॉनिक्स", "en": "Electronics" }, "icon": "fa-solid fa-plug" },
+        { "id": "stationery", "name": "स्टेशनरी", "nameTranslations": { "hi": "स्टेशनरी", "en": "Stationery" }, "icon": "fa-solid fa-paperclip" },
+        { "id": "mobile_accessories", "name": "मोबाईल व अक्सेसरीज", "nameTranslations": { "hi": "मोबाइल और एक्सेसरीज़", "en": "Mobiles and accessories" }, "icon": "fa-solid fa-tablet-screen-button" },
+        { "id": "jewelry_shops", "name": "ज्वेलरी शॉप", "nameTranslations": { "hi": "ज्वेलरी शॉप", "en": "Jewellers" }, "icon": "fa-solid fa-gem" },
+        { "id": "carpentry_services", "name": "सुतारकाम", "nameTranslations": { "hi": "बढ़ईगिरी", "en": "Carpentry" }, "icon": "fa-solid fa-hammer" },
+        { "id": "blacksmith_services", "name": "लोहारकाम", "nameTranslations": { "hi": "लोहारी", "en": "Blacksmiths" }, "icon": "fa-solid fa-hammer" },
+        { "id": "hardware", "name": "हार्डवेयर दुकान", "nameTranslations": { "hi": "हार्डवेयर की दुकान", "en": "Hardware" }, "icon": "fa-solid fa-screwdriver-wrench" },
+        { "id": "welding_shop", "name": "वेल्डिंग दुकान", "nameTranslations": { "hi": "वेल्डिंग की दुकान", "en": "Welding" }, "icon": "fa-solid fa-fire" },
+        { "id": "bakeries_sweets", "name": "बेकरी आणि मिठाई", "nameTranslations": { "hi": "बेकरी और मिठाई", "en": "Bakeries and sweets" }, "icon": "fa-solid fa-birthday-cake" },
+        { "id": "internet_cafe", "name": "इंटरनेट/सायबर कॅफे", "nameTranslations": { "hi": "इंटरनेट / साइबर कैफ़े", "en": "Internet cafes" }, "icon": "fa-solid fa-desktop" },
+        { "id": "street_vendors", "name": "रस्त्यावरच्या टपर्या", "nameTranslations": { "hi": "सड़क किनारे की टपरियाँ", "en": "Street stalls" }, "icon": "fa-solid fa-mug-hot" },
+        { "id": "veterinary_services", "name": "पशु वैद्यकीय सेवा", "nameTranslations": { "hi": "पशु चिकित्सा सेवाएँ", "en": "Veterinary services" }, "icon": "fa-solid fa-paw" },
+        { "id": "seasonal_sellers", "name": "फटाके विक्रेते", "nameTranslations": { "hi": "पटाखा विक्रेता", "en": "Firecracker sellers" }, "icon": "fa-solid fa-bomb" },
+        { "id": "opticals", "name": "ऑप्टिकल्स", "nameTranslations": { "hi": "ऑप्टिकल्स", "en": "Opticians" }, "icon": "fa-solid fa-glasses" },
+        { "id": "shoe_repair", "name": "बूट मरम्मत", "nameTranslations": { "hi": "जूता मरम्मत", "en": "Shoe repair" }, "icon": "fa-solid fa-shoe-prints" },
+        { "id": "paint_decor", "name": "पेंट व डेकोर", "nameTranslations": { "hi": "पेंट और डेकोर", "en": "Paint and decor" }, "icon": "fa-solid fa-paint-roller" }
     ],
     "businesses": [
         { "id": "1", "category": "vermicelli_processing", "shopName": "उन्नती गृह उद्योग", "ownerName": "सौ.माधुरी संजय काळबांडे", "contactNumber": "8275838227", "address": "मुख्य बाजारपेठ जवळ, जवळा", "openingHours": "सकाळी १० ते संध्याकाळी ७", "services": ["शेवया", "पापड", "कुरडई", "मसाले"], "homeDelivery": true, "paymentOptions": ["UPI", "Cash"] },
@@ -0,0 +1,176 @@
+import { Business } from './types';
+import { editDistance, phoneticKey } from './searchIndex';
+import { getBusinessLocation } from './geo';
+import { businessContacts, contactKindLabel, parsePhoneNumber, toE164 } from './phone';
+import { MessageKey, t } from './i18n';
+
+// ============================================
+// Data Health
+// ============================================
+// Checks behind the admin "data health" screen: how complete each entry
+// is, which ones nobody has touched in a long time, likely duplicates and
+// phone numbers that can't be dialled.
+
+export const DEFAULT_STALE_AFTER_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An entry scoring below this is listed as incomplete
+export const INCOMPLETE_BELOW = 70;
+
+export type HealthField = 'ownerName' | 'contactNumber' | 'address' | 'openingHours' | 'services' | 'paymentOptions' | 'location' | 'photos';
+
+// Weights add up to 100
+const COMPLETENESS_FIELDS: Array<{ field: HealthField; labelKey: MessageKey; weight: number; isFilled: (b: Business) => boolean }> = [
+  { field: 'contactNumber', labelKey: 'health.fieldContact', weight: 20, isFilled: b => !phoneProblem(b) },
+  { field: 'ownerName', labelKey: 'health.fieldOwner', weight: 10, isFilled: b => !!b.ownerName?.trim() },
+  { field: 'address', labelKey: 'health.fieldAddress', weight: 15, isFilled: b => !!b.address?.trim() },
+  { field: 'openingHours', labelKey: 'health.fieldHours', weight: 15, isFilled: b => !!b.schedule || !!b.openingHours?.trim() },
+  { field: 'services', labelKey: 'health.fieldServices', weight: 15, isFilled: b => (b.services || []).length > 0 },
+  { field: 'paymentOptions', labelKey: 'health.fieldPayment', weight: 10, isFilled: b => (b.paymentOptions || []).length > 0 },
+  { field: 'location', labelKey: 'health.fieldLocation', weight: 10, isFilled: b => !!getBusinessLocation(b) },
+  { field: 'photos', labelKey: 'health.fieldPhotos', weight: 5, isFilled: b => (b.photos || []).length > 0 },
+];
+
+export interface Completeness {
+  score: number; // 0–100
+  missing: Array<{ field: HealthField; label: string }>;
+}
+
+export const scoreCompleteness = (business: Business): Completeness => {
+  let score = 0;
+  const missing: Completeness['missing'] = [];
+  for (const { field, labelKey, weight, isFilled } of COMPLETENESS_FIELDS) {
+    if (isFilled(business)) {
+      score += weight;
+    } else {
+      missing.push({ field, label: t(labelKey) });
+    }
+  }
+  return { score, missing };
+};
+
+/** Days since the last edit, or null when the row has no updated_at. */
+export const daysSinceUpdate = (business: Business, now: Date): number | null =>
+  business.updatedAt ? Math.floor((now.getTime() - Date.parse(business.updatedAt)) / DAY_MS) : null;
+
+// ============================================
+// Phone Numbers
+// ============================================
+
+/** What is wrong with the first bad number of a business, or null when all look dialable. */
+export const phoneProblem = (business: Business): string | null => {
+  const contacts = businessContacts(business);
+  if (contacts.length === 0) return t('health.noNumber');
+  for (const contact of contacts) {
+    const result = parsePhoneNumber(contact.number, contact.kind);
+    if (!result.ok) {
+      return contacts.length > 1 ? `${contact.label || contactKindLabel(contact.kind)}: ${result.error}` : result.error;
+    }
+  }
+  return null;
+};
+
+// ============================================
+// Duplicates
+// ============================================
+
+export interface DuplicateGroup {
+  reason: 'phone' | 'name';
+  businesses: Business[];
+}
+
+// Words every other shop name has; they say nothing about which shop it is
+const GENERIC_NAME_WORDS = /\b(shop|store|stores|center|centre|dukan|bhandar|traders|enterprises)\b/g;
+
+const nameKey = (shopName: string): string =>
+  phoneticKey(shopName.toLowerCase().replace(GENERIC_NAME_WORDS, ''));
+
+const namesLookAlike = (a: string, b: string): boolean => {
+  if (!a || !b) return false;
+  if (a === b) return true;
+  const allowed = Math.min(a.length, b.length) <= 6 ? 1 : 2;
+  return editDistance(a, b, allowed) <= allowed;
+};
+
+/**
+ * Businesses sharing any phone number, then businesses whose names sound the
+ * same (compared phonetically, so Marathi and English spellings meet).
+ * A pair already grouped by phone is not repeated under names.
+ */
+export const findDuplicates = (businesses: Business[]): DuplicateGroup[] => {
+  const groups: DuplicateGroup[] = [];
+
+  const byPhone = new Map<string, Business[]>();
+  for (const business of businesses) {
+    for (const contact of businessContacts(business)) {
+      const number = toE164(contact.number);
+      if (number) byPhone.set(number, [...(byPhone.get(number) || []), business]);
+    }
+  }
+  const phoneGroupsOf = new Map<string, number[]>();
+  for (const list of byPhone.values()) {
+    if (list.length < 2) continue;
+    list.forEach(b => phoneGroupsOf.set(b.id, [...(phoneGroupsOf.get(b.id) || []), groups.length]));
+    groups.push({ reason: 'phone', businesses: list });
+  }
+
+  // Union-find over look-alike names
+  const keys = businesses.map(b => nameKey(b.shopName));
+  const parent = businesses.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < businesses.length; i++) {
+    for (let j = i + 1; j < businesses.length; j++) {
+      const samePhoneGroup = (phoneGroupsOf.get(businesses[i].id) || [])
+        .some(group => phoneGroupsOf.get(businesses[j].id)?.includes(group));
+      if (!samePhoneGroup && namesLookAlike(keys[i], keys[j])) parent[find(i)] = find(j);
+    }
+  }
+  const byName = new Map<number, Business[]>();
+  businesses.forEach((business, i) => {
+    const root = find(i);
+    byName.set(root, [...(byName.get(root) || []), business]);
+  });
+  for (const list of byName.values()) {
+    if (list.length > 1) groups.push({ reason: 'name', businesses: list });
+  }
+
+  return groups;
+};
+
+// ============================================
+// Report
+// ============================================
+
+export interface DataHealthReport {
+  averageScore: number;
+  completeness: Record<string, Completeness>;
+  incomplete: Business[]; // Lowest score first
+  stale: Array<{ business: Business; days: number | null }>; // Oldest first, unknown dates at the end
+  duplicates: DuplicateGroup[];
+  invalidPhones: Array<{ business: Business; problem: string }>;
+}
+
+export const analyzeDataHealth = (businesses: Business[], staleAfterDays: number, now = new Date()): DataHealthReport => {
+  const completeness: Record<string, Completeness> = {};
+  for (const business of businesses) completeness[business.id] = scoreCompleteness(business);
+
+  const total = businesses.reduce((sum, b) => sum + completeness[b.id].score, 0);
+
+  const stale = businesses
+    .map(business => ({ business, days: daysSinceUpdate(business, now) }))
+    .filter(({ days }) => days === null || days >= staleAfterDays)
+    .sort((a, b) => (b.days ?? -1) - (a.days ?? -1));
+
+  return {
+    averageScore: businesses.length ? Math.round(total / businesses.length) : 100,
+    completeness,
+    incomplete: businesses
+      .filter(b => completeness[b.id].score < INCOMPLETE_BELOW)
+      .sort((a, b) => completeness[a.id].score - completeness[b.id].score),
+    stale,
+    duplicates: findDuplicates(businesses),
+    invalidPhones: businesses
+      .map(business => ({ business, problem: phoneProblem(business) }))
+      .filter((item): item is { business: Business; problem: string } => item.problem !== null),
+  };
+};
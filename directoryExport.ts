@@ -0,0 +1,232 @@
+import { Business, BusinessData, Category, ContactKind } from './types';
+import { businessCategoryIds, groupBusinessesByCategory, isInCategory } from './businessGrouping';
+import { formatSchedule } from './openingHours';
+import { businessContacts, formatPhoneNumber } from './phone';
+import { categoryName, formatDate, formatNumber, getLocale, shopName, t } from './i18n';
+
+// ============================================
+// Directory Export (CSV, JSON, vCard, print booklet)
+// ============================================
+// Everything here works on data already in memory/IndexedDB, so exports
+// also run offline. The data files keep the Marathi names (the JSON also
+// carries the translations); the printed booklet uses the interface language.
+
+const EXPORT_FIELDS: Array<keyof Business> = [
+  'id',
+  'category',
+  'extraCategories',
+  'tags',
+  'shopName',
+  'ownerName',
+  'contactNumber',
+  'address',
+  'openingHours',
+  'services',
+  'homeDelivery',
+  'paymentOptions',
+  'latitude',
+  'longitude',
+];
+
+/**
+ * Limit the directory to one category (or keep everything) and drop
+ * categories that end up with no businesses.
+ */
+export const selectExportData = (data: BusinessData, categoryId: string | null): BusinessData => {
+  const businesses = categoryId
+    ? data.businesses.filter(b => isInCategory(b, categoryId))
+    : data.businesses;
+  // A single-category export leaves out the other categories its businesses are also in
+  const usedCategories = new Set(categoryId ? [categoryId] : businesses.flatMap(businessCategoryIds));
+  return {
+    categories: data.categories.filter(c => usedCategories.has(c.id)),
+    businesses,
+  };
+};
+
+// ============================================
+// CSV / JSON
+// ============================================
+
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const csvValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+/**
+ * One row per business, using the Business field names as headers so the
+ * file can be fed back into the bulk importer.
+ */
+export const toCsv = (data: BusinessData): string => {
+  const lines = [
+    EXPORT_FIELDS.join(','),
+    ...data.businesses.map(b => EXPORT_FIELDS.map(field => escapeCsvCell(csvValue(b[field]))).join(',')),
+  ];
+  // BOM so Excel reads the Devanagari text as UTF-8
+  return '\uFEFF' + lines.join('\r\n');
+};
+
+export const toJson = (data: BusinessData): string =>
+  JSON.stringify({
+    categories: data.categories,
+    // Drop sync bookkeeping so the file matches the BusinessData shape
+    businesses: data.businesses.map(({ updatedAt, ...business }) => business),
+  }, null, 2);
+
+// ============================================
+// vCard
+// ============================================
+
+const escapeVcard = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+const VCARD_TEL_TYPES: Record<ContactKind, string> = {
+  mobile: 'CELL',
+  landline: 'WORK,VOICE',
+  whatsapp: 'CELL,MSG',
+};
+
+/**
+ * A single .vcf holding one contact per business, importable into a
+ * phone's address book in one go.
+ */
+export const toVcf = (data: BusinessData): string => {
+  const categoryMap = new Map(data.categories.map(c => [c.id, c.name]));
+
+  return data.businesses.map(b => {
+    const lines = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `FN:${escapeVcard(`${b.shopName} (${b.ownerName})`)}`,
+      `N:${escapeVcard(b.ownerName)};;;;`,
+      `ORG:${escapeVcard(b.shopName)}`,
+      ...businessContacts(b).map(c => `TEL;TYPE=${VCARD_TEL_TYPES[c.kind]}:${c.number}`),
+    ];
+    if (b.address) lines.push(`ADR;TYPE=WORK:;;${escapeVcard(b.address)};;;;`);
+    if (b.latitude !== undefined && b.longitude !== undefined) lines.push(`GEO:${b.latitude};${b.longitude}`);
+    const categoryNames = businessCategoryIds(b).map(id => categoryMap.get(id)).filter((name): name is string => !!name);
+    if (categoryNames.length > 0) lines.push(`CATEGORIES:${categoryNames.map(escapeVcard).join(',')}`);
+    if (b.services && b.services.length > 0) lines.push(`NOTE:${escapeVcard(b.services.join(', '))}`);
+    lines.push('END:VCARD');
+    return lines.join('\r\n');
+  }).join('\r\n');
+};
+
+// ============================================
+// Printable booklet
+// ============================================
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Self-contained HTML (no external fonts or icons) laid out for printing,
+ * grouped by category in the same order as the on-screen list.
+ */
+export const toBookletHtml = (data: BusinessData, title: string = t('app.title')): string => {
+  const groups = groupBusinessesByCategory(data.businesses, data.categories);
+  const printedOn = formatDate(new Date(), { year: 'numeric', month: 'long', day: 'numeric' });
+
+  const hoursText = (b: Business): string =>
+    b.openingHours || (b.schedule ? formatSchedule(b.schedule) : '');
+
+  const sections = groups.map(({ category, businesses }) => `
+    <section>
+      <h2>${escapeHtml(categoryName(category))} <span>(${formatNumber(businesses.length)})</span></h2>
+      ${businesses.map(b => `
+        <div class="entry">
+          <div class="row"><strong>${escapeHtml(shopName(b))}</strong><span class="phone">${escapeHtml(businessContacts(b).map(c => formatPhoneNumber(c.number)).join(', '))}</span></div>
+          <div class="meta">${escapeHtml(b.ownerName)}${b.address ? ` · ${escapeHtml(b.address)}` : ''}${hoursText(b) ? ` · ${escapeHtml(hoursText(b))}` : ''}</div>
+          ${b.services && b.services.length > 0 ? `<div class="meta">${escapeHtml(b.services.join(', '))}</div>` : ''}
+        </div>`).join('')}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 14mm; }
+  body { font-family: 'Noto Sans Devanagari', sans-serif; color: #222; font-size: 11pt; }
+  header { text-align: center; border-bottom: 3px solid #2C5F2D; margin-bottom: 12px; }
+  header h1 { color: #2C5F2D; margin: 0 0 4px; }
+  header p { margin: 0 0 8px; color: #555; font-size: 9pt; }
+  main { column-count: 2; column-gap: 10mm; }
+  section { break-inside: avoid-column; margin-bottom: 10px; }
+  h2 { font-size: 12pt; color: #2C5F2D; border-bottom: 1px solid #97BC62; margin: 0 0 4px; break-after: avoid; }
+  h2 span { color: #555; font-weight: normal; font-size: 9pt; }
+  .entry { break-inside: avoid; padding: 3px 0; border-bottom: 1px dotted #ccc; }
+  .row { display: flex; justify-content: space-between; gap: 8px; }
+  .phone { white-space: nowrap; font-weight: bold; }
+  .meta { color: #555; font-size: 9pt; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(printedOn)} · ${escapeHtml(t('export.businessCount', { count: data.businesses.length }))}</p>
+</header>
+<main>${sections}</main>
+</body>
+</html>`;
+};
+
+/**
+ * Print the booklet from a hidden iframe; the browser's print dialog
+ * offers "Save as PDF".
+ */
+export const printBooklet = (data: BusinessData, title?: string): void => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const doc = iframe.contentDocument;
+  const win = iframe.contentWindow;
+  if (!doc || !win) {
+    iframe.remove();
+    throw new Error('Could not open print frame');
+  }
+
+  doc.open();
+  doc.write(toBookletHtml(data, title));
+  doc.close();
+
+  win.onafterprint = () => iframe.remove();
+  setTimeout(() => {
+    win.focus();
+    win.print();
+  }, 100);
+};
+
+// ============================================
+// Download helper
+// ============================================
+
+export const downloadFile = (content: string, fileName: string, mimeType: string): void => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportFileName = (category: Category | undefined, extension: string): string => {
+  const date = new Date().toISOString().slice(0, 10);
+  return `jawala-directory${category ? `-${category.id}` : ''}-${date}.${extension}`;
+};
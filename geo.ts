@@ -0,0 +1,83 @@
+import { Business } from './types';
+import { localizeDigits, t } from './i18n';
+
+// ============================================
+// Locations, distances and map settings
+// ============================================
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const parseCenter = (value?: string): Coordinates | null => {
+  const [latitude, longitude] = (value || '').split(',').map(Number);
+  return Number.isFinite(latitude) && Number.isFinite(longitude) && value ? { latitude, longitude } : null;
+};
+
+// Tiles are served from our own host (public/tiles by default) so the map
+// keeps working without a third-party tile service; see README.
+export const MAP_CONFIG = {
+  tileUrl: process.env.MAP_TILE_URL || '/tiles/{z}/{x}/{y}.png',
+  attribution: process.env.MAP_TILE_ATTRIBUTION || '&copy; OpenStreetMap contributors',
+  maxNativeZoom: Number(process.env.MAP_MAX_ZOOM) || 17,
+  // Falls back to the middle of Maharashtra until MAP_CENTER is configured
+  defaultCenter: parseCenter(process.env.MAP_CENTER) || { latitude: 19.7515, longitude: 75.7139 },
+  defaultZoom: parseCenter(process.env.MAP_CENTER) ? 15 : 7,
+};
+
+export const getBusinessLocation = (business: Business): Coordinates | null =>
+  typeof business.latitude === 'number' && typeof business.longitude === 'number'
+    ? { latitude: business.latitude, longitude: business.longitude }
+    : null;
+
+export const roundCoordinate = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+/** Great-circle distance in kilometres (haversine). */
+export const distanceKm = (a: Coordinates, b: Coordinates): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+};
+
+/** 0.35 → "३५० मी", 2.43 → "२.४ किमी" (or "350 m", "2.4 km") */
+export const formatDistance = (km: number): string =>
+  km < 1
+    ? t('geo.metres', { distance: localizeDigits(String(Math.max(10, Math.round(km * 100) * 10))) })
+    : t('geo.kilometres', { distance: localizeDigits(km < 10 ? km.toFixed(1) : String(Math.round(km))) });
+
+/**
+ * Distance from `from` to every business that has a location, keyed by id.
+ */
+export const distancesFrom = (businesses: Business[], from: Coordinates): Record<string, number> =>
+  businesses.reduce((acc, business) => {
+    const location = getBusinessLocation(business);
+    if (location) acc[business.id] = distanceKm(from, location);
+    return acc;
+  }, {} as Record<string, number>);
+
+/** Nearest first; businesses without a location keep their order at the end. */
+export const sortByDistance = (businesses: Business[], distances: Record<string, number>): Business[] =>
+  [...businesses].sort((a, b) => (distances[a.id] ?? Infinity) - (distances[b.id] ?? Infinity));
+
+/**
+ * Ask the browser for the visitor's position. Rejects with a readable message
+ * when permission is denied or no fix is available.
+ */
+export const getCurrentPosition = (): Promise<Coordinates> =>
+  new Promise((resolve, reject) => {
+    if (!('geolocation' in navigator)) {
+      reject(new Error(t('geo.unsupported')));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      error => reject(new Error(error.code === error.PERMISSION_DENIED
+        ? t('geo.denied')
+        : t('geo.unavailable'))),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 60000 }
+    );
+  });
@@ -0,0 +1,155 @@
+import { useSyncExternalStore } from 'react';
+import { Business, Category, Locale, LocalizedText } from './types';
+import { Message, MessageKey, Messages, mr } from './locales/mr';
+
+// ============================================
+// Interface Language
+// ============================================
+// Marathi, Hindi or English, picked by the visitor and remembered on this
+// device. Marathi ships with the app; the other catalogs load on first use.
+// Every screen reads its text through t(), so the catalogs in locales/ are
+// the only place wording lives.
+
+export type { MessageKey } from './locales/mr';
+
+export const DEFAULT_LOCALE: Locale = 'mr';
+
+export const LOCALES: Array<{ locale: Locale; tag: string; label: string }> = [
+  { locale: 'mr', tag: 'mr-IN', label: 'मराठी' },
+  { locale: 'hi', tag: 'hi-IN', label: 'हिंदी' },
+  { locale: 'en', tag: 'en-IN', label: 'English' },
+];
+
+// The languages a name can be translated into
+export const TRANSLATION_LOCALES = LOCALES.filter(l => l.locale !== DEFAULT_LOCALE);
+
+const LOCALE_KEY = 'jawala-locale';
+
+const catalogs: Partial<Record<Locale, Messages>> = { mr };
+
+const CATALOG_LOADERS: Record<Exclude<Locale, 'mr'>, () => Promise<Messages>> = {
+  hi: () => import('./locales/hi').then(module => module.hi),
+  en: () => import('./locales/en').then(module => module.en),
+};
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+const listeners = new Set<() => void>();
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.locale === value);
+
+export const getLocale = (): Locale => currentLocale;
+
+/** BCP 47 tag for Intl and speech, e.g. "mr-IN". */
+export const localeTag = (locale: Locale = currentLocale): string =>
+  LOCALES.find(l => l.locale === locale)!.tag;
+
+const loadCatalog = async (locale: Locale): Promise<void> => {
+  if (!catalogs[locale]) catalogs[locale] = await CATALOG_LOADERS[locale as Exclude<Locale, 'mr'>]();
+};
+
+const applyLocale = (locale: Locale) => {
+  currentLocale = locale;
+  document.documentElement.lang = locale;
+  document.title = t('app.documentTitle');
+  listeners.forEach(listener => listener());
+};
+
+/** Switch language and remember it. Rejects when the catalog can't be loaded (offline, first use). */
+export async function setLocale(locale: Locale): Promise<void> {
+  await loadCatalog(locale);
+  localStorage.setItem(LOCALE_KEY, locale);
+  applyLocale(locale);
+}
+
+/** Restore the saved language before the first render; falls back to Marathi. */
+export async function initLocale(): Promise<void> {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (!isLocale(saved) || saved === DEFAULT_LOCALE) return;
+  try {
+    await loadCatalog(saved);
+    applyLocale(saved);
+  } catch (error) {
+    console.warn('⚠️ Language not loaded, using Marathi:', error);
+  }
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Re-renders the calling component when the language changes. */
+export const useLocale = (): Locale => useSyncExternalStore(subscribe, getLocale);
+
+// ============================================
+// Messages
+// ============================================
+
+export type MessageParams = Record<string, string | number>;
+
+const pickForm = (message: Message, params?: MessageParams): string => {
+  if (typeof message === 'string') return message;
+  const count = Number(params?.count ?? 0);
+  return message[new Intl.PluralRules(localeTag()).select(count)] ?? message.other;
+};
+
+/**
+ * The message for `key` in the current language, with "{name}" replaced
+ * from params. Numbers are written the local way, and a "count" param
+ * chooses between singular and plural forms where a catalog has them.
+ */
+export function t(key: MessageKey, params?: MessageParams): string {
+  const message = catalogs[currentLocale]?.[key] ?? mr[key];
+  const text = pickForm(message, params);
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+}
+
+// ============================================
+// Numbers, dates and lists
+// ============================================
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(localeTag(), options).format(value);
+
+/** ASCII digits in already-built text (clock times, "2.4") in the local script. */
+export const localizeDigits = (text: string): string => {
+  const format = new Intl.NumberFormat(localeTag(), { useGrouping: false });
+  return text.replace(/[0-9]/g, digit => format.format(Number(digit)));
+};
+
+export const formatDate = (value: string | number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }): string =>
+  new Date(value).toLocaleDateString(localeTag(), options);
+
+export const formatDateTime = (value: string | number | Date): string =>
+  new Date(value).toLocaleString(localeTag(), { dateStyle: 'medium', timeStyle: 'short' });
+
+/** "अ, ब आणि क" / "A, B and C" */
+export const formatList = (items: string[]): string =>
+  new Intl.ListFormat(localeTag(), { type: 'conjunction' }).format(items);
+
+// ============================================
+// Translated names
+// ============================================
+
+/** The translation for the current language, else the Marathi original. */
+export const localize = (text: string, translations?: LocalizedText): string =>
+  translations?.[currentLocale]?.trim() || text;
+
+export const categoryName = (category: Category): string =>
+  localize(category.name, category.nameTranslations);
+
+export const shopName = (business: Business): string =>
+  localize(business.shopName, business.shopNameTranslations);
+
+/** Drop blank entries so an emptied input removes the translation. */
+export const cleanTranslations = (translations?: LocalizedText): LocalizedText | undefined => {
+  const entries = Object.entries(translations || {})
+    .map(([locale, text]) => [locale, text?.trim()] as const)
+    .filter(([locale, text]) => isLocale(locale) && locale !== DEFAULT_LOCALE && !!text);
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
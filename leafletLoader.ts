@@ -0,0 +1,35 @@
+// Loaded with import() so Leaflet and its stylesheet stay out of the main bundle
+import 'leaflet/dist/leaflet.css';
+import L from 'leaflet';
+import { Category } from './types';
+import { MAP_CONFIG } from './geo';
+
+export default L;
+
+export const createTileLayer = (): L.TileLayer =>
+  L.tileLayer(MAP_CONFIG.tileUrl, {
+    attribution: MAP_CONFIG.attribution,
+    maxNativeZoom: MAP_CONFIG.maxNativeZoom,
+    maxZoom: 19,
+  });
+
+// Font Awesome pins instead of Leaflet's image markers, which need their
+// PNGs copied next to the bundle
+export const createPinIcon = (category?: Category): L.DivIcon =>
+  L.divIcon({
+    className: '',
+    html: `<div style="position:relative;width:32px;height:40px;">
+      <i class="fas fa-map-marker" style="font-size:40px;color:#2C5F2D;"></i>
+      <i class="${category?.icon || 'fas fa-store'}" style="position:absolute;top:8px;left:0;width:30px;text-align:center;font-size:13px;color:#fff;"></i>
+    </div>`,
+    iconSize: [32, 40],
+    iconAnchor: [16, 40],
+  });
+
+export const createUserIcon = (): L.DivIcon =>
+  L.divIcon({
+    className: '',
+    html: '<div style="width:16px;height:16px;border-radius:50%;background:#2563eb;border:3px solid #fff;box-shadow:0 0 0 2px #2563eb55;"></div>',
+    iconSize: [16, 16],
+    iconAnchor: [8, 8],
+  });
@@ -0,0 +1,641 @@
+// ============================================
+// English messages
+// ============================================
+// Same keys as mr.ts; loaded the first time someone picks English.
+
+import { Messages } from './mr';
+
+export const en: Messages = {
+  // App shell
+  'app.title': 'Jawala Business Directory',
+  'app.documentTitle': 'Jawala Business Directory - जवळा व्यवसाय निर्देशिका',
+  'app.tagline': 'Every business in your village, in one place!',
+  'app.loadError': 'Something went wrong while loading data. Please refresh the page.',
+  'app.whatsappGreeting': 'Hello, I found your contact in the "Jawala Business Directory".',
+  'language.choose': 'Choose language',
+  'language.loadFailed': 'This language could not be loaded right now. Turn on the internet and try again.',
+
+  // Shared words
+  'common.close': 'Close',
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.view': 'View',
+  'common.save': 'Save',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.allCategories': 'All categories',
+  'common.error': 'Error: {error}',
+  'common.saving': 'Saving...',
+  'common.listenNumber': 'Listen to number',
+  'common.spokenNumber': '{name}. Phone number: {digits}',
+  'common.addFavorite': 'Add to favourites',
+  'common.removeFavorite': 'Remove from favourites',
+  'common.translatedNames': 'Name in other languages (optional; the Marathi name is shown if left blank)',
+
+  // Search and AI assistant
+  'ai.title': 'Search and AI assistant',
+  'ai.intro': 'Search for a business, owner or contact. If nothing matches directly, our AI assistant will help!',
+  'ai.conversation': 'Conversation',
+  'ai.clear': 'Clear conversation',
+  'ai.clearConfirm': 'Clear the whole conversation?',
+  'ai.thinking': 'Looking that up for you...',
+  'ai.listenAnswer': 'Listen to answer',
+  'ai.placeholder': "e.g. grocery shop, Rahul Padmawar, or 'where can I get vermicelli?'",
+  'ai.placeholderFollowUp': "Ask a follow-up, e.g. 'which of them are open on Sunday?'",
+  'ai.placeholderListening': 'Speak, listening...',
+  'ai.voiceStart': 'Search by voice',
+  'ai.voiceStop': 'Stop listening',
+  'ai.searching': 'Searching...',
+  'ai.submit': 'AI search',
+  'ai.errorGeneric': 'There was a problem getting an answer. Please try again.',
+  'ai.errorUnreadable': 'The AI did not give an answer we could read. Please ask in different words.',
+  'ai.errorRateLimited': 'Too many questions in a short time. Please wait a few minutes and ask again.',
+
+  // Business details
+  'detail.noteSaveFailed': 'The note could not be saved.',
+  'detail.address': 'Address',
+  'detail.directions': 'Get directions in the maps app',
+  'detail.distanceAway': '{distance} away',
+  'detail.hours': 'Hours',
+  'detail.todayNote': 'Today: {note}',
+  'detail.homeDelivery': 'Home delivery available',
+  'detail.services': 'Services/products:',
+  'detail.categoriesAndTags': 'Categories and tags:',
+  'detail.payment': 'Payment options:',
+  'detail.myNote': 'My note',
+  'detail.noteDeviceOnly': '(only on this phone)',
+  'detail.notePlaceholder': 'e.g. call after 10 am',
+  'detail.saveNote': 'Save note',
+  'detail.report': 'Details wrong? Let us know',
+  'detail.noWhatsApp': 'No WhatsApp',
+  'detail.noWhatsAppTitle': 'This business has no WhatsApp number',
+  'detail.share': 'Share',
+  'detail.sharing': 'Sharing...',
+  'card.delivery': 'Delivery',
+  'card.viewPhotos': 'View photos',
+  'card.numberDoubtful': 'Wrong number?',
+  'card.numberDoubtfulTitle': 'Some people have reported this number as wrong',
+  'share.services': 'Services: {services}',
+  'share.sentVia': 'Sent via Jawala Business Directory',
+  'share.copied': 'Sharing is not supported. The details and link have been copied to the clipboard!',
+  'share.copyFailed': 'Could not copy the details.',
+
+  // Footer
+  'footer.growTitle': 'Grow your business!',
+  'footer.growText': 'Add your business to our directory and reach the whole village. Registering is simple and free.',
+  'footer.adminLogin': 'Admin login / add a business',
+  'footer.suggest': 'Suggest a new business',
+  'footer.export': 'Download / print the directory',
+  'footer.backup': 'Move my favourites and notes to another phone',
+
+  // Directory list controls
+  'list.viewList': 'List',
+  'list.viewMap': 'Map',
+  'list.nearestFirst': 'Nearest first',
+  'list.topRatedFirst': 'Top rated first',
+  'list.openNowOnly': 'Open now only',
+  'list.searchResults': 'Search results for "{query}"',
+  'list.removeTag': 'Remove tag',
+  'list.noResults': 'Nothing found',
+  'list.noResultsHint': 'Please change your search or pick another category.',
+  'tags.label': 'Tags:',
+  'tags.showLess': 'Show less',
+  'tags.more': '{count} more',
+  'favorites.title': 'My favourites',
+  'favorites.call': 'Call {name}',
+  'favorites.recent': 'Recently viewed',
+  'favorites.clearRecent': 'Clear',
+  'map.loading': 'Loading map...',
+  'map.loadFailed': 'The map could not be loaded.',
+  'map.youAreHere': 'You are here',
+  'map.missing': {
+    one: '{count} business has no location on the map yet.',
+    other: '{count} businesses have no location on the map yet.',
+  },
+
+  // Admin login and dashboard
+  'login.title': 'Admin login',
+  'login.email': 'Email',
+  'login.password': 'Password',
+  'login.submit': 'Log in',
+  'login.submitting': 'Logging in...',
+  'login.failed': 'Login failed. Please try again.',
+  'admin.title': 'Admin panel',
+  'admin.add': 'Add a new business',
+  'admin.import': 'CSV / Excel import',
+  'admin.edit': 'Edit business',
+  'admin.list': 'Business list',
+  'admin.outbox': 'Pending changes',
+  'admin.history': 'Change history',
+  'admin.moderation': 'Suggestions and reports',
+  'admin.reviews': 'Ratings and reviews',
+  'admin.health': 'Data health',
+  'admin.analytics': 'Usage statistics',
+  'admin.migrateHours': 'Convert old hours',
+  'admin.categories': 'Manage categories',
+  'admin.admins': 'Manage admins',
+  'admin.logout': 'Log out',
+  'admin.historyOf': 'History',
+  'admin.deleteConfirm': 'Are you sure you want to delete "{name}"?',
+  'admin.deleteFailed': 'Something went wrong while deleting the business',
+  'admin.loggedOut': 'You have been logged out.',
+  'admin.logoutFailed': 'Something went wrong while logging out.',
+  'admin.savedOffline': 'You are offline. The change is saved and will be sent when you reconnect.',
+  'admin.updated': 'Business updated!',
+  'admin.added': 'Business added!',
+  'admin.saveFailed': 'Error saving the business: {error}',
+  'admin.versionRestored': 'The old version has been restored!',
+  'admin.businessRestored': 'The business has been brought back!',
+  'admin.restoreFailed': 'Error restoring: {error}',
+  'admin.approvedNew': 'Suggestion approved, business added!',
+  'admin.approvedUpdate': 'Suggestion approved, details updated!',
+  'admin.approveFailed': 'Error approving the suggestion: {error}',
+  'admin.migrateConfirm': 'Build weekly schedules for businesses that have none by reading their hours text?',
+  'admin.migrated': {
+    one: 'Built a schedule for {count} business.',
+    other: 'Built schedules for {count} businesses.',
+  },
+  'admin.migrateUnparsed': 'The hours of these businesses could not be understood; please fill them in by hand:',
+  'admin.migrateFailed': 'Error converting: {error}',
+  'admin.deletedOffline': 'You are offline. The business will be deleted when you reconnect.',
+  'admin.deleted': 'Business deleted!',
+  'admin.discardConfirm': 'Discard the change for "{name}"?',
+  'admin.wrongNumberSuggest': 'Know the right number? Let us know.',
+
+  // Business form
+  'form.titleAdd': 'Add a new business',
+  'form.titleEdit': 'Update business',
+  'form.shopName': 'Shop name',
+  'form.ownerName': 'Owner name',
+  'form.category': 'Choose the main category',
+  'form.extraCategories': 'Other categories (also shown in):',
+  'form.address': 'Address',
+  'form.openingHours': 'Opening hours (e.g. सकाळी १० ते रात्री ९ or 10 am to 9 pm)',
+  'form.services': 'Services/products (comma separated)',
+  'form.tags': 'Tags (comma separated, e.g. photo framing, cosmetics)',
+  'form.homeDelivery': 'Home delivery',
+  'form.payment': 'Payment:',
+  'form.noPermission': 'You are not allowed to save businesses in this category. Please choose one of your categories.',
+  'form.saving': 'Saving...',
+  'form.submitAdd': 'Add business',
+  'form.submitEdit': 'Update',
+
+  // Voice search and read-aloud
+  'speech.unsupported': 'Voice search is not available in this browser.',
+  'speech.denied': 'Permission to use the microphone was denied.',
+  'speech.noSpeech': 'No speech was heard. Please speak again.',
+  'speech.network': 'Speech could not be turned into text. Check your internet connection.',
+  'speech.aborted': 'Voice search stopped.',
+  'speech.failed': 'Speech could not be recognised. Please try again.',
+  'speech.listen': 'Listen',
+  'speech.stop': 'Stop',
+
+  // Opening hours
+  'hours.morning': '{clock} am',
+  'hours.afternoon': '{clock} pm',
+  'hours.evening': '{clock} pm',
+  'hours.night': '{clock} at night',
+  'hours.closed': 'Closed',
+  'hours.allDay': '24 hours',
+  'hours.range': '{open} to {close}',
+  'hours.withClosedDays': '{hours} (closed {days})',
+  'hours.openUntil': 'Open · until {time}',
+  'hours.openAllDay': 'Open 24 hours',
+  'hours.opensToday': 'Closed · opens at {time}',
+  'hours.opensTomorrow': 'Closed · opens tomorrow at {time}',
+  'hours.opensOn': 'Closed · opens {day} at {time}',
+
+  // Location and distance
+  'geo.metres': '{distance} m',
+  'geo.kilometres': '{distance} km',
+  'geo.unsupported': 'This device cannot tell its location.',
+  'geo.denied': 'Permission to use your location was denied.',
+  'geo.unavailable': 'Your location could not be found. Please try again.',
+  'location.title': 'Location on the map',
+  'location.current': 'Current location',
+  'location.remove': 'Remove',
+  'location.changeHint': 'drag the pin or tap the map to change',
+  'location.pickHint': 'Tap the map where the shop is',
+
+  // Phone numbers
+  'phone.mobile': 'Mobile',
+  'phone.landline': 'Landline',
+  'phone.whatsappOnly': 'WhatsApp only',
+  'phone.empty': 'Enter a number',
+  'phone.digitsOnly': 'Use digits only',
+  'phone.plusAtStart': '+ is only allowed at the start',
+  'phone.internationalIncomplete': 'The international number is incomplete',
+  'phone.needStdCode': 'Include the STD code, e.g. 02452 123456',
+  'phone.wrongLength': { one: '{count} digit, 10 needed', other: '{count} digits, 10 needed' },
+  'phone.allSame': 'All digits are the same',
+  'phone.leadingZero': 'The number cannot start with 0',
+  'phone.notMobile': 'Mobile numbers start with 6, 7, 8 or 9. If this is a landline, choose the type "Landline"',
+  'phone.looksMobile': 'This looks like a mobile number; choose the type "Mobile"',
+  'phone.duplicate': 'This number is already given above',
+  'phone.mobilePlaceholder': 'Mobile number, e.g. 98765 43210',
+  'phone.landlinePlaceholder': 'With STD code, e.g. 02452 123456',
+  'phone.whatsappPlaceholder': 'WhatsApp number',
+  'phone.numbersLabel': 'Contact numbers (the first one is the main number):',
+  'phone.kind': 'Number type',
+  'phone.labelPlaceholder': 'Label (optional)',
+  'phone.moveUp': 'Move up',
+  'phone.remove': 'Remove',
+  'phone.add': 'Add another number',
+
+  // Admin roles
+  'role.superAdmin': 'Super admin',
+  'role.superAdminInfo': 'Full access, can manage other admins',
+  'role.editor': 'Editor',
+  'role.editorInfo': 'Can only change details, not add or delete',
+  'role.categoryModerator': 'Category moderator',
+  'role.categoryModeratorInfo': 'Can add, change and delete businesses in chosen categories',
+  'role.viewer': 'Viewer',
+  'role.viewerInfo': 'Can only view',
+  'role.notAllowed': 'You are not allowed to do this',
+
+  // Suggested follow-up questions for the AI assistant
+  'followUp.delivery': 'Which of them deliver to the home?',
+  'followUp.upi': 'Which of them accept UPI?',
+  'followUp.card': 'Where among them can I pay by card?',
+  'followUp.openNow': 'Which of them are open now?',
+  'followUp.addresses': 'Tell me their addresses',
+
+  // Photos
+  'photo.shopfront': 'Shop front',
+  'photo.product': 'Products',
+  'photo.ratecard': 'Rate card',
+  'photo.notImage': 'This file is not a photo.',
+  'photo.tooLarge': 'The photo is too large (over 20 MB).',
+  'photo.unreadable': 'This photo could not be opened.',
+  'photo.uploadFailed': 'The photo could not be uploaded. Check your connection.',
+  'photo.someFailed': 'Some photos were not uploaded:',
+  'photo.count': 'Photos ({count}/{max})',
+  'photo.uploading': 'Uploading {count}...',
+  'photo.add': 'Add photos',
+  'photo.main': 'Main',
+  'photo.remove': 'Remove photo',
+  'photo.caption': 'Caption',
+  'photo.makeMain': 'Make main',
+  'gallery.previous': 'Previous photo',
+  'gallery.next': 'Next photo',
+  'gallery.photo': 'Photo {number}',
+
+  // Personal backup
+  'backup.invalid': 'This backup file was not recognised.',
+  'backup.newerVersion': 'This backup is from a newer version of the app. Refresh this page first.',
+  'backup.cameraUnavailable': 'The camera could not be opened. Use a file instead.',
+
+  // Errors from the server
+  'conflict.changed': 'Another admin has already changed this business',
+  'conflict.deleted': 'Another admin has deleted this business',
+  'categories.inUseCount': {
+    one: 'This category still has {count} business. Move it to another category or merge the category first.',
+    other: 'This category still has {count} businesses. Move them to another category or merge the category first.',
+  },
+  'categories.inUse': 'This category still has businesses. Move them to another category or merge the category first.',
+  'submission.rateLimited': 'Too many suggestions have been sent. Please try again in a little while.',
+  'submission.spam': 'This suggestion could not be accepted. Please send it again without links.',
+  'submission.missingShopName': 'Please enter the shop name.',
+  'submission.alreadyReviewed': 'Another admin has already handled this suggestion.',
+  'review.rateLimited': 'Too many reviews have been sent. Please try again in a little while.',
+  'review.reportRateLimited': 'Too many reviews have been reported. Please try again in a little while.',
+  'review.spam': 'The review could not be accepted. Please write it again without links.',
+  'review.blocked': 'An admin has hidden your earlier review of this business.',
+  'admins.cannotRemoveSelf': 'You cannot remove yourself',
+  'admins.inviteLoginRequired': 'You need to log in',
+  'admins.inviteSuperAdminOnly': 'Only a super admin can add new admins',
+  'admins.inviteBadEmail': 'The email address is not valid',
+  'admins.inviteBadRole': 'The role is not valid',
+
+  // Data health
+  'health.fieldContact': 'valid contact number',
+  'health.fieldOwner': 'owner name',
+  'health.fieldAddress': 'address',
+  'health.fieldHours': 'hours',
+  'health.fieldServices': 'services/products',
+  'health.fieldPayment': 'payment options',
+  'health.fieldLocation': 'map location',
+  'health.fieldPhotos': 'photos',
+  'health.noNumber': 'No number',
+  'health.incomplete': 'Incomplete',
+  'health.stale': 'Stale',
+  'health.duplicates': 'Duplicates?',
+  'health.badPhones': 'Bad numbers',
+  'health.fix': 'Fix',
+  'health.summary': '{count} businesses · average completeness {score}%',
+  'health.allComplete': 'Every business is more than {score}% complete.',
+  'health.missing': 'Missing: {fields}',
+  'health.staleAfter': 'Show details older than',
+  'health.days': { one: '{count} day', other: '{count} days' },
+  'health.noneStale': 'Every business has been checked in the last {count} days.',
+  'health.updatedUnknown': 'Date of last change unknown',
+  'health.updatedAgo': { one: 'Last changed {count} day ago ({date})', other: 'Last changed {count} days ago ({date})' },
+  'health.noDuplicates': 'No duplicate entries found.',
+  'health.samePhone': 'Same phone number',
+  'health.similarNames': 'Similar names',
+  'health.allPhonesOk': 'All numbers look fine.',
+
+  // Business fields, as named in change history and conflicts
+  'field.shopName': 'Shop name',
+  'field.shopNameTranslations': 'Name in other languages',
+  'field.ownerName': 'Owner name',
+  'field.contactNumber': 'Contact number',
+  'field.contacts': 'All numbers',
+  'field.category': 'Category',
+  'field.extraCategories': 'Other categories',
+  'field.tags': 'Tags',
+  'field.address': 'Address',
+  'field.openingHours': 'Hours',
+  'field.schedule': 'Schedule',
+  'field.latitude': 'Latitude',
+  'field.longitude': 'Longitude',
+  'field.services': 'Services/products',
+  'field.homeDelivery': 'Home delivery',
+  'field.payment': 'Payment',
+  'field.photos': 'Photos',
+  'field.photoCount': { one: '{count} photo', other: '{count} photos' },
+
+  // Bulk import
+  'import.wrongFileType': 'Upload a .csv or .xlsx file only',
+  'import.fieldEmpty': '{field} is empty',
+  'import.badPhone': 'Invalid contact number {phone}: {error}',
+  'import.unknownCategory': 'Unknown category: {category}',
+  'import.unknownExtraCategory': 'Skipped unknown extra category: {category}',
+  'import.duplicatePhone': 'This number already exists: {name}',
+  'import.duplicateName': 'This name already exists: {name}',
+  'import.hoursUnparsed': 'Hours not understood; only the text will be saved',
+  'import.badLocation': 'Latitude/longitude are invalid; the location will not be saved',
+  'import.title': 'Import from CSV / Excel',
+  'import.readFailed': 'Something went wrong while reading the file.',
+  'import.confirm': { one: 'Add {count} business?', other: 'Add {count} businesses?' },
+  'import.chooseFile': 'Choose a .csv or .xlsx file',
+  'import.headerHint': 'The first row should hold the column names',
+  'import.progress': '{added} / {total} added',
+  'import.failedCount': '{count} failed',
+  'import.matchColumns': 'Match columns',
+  'import.column': 'Column {index}',
+  'import.row': 'Row',
+  'import.owner': 'Owner',
+  'import.check': 'Check',
+  'import.submit': { one: 'Add {count} business', other: 'Add {count} businesses' },
+
+  // Export
+  'export.businessCount': { one: '{count} business', other: '{count} businesses' },
+  'export.title': 'Download the directory',
+  'export.what': 'What would you like to download?',
+  'export.worksOffline': 'works offline too',
+  'export.vcard': 'Contacts (vCard)',
+  'export.booklet': 'Printable booklet',
+  'export.failed': 'Something went wrong while exporting.',
+
+  // Category management
+  'categories.count': { one: '{count} category', other: '{count} categories' },
+  'categories.new': 'New category',
+  'categories.namePlaceholder': 'Marathi name (e.g. मोबाईल दुरुस्ती)',
+  'categories.idPlaceholder': 'English id (e.g. mobile_repair)',
+  'categories.nameIn': 'Name · {language} (optional)',
+  'categories.add': 'Add category',
+  'categories.adding': 'Adding...',
+  'categories.orderChanged': 'The order has changed.',
+  'categories.saveOrder': 'Save order',
+  'categories.orderFailed': 'Error saving the order: {error}',
+  'categories.nameAndIconRequired': 'Both a name and an icon are required.',
+  'categories.saveFailed': 'Error saving the category: {error}',
+  'categories.mergeConfirm': 'Move {count} businesses from "{source}" to "{target}" and remove the "{source}" category?',
+  'categories.mergeFailed': 'Error merging the category: {error}',
+  'categories.deleteConfirm': 'Delete the "{name}" category?',
+  'categories.deleteFailed': 'Error deleting the category: {error}',
+  'categories.badId': 'Write the id with lowercase English letters, digits and _ only (e.g. mobile_repair).',
+  'categories.idTaken': 'A category with this id already exists.',
+  'categories.addFailed': 'Error adding the category: {error}',
+  'categories.moveUp': 'Move up',
+  'categories.moveDown': 'Move down',
+  'categories.mergeInto': 'Merge into another category',
+  'categories.notEmpty': 'This category has businesses; merge it first',
+  'categories.mergeHelp': 'Every business in this category will move to the category below and this category will be removed.',
+  'categories.choose': 'Choose a category',
+  'categories.merge': 'Merge',
+
+  // Usage analytics
+  'usage.searches': 'Searches',
+  'usage.contacts': 'Contacts',
+  'usage.aiQuestions': 'AI questions',
+  'usage.categoriesOpened': 'Categories opened',
+  'usage.emptySearches': 'Searches with no results',
+  'usage.callsAndShares': 'Calls / WhatsApp / shares',
+  'usage.calls': 'Calls',
+  'usage.loadFailed': 'Something went wrong while loading statistics. This needs the internet.',
+  'usage.anonymous': 'Anonymous · nobody\'s identity is stored',
+  'usage.lastDays': 'Last {count} days',
+  'usage.noResults': 'no results',
+  'usage.emptyCount': '{count} empty',
+  'usage.dailyChart': 'Daily chart',
+  'usage.maxPerDay': 'Max {count} / day',
+  'usage.emptySearchesTitle': 'Searches with no results — consider adding these businesses',
+  'usage.allFound': 'Every search found something.',
+  'usage.timesLast': { one: '{count} time · last {day}', other: '{count} times · last {day}' },
+  'usage.popularSearches': 'Popular searches',
+  'usage.noSearches': 'No searches yet.',
+  'usage.aiQuestionsTitle': 'Questions asked to the AI',
+  'usage.noQuestions': 'No questions yet.',
+  'usage.categoriesTitle': 'Categories opened',
+  'usage.noData': 'No data yet.',
+  'usage.topBusinesses': 'Most contacted businesses',
+
+  // Personal backup screen
+  'backup.title': 'My data on another phone',
+  'backup.intro': 'Your favourites, private notes and recently viewed businesses live only on this phone. Take a backup here to move them to a new phone. No account needed.',
+  'backup.send': 'Send',
+  'backup.receive': 'Receive',
+  'backup.favorites': 'Favourites',
+  'backup.notes': 'Notes',
+  'backup.recents': 'Recent',
+  'backup.preparing': 'Preparing...',
+  'backup.empty': 'Nothing to send yet.',
+  'backup.file': 'File',
+  'backup.qr': 'QR codes',
+  'backup.qrFailed': 'The QR codes could not be created.',
+  'backup.qrPreparing': 'Creating QR codes...',
+  'backup.qrAlt': 'Backup QR {index}/{total}',
+  'backup.previous': 'Previous',
+  'backup.next': 'Next',
+  'backup.play': 'Play',
+  'backup.qrHelp': 'On the new phone choose "Scan QR" and hold this screen in front of the camera. All the codes will show one after another on their own.',
+  'backup.scanProgress': '{received} / {total} codes received',
+  'backup.scanHelp': 'Hold the QR code from the old phone in front of the camera',
+  'backup.createFailed': 'The backup could not be created.',
+  'backup.readFailed': 'The backup could not be read.',
+  'backup.replaceConfirm': 'The favourites, notes and history on this phone will be removed. Continue?',
+  'backup.restored': 'Your data has been imported!',
+  'backup.restoreFailed': 'The data could not be imported.',
+  'backup.takenAt': 'Backup taken: {date}',
+  'backup.merge': 'Merge',
+  'backup.mergeHint': 'Keep the data on this phone and add the backup to it',
+  'backup.replace': 'Replace',
+  'backup.replaceHint': 'Remove the data on this phone and keep only the backup',
+  'backup.restoring': 'Importing...',
+  'backup.restore': 'Import',
+  'backup.chooseFile': 'Choose file',
+  'backup.scan': 'Scan QR',
+
+  // Suggest a business / report wrong details
+  'suggest.titleCorrection': 'Report wrong details',
+  'suggest.introCorrection': 'Correct the wrong details below, or write what is wrong.',
+  'suggest.introNew': 'If a shop you know is missing from the directory, tell us about it.',
+  'suggest.needCorrection': 'Please correct the wrong details or write what is wrong.',
+  'suggest.needNameAndPhone': 'Please enter the shop name and contact number.',
+  'suggest.sendFailed': 'Something went wrong while sending the suggestion. Please check the internet and try again.',
+  'suggest.thanks': 'Thank you! Your suggestion has been received.',
+  'suggest.afterReview': 'It will appear in the directory once an admin has checked it.',
+  'suggest.categoryIfKnown': 'Choose a category (if you know it)',
+  'suggest.messageCorrection': 'What is wrong? (e.g. the number has changed, the shop has closed)',
+  'suggest.messageNew': 'Anything else you would like to add',
+  'suggest.aboutYou': 'About you (optional, so we can ask if we have questions)',
+  'suggest.yourName': 'Your name',
+  'suggest.yourPhone': 'Your phone number',
+  'suggest.sending': 'Sending...',
+  'suggest.send': 'Send suggestion',
+
+  // Weekly schedule editor
+  'hoursEditor.title': 'Weekly schedule',
+  'hoursEditor.none': 'No weekly schedule — fill it in for the "open now" filter.',
+  'hoursEditor.unparsed': 'The hours text was not understood. Please fill in the schedule by hand.',
+  'hoursEditor.fillFromText': 'Fill from text',
+  'hoursEditor.create': 'Create schedule',
+  'hoursEditor.remove': 'Remove',
+  'hoursEditor.weeklyOff': 'Weekly day off',
+  'hoursEditor.to': 'to',
+  'hoursEditor.removeTime': 'Remove time',
+  'hoursEditor.addTime': 'Time',
+  'hoursEditor.applyToAll': 'Apply to all days',
+  'hoursEditor.overnightHelp': 'If the closing time is earlier than the opening time, the shop counts as open past midnight.',
+  'hoursEditor.exceptions': 'Holidays / special days',
+  'hoursEditor.reason': 'Reason (e.g. Diwali)',
+  'hoursEditor.removeDay': 'Remove day',
+  'hoursEditor.addHoliday': 'Add holiday',
+
+  // Review moderation
+  'reviewMod.reported': 'Reported',
+  'reviewMod.recent': 'New',
+  'reviewMod.hidden': 'Hidden',
+  'reviewMod.reasonAbusive': 'Abusive language',
+  'reviewMod.reasonPersonal': 'Personal information',
+  'reviewMod.reasonSpam': 'Advertising / spam',
+  'reviewMod.reasonUnrelated': 'Not about this business',
+  'reviewMod.loadFailed': 'Something went wrong while loading reviews.',
+  'reviewMod.deleteConfirm': 'Delete this review for good? A hidden review can be shown again.',
+  'reviewMod.ratingOnly': 'Rating only, no review',
+  'reviewMod.reportCount': { one: 'Reported {count} time', other: 'Reported {count} times' },
+  'reviewMod.hiddenLabel': 'Hidden',
+  'reviewMod.hideReason': 'Reason for hiding (optional)',
+  'reviewMod.hide': 'Hide',
+  'reviewMod.dismiss': 'Looks fine',
+  'reviewMod.unhide': 'Show again',
+  'reviewMod.empty': 'No reviews here.',
+
+  // Ratings and reviews
+  'reviews.title': 'Ratings and reviews',
+  'reviews.rate': 'Rate',
+  'reviews.count': { one: '{count} review', other: '{count} reviews' },
+  'reviews.none': 'No ratings yet. Be the first!',
+  'reviews.numberWrong': {
+    one: '{count} person reported this number as wrong.',
+    other: '{count} people reported this number as wrong.',
+  },
+  'reviews.numberOk': {
+    one: '{count} person confirmed this number is right.',
+    other: '{count} people confirmed this number is right.',
+  },
+  'reviews.commentPlaceholder': 'Describe your experience (optional)',
+  'reviews.namePlaceholder': 'Your name (optional)',
+  'reviews.thanks': 'Thank you for your review!',
+  'reviews.sendFailed': 'The review could not be sent.',
+  'reviews.reportConfirm': 'Tell the admins this review is inappropriate?',
+  'reviews.reportFailed': 'Could not report it. Please try again.',
+  'reviews.loading': 'Loading reviews...',
+  'reviews.offline': 'Reviews need the internet.',
+  'reviews.anonymous': 'A customer',
+  'reviews.reported': 'Reported',
+  'reviews.report': 'Inappropriate?',
+  'stars.label': 'Rating',
+  'stars.outOfFive': '{count} out of 5 stars',
+  'stars.count': { one: '{count} star', other: '{count} stars' },
+  'feedback.question': 'Was the number right?',
+  'feedback.wrongNumber': 'Wrong number',
+  'feedback.rate': 'Rate the service',
+
+  // Suggestions awaiting review
+  'moderation.reasonIncomplete': 'Details are incomplete',
+  'moderation.reasonExists': 'This business already exists',
+  'moderation.reasonUnverified': 'Details could not be verified',
+  'moderation.reasonOutside': 'Business outside the village',
+  'moderation.loadFailed': 'Something went wrong while loading suggestions.',
+  'moderation.approveConfirm': 'Approve this suggestion for "{name}" as it is?',
+  'moderation.rejectFailed': 'Error rejecting the suggestion: {error}',
+  'moderation.correction': 'Correction',
+  'moderation.newBusiness': 'New business',
+  'moderation.targetDeleted': 'This business has been removed from the directory.',
+  'moderation.duplicate': 'A business with this number already exists: {name}',
+  'moderation.rejectReason': 'Reason for rejecting',
+  'moderation.reject': 'Reject',
+  'moderation.approve': 'Approve',
+  'moderation.editAndApprove': 'Edit and approve',
+  'moderation.pending': '{count} left to review',
+  'moderation.empty': 'No suggestions to review.',
+
+  // Admin management
+  'admins.loadFailed': 'Something went wrong while loading the admin list.',
+  'admins.pickCategory': 'Choose at least one category for a category moderator.',
+  'admins.saveFailed': 'Error saving changes: {error}',
+  'admins.removeConfirm': 'Remove admin access for "{name}"?',
+  'admins.removeFailed': 'Error removing the admin: {error}',
+  'admins.invited': 'An invitation email has been sent to {email}.',
+  'admins.inviteFailed': 'Error sending the invitation: {error}',
+  'admins.inviteTitle': 'Invite a new admin',
+  'admins.email': 'Email',
+  'admins.name': 'Name',
+  'admins.sending': 'Sending...',
+  'admins.sendInvite': 'Send invitation',
+  'admins.you': 'you',
+  'admins.remove': 'Remove',
+  'admins.saveChanges': 'Save changes',
+
+  // Pending changes made offline
+  'outbox.add': 'New',
+  'outbox.update': 'Update',
+  'outbox.delete': 'Deleted',
+  'outbox.pending': 'Pending',
+  'outbox.synced': 'Sent',
+  'outbox.failed': 'Failed',
+  'outbox.offline': 'You are offline. Changes will be sent automatically when you reconnect.',
+  'outbox.empty': 'No pending changes.',
+  'outbox.resolve': 'Resolve conflict',
+  'outbox.retry': 'Try again',
+  'outbox.syncNow': 'Send now',
+  'outbox.clearSynced': 'Clear sent',
+
+  // Change history
+  'history.inserted': 'Added',
+  'history.updated': 'Changed',
+  'history.deleted': 'Deleted',
+  'history.approved': 'Suggestion approved',
+  'history.rejected': 'Suggestion rejected',
+  'history.loadFailed': 'Something went wrong while loading the history.',
+  'history.restoreConfirm': 'Restore this version of "{name}"?',
+  'history.empty': 'No history yet.',
+  'history.reason': 'Reason:',
+  'history.restoreBusiness': 'Bring the business back',
+  'history.restoreVersion': 'Restore this version',
+
+  // Resolving an edit conflict
+  'conflict.title': 'Conflicting changes',
+  'conflict.changedHelp': 'Another admin changed this business after you opened the form. Choose which version to keep for each detail.',
+  'conflict.deletedHelp': 'Another admin deleted this business after you opened the form.',
+  'conflict.noDifference': 'The two versions are the same.',
+  'conflict.yours': 'Your version',
+  'conflict.server': 'Server version',
+  'conflict.saveChosen': 'Save chosen',
+  'conflict.addAgain': 'Add again',
+};
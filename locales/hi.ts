@@ -0,0 +1,626 @@
+// ============================================
+// Hindi messages
+// ============================================
+// Same keys as mr.ts; loaded the first time someone picks हिंदी.
+
+import { Messages } from './mr';
+
+export const hi: Messages = {
+  // App shell
+  'app.title': 'जवळा व्यवसाय निर्देशिका',
+  'app.documentTitle': 'जवळा व्यवसाय निर्देशिका - Jawala Business Directory',
+  'app.tagline': 'आपके गाँव के सभी व्यवसाय एक ही जगह!',
+  'app.loadError': 'डेटा लोड करते समय त्रुटि हुई। पेज रीफ्रेश करें।',
+  'app.whatsappGreeting': 'नमस्ते, मैंने "जवळा व्यवसाय निर्देशिका" से आपका संपर्क लिया है।',
+  'language.choose': 'भाषा चुनें',
+  'language.loadFailed': 'यह भाषा अभी लोड नहीं हो सकी। इंटरनेट चालू करके फिर से कोशिश करें।',
+
+  // Shared words
+  'common.close': 'बंद करें',
+  'common.back': 'पीछे',
+  'common.cancel': 'रद्द करें',
+  'common.edit': 'संपादित करें',
+  'common.delete': 'हटाएँ',
+  'common.view': 'देखें',
+  'common.save': 'सहेजें',
+  'common.yes': 'हाँ',
+  'common.no': 'नहीं',
+  'common.allCategories': 'सभी श्रेणियाँ',
+  'common.error': 'त्रुटि: {error}',
+  'common.saving': 'सहेज रहे हैं...',
+  'common.listenNumber': 'नंबर सुनें',
+  'common.spokenNumber': '{name}. फ़ोन नंबर: {digits}',
+  'common.addFavorite': 'पसंदीदा में जोड़ें',
+  'common.removeFavorite': 'पसंदीदा से हटाएँ',
+  'common.translatedNames': 'अन्य भाषाओं में नाम (वैकल्पिक; खाली छोड़ने पर मराठी नाम दिखेगा)',
+
+  // Search and AI assistant
+  'ai.title': 'खोज और AI सहायक',
+  'ai.intro': 'व्यवसाय, मालिक या संपर्क खोजें। सीधे न मिले, तो हमारा AI सहायक मदद करेगा!',
+  'ai.conversation': 'बातचीत',
+  'ai.clear': 'बातचीत मिटाएँ',
+  'ai.clearConfirm': 'क्या पूरी बातचीत मिटानी है?',
+  'ai.thinking': 'आपके लिए जानकारी खोज रहे हैं...',
+  'ai.listenAnswer': 'जवाब सुनें',
+  'ai.placeholder': "जैसे किराना दुकान, राहुल पद्मावार, या 'सेवइयाँ कहाँ मिलती हैं?'",
+  'ai.placeholderFollowUp': "अगला सवाल पूछें, जैसे 'इनमें से कौन रविवार को खुला रहता है?'",
+  'ai.placeholderListening': 'बोलिए, सुन रहे हैं...',
+  'ai.voiceStart': 'बोलकर खोजें',
+  'ai.voiceStop': 'सुनना बंद करें',
+  'ai.searching': 'खोज रहे हैं...',
+  'ai.submit': 'AI खोज',
+  'ai.errorGeneric': 'जवाब पाने में समस्या आई। कृपया फिर से कोशिश करें।',
+  'ai.errorUnreadable': 'AI से समझने लायक जवाब नहीं आया। कृपया सवाल दूसरे शब्दों में पूछें।',
+  'ai.errorRateLimited': 'थोड़े समय में बहुत सारे सवाल पूछे गए। कृपया कुछ मिनट रुककर फिर से पूछें।',
+
+  // Business details
+  'detail.noteSaveFailed': 'नोट सहेजा नहीं जा सका।',
+  'detail.address': 'पता',
+  'detail.directions': 'मैप ऐप में रास्ता देखें',
+  'detail.distanceAway': '{distance} दूर',
+  'detail.hours': 'समय',
+  'detail.todayNote': 'आज: {note}',
+  'detail.homeDelivery': 'होम डिलीवरी उपलब्ध',
+  'detail.services': 'सेवाएँ/उत्पाद:',
+  'detail.categoriesAndTags': 'श्रेणी और टैग:',
+  'detail.payment': 'भुगतान के विकल्प:',
+  'detail.myNote': 'मेरा नोट',
+  'detail.noteDeviceOnly': '(सिर्फ़ इस फ़ोन पर)',
+  'detail.notePlaceholder': 'जैसे सुबह 10 के बाद फ़ोन करें',
+  'detail.saveNote': 'नोट सहेजें',
+  'detail.report': 'जानकारी गलत है? हमें बताएँ',
+  'detail.noWhatsApp': 'WhatsApp नहीं',
+  'detail.noWhatsAppTitle': 'इस व्यवसाय का WhatsApp नंबर नहीं है',
+  'detail.share': 'शेयर करें',
+  'detail.sharing': 'शेयर कर रहे हैं...',
+  'card.delivery': 'डिलीवरी',
+  'card.viewPhotos': 'फ़ोटो देखें',
+  'card.numberDoubtful': 'नंबर गलत?',
+  'card.numberDoubtfulTitle': 'कुछ लोगों ने बताया है कि यह नंबर गलत है',
+  'share.services': 'सेवाएँ: {services}',
+  'share.sentVia': 'जवळा व्यवसाय निर्देशिका से भेजा गया',
+  'share.copied': 'शेयरिंग समर्थित नहीं है। विवरण और लिंक क्लिपबोर्ड पर कॉपी कर दिए गए हैं!',
+  'share.copyFailed': 'विवरण कॉपी नहीं हो सका।',
+
+  // Footer
+  'footer.growTitle': 'अपना व्यवसाय बढ़ाएँ!',
+  'footer.growText': 'अपने व्यवसाय की जानकारी हमारी निर्देशिका में जोड़कर पूरे गाँव तक पहुँचें। पंजीकरण बिल्कुल आसान और मुफ़्त है।',
+  'footer.adminLogin': 'एडमिन लॉगिन / व्यवसाय जोड़ें',
+  'footer.suggest': 'नया व्यवसाय सुझाएँ',
+  'footer.export': 'निर्देशिका डाउनलोड / प्रिंट करें',
+  'footer.backup': 'मेरे पसंदीदा और नोट दूसरे फ़ोन पर ले जाएँ',
+
+  // Directory list controls
+  'list.viewList': 'सूची',
+  'list.viewMap': 'नक्शा',
+  'list.nearestFirst': 'नज़दीकी पहले',
+  'list.topRatedFirst': 'बेहतर रेटिंग पहले',
+  'list.openNowOnly': 'सिर्फ़ अभी खुले',
+  'list.searchResults': '"{query}" के खोज परिणाम',
+  'list.removeTag': 'टैग हटाएँ',
+  'list.noResults': 'कुछ नहीं मिला',
+  'list.noResultsHint': 'कृपया अपनी खोज बदलें या दूसरी श्रेणी चुनें।',
+  'tags.label': 'टैग:',
+  'tags.showLess': 'कम दिखाएँ',
+  'tags.more': '{count} और',
+  'favorites.title': 'मेरे पसंदीदा',
+  'favorites.call': '{name} को कॉल करें',
+  'favorites.recent': 'हाल ही में देखे गए',
+  'favorites.clearRecent': 'मिटाएँ',
+  'map.loading': 'नक्शा लोड हो रहा है...',
+  'map.loadFailed': 'नक्शा लोड नहीं हो सका।',
+  'map.youAreHere': 'आप यहाँ हैं',
+  'map.missing': '{count} व्यवसायों की जगह अभी नक्शे पर दर्ज नहीं है।',
+
+  // Admin login and dashboard
+  'login.title': 'एडमिन लॉगिन',
+  'login.email': 'ईमेल',
+  'login.password': 'पासवर्ड',
+  'login.submit': 'लॉगिन करें',
+  'login.submitting': 'लॉगिन कर रहे हैं...',
+  'login.failed': 'लॉगिन विफल। कृपया फिर से कोशिश करें।',
+  'admin.title': 'एडमिन पैनल',
+  'admin.add': 'नया व्यवसाय जोड़ें',
+  'admin.import': 'CSV / Excel आयात',
+  'admin.edit': 'व्यवसाय संपादित करें',
+  'admin.list': 'व्यवसायों की सूची',
+  'admin.outbox': 'लंबित बदलाव',
+  'admin.history': 'बदलावों का इतिहास',
+  'admin.moderation': 'सुझाव और शिकायतें',
+  'admin.reviews': 'रेटिंग और समीक्षाएँ',
+  'admin.health': 'जानकारी की जाँच',
+  'admin.analytics': 'उपयोग के आँकड़े',
+  'admin.migrateHours': 'पुराने समय बदलें',
+  'admin.categories': 'श्रेणी प्रबंधन',
+  'admin.admins': 'एडमिन प्रबंधन',
+  'admin.logout': 'लॉगआउट',
+  'admin.historyOf': 'इतिहास',
+  'admin.deleteConfirm': 'क्या आप वाकई "{name}" हटाना चाहते हैं?',
+  'admin.deleteFailed': 'व्यवसाय हटाते समय त्रुटि हुई',
+  'admin.loggedOut': 'आप सफलतापूर्वक लॉगआउट हो गए हैं।',
+  'admin.logoutFailed': 'लॉगआउट करते समय त्रुटि हुई।',
+  'admin.savedOffline': 'आप ऑफ़लाइन हैं। बदलाव सहेज लिया गया है और कनेक्शन आने पर भेजा जाएगा।',
+  'admin.updated': 'व्यवसाय सफलतापूर्वक अपडेट हुआ!',
+  'admin.added': 'व्यवसाय सफलतापूर्वक जोड़ा गया!',
+  'admin.saveFailed': 'व्यवसाय सहेजते समय त्रुटि: {error}',
+  'admin.versionRestored': 'पुराना संस्करण सफलतापूर्वक वापस लाया गया!',
+  'admin.businessRestored': 'व्यवसाय सफलतापूर्वक वापस लाया गया!',
+  'admin.restoreFailed': 'वापस लाते समय त्रुटि: {error}',
+  'admin.approvedNew': 'सुझाव मंज़ूर हुआ, व्यवसाय जोड़ा गया!',
+  'admin.approvedUpdate': 'सुझाव मंज़ूर हुआ, जानकारी अपडेट हुई!',
+  'admin.approveFailed': 'सुझाव मंज़ूर करते समय त्रुटि: {error}',
+  'admin.migrateConfirm': 'जिन व्यवसायों की समय-सारणी नहीं है, उनके समय का पाठ पढ़कर समय-सारणी बनानी है?',
+  'admin.migrated': '{count} व्यवसायों की समय-सारणी बन गई।',
+  'admin.migrateUnparsed': 'इन व्यवसायों का समय समझ नहीं आया, कृपया हाथ से भरें:',
+  'admin.migrateFailed': 'बदलते समय त्रुटि: {error}',
+  'admin.deletedOffline': 'आप ऑफ़लाइन हैं। कनेक्शन आने पर व्यवसाय हटा दिया जाएगा।',
+  'admin.deleted': 'व्यवसाय सफलतापूर्वक हटाया गया!',
+  'admin.discardConfirm': '"{name}" का बदलाव रद्द करना है?',
+  'admin.wrongNumberSuggest': 'सही नंबर पता है? हमें बताएँ।',
+
+  // Business form
+  'form.titleAdd': 'नया व्यवसाय जोड़ें',
+  'form.titleEdit': 'व्यवसाय अपडेट करें',
+  'form.shopName': 'दुकान का नाम',
+  'form.ownerName': 'मालिक का नाम',
+  'form.category': 'मुख्य श्रेणी चुनें',
+  'form.extraCategories': 'अन्य श्रेणियाँ (इनमें भी दिखेगा):',
+  'form.address': 'पता',
+  'form.openingHours': 'खुलने का समय (जैसे सुबह 10 से रात 9)',
+  'form.services': 'सेवाएँ/उत्पाद (कॉमा से अलग करें)',
+  'form.tags': 'टैग (कॉमा से अलग करें, जैसे फ़ोटो फ़्रेमिंग, कॉस्मेटिक्स)',
+  'form.homeDelivery': 'होम डिलीवरी',
+  'form.payment': 'भुगतान:',
+  'form.noPermission': 'आपको इस श्रेणी में व्यवसाय सहेजने की अनुमति नहीं है। कृपया अपनी श्रेणी चुनें।',
+  'form.saving': 'सहेज रहे हैं...',
+  'form.submitAdd': 'व्यवसाय जोड़ें',
+  'form.submitEdit': 'अपडेट करें',
+
+  // Voice search and read-aloud
+  'speech.unsupported': 'इस ब्राउज़र में आवाज़ से खोज उपलब्ध नहीं है।',
+  'speech.denied': 'माइक्रोफ़ोन इस्तेमाल करने की अनुमति नहीं दी गई है।',
+  'speech.noSpeech': 'आवाज़ सुनाई नहीं दी। कृपया फिर से बोलें।',
+  'speech.network': 'आवाज़ को पाठ में नहीं बदला जा सका। इंटरनेट कनेक्शन जाँचें।',
+  'speech.aborted': 'आवाज़ से खोज रोक दी गई।',
+  'speech.failed': 'आवाज़ पहचानी नहीं जा सकी। कृपया फिर से कोशिश करें।',
+  'speech.listen': 'सुनें',
+  'speech.stop': 'रोकें',
+
+  // Opening hours
+  'hours.morning': 'सुबह {clock}',
+  'hours.afternoon': 'दोपहर {clock}',
+  'hours.evening': 'शाम {clock}',
+  'hours.night': 'रात {clock}',
+  'hours.closed': 'बंद',
+  'hours.allDay': '24 घंटे',
+  'hours.range': '{open} से {close}',
+  'hours.withClosedDays': '{hours} ({days} बंद)',
+  'hours.openUntil': 'खुला · {time} तक',
+  'hours.openAllDay': '24 घंटे खुला',
+  'hours.opensToday': 'बंद · {time} बजे खुलेगा',
+  'hours.opensTomorrow': 'बंद · कल {time} बजे खुलेगा',
+  'hours.opensOn': 'बंद · {day} को {time} बजे खुलेगा',
+
+  // Location and distance
+  'geo.metres': '{distance} मी',
+  'geo.kilometres': '{distance} किमी',
+  'geo.unsupported': 'यह डिवाइस जगह नहीं बता सकता।',
+  'geo.denied': 'जगह इस्तेमाल करने की अनुमति नहीं दी गई है।',
+  'geo.unavailable': 'आपकी जगह नहीं मिल सकी। कृपया फिर से कोशिश करें।',
+  'location.title': 'नक्शे पर जगह',
+  'location.current': 'मौजूदा जगह',
+  'location.remove': 'हटा दें',
+  'location.changeHint': 'पिन खींचकर या नक्शे पर टैप करके बदलें',
+  'location.pickHint': 'दुकान जहाँ है वहाँ नक्शे पर टैप करें',
+
+  // Phone numbers
+  'phone.mobile': 'मोबाइल',
+  'phone.landline': 'लैंडलाइन',
+  'phone.whatsappOnly': 'सिर्फ़ WhatsApp',
+  'phone.empty': 'नंबर लिखें',
+  'phone.digitsOnly': 'नंबर में सिर्फ़ अंक लिखें',
+  'phone.plusAtStart': '+ सिर्फ़ शुरुआत में चलता है',
+  'phone.internationalIncomplete': 'अंतरराष्ट्रीय नंबर अधूरा है',
+  'phone.needStdCode': 'STD कोड के साथ लिखें, जैसे 02452 123456',
+  'phone.wrongLength': '{count} अंक हैं, 10 चाहिए',
+  'phone.allSame': 'सभी अंक एक जैसे हैं',
+  'phone.leadingZero': 'नंबर 0 से शुरू नहीं हो सकता',
+  'phone.notMobile': 'मोबाइल नंबर 6, 7, 8 या 9 से शुरू होता है। अगर यह लैंडलाइन है तो प्रकार "लैंडलाइन" चुनें',
+  'phone.looksMobile': 'यह मोबाइल नंबर लगता है; प्रकार "मोबाइल" चुनें',
+  'phone.duplicate': 'यह नंबर ऊपर पहले से दिया गया है',
+  'phone.mobilePlaceholder': 'मोबाइल नंबर, जैसे 98765 43210',
+  'phone.landlinePlaceholder': 'STD कोड के साथ, जैसे 02452 123456',
+  'phone.whatsappPlaceholder': 'WhatsApp नंबर',
+  'phone.numbersLabel': 'संपर्क नंबर (पहला नंबर मुख्य):',
+  'phone.kind': 'नंबर का प्रकार',
+  'phone.labelPlaceholder': 'नाम (वैकल्पिक)',
+  'phone.moveUp': 'ऊपर करें',
+  'phone.remove': 'हटाएँ',
+  'phone.add': 'और नंबर जोड़ें',
+
+  // Admin roles
+  'role.superAdmin': 'मुख्य एडमिन',
+  'role.superAdminInfo': 'सभी अधिकार, दूसरे एडमिन संभाल सकता है',
+  'role.editor': 'संपादक',
+  'role.editorInfo': 'सिर्फ़ जानकारी बदल सकता है, जोड़ना/हटाना नहीं',
+  'role.categoryModerator': 'श्रेणी संचालक',
+  'role.categoryModeratorInfo': 'चुनी हुई श्रेणियों में व्यवसाय जोड़, बदल, हटा सकता है',
+  'role.viewer': 'दर्शक',
+  'role.viewerInfo': 'सिर्फ़ देख सकता है',
+  'role.notAllowed': 'आपको यह काम करने की अनुमति नहीं है',
+
+  // Suggested follow-up questions for the AI assistant
+  'followUp.delivery': 'इनमें से कौन होम डिलीवरी देता है?',
+  'followUp.upi': 'इनमें से कौन UPI लेता है?',
+  'followUp.card': 'इनमें से कहाँ कार्ड से भुगतान हो सकता है?',
+  'followUp.openNow': 'इनमें से अभी कौन खुला है?',
+  'followUp.addresses': 'इनके पते बताइए',
+
+  // Photos
+  'photo.shopfront': 'दुकान की फ़ोटो',
+  'photo.product': 'उत्पाद',
+  'photo.ratecard': 'रेट कार्ड',
+  'photo.notImage': 'यह फ़ाइल फ़ोटो नहीं है।',
+  'photo.tooLarge': 'फ़ोटो बहुत बड़ी है (20 MB से ज़्यादा)।',
+  'photo.unreadable': 'यह फ़ोटो खुल नहीं सकी।',
+  'photo.uploadFailed': 'फ़ोटो अपलोड नहीं हो सकी। कनेक्शन जाँचें।',
+  'photo.someFailed': 'कुछ फ़ोटो अपलोड नहीं हुईं:',
+  'photo.count': 'फ़ोटो ({count}/{max})',
+  'photo.uploading': '{count} अपलोड हो रही हैं...',
+  'photo.add': 'फ़ोटो जोड़ें',
+  'photo.main': 'मुख्य',
+  'photo.remove': 'फ़ोटो हटाएँ',
+  'photo.caption': 'विवरण',
+  'photo.makeMain': 'मुख्य बनाएँ',
+  'gallery.previous': 'पिछली फ़ोटो',
+  'gallery.next': 'अगली फ़ोटो',
+  'gallery.photo': 'फ़ोटो {number}',
+
+  // Personal backup
+  'backup.invalid': 'यह बैकअप फ़ाइल पहचानी नहीं जा सकी।',
+  'backup.newerVersion': 'यह बैकअप ऐप के नए संस्करण से है। पहले यह पेज रीफ्रेश करें।',
+  'backup.cameraUnavailable': 'कैमरा नहीं खुल सका। इसके बजाय फ़ाइल इस्तेमाल करें।',
+
+  // Errors from the server
+  'conflict.changed': 'यह व्यवसाय दूसरे एडमिन ने पहले ही बदल दिया है',
+  'conflict.deleted': 'यह व्यवसाय दूसरे एडमिन ने हटा दिया है',
+  'categories.inUseCount': 'इस श्रेणी में अभी {count} व्यवसाय हैं। पहले उन्हें दूसरी श्रेणी में ले जाएँ या श्रेणी मिला दें।',
+  'categories.inUse': 'इस श्रेणी में अभी व्यवसाय हैं। पहले उन्हें दूसरी श्रेणी में ले जाएँ या श्रेणी मिला दें।',
+  'submission.rateLimited': 'बहुत ज़्यादा सुझाव भेजे गए हैं। कृपया थोड़ी देर बाद फिर से कोशिश करें।',
+  'submission.spam': 'यह सुझाव स्वीकार नहीं हो सका। कृपया लिंक डाले बिना फिर से भेजें।',
+  'submission.missingShopName': 'कृपया दुकान का नाम लिखें।',
+  'submission.alreadyReviewed': 'यह सुझाव पहले ही दूसरे एडमिन ने देख लिया है।',
+  'review.rateLimited': 'बहुत ज़्यादा समीक्षाएँ भेजी गई हैं। कृपया थोड़ी देर बाद फिर से कोशिश करें।',
+  'review.reportRateLimited': 'बहुत ज़्यादा समीक्षाओं की शिकायत की गई है। कृपया थोड़ी देर बाद फिर से कोशिश करें।',
+  'review.spam': 'समीक्षा स्वीकार नहीं हो सकी। कृपया लिंक डाले बिना फिर से लिखें।',
+  'review.blocked': 'इस व्यवसाय के लिए आपकी पिछली समीक्षा एडमिन ने छिपा दी है।',
+  'admins.cannotRemoveSelf': 'आप खुद को नहीं हटा सकते',
+  'admins.inviteLoginRequired': 'लॉगिन करना ज़रूरी है',
+  'admins.inviteSuperAdminOnly': 'केवल मुख्य एडमिन नए एडमिन जोड़ सकते हैं',
+  'admins.inviteBadEmail': 'ईमेल पता गलत है',
+  'admins.inviteBadRole': 'भूमिका गलत है',
+
+  // Data health
+  'health.fieldContact': 'सही संपर्क नंबर',
+  'health.fieldOwner': 'मालिक का नाम',
+  'health.fieldAddress': 'पता',
+  'health.fieldHours': 'समय',
+  'health.fieldServices': 'सेवाएँ/उत्पाद',
+  'health.fieldPayment': 'भुगतान के विकल्प',
+  'health.fieldLocation': 'नक्शे पर जगह',
+  'health.fieldPhotos': 'फ़ोटो',
+  'health.noNumber': 'नंबर नहीं',
+  'health.incomplete': 'अधूरे',
+  'health.stale': 'पुरानी जानकारी',
+  'health.duplicates': 'दोहरे?',
+  'health.badPhones': 'गलत नंबर',
+  'health.fix': 'ठीक करें',
+  'health.summary': '{count} व्यवसाय · औसत पूर्णता {score}%',
+  'health.allComplete': 'सभी व्यवसाय {score}% से ज़्यादा पूरे हैं।',
+  'health.missing': 'नहीं है: {fields}',
+  'health.staleAfter': 'इससे पुरानी जानकारी दिखाएँ',
+  'health.days': '{count} दिन',
+  'health.noneStale': 'पिछले {count} दिनों में सभी व्यवसाय जाँचे गए हैं।',
+  'health.updatedUnknown': 'आखिरी बदलाव की तारीख पता नहीं',
+  'health.updatedAgo': 'आखिरी बदलाव {count} दिन पहले ({date})',
+  'health.noDuplicates': 'दोहरी प्रविष्टियाँ नहीं मिलीं।',
+  'health.samePhone': 'एक ही फ़ोन नंबर',
+  'health.similarNames': 'मिलते-जुलते नाम',
+  'health.allPhonesOk': 'सभी नंबर सही लगते हैं।',
+
+  // Business fields, as named in change history and conflicts
+  'field.shopName': 'दुकान का नाम',
+  'field.shopNameTranslations': 'अन्य भाषाओं में नाम',
+  'field.ownerName': 'मालिक का नाम',
+  'field.contactNumber': 'संपर्क नंबर',
+  'field.contacts': 'सभी नंबर',
+  'field.category': 'श्रेणी',
+  'field.extraCategories': 'अन्य श्रेणियाँ',
+  'field.tags': 'टैग',
+  'field.address': 'पता',
+  'field.openingHours': 'समय',
+  'field.schedule': 'समय-सारणी',
+  'field.latitude': 'अक्षांश (latitude)',
+  'field.longitude': 'देशांतर (longitude)',
+  'field.services': 'सेवाएँ/उत्पाद',
+  'field.homeDelivery': 'होम डिलीवरी',
+  'field.payment': 'भुगतान',
+  'field.photos': 'फ़ोटो',
+  'field.photoCount': '{count} फ़ोटो',
+
+  // Bulk import
+  'import.wrongFileType': 'सिर्फ़ .csv या .xlsx फ़ाइल अपलोड करें',
+  'import.fieldEmpty': '{field} खाली है',
+  'import.badPhone': 'अमान्य संपर्क नंबर {phone}: {error}',
+  'import.unknownCategory': 'अज्ञात श्रेणी: {category}',
+  'import.unknownExtraCategory': 'अज्ञात अन्य श्रेणी छोड़ दी गई: {category}',
+  'import.duplicatePhone': 'यह नंबर पहले से है: {name}',
+  'import.duplicateName': 'यह नाम पहले से है: {name}',
+  'import.hoursUnparsed': 'समय समझ नहीं आया; सिर्फ़ पाठ सहेजा जाएगा',
+  'import.badLocation': 'अक्षांश/देशांतर गलत हैं; जगह सहेजी नहीं जाएगी',
+  'import.title': 'CSV / Excel से आयात करें',
+  'import.readFailed': 'फ़ाइल पढ़ते समय त्रुटि हुई।',
+  'import.confirm': '{count} व्यवसाय जोड़ने हैं?',
+  'import.chooseFile': '.csv या .xlsx फ़ाइल चुनें',
+  'import.headerHint': 'पहली पंक्ति में कॉलम के नाम होने चाहिए',
+  'import.progress': '{added} / {total} जोड़े गए',
+  'import.failedCount': '{count} विफल',
+  'import.matchColumns': 'कॉलम मिलाएँ',
+  'import.column': 'कॉलम {index}',
+  'import.row': 'पंक्ति',
+  'import.owner': 'मालिक',
+  'import.check': 'जाँच',
+  'import.submit': '{count} व्यवसाय जोड़ें',
+
+  // Export
+  'export.businessCount': '{count} व्यवसाय',
+  'export.title': 'निर्देशिका डाउनलोड करें',
+  'export.what': 'क्या डाउनलोड करना है?',
+  'export.worksOffline': 'ऑफ़लाइन भी चलता है',
+  'export.vcard': 'संपर्क (vCard)',
+  'export.booklet': 'छापने लायक पुस्तिका',
+  'export.failed': 'निर्यात करते समय त्रुटि हुई।',
+
+  // Category management
+  'categories.count': '{count} श्रेणियाँ',
+  'categories.new': 'नई श्रेणी',
+  'categories.namePlaceholder': 'मराठी नाम (जैसे मोबाईल दुरुस्ती)',
+  'categories.idPlaceholder': 'अंग्रेज़ी पहचान (जैसे mobile_repair)',
+  'categories.nameIn': 'नाम · {language} (वैकल्पिक)',
+  'categories.add': 'श्रेणी जोड़ें',
+  'categories.adding': 'जोड़ रहे हैं...',
+  'categories.orderChanged': 'क्रम बदल गया है।',
+  'categories.saveOrder': 'क्रम सहेजें',
+  'categories.orderFailed': 'क्रम सहेजते समय त्रुटि: {error}',
+  'categories.nameAndIconRequired': 'नाम और आइकन दोनों ज़रूरी हैं।',
+  'categories.saveFailed': 'श्रेणी सहेजते समय त्रुटि: {error}',
+  'categories.mergeConfirm': '"{source}" के {count} व्यवसाय "{target}" में ले जाकर "{source}" श्रेणी हटानी है?',
+  'categories.mergeFailed': 'श्रेणी मिलाते समय त्रुटि: {error}',
+  'categories.deleteConfirm': '"{name}" श्रेणी हटानी है?',
+  'categories.deleteFailed': 'श्रेणी हटाते समय त्रुटि: {error}',
+  'categories.badId': 'पहचान सिर्फ़ अंग्रेज़ी के छोटे अक्षर, अंक और _ से लिखें (जैसे mobile_repair)।',
+  'categories.idTaken': 'इस पहचान की श्रेणी पहले से है।',
+  'categories.addFailed': 'श्रेणी जोड़ते समय त्रुटि: {error}',
+  'categories.moveUp': 'ऊपर ले जाएँ',
+  'categories.moveDown': 'नीचे ले जाएँ',
+  'categories.mergeInto': 'दूसरी श्रेणी में मिलाएँ',
+  'categories.notEmpty': 'इस श्रेणी में व्यवसाय हैं; पहले मिलाएँ',
+  'categories.mergeHelp': 'इस श्रेणी के सभी व्यवसाय नीचे दी गई श्रेणी में ले जाए जाएँगे और यह श्रेणी हटा दी जाएगी।',
+  'categories.choose': 'श्रेणी चुनें',
+  'categories.merge': 'मिलाएँ',
+
+  // Usage analytics
+  'usage.searches': 'खोजें',
+  'usage.contacts': 'संपर्क',
+  'usage.aiQuestions': 'AI सवाल',
+  'usage.categoriesOpened': 'खोली गई श्रेणियाँ',
+  'usage.emptySearches': 'बिना नतीजे की खोजें',
+  'usage.callsAndShares': 'कॉल / WhatsApp / शेयर',
+  'usage.calls': 'कॉल',
+  'usage.loadFailed': 'आँकड़े लोड करते समय त्रुटि हुई। इसके लिए इंटरनेट चाहिए।',
+  'usage.anonymous': 'गुमनाम · किसी की पहचान सहेजी नहीं जाती',
+  'usage.lastDays': 'पिछले {count} दिन',
+  'usage.noResults': 'कोई नतीजा नहीं',
+  'usage.emptyCount': '{count} खाली',
+  'usage.dailyChart': 'रोज़ का चार्ट',
+  'usage.maxPerDay': 'अधिकतम {count} / दिन',
+  'usage.emptySearchesTitle': 'बिना नतीजे की खोजें — ये व्यवसाय जोड़ने के बारे में सोचें',
+  'usage.allFound': 'हर खोज को कुछ न कुछ मिला।',
+  'usage.timesLast': '{count} बार · आखिरी {day}',
+  'usage.popularSearches': 'लोकप्रिय खोजें',
+  'usage.noSearches': 'अभी कोई खोज नहीं।',
+  'usage.aiQuestionsTitle': 'AI से पूछे गए सवाल',
+  'usage.noQuestions': 'अभी कोई सवाल नहीं।',
+  'usage.categoriesTitle': 'खोली गई श्रेणियाँ',
+  'usage.noData': 'अभी कोई जानकारी नहीं।',
+  'usage.topBusinesses': 'सबसे ज़्यादा संपर्क किए गए व्यवसाय',
+
+  // Personal backup screen
+  'backup.title': 'मेरा डेटा दूसरे फ़ोन पर',
+  'backup.intro': 'आपके पसंदीदा, निजी नोट और हाल में देखे गए व्यवसाय सिर्फ़ इस फ़ोन पर रहते हैं। नए फ़ोन पर ले जाने के लिए यहाँ से बैकअप लें। खाते की ज़रूरत नहीं।',
+  'backup.send': 'भेजें',
+  'backup.receive': 'लें',
+  'backup.favorites': 'पसंदीदा',
+  'backup.notes': 'नोट',
+  'backup.recents': 'हाल के',
+  'backup.preparing': 'तैयार कर रहे हैं...',
+  'backup.empty': 'अभी भेजने लायक कुछ नहीं है।',
+  'backup.file': 'फ़ाइल',
+  'backup.qr': 'QR कोड',
+  'backup.qrFailed': 'QR कोड नहीं बन सके।',
+  'backup.qrPreparing': 'QR कोड बना रहे हैं...',
+  'backup.qrAlt': 'बैकअप QR {index}/{total}',
+  'backup.previous': 'पिछला',
+  'backup.next': 'अगला',
+  'backup.play': 'चलाएँ',
+  'backup.qrHelp': 'नए फ़ोन पर "QR स्कैन करें" चुनें और यह स्क्रीन कैमरे के सामने रखें। सभी कोड अपने-आप एक के बाद एक दिखेंगे।',
+  'backup.scanProgress': '{received} / {total} कोड मिले',
+  'backup.scanHelp': 'पुराने फ़ोन का QR कोड कैमरे के सामने रखें',
+  'backup.createFailed': 'बैकअप नहीं बन सका।',
+  'backup.readFailed': 'बैकअप पढ़ा नहीं जा सका।',
+  'backup.replaceConfirm': 'इस फ़ोन के मौजूदा पसंदीदा, नोट और इतिहास हटा दिए जाएँगे। आगे बढ़ें?',
+  'backup.restored': 'आपका डेटा सफलतापूर्वक आयात हो गया!',
+  'backup.restoreFailed': 'डेटा आयात नहीं हो सका।',
+  'backup.takenAt': 'बैकअप लिया गया: {date}',
+  'backup.merge': 'जोड़ें',
+  'backup.mergeHint': 'इस फ़ोन का डेटा रखकर उसमें बैकअप मिलाएँ',
+  'backup.replace': 'बदलें',
+  'backup.replaceHint': 'इस फ़ोन का डेटा हटाकर सिर्फ़ बैकअप रखें',
+  'backup.restoring': 'आयात कर रहे हैं...',
+  'backup.restore': 'आयात करें',
+  'backup.chooseFile': 'फ़ाइल चुनें',
+  'backup.scan': 'QR स्कैन करें',
+
+  // Suggest a business / report wrong details
+  'suggest.titleCorrection': 'गलत जानकारी बताएँ',
+  'suggest.introCorrection': 'जो जानकारी गलत है उसे नीचे ठीक करें, या लिखें कि क्या गलत है।',
+  'suggest.introNew': 'आपकी जान-पहचान की दुकान निर्देशिका में नहीं है तो उसकी जानकारी दें।',
+  'suggest.needCorrection': 'कृपया गलत जानकारी ठीक करें या लिखें कि क्या गलत है।',
+  'suggest.needNameAndPhone': 'कृपया दुकान का नाम और संपर्क नंबर लिखें।',
+  'suggest.sendFailed': 'सुझाव भेजते समय त्रुटि हुई। कृपया इंटरनेट जाँचकर फिर से कोशिश करें।',
+  'suggest.thanks': 'धन्यवाद! आपका सुझाव मिल गया है।',
+  'suggest.afterReview': 'एडमिन की जाँच के बाद यह निर्देशिका में दिखेगा।',
+  'suggest.categoryIfKnown': 'श्रेणी चुनें (अगर पता हो)',
+  'suggest.messageCorrection': 'क्या गलत है? (जैसे नंबर बदल गया है, दुकान बंद हो गई है)',
+  'suggest.messageNew': 'कुछ और बताना हो तो',
+  'suggest.aboutYou': 'आपकी जानकारी (वैकल्पिक, सवाल होने पर संपर्क के लिए)',
+  'suggest.yourName': 'आपका नाम',
+  'suggest.yourPhone': 'आपका फ़ोन नंबर',
+  'suggest.sending': 'भेज रहे हैं...',
+  'suggest.send': 'सुझाव भेजें',
+
+  // Weekly schedule editor
+  'hoursEditor.title': 'साप्ताहिक समय-सारणी',
+  'hoursEditor.none': 'साप्ताहिक समय-सारणी नहीं है — "अभी खुले" फ़िल्टर के लिए इसे भरें।',
+  'hoursEditor.unparsed': 'समय का पाठ समझ नहीं आया। कृपया समय-सारणी हाथ से भरें।',
+  'hoursEditor.fillFromText': 'पाठ से भरें',
+  'hoursEditor.create': 'समय-सारणी बनाएँ',
+  'hoursEditor.remove': 'हटा दें',
+  'hoursEditor.weeklyOff': 'साप्ताहिक छुट्टी',
+  'hoursEditor.to': 'से',
+  'hoursEditor.removeTime': 'समय हटाएँ',
+  'hoursEditor.addTime': 'समय',
+  'hoursEditor.applyToAll': 'सभी दिनों पर लागू करें',
+  'hoursEditor.overnightHelp': 'बंद होने का समय खुलने के समय से पहले हो तो दुकान आधी रात के बाद भी खुली मानी जाती है।',
+  'hoursEditor.exceptions': 'छुट्टियाँ / खास दिन',
+  'hoursEditor.reason': 'कारण (जैसे दिवाली)',
+  'hoursEditor.removeDay': 'दिन हटाएँ',
+  'hoursEditor.addHoliday': 'छुट्टी जोड़ें',
+
+  // Review moderation
+  'reviewMod.reported': 'शिकायत वाली',
+  'reviewMod.recent': 'नई',
+  'reviewMod.hidden': 'छिपाई गई',
+  'reviewMod.reasonAbusive': 'अपमानजनक भाषा',
+  'reviewMod.reasonPersonal': 'निजी जानकारी',
+  'reviewMod.reasonSpam': 'विज्ञापन / स्पैम',
+  'reviewMod.reasonUnrelated': 'इस व्यवसाय से संबंधित नहीं',
+  'reviewMod.loadFailed': 'समीक्षाएँ लोड करते समय त्रुटि हुई।',
+  'reviewMod.deleteConfirm': 'यह समीक्षा हमेशा के लिए हटानी है? छिपाने पर इसे फिर से दिखाया जा सकता है।',
+  'reviewMod.ratingOnly': 'सिर्फ़ रेटिंग, समीक्षा नहीं',
+  'reviewMod.reportCount': '{count} बार शिकायत',
+  'reviewMod.hiddenLabel': 'छिपाई गई',
+  'reviewMod.hideReason': 'छिपाने का कारण (वैकल्पिक)',
+  'reviewMod.hide': 'छिपाएँ',
+  'reviewMod.dismiss': 'ठीक है',
+  'reviewMod.unhide': 'फिर से दिखाएँ',
+  'reviewMod.empty': 'यहाँ कोई समीक्षा नहीं है।',
+
+  // Ratings and reviews
+  'reviews.title': 'रेटिंग और समीक्षाएँ',
+  'reviews.rate': 'रेटिंग दें',
+  'reviews.count': { one: '{count} समीक्षा', other: '{count} समीक्षाएँ' },
+  'reviews.none': 'अभी कोई रेटिंग नहीं। सबसे पहले आप दें!',
+  'reviews.numberWrong': '{count} लोगों ने बताया है कि यह नंबर गलत है।',
+  'reviews.numberOk': '{count} लोगों ने बताया कि यह नंबर सही है।',
+  'reviews.commentPlaceholder': 'अपना अनुभव लिखें (वैकल्पिक)',
+  'reviews.namePlaceholder': 'आपका नाम (वैकल्पिक)',
+  'reviews.thanks': 'आपकी समीक्षा के लिए धन्यवाद!',
+  'reviews.sendFailed': 'समीक्षा भेजी नहीं जा सकी।',
+  'reviews.reportConfirm': 'एडमिन को बताएँ कि यह समीक्षा अनुचित है?',
+  'reviews.reportFailed': 'बताया नहीं जा सका। कृपया फिर से कोशिश करें।',
+  'reviews.loading': 'समीक्षाएँ लोड हो रही हैं...',
+  'reviews.offline': 'समीक्षाएँ देखने के लिए इंटरनेट चाहिए।',
+  'reviews.anonymous': 'एक ग्राहक',
+  'reviews.reported': 'बताया गया',
+  'reviews.report': 'अनुचित?',
+  'stars.label': 'रेटिंग',
+  'stars.outOfFive': '5 में से {count} तारे',
+  'stars.count': { one: '{count} तारा', other: '{count} तारे' },
+  'feedback.question': 'क्या नंबर सही था?',
+  'feedback.wrongNumber': 'गलत नंबर',
+  'feedback.rate': 'सेवा को रेटिंग दें',
+
+  // Suggestions awaiting review
+  'moderation.reasonIncomplete': 'जानकारी अधूरी है',
+  'moderation.reasonExists': 'यह व्यवसाय पहले से है',
+  'moderation.reasonUnverified': 'जानकारी की पुष्टि नहीं हो सकी',
+  'moderation.reasonOutside': 'गाँव के बाहर का व्यवसाय',
+  'moderation.loadFailed': 'सुझाव लोड करते समय त्रुटि हुई।',
+  'moderation.approveConfirm': '"{name}" का यह सुझाव जैसा है वैसा मंज़ूर करना है?',
+  'moderation.rejectFailed': 'सुझाव अस्वीकार करते समय त्रुटि: {error}',
+  'moderation.correction': 'सुधार',
+  'moderation.newBusiness': 'नया व्यवसाय',
+  'moderation.targetDeleted': 'यह व्यवसाय निर्देशिका से हटा दिया गया है।',
+  'moderation.duplicate': 'इसी नंबर का व्यवसाय पहले से है: {name}',
+  'moderation.rejectReason': 'अस्वीकार करने का कारण',
+  'moderation.reject': 'अस्वीकार करें',
+  'moderation.approve': 'मंज़ूर करें',
+  'moderation.editAndApprove': 'बदलकर मंज़ूर करें',
+  'moderation.pending': '{count} जाँचने बाकी',
+  'moderation.empty': 'जाँचने के लिए कोई सुझाव नहीं है।',
+
+  // Admin management
+  'admins.loadFailed': 'एडमिन की सूची लोड करते समय त्रुटि हुई।',
+  'admins.pickCategory': 'श्रेणी संचालक के लिए कम से कम एक श्रेणी चुनें।',
+  'admins.saveFailed': 'बदलाव सहेजते समय त्रुटि: {error}',
+  'admins.removeConfirm': '"{name}" का एडमिन अधिकार हटाना है?',
+  'admins.removeFailed': 'एडमिन हटाते समय त्रुटि: {error}',
+  'admins.invited': '{email} को निमंत्रण ईमेल भेज दिया गया है।',
+  'admins.inviteFailed': 'निमंत्रण भेजते समय त्रुटि: {error}',
+  'admins.inviteTitle': 'नए एडमिन को आमंत्रित करें',
+  'admins.email': 'ईमेल',
+  'admins.name': 'नाम',
+  'admins.sending': 'भेज रहे हैं...',
+  'admins.sendInvite': 'निमंत्रण भेजें',
+  'admins.you': 'आप',
+  'admins.remove': 'हटाएँ',
+  'admins.saveChanges': 'बदलाव सहेजें',
+
+  // Pending changes made offline
+  'outbox.add': 'नया',
+  'outbox.update': 'अपडेट',
+  'outbox.delete': 'हटाया',
+  'outbox.pending': 'लंबित',
+  'outbox.synced': 'भेजा गया',
+  'outbox.failed': 'विफल',
+  'outbox.offline': 'आप ऑफ़लाइन हैं। कनेक्शन आने पर बदलाव अपने-आप भेजे जाएँगे।',
+  'outbox.empty': 'कोई लंबित बदलाव नहीं है।',
+  'outbox.resolve': 'टकराव सुलझाएँ',
+  'outbox.retry': 'फिर से कोशिश करें',
+  'outbox.syncNow': 'अभी भेजें',
+  'outbox.clearSynced': 'भेजे गए साफ़ करें',
+
+  // Change history
+  'history.inserted': 'जोड़ा',
+  'history.updated': 'बदला',
+  'history.deleted': 'हटाया',
+  'history.approved': 'सुझाव मंज़ूर',
+  'history.rejected': 'सुझाव अस्वीकार',
+  'history.loadFailed': 'इतिहास लोड करते समय त्रुटि हुई।',
+  'history.restoreConfirm': '"{name}" का यह संस्करण वापस लाना है?',
+  'history.empty': 'अभी तक कोई इतिहास नहीं है।',
+  'history.reason': 'कारण:',
+  'history.restoreBusiness': 'व्यवसाय वापस लाएँ',
+  'history.restoreVersion': 'यह संस्करण वापस लाएँ',
+
+  // Resolving an edit conflict
+  'conflict.title': 'बदलावों में टकराव',
+  'conflict.changedHelp': 'आपके फ़ॉर्म खोलने के बाद दूसरे एडमिन ने यह व्यवसाय बदल दिया। हर जानकारी के लिए कौन-सा संस्करण रखना है, चुनें।',
+  'conflict.deletedHelp': 'आपके फ़ॉर्म खोलने के बाद दूसरे एडमिन ने यह व्यवसाय हटा दिया।',
+  'conflict.noDifference': 'दोनों संस्करणों में कोई अंतर नहीं है।',
+  'conflict.yours': 'आपका संस्करण',
+  'conflict.server': 'सर्वर का संस्करण',
+  'conflict.saveChosen': 'चुने हुए सहेजें',
+  'conflict.addAgain': 'फिर से जोड़ें',
+};
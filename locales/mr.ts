@@ -0,0 +1,632 @@
+// ============================================
+// Marathi messages
+// ============================================
+// The source catalog: every key lives here first, and hi.ts / en.ts must
+// carry the same keys (the Messages type checks this). "{name}" marks a
+// value filled in by t(). A message that changes with a count is an object
+// of Intl.PluralRules forms, e.g. { one: '1 review', other: '{count} reviews' }.
+
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export const mr = {
+  // App shell
+  'app.title': 'जवळा व्यवसाय निर्देशिका',
+  'app.documentTitle': 'जवळा व्यवसाय निर्देशिका - Jawala Business Directory',
+  'app.tagline': 'तुमच्या गावातील सर्व व्यवसाय एकाच ठिकाणी!',
+  'app.loadError': 'डेटा लोड करताना त्रुटी आली. पेज रीफ्रेश करा.',
+  'app.whatsappGreeting': 'नमस्कार, मी "जवळा व्यवसाय निर्देशिका" वरून आपला संपर्क घेतला आहे.',
+  'language.choose': 'भाषा निवडा',
+  'language.loadFailed': 'ही भाषा आत्ता लोड करता आली नाही. इंटरनेट चालू करून पुन्हा प्रयत्न करा.',
+
+  // Shared words
+  'common.close': 'बंद करा',
+  'common.back': 'मागे',
+  'common.cancel': 'रद्द करा',
+  'common.edit': 'संपादित करा',
+  'common.delete': 'हटवा',
+  'common.view': 'पहा',
+  'common.save': 'जतन करा',
+  'common.yes': 'हो',
+  'common.no': 'नाही',
+  'common.allCategories': 'सर्व श्रेण्या',
+  'common.error': 'त्रुटी: {error}',
+  'common.saving': 'जतन करत आहे...',
+  'common.listenNumber': 'नंबर ऐका',
+  'common.spokenNumber': '{name}. फोन नंबर: {digits}',
+  'common.addFavorite': 'आवडत्यांमध्ये जोडा',
+  'common.removeFavorite': 'आवडत्यांमधून काढा',
+  'common.translatedNames': 'इतर भाषांतील नाव (ऐच्छिक; रिकामे ठेवल्यास मराठी नाव दिसेल)',
+
+  // Search and AI assistant
+  'ai.title': 'शोध आणि AI मदतनीस',
+  'ai.intro': 'व्यवसाय, मालक किंवा संपर्क शोधा. थेट सापडले नाही, तर आमचा AI मदतनीस मदत करेल!',
+  'ai.conversation': 'संभाषण',
+  'ai.clear': 'संभाषण पुसा',
+  'ai.clearConfirm': 'संपूर्ण संभाषण पुसायचे आहे का?',
+  'ai.thinking': 'तुमच्यासाठी माहिती शोधत आहे...',
+  'ai.listenAnswer': 'उत्तर ऐका',
+  'ai.placeholder': "उदा. किराणा दुकान, राहुल पद्मावार, किंवा 'शेवया कुठे मिळतात?'",
+  'ai.placeholderFollowUp': "पुढचा प्रश्न विचारा, उदा. 'त्यापैकी कोण रविवारी उघडे असते?'",
+  'ai.placeholderListening': 'बोला, ऐकत आहे...',
+  'ai.voiceStart': 'बोलून शोधा',
+  'ai.voiceStop': 'ऐकणे थांबवा',
+  'ai.searching': 'शोधत आहे...',
+  'ai.submit': 'AI शोध',
+  'ai.errorGeneric': 'उत्तर मिळवताना एक समस्या आली. कृपया पुन्हा प्रयत्न करा.',
+  'ai.errorUnreadable': 'AI कडून समजण्याजोगे उत्तर आले नाही. कृपया प्रश्न वेगळ्या शब्दांत विचारा.',
+  'ai.errorRateLimited': 'थोड्या वेळात खूप प्रश्न विचारले गेले. कृपया काही मिनिटे थांबून पुन्हा विचारा.',
+
+  // Business details
+  'detail.noteSaveFailed': 'नोंद जतन करता आली नाही.',
+  'detail.address': 'पत्ता',
+  'detail.directions': 'नकाशा ॲपमध्ये मार्ग पहा',
+  'detail.distanceAway': '{distance} दूर',
+  'detail.hours': 'वेळ',
+  'detail.todayNote': 'आज: {note}',
+  'detail.homeDelivery': 'होम डिलिव्हरी उपलब्ध',
+  'detail.services': 'सेवा/उत्पादने:',
+  'detail.categoriesAndTags': 'श्रेणी व टॅग:',
+  'detail.payment': 'पेमेंट पर्याय:',
+  'detail.myNote': 'माझी नोंद',
+  'detail.noteDeviceOnly': '(फक्त या फोनवर)',
+  'detail.notePlaceholder': 'उदा. सकाळी १० नंतर फोन करा',
+  'detail.saveNote': 'नोंद जतन करा',
+  'detail.report': 'माहिती चुकीची आहे? आम्हाला कळवा',
+  'detail.noWhatsApp': 'WhatsApp नाही',
+  'detail.noWhatsAppTitle': 'या व्यवसायाचा WhatsApp नंबर नाही',
+  'detail.share': 'शेअर करा',
+  'detail.sharing': 'शेअर करत आहे...',
+  'card.delivery': 'डिलिव्हरी',
+  'card.viewPhotos': 'फोटो पहा',
+  'card.numberDoubtful': 'नंबर चुकीचा?',
+  'card.numberDoubtfulTitle': 'काही लोकांनी हा नंबर चुकीचा असल्याचे कळवले आहे',
+  'share.services': 'सेवा: {services}',
+  'share.sentVia': 'जवळा व्यवसाय निर्देशिका द्वारे पाठवले',
+  'share.copied': 'शेअरिंग समर्थित नाही. तपशील आणि लिंक क्लिपबोर्डवर कॉपी केली आहे!',
+  'share.copyFailed': 'तपशील कॉपी करू शकलो नाही.',
+
+  // Footer
+  'footer.growTitle': 'तुमचा व्यवसाय वाढवा!',
+  'footer.growText': 'तुमच्या व्यवसायाची माहिती आमच्या निर्देशिकेत जोडून संपूर्ण गावापर्यंत पोहोचा. नोंदणी प्रक्रिया अगदी सोपी आणि विनामूल्य आहे.',
+  'footer.adminLogin': 'ॲडमिन लॉगिन / व्यवसाय जोडा',
+  'footer.suggest': 'नवीन व्यवसाय सुचवा',
+  'footer.export': 'निर्देशिका डाउनलोड / प्रिंट करा',
+  'footer.backup': 'माझे आवडते व नोंदी दुसऱ्या फोनवर न्या',
+
+  // Directory list controls
+  'list.viewList': 'यादी',
+  'list.viewMap': 'नकाशा',
+  'list.nearestFirst': 'जवळचे आधी',
+  'list.topRatedFirst': 'उत्तम रेटिंग आधी',
+  'list.openNowOnly': 'फक्त आता उघडे',
+  'list.searchResults': '"{query}" साठी शोध परिणाम',
+  'list.removeTag': 'टॅग काढा',
+  'list.noResults': 'काहीही सापडले नाही',
+  'list.noResultsHint': 'कृपया तुमचा शोध बदला किंवा वेगळी श्रेणी निवडा.',
+  'tags.label': 'टॅग:',
+  'tags.showLess': 'कमी दाखवा',
+  'tags.more': 'आणखी {count}',
+  'favorites.title': 'माझे आवडते',
+  'favorites.call': '{name} यांना कॉल करा',
+  'favorites.recent': 'अलीकडे पाहिलेले',
+  'favorites.clearRecent': 'पुसा',
+  'map.loading': 'नकाशा लोड करत आहे...',
+  'map.loadFailed': 'नकाशा लोड होऊ शकला नाही.',
+  'map.youAreHere': 'तुम्ही येथे आहात',
+  'map.missing': '{count} व्यवसायांचे ठिकाण अजून नकाशावर नोंदलेले नाही.',
+
+  // Admin login and dashboard
+  'login.title': 'ॲडमिन लॉगिन',
+  'login.email': 'ईमेल',
+  'login.password': 'पासवर्ड',
+  'login.submit': 'लॉगिन करा',
+  'login.submitting': 'लॉगिन करत आहे...',
+  'login.failed': 'लॉगिन अयशस्वी. कृपया पुन्हा प्रयत्न करा.',
+  'admin.title': 'ॲडमिन पॅनल',
+  'admin.add': 'नवीन व्यवसाय जोडा',
+  'admin.import': 'CSV / Excel आयात',
+  'admin.edit': 'व्यवसाय संपादित करा',
+  'admin.list': 'व्यवसायांची यादी',
+  'admin.outbox': 'प्रलंबित बदल',
+  'admin.history': 'बदलांचा इतिहास',
+  'admin.moderation': 'सूचना व तक्रारी',
+  'admin.reviews': 'रेटिंग व अभिप्राय',
+  'admin.health': 'माहितीची तपासणी',
+  'admin.analytics': 'वापराची आकडेवारी',
+  'admin.migrateHours': 'जुन्या वेळा रूपांतरित करा',
+  'admin.categories': 'श्रेणी व्यवस्थापन',
+  'admin.admins': 'ॲडमिन व्यवस्थापन',
+  'admin.logout': 'लॉगआउट',
+  'admin.historyOf': 'इतिहास',
+  'admin.deleteConfirm': 'खात्री आहे का की तुम्ही "{name}" हटवू इच्छिता?',
+  'admin.deleteFailed': 'व्यवसाय हटवताना त्रुटी आली',
+  'admin.loggedOut': 'तुम्ही यशस्वीरित्या लॉगआउट झाला आहात.',
+  'admin.logoutFailed': 'लॉगआउट करताना त्रुटी आली.',
+  'admin.savedOffline': 'तुम्ही ऑफलाइन आहात. बदल जतन केला असून कनेक्शन आल्यावर पाठवला जाईल.',
+  'admin.updated': 'व्यवसाय यशस्वीरित्या अपडेट झाला!',
+  'admin.added': 'व्यवसाय यशस्वीरित्या जोडला गेला!',
+  'admin.saveFailed': 'व्यवसाय सेव्ह करताना त्रुटी: {error}',
+  'admin.versionRestored': 'जुनी आवृत्ती यशस्वीरित्या पुनर्संचयित झाली!',
+  'admin.businessRestored': 'व्यवसाय यशस्वीरित्या परत आणला!',
+  'admin.restoreFailed': 'पुनर्संचयित करताना त्रुटी: {error}',
+  'admin.approvedNew': 'सूचना मंजूर झाली, व्यवसाय जोडला गेला!',
+  'admin.approvedUpdate': 'सूचना मंजूर झाली, माहिती अपडेट झाली!',
+  'admin.approveFailed': 'सूचना मंजूर करताना त्रुटी: {error}',
+  'admin.migrateConfirm': 'ज्या व्यवसायांना वेळापत्रक नाही त्यांच्या वेळेचा मजकूर वाचून वेळापत्रक तयार करायचे?',
+  'admin.migrated': '{count} व्यवसायांचे वेळापत्रक तयार झाले.',
+  'admin.migrateUnparsed': 'या व्यवसायांची वेळ समजली नाही, कृपया हाताने भरा:',
+  'admin.migrateFailed': 'रूपांतर करताना त्रुटी: {error}',
+  'admin.deletedOffline': 'तुम्ही ऑफलाइन आहात. कनेक्शन आल्यावर व्यवसाय हटवला जाईल.',
+  'admin.deleted': 'व्यवसाय यशस्वीरित्या हटवला!',
+  'admin.discardConfirm': '"{name}" साठीचा बदल रद्द करायचा?',
+  'admin.wrongNumberSuggest': 'बरोबर नंबर माहीत आहे का? आम्हाला कळवा.',
+
+  // Business form
+  'form.titleAdd': 'नवीन व्यवसाय जोडा',
+  'form.titleEdit': 'व्यवसाय अपडेट करा',
+  'form.shopName': 'दुकानाचे नाव',
+  'form.ownerName': 'मालकाचे नाव',
+  'form.category': 'मुख्य श्रेणी निवडा',
+  'form.extraCategories': 'इतर श्रेणी (यामध्येही दिसेल):',
+  'form.address': 'पत्ता',
+  'form.openingHours': 'उघडण्याची वेळ (उदा. सकाळी १० ते रात्री ९)',
+  'form.services': 'सेवा/उत्पादने (कॉमाने वेगळे करा)',
+  'form.tags': 'टॅग (कॉमाने वेगळे करा, उदा. फोटो फ्रेमिंग, कॉस्मेटिक्स)',
+  'form.homeDelivery': 'होम डिलिव्हरी',
+  'form.payment': 'पेमेंट:',
+  'form.noPermission': 'तुम्हाला या श्रेणीत व्यवसाय जतन करण्याची परवानगी नाही. कृपया तुमची श्रेणी निवडा.',
+  'form.saving': 'सेव्ह करत आहे...',
+  'form.submitAdd': 'व्यवसाय जोडा',
+  'form.submitEdit': 'अपडेट करा',
+
+  // Voice search and read-aloud
+  'speech.unsupported': 'या ब्राउझरमध्ये आवाजाने शोध उपलब्ध नाही.',
+  'speech.denied': 'मायक्रोफोन वापरण्याची परवानगी नाकारली आहे.',
+  'speech.noSpeech': 'आवाज ऐकू आला नाही. कृपया पुन्हा बोला.',
+  'speech.network': 'आवाज मजकुरात बदलता आला नाही. इंटरनेट कनेक्शन तपासा.',
+  'speech.aborted': 'आवाजाने शोध थांबवला.',
+  'speech.failed': 'आवाज ओळखता आला नाही. कृपया पुन्हा प्रयत्न करा.',
+  'speech.listen': 'ऐका',
+  'speech.stop': 'थांबवा',
+
+  // Opening hours
+  'hours.morning': 'सकाळी {clock}',
+  'hours.afternoon': 'दुपारी {clock}',
+  'hours.evening': 'संध्याकाळी {clock}',
+  'hours.night': 'रात्री {clock}',
+  'hours.closed': 'बंद',
+  'hours.allDay': '२४ तास',
+  'hours.range': '{open} ते {close}',
+  'hours.withClosedDays': '{hours} ({days} बंद)',
+  'hours.openUntil': 'उघडे · {time} पर्यंत',
+  'hours.openAllDay': '२४ तास उघडे',
+  'hours.opensToday': 'बंद · {time} ला उघडेल',
+  'hours.opensTomorrow': 'बंद · उद्या {time} ला उघडेल',
+  'hours.opensOn': 'बंद · {day}ी {time} ला उघडेल',
+
+  // Location and distance
+  'geo.metres': '{distance} मी',
+  'geo.kilometres': '{distance} किमी',
+  'geo.unsupported': 'हे डिव्हाइस ठिकाण सांगू शकत नाही.',
+  'geo.denied': 'ठिकाण वापरण्याची परवानगी नाकारली आहे.',
+  'geo.unavailable': 'तुमचे ठिकाण मिळू शकले नाही. कृपया पुन्हा प्रयत्न करा.',
+  'location.title': 'नकाशावरील ठिकाण',
+  'location.current': 'सध्याचे ठिकाण',
+  'location.remove': 'काढून टाका',
+  'location.changeHint': 'पिन ओढून किंवा नकाशावर टॅप करून बदला',
+  'location.pickHint': 'दुकान जिथे आहे तिथे नकाशावर टॅप करा',
+
+  // Phone numbers
+  'phone.mobile': 'मोबाईल',
+  'phone.landline': 'लँडलाईन',
+  'phone.whatsappOnly': 'फक्त WhatsApp',
+  'phone.empty': 'नंबर लिहा',
+  'phone.digitsOnly': 'नंबरमध्ये फक्त अंक लिहा',
+  'phone.plusAtStart': '+ फक्त सुरुवातीला चालतो',
+  'phone.internationalIncomplete': 'आंतरराष्ट्रीय नंबर अपूर्ण आहे',
+  'phone.needStdCode': 'STD कोडसह लिहा, उदा. 02452 123456',
+  'phone.wrongLength': '{count} अंक आहेत, १० हवेत',
+  'phone.allSame': 'सर्व अंक सारखे आहेत',
+  'phone.leadingZero': 'नंबर 0 ने सुरू होऊ शकत नाही',
+  'phone.notMobile': 'मोबाईल नंबर ६, ७, ८ किंवा ९ ने सुरू होतो. हा लँडलाईन असल्यास प्रकार "लँडलाईन" निवडा',
+  'phone.looksMobile': 'हा मोबाईल नंबर दिसतो; प्रकार "मोबाईल" निवडा',
+  'phone.duplicate': 'हा नंबर वर आधीच दिला आहे',
+  'phone.mobilePlaceholder': 'मोबाईल नंबर, उदा. 98765 43210',
+  'phone.landlinePlaceholder': 'STD कोडसह, उदा. 02452 123456',
+  'phone.whatsappPlaceholder': 'WhatsApp नंबर',
+  'phone.numbersLabel': 'संपर्क क्रमांक (पहिला नंबर मुख्य):',
+  'phone.kind': 'नंबरचा प्रकार',
+  'phone.labelPlaceholder': 'नाव (ऐच्छिक)',
+  'phone.moveUp': 'वर घ्या',
+  'phone.remove': 'काढा',
+  'phone.add': 'आणखी नंबर जोडा',
+
+  // Admin roles
+  'role.superAdmin': 'मुख्य ॲडमिन',
+  'role.superAdminInfo': 'सर्व अधिकार, इतर ॲडमिन व्यवस्थापित करू शकतो',
+  'role.editor': 'संपादक',
+  'role.editorInfo': 'फक्त माहिती बदलू शकतो, जोडणे/हटवणे नाही',
+  'role.categoryModerator': 'श्रेणी नियंत्रक',
+  'role.categoryModeratorInfo': 'निवडलेल्या श्रेणींमधील व्यवसाय जोडू, बदलू, हटवू शकतो',
+  'role.viewer': 'दर्शक',
+  'role.viewerInfo': 'फक्त पाहू शकतो',
+  'role.notAllowed': 'तुम्हाला ही कृती करण्याची परवानगी नाही',
+
+  // Suggested follow-up questions for the AI assistant
+  'followUp.delivery': 'यापैकी कोण होम डिलिव्हरी देतात?',
+  'followUp.upi': 'यापैकी कोण UPI स्वीकारतात?',
+  'followUp.card': 'यापैकी कुठे कार्डने पैसे देता येतात?',
+  'followUp.openNow': 'यापैकी आता कोण उघडे आहे?',
+  'followUp.addresses': 'यांचे पत्ते सांगा',
+
+  // Photos
+  'photo.shopfront': 'दुकानाचा फोटो',
+  'photo.product': 'उत्पादने',
+  'photo.ratecard': 'दरपत्रक',
+  'photo.notImage': 'ही फाईल फोटो नाही.',
+  'photo.tooLarge': 'फोटो खूप मोठा आहे (२० MB पेक्षा जास्त).',
+  'photo.unreadable': 'हा फोटो उघडता आला नाही.',
+  'photo.uploadFailed': 'फोटो अपलोड करता आला नाही. कनेक्शन तपासा.',
+  'photo.someFailed': 'काही फोटो अपलोड झाले नाहीत:',
+  'photo.count': 'फोटो ({count}/{max})',
+  'photo.uploading': '{count} अपलोड होत आहे...',
+  'photo.add': 'फोटो जोडा',
+  'photo.main': 'मुख्य',
+  'photo.remove': 'फोटो काढा',
+  'photo.caption': 'वर्णन',
+  'photo.makeMain': 'मुख्य बनवा',
+  'gallery.previous': 'मागील फोटो',
+  'gallery.next': 'पुढील फोटो',
+  'gallery.photo': 'फोटो {number}',
+
+  // Personal backup
+  'backup.invalid': 'ही बॅकअप फाईल ओळखता आली नाही.',
+  'backup.newerVersion': 'हा बॅकअप ॲपच्या नवीन आवृत्तीतून आहे. आधी हे पान रिफ्रेश करा.',
+  'backup.cameraUnavailable': 'कॅमेरा उघडता आला नाही. त्याऐवजी फाईल वापरा.',
+
+  // Errors from the server
+  'conflict.changed': 'हा व्यवसाय दुसऱ्या ॲडमिनने आधीच बदलला आहे',
+  'conflict.deleted': 'हा व्यवसाय दुसऱ्या ॲडमिनने हटवला आहे',
+  'categories.inUseCount': 'या श्रेणीत अजून {count} व्यवसाय आहेत. आधी ते दुसऱ्या श्रेणीत हलवा किंवा श्रेणी विलीन करा.',
+  'categories.inUse': 'या श्रेणीत अजून व्यवसाय आहेत. आधी ते दुसऱ्या श्रेणीत हलवा किंवा श्रेणी विलीन करा.',
+  'submission.rateLimited': 'खूप सूचना पाठवल्या गेल्या आहेत. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा.',
+  'submission.spam': 'ही सूचना स्वीकारता आली नाही. कृपया लिंक न टाकता पुन्हा पाठवा.',
+  'submission.missingShopName': 'कृपया दुकानाचे नाव लिहा.',
+  'submission.alreadyReviewed': 'ही सूचना आधीच दुसऱ्या ॲडमिनने हाताळली आहे.',
+  'review.rateLimited': 'खूप अभिप्राय पाठवले गेले आहेत. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा.',
+  'review.reportRateLimited': 'खूप अभिप्रायांची तक्रार केली गेली आहे. कृपया थोड्या वेळाने पुन्हा प्रयत्न करा.',
+  'review.spam': 'अभिप्राय स्वीकारता आला नाही. कृपया लिंक न टाकता पुन्हा लिहा.',
+  'review.blocked': 'या व्यवसायासाठी तुमचा आधीचा अभिप्राय ॲडमिनने लपवला आहे.',
+  'admins.cannotRemoveSelf': 'तुम्ही स्वतःला काढू शकत नाही',
+  'admins.inviteLoginRequired': 'लॉगिन आवश्यक आहे',
+  'admins.inviteSuperAdminOnly': 'फक्त मुख्य ॲडमिन नवीन ॲडमिन जोडू शकतात',
+  'admins.inviteBadEmail': 'ईमेल पत्ता चुकीचा आहे',
+  'admins.inviteBadRole': 'भूमिका चुकीची आहे',
+
+  // Data health
+  'health.fieldContact': 'बरोबर संपर्क नंबर',
+  'health.fieldOwner': 'मालकाचे नाव',
+  'health.fieldAddress': 'पत्ता',
+  'health.fieldHours': 'वेळ',
+  'health.fieldServices': 'सेवा/उत्पादने',
+  'health.fieldPayment': 'पेमेंट पर्याय',
+  'health.fieldLocation': 'नकाशावरील जागा',
+  'health.fieldPhotos': 'फोटो',
+  'health.noNumber': 'नंबर नाही',
+  'health.incomplete': 'अपूर्ण',
+  'health.stale': 'जुनी माहिती',
+  'health.duplicates': 'दुहेरी?',
+  'health.badPhones': 'चुकीचे नंबर',
+  'health.fix': 'दुरुस्त करा',
+  'health.summary': '{count} व्यवसाय · सरासरी पूर्णता {score}%',
+  'health.allComplete': 'सर्व व्यवसाय {score}% पेक्षा जास्त पूर्ण आहेत.',
+  'health.missing': 'नाही: {fields}',
+  'health.staleAfter': 'यापेक्षा जुनी माहिती दाखवा',
+  'health.days': '{count} दिवस',
+  'health.noneStale': 'गेल्या {count} दिवसांत सर्व व्यवसाय तपासले गेले आहेत.',
+  'health.updatedUnknown': 'शेवटच्या बदलाची तारीख माहीत नाही',
+  'health.updatedAgo': 'शेवटचा बदल {count} दिवसांपूर्वी ({date})',
+  'health.noDuplicates': 'दुहेरी नोंदी आढळल्या नाहीत.',
+  'health.samePhone': 'एकच फोन नंबर',
+  'health.similarNames': 'सारखी नावे',
+  'health.allPhonesOk': 'सर्व नंबर बरोबर दिसतात.',
+
+  // Business fields, as named in change history and conflicts
+  'field.shopName': 'दुकानाचे नाव',
+  'field.shopNameTranslations': 'इतर भाषांतील नाव',
+  'field.ownerName': 'मालकाचे नाव',
+  'field.contactNumber': 'संपर्क क्रमांक',
+  'field.contacts': 'सर्व नंबर',
+  'field.category': 'श्रेणी',
+  'field.extraCategories': 'इतर श्रेणी',
+  'field.tags': 'टॅग',
+  'field.address': 'पत्ता',
+  'field.openingHours': 'वेळ',
+  'field.schedule': 'वेळापत्रक',
+  'field.latitude': 'अक्षांश (latitude)',
+  'field.longitude': 'रेखांश (longitude)',
+  'field.services': 'सेवा/उत्पादने',
+  'field.homeDelivery': 'होम डिलिव्हरी',
+  'field.payment': 'पेमेंट',
+  'field.photos': 'फोटो',
+  'field.photoCount': '{count} फोटो',
+
+  // Bulk import
+  'import.wrongFileType': 'फक्त .csv किंवा .xlsx फाइल अपलोड करा',
+  'import.fieldEmpty': '{field} रिकामे आहे',
+  'import.badPhone': 'अवैध संपर्क क्रमांक {phone}: {error}',
+  'import.unknownCategory': 'अज्ञात श्रेणी: {category}',
+  'import.unknownExtraCategory': 'अज्ञात इतर श्रेणी वगळली: {category}',
+  'import.duplicatePhone': 'हा क्रमांक आधीच आहे: {name}',
+  'import.duplicateName': 'हे नाव आधीच आहे: {name}',
+  'import.hoursUnparsed': 'वेळ समजली नाही; फक्त मजकूर जतन होईल',
+  'import.badLocation': 'अक्षांश/रेखांश चुकीचे आहेत; ठिकाण जतन होणार नाही',
+  'import.title': 'CSV / Excel मधून आयात करा',
+  'import.readFailed': 'फाइल वाचताना त्रुटी आली.',
+  'import.confirm': '{count} व्यवसाय जोडायचे?',
+  'import.chooseFile': '.csv किंवा .xlsx फाइल निवडा',
+  'import.headerHint': 'पहिल्या ओळीत स्तंभांची नावे असावीत',
+  'import.progress': '{added} / {total} जोडले',
+  'import.failedCount': '{count} अयशस्वी',
+  'import.matchColumns': 'स्तंभ जुळवा',
+  'import.column': 'स्तंभ {index}',
+  'import.row': 'ओळ',
+  'import.owner': 'मालक',
+  'import.check': 'तपासणी',
+  'import.submit': '{count} व्यवसाय जोडा',
+
+  // Export
+  'export.businessCount': '{count} व्यवसाय',
+  'export.title': 'निर्देशिका डाउनलोड करा',
+  'export.what': 'काय डाउनलोड करायचे?',
+  'export.worksOffline': 'ऑफलाइनही चालते',
+  'export.vcard': 'संपर्क (vCard)',
+  'export.booklet': 'छापण्यायोग्य पुस्तिका',
+  'export.failed': 'निर्यात करताना त्रुटी आली.',
+
+  // Category management
+  'categories.count': '{count} श्रेणी',
+  'categories.new': 'नवीन श्रेणी',
+  'categories.namePlaceholder': 'नाव (उदा. मोबाईल दुरुस्ती)',
+  'categories.idPlaceholder': 'इंग्रजी ओळख (उदा. mobile_repair)',
+  'categories.nameIn': 'नाव · {language} (ऐच्छिक)',
+  'categories.add': 'श्रेणी जोडा',
+  'categories.adding': 'जोडत आहे...',
+  'categories.orderChanged': 'क्रम बदलला आहे.',
+  'categories.saveOrder': 'क्रम जतन करा',
+  'categories.orderFailed': 'क्रम जतन करताना त्रुटी: {error}',
+  'categories.nameAndIconRequired': 'नाव आणि आयकॉन दोन्ही आवश्यक आहेत.',
+  'categories.saveFailed': 'श्रेणी जतन करताना त्रुटी: {error}',
+  'categories.mergeConfirm': '"{source}" मधील {count} व्यवसाय "{target}" मध्ये हलवून "{source}" श्रेणी काढून टाकायची?',
+  'categories.mergeFailed': 'श्रेणी विलीन करताना त्रुटी: {error}',
+  'categories.deleteConfirm': '"{name}" श्रेणी हटवायची?',
+  'categories.deleteFailed': 'श्रेणी हटवताना त्रुटी: {error}',
+  'categories.badId': 'ओळख फक्त इंग्रजी लहान अक्षरे, अंक आणि _ वापरून लिहा (उदा. mobile_repair).',
+  'categories.idTaken': 'या ओळखीची श्रेणी आधीच आहे.',
+  'categories.addFailed': 'श्रेणी जोडताना त्रुटी: {error}',
+  'categories.moveUp': 'वर हलवा',
+  'categories.moveDown': 'खाली हलवा',
+  'categories.mergeInto': 'दुसऱ्या श्रेणीत विलीन करा',
+  'categories.notEmpty': 'या श्रेणीत व्यवसाय आहेत; आधी विलीन करा',
+  'categories.mergeHelp': 'या श्रेणीतील सर्व व्यवसाय खालील श्रेणीत हलवले जातील आणि ही श्रेणी काढली जाईल.',
+  'categories.choose': 'श्रेणी निवडा',
+  'categories.merge': 'विलीन करा',
+
+  // Usage analytics
+  'usage.searches': 'शोध',
+  'usage.contacts': 'संपर्क',
+  'usage.aiQuestions': 'AI प्रश्न',
+  'usage.categoriesOpened': 'श्रेणी उघडल्या',
+  'usage.emptySearches': 'न सापडलेले शोध',
+  'usage.callsAndShares': 'कॉल / WhatsApp / शेअर',
+  'usage.calls': 'कॉल',
+  'usage.loadFailed': 'आकडेवारी लोड करताना त्रुटी आली. यासाठी इंटरनेट लागते.',
+  'usage.anonymous': 'निनावी · कोणाचीही ओळख जतन होत नाही',
+  'usage.lastDays': 'गेले {count} दिवस',
+  'usage.noResults': 'निकाल नाही',
+  'usage.emptyCount': '{count} रिकामे',
+  'usage.dailyChart': 'दररोजचा आलेख',
+  'usage.maxPerDay': 'जास्तीत जास्त {count} / दिवस',
+  'usage.emptySearchesTitle': 'न सापडलेले शोध — हे व्यवसाय जोडण्याचा विचार करा',
+  'usage.allFound': 'प्रत्येक शोधाला काहीतरी सापडले.',
+  'usage.timesLast': '{count} वेळा · शेवटचा {day}',
+  'usage.popularSearches': 'लोकप्रिय शोध',
+  'usage.noSearches': 'अजून शोध नाहीत.',
+  'usage.aiQuestionsTitle': 'AI ला विचारलेले प्रश्न',
+  'usage.noQuestions': 'अजून प्रश्न नाहीत.',
+  'usage.categoriesTitle': 'उघडलेल्या श्रेणी',
+  'usage.noData': 'अजून माहिती नाही.',
+  'usage.topBusinesses': 'सर्वाधिक संपर्क झालेले व्यवसाय',
+
+  // Personal backup screen
+  'backup.title': 'माझा डेटा दुसऱ्या फोनवर',
+  'backup.intro': 'तुमचे आवडते, खाजगी नोंदी आणि अलीकडे पाहिलेले व्यवसाय फक्त या फोनवर असतात. नवीन फोनवर नेण्यासाठी येथून बॅकअप घ्या. खाते लागत नाही.',
+  'backup.send': 'पाठवा',
+  'backup.receive': 'घ्या',
+  'backup.favorites': 'आवडते',
+  'backup.notes': 'नोंदी',
+  'backup.recents': 'अलीकडील',
+  'backup.preparing': 'तयार करत आहे...',
+  'backup.empty': 'अजून पाठवण्यासारखे काही नाही.',
+  'backup.file': 'फाईल',
+  'backup.qr': 'QR कोड',
+  'backup.qrFailed': 'QR कोड तयार करता आले नाहीत.',
+  'backup.qrPreparing': 'QR कोड तयार करत आहे...',
+  'backup.qrAlt': 'बॅकअप QR {index}/{total}',
+  'backup.previous': 'मागील',
+  'backup.next': 'पुढील',
+  'backup.play': 'चालू करा',
+  'backup.qrHelp': 'नवीन फोनवर "QR स्कॅन करा" निवडा आणि हा पडदा कॅमेऱ्यासमोर धरा. सर्व कोड आपोआप एकामागून एक दिसतील.',
+  'backup.scanProgress': '{received} / {total} कोड मिळाले',
+  'backup.scanHelp': 'जुन्या फोनवरील QR कोड कॅमेऱ्यासमोर धरा',
+  'backup.createFailed': 'बॅकअप तयार करता आला नाही.',
+  'backup.readFailed': 'बॅकअप वाचता आला नाही.',
+  'backup.replaceConfirm': 'या फोनवरील सध्याचे आवडते, नोंदी आणि इतिहास काढून टाकले जातील. पुढे जायचे?',
+  'backup.restored': 'तुमचा डेटा यशस्वीरित्या आयात झाला!',
+  'backup.restoreFailed': 'डेटा आयात करता आला नाही.',
+  'backup.takenAt': 'बॅकअप घेतला: {date}',
+  'backup.merge': 'जोडा',
+  'backup.mergeHint': 'या फोनवरील डेटा ठेवून त्यात बॅकअप मिसळा',
+  'backup.replace': 'बदला',
+  'backup.replaceHint': 'या फोनवरील डेटा काढून फक्त बॅकअप ठेवा',
+  'backup.restoring': 'आयात करत आहे...',
+  'backup.restore': 'आयात करा',
+  'backup.chooseFile': 'फाईल निवडा',
+  'backup.scan': 'QR स्कॅन करा',
+
+  // Suggest a business / report wrong details
+  'suggest.titleCorrection': 'चुकीची माहिती कळवा',
+  'suggest.introCorrection': 'जी माहिती चुकीची आहे ती खाली दुरुस्त करा, किंवा काय चुकले आहे ते लिहा.',
+  'suggest.introNew': 'तुमच्या ओळखीचे दुकान निर्देशिकेत नसेल तर त्याची माहिती द्या.',
+  'suggest.needCorrection': 'कृपया चुकीची माहिती दुरुस्त करा किंवा काय चुकीचे आहे ते लिहा.',
+  'suggest.needNameAndPhone': 'कृपया दुकानाचे नाव आणि संपर्क क्रमांक लिहा.',
+  'suggest.sendFailed': 'सूचना पाठवताना त्रुटी आली. कृपया इंटरनेट तपासून पुन्हा प्रयत्न करा.',
+  'suggest.thanks': 'धन्यवाद! तुमची सूचना मिळाली आहे.',
+  'suggest.afterReview': 'ॲडमिनने तपासल्यानंतर ती निर्देशिकेत दिसेल.',
+  'suggest.categoryIfKnown': 'श्रेणी निवडा (माहीत असल्यास)',
+  'suggest.messageCorrection': 'काय चुकीचे आहे? (उदा. नंबर बदलला आहे, दुकान बंद झाले आहे)',
+  'suggest.messageNew': 'आणखी काही सांगायचे असल्यास',
+  'suggest.aboutYou': 'तुमची माहिती (ऐच्छिक, प्रश्न असल्यास संपर्कासाठी)',
+  'suggest.yourName': 'तुमचे नाव',
+  'suggest.yourPhone': 'तुमचा फोन नंबर',
+  'suggest.sending': 'पाठवत आहे...',
+  'suggest.send': 'सूचना पाठवा',
+
+  // Weekly schedule editor
+  'hoursEditor.title': 'साप्ताहिक वेळापत्रक',
+  'hoursEditor.none': 'साप्ताहिक वेळापत्रक नाही — "आता उघडे" फिल्टरसाठी ते भरा.',
+  'hoursEditor.unparsed': 'वेळेचा मजकूर समजला नाही. कृपया वेळापत्रक हाताने भरा.',
+  'hoursEditor.fillFromText': 'मजकुरातून भरा',
+  'hoursEditor.create': 'वेळापत्रक तयार करा',
+  'hoursEditor.remove': 'काढून टाका',
+  'hoursEditor.weeklyOff': 'साप्ताहिक सुट्टी',
+  'hoursEditor.to': 'ते',
+  'hoursEditor.removeTime': 'वेळ काढा',
+  'hoursEditor.addTime': 'वेळ',
+  'hoursEditor.applyToAll': 'सर्व दिवसांना लागू करा',
+  'hoursEditor.overnightHelp': 'बंद होण्याची वेळ उघडण्याच्या वेळेपेक्षा आधी असल्यास दुकान मध्यरात्रीनंतरही उघडे समजले जाते.',
+  'hoursEditor.exceptions': 'सुट्ट्या / विशेष दिवस',
+  'hoursEditor.reason': 'कारण (उदा. दिवाळी)',
+  'hoursEditor.removeDay': 'दिवस काढा',
+  'hoursEditor.addHoliday': 'सुट्टी जोडा',
+
+  // Review moderation
+  'reviewMod.reported': 'तक्रार आलेले',
+  'reviewMod.recent': 'नवीन',
+  'reviewMod.hidden': 'लपवलेले',
+  'reviewMod.reasonAbusive': 'अपमानास्पद भाषा',
+  'reviewMod.reasonPersonal': 'वैयक्तिक माहिती',
+  'reviewMod.reasonSpam': 'जाहिरात / स्पॅम',
+  'reviewMod.reasonUnrelated': 'या व्यवसायाशी संबंध नाही',
+  'reviewMod.loadFailed': 'अभिप्राय लोड करताना त्रुटी आली.',
+  'reviewMod.deleteConfirm': 'हा अभिप्राय कायमचा हटवायचा? लपवल्यास तो पुन्हा दाखवता येतो.',
+  'reviewMod.ratingOnly': 'फक्त रेटिंग, अभिप्राय नाही',
+  'reviewMod.reportCount': '{count} वेळा तक्रार',
+  'reviewMod.hiddenLabel': 'लपवले',
+  'reviewMod.hideReason': 'लपवण्याचे कारण (ऐच्छिक)',
+  'reviewMod.hide': 'लपवा',
+  'reviewMod.dismiss': 'योग्य आहे',
+  'reviewMod.unhide': 'पुन्हा दाखवा',
+  'reviewMod.empty': 'येथे कोणताही अभिप्राय नाही.',
+
+  // Ratings and reviews
+  'reviews.title': 'रेटिंग व अभिप्राय',
+  'reviews.rate': 'रेटिंग द्या',
+  'reviews.count': '{count} अभिप्राय',
+  'reviews.none': 'अजून रेटिंग नाही. पहिले तुम्हीच द्या!',
+  'reviews.numberWrong': '{count} जणांनी हा नंबर चुकीचा असल्याचे कळवले आहे.',
+  'reviews.numberOk': '{count} जणांनी हा नंबर बरोबर असल्याचे सांगितले.',
+  'reviews.commentPlaceholder': 'तुमचा अनुभव लिहा (ऐच्छिक)',
+  'reviews.namePlaceholder': 'तुमचे नाव (ऐच्छिक)',
+  'reviews.thanks': 'तुमच्या अभिप्रायाबद्दल धन्यवाद!',
+  'reviews.sendFailed': 'अभिप्राय पाठवता आला नाही.',
+  'reviews.reportConfirm': 'हा अभिप्राय अयोग्य आहे असे ॲडमिनला कळवायचे?',
+  'reviews.reportFailed': 'कळवता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+  'reviews.loading': 'अभिप्राय लोड होत आहेत...',
+  'reviews.offline': 'अभिप्राय पाहण्यासाठी इंटरनेट लागते.',
+  'reviews.anonymous': 'एक ग्राहक',
+  'reviews.reported': 'कळवले',
+  'reviews.report': 'अयोग्य?',
+  'stars.label': 'रेटिंग',
+  'stars.outOfFive': '५ पैकी {count} तारे',
+  'stars.count': '{count} तारे',
+  'feedback.question': 'नंबर बरोबर होता का?',
+  'feedback.wrongNumber': 'चुकीचा नंबर',
+  'feedback.rate': 'सेवेला रेटिंग द्या',
+
+  // Suggestions awaiting review
+  'moderation.reasonIncomplete': 'माहिती अपूर्ण आहे',
+  'moderation.reasonExists': 'हा व्यवसाय आधीच आहे',
+  'moderation.reasonUnverified': 'माहिती पडताळता आली नाही',
+  'moderation.reasonOutside': 'गावाबाहेरचा व्यवसाय',
+  'moderation.loadFailed': 'सूचना लोड करताना त्रुटी आली.',
+  'moderation.approveConfirm': '"{name}" साठीची ही सूचना जशीच्या तशी मंजूर करायची?',
+  'moderation.rejectFailed': 'सूचना नाकारताना त्रुटी: {error}',
+  'moderation.correction': 'दुरुस्ती',
+  'moderation.newBusiness': 'नवीन व्यवसाय',
+  'moderation.targetDeleted': 'हा व्यवसाय निर्देशिकेतून हटवला गेला आहे.',
+  'moderation.duplicate': 'याच नंबरचा व्यवसाय आधीच आहे: {name}',
+  'moderation.rejectReason': 'नाकारण्याचे कारण',
+  'moderation.reject': 'नाकारा',
+  'moderation.approve': 'मंजूर करा',
+  'moderation.editAndApprove': 'बदलून मंजूर करा',
+  'moderation.pending': '{count} तपासायच्या बाकी',
+  'moderation.empty': 'तपासायला कोणतीही सूचना नाही.',
+
+  // Admin management
+  'admins.loadFailed': 'ॲडमिनची यादी लोड करताना त्रुटी आली.',
+  'admins.pickCategory': 'श्रेणी नियंत्रकासाठी किमान एक श्रेणी निवडा.',
+  'admins.saveFailed': 'बदल जतन करताना त्रुटी: {error}',
+  'admins.removeConfirm': '"{name}" यांचा ॲडमिन प्रवेश काढायचा?',
+  'admins.removeFailed': 'ॲडमिन काढताना त्रुटी: {error}',
+  'admins.invited': '{email} यांना आमंत्रणाचा ईमेल पाठवला आहे.',
+  'admins.inviteFailed': 'आमंत्रण पाठवताना त्रुटी: {error}',
+  'admins.inviteTitle': 'नवीन ॲडमिनला आमंत्रित करा',
+  'admins.email': 'ईमेल',
+  'admins.name': 'नाव',
+  'admins.sending': 'पाठवत आहे...',
+  'admins.sendInvite': 'आमंत्रण पाठवा',
+  'admins.you': 'तुम्ही',
+  'admins.remove': 'काढा',
+  'admins.saveChanges': 'बदल जतन करा',
+
+  // Pending changes made offline
+  'outbox.add': 'नवीन',
+  'outbox.update': 'अपडेट',
+  'outbox.delete': 'हटवले',
+  'outbox.pending': 'प्रलंबित',
+  'outbox.synced': 'पाठवले',
+  'outbox.failed': 'अयशस्वी',
+  'outbox.offline': 'तुम्ही ऑफलाइन आहात. कनेक्शन आल्यावर बदल आपोआप पाठवले जातील.',
+  'outbox.empty': 'कोणतेही प्रलंबित बदल नाहीत.',
+  'outbox.resolve': 'संघर्ष सोडवा',
+  'outbox.retry': 'पुन्हा प्रयत्न करा',
+  'outbox.syncNow': 'आता पाठवा',
+  'outbox.clearSynced': 'पाठवलेले साफ करा',
+
+  // Change history
+  'history.inserted': 'जोडला',
+  'history.updated': 'बदलला',
+  'history.deleted': 'हटवला',
+  'history.approved': 'सूचना मंजूर',
+  'history.rejected': 'सूचना नाकारली',
+  'history.loadFailed': 'इतिहास लोड करताना त्रुटी आली.',
+  'history.restoreConfirm': '"{name}" ची ही आवृत्ती पुनर्संचयित करायची?',
+  'history.empty': 'अद्याप कोणताही इतिहास नाही.',
+  'history.reason': 'कारण:',
+  'history.restoreBusiness': 'व्यवसाय परत आणा',
+  'history.restoreVersion': 'ही आवृत्ती पुनर्संचयित करा',
+
+  // Resolving an edit conflict
+  'conflict.title': 'बदलांमध्ये संघर्ष',
+  'conflict.changedHelp': 'तुम्ही फॉर्म उघडल्यानंतर दुसऱ्या ॲडमिनने हा व्यवसाय बदलला. प्रत्येक माहितीसाठी कोणती आवृत्ती ठेवायची ते निवडा.',
+  'conflict.deletedHelp': 'तुम्ही फॉर्म उघडल्यानंतर दुसऱ्या ॲडमिनने हा व्यवसाय हटवला.',
+  'conflict.noDifference': 'दोन्ही आवृत्त्यांमध्ये कोणताही फरक नाही.',
+  'conflict.yours': 'तुमची आवृत्ती',
+  'conflict.server': 'सर्व्हरवरील आवृत्ती',
+  'conflict.saveChosen': 'निवडलेले सेव्ह करा',
+  'conflict.addAgain': 'पुन्हा जोडा',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof mr;
+export type Messages = Record<MessageKey, Message>;
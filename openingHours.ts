@@ -0,0 +1,309 @@
+import { Business, OpeningSchedule, ScheduleException, TimeRange } from './types';
+import { toAsciiDigits } from './searchIndex';
+import { MessageKey, formatDate, localizeDigits, t } from './i18n';
+
+// ============================================
+// Opening Hours
+// ============================================
+// Structured weekly schedules, a parser for the older free-text strings
+// ("सकाळी १० ते संध्याकाळी ७") and the open/closed status shown on cards.
+// Times and day names are printed in the interface language; the parser
+// reads Marathi and English whatever the language.
+
+const DAYS_IN_WEEK = 7;
+
+/** Weekday name by Date.getDay() index, e.g. "रविवार" / "Sunday". */
+export const dayName = (day: number): string =>
+  formatDate(new Date(2023, 0, 1 + day), { weekday: 'long' }); // 1 January 2023 was a Sunday
+
+export const createSchedule = (ranges: TimeRange[] = []): OpeningSchedule => ({
+  days: Array.from({ length: DAYS_IN_WEEK }, () => ranges.map(range => ({ ...range }))),
+});
+
+/**
+ * Older rows only have the free-text openingHours; parse it on the fly until
+ * they have been migrated.
+ */
+export const getBusinessSchedule = (business: Business): OpeningSchedule | null =>
+  business.schedule || parseOpeningHours(business.openingHours);
+
+// ============================================
+// Time helpers
+// ============================================
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const dateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const isOvernight = (range: TimeRange): boolean => toMinutes(range.close) <= toMinutes(range.open);
+
+const isAllDay = (range: TimeRange): boolean => range.open === '00:00' && range.close === '24:00';
+
+/** "19:30" → "संध्याकाळी ७:३०" / "7:30 pm" */
+export const formatTime = (time: string): string => {
+  const minutes = toMinutes(time);
+  const hours = Math.floor(minutes / 60) % 24;
+  const rest = minutes % 60;
+
+  let period: MessageKey = 'hours.night';
+  if (hours >= 5 && hours < 12) period = 'hours.morning';
+  else if (hours >= 12 && hours < 16) period = 'hours.afternoon';
+  else if (hours >= 16 && hours < 20) period = 'hours.evening';
+
+  const clock = `${hours % 12 || 12}${rest ? `:${String(rest).padStart(2, '0')}` : ''}`;
+  return t(period, { clock: localizeDigits(clock) });
+};
+
+export const formatRanges = (ranges: TimeRange[]): string => {
+  if (ranges.length === 0) return t('hours.closed');
+  if (ranges.some(isAllDay)) return t('hours.allDay');
+  return ranges.map(r => t('hours.range', { open: formatTime(r.open), close: formatTime(r.close) })).join(', ');
+};
+
+const rangesForDay = (schedule: OpeningSchedule, day: number): TimeRange[] =>
+  schedule.weeklyClosedDay === day ? [] : schedule.days[day] || [];
+
+export const findException = (schedule: OpeningSchedule, date: Date): ScheduleException | undefined => {
+  const key = dateKey(date);
+  return schedule.exceptions?.find(e => e.date === key);
+};
+
+/** Ranges that apply on a given calendar date, holiday exceptions included. */
+export const rangesForDate = (schedule: OpeningSchedule, date: Date): TimeRange[] => {
+  const exception = findException(schedule, date);
+  return exception ? exception.ranges : rangesForDay(schedule, date.getDay());
+};
+
+/**
+ * One-line summary, e.g. "सकाळी १० ते रात्री ९ (रविवार बंद)". Falls back to
+ * a per-day list when the days differ.
+ */
+export const formatSchedule = (schedule: OpeningSchedule): string => {
+  const days = Array.from({ length: DAYS_IN_WEEK }, (_, day) => day);
+  const perDay = days.map(day => rangesForDay(schedule, day));
+  const openTexts = perDay.filter(ranges => ranges.length > 0).map(formatRanges);
+  const closedDays = days.filter(day => perDay[day].length === 0).map(dayName);
+
+  if (openTexts.length === 0) return t('hours.closed');
+  if (openTexts.every(text => text === openTexts[0])) {
+    return closedDays.length > 0 ? t('hours.withClosedDays', { hours: openTexts[0], days: closedDays.join(', ') }) : openTexts[0];
+  }
+  return days.map(day => `${dayName(day)}: ${formatRanges(perDay[day])}`).join('; ');
+};
+
+// ============================================
+// Open / closed status
+// ============================================
+
+export type OpenStatus =
+  | { state: 'open'; closesAt?: string } // closesAt is missing when open round the clock
+  | { state: 'closed'; opensAt?: { dayOffset: number; day: number; time: string } };
+
+export const getOpenStatus = (schedule: OpeningSchedule, now: Date = new Date()): OpenStatus => {
+  const current = now.getHours() * 60 + now.getMinutes();
+  const today = rangesForDate(schedule, now);
+
+  if (today.some(isAllDay)) return { state: 'open' };
+
+  for (const range of today) {
+    const open = toMinutes(range.open);
+    const close = toMinutes(range.close);
+    if (isOvernight(range) ? current >= open : current >= open && current < close) {
+      return { state: 'open', closesAt: range.close };
+    }
+  }
+
+  // Still inside last night's range that runs past midnight
+  const yesterday = new Date(now);
+  yesterday.setDate(now.getDate() - 1);
+  const carryOver = rangesForDate(schedule, yesterday).find(r => isOvernight(r) && current < toMinutes(r.close));
+  if (carryOver) return { state: 'open', closesAt: carryOver.close };
+
+  for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+    const date = new Date(now);
+    date.setDate(now.getDate() + dayOffset);
+    const opens = rangesForDate(schedule, date)
+      .map(r => toMinutes(r.open))
+      .filter(open => dayOffset > 0 || open > current)
+      .sort((a, b) => a - b);
+    if (opens.length > 0) {
+      return { state: 'closed', opensAt: { dayOffset, day: date.getDay(), time: toTime(opens[0]) } };
+    }
+  }
+
+  return { state: 'closed' };
+};
+
+export const isOpenNow = (business: Business, now: Date = new Date()): boolean => {
+  const schedule = getBusinessSchedule(business);
+  return !!schedule && getOpenStatus(schedule, now).state === 'open';
+};
+
+export const describeOpenStatus = (status: OpenStatus): string => {
+  if (status.state === 'open') {
+    return status.closesAt ? t('hours.openUntil', { time: formatTime(status.closesAt) }) : t('hours.openAllDay');
+  }
+  if (!status.opensAt) return t('hours.closed');
+
+  const { dayOffset, day, time } = status.opensAt;
+  const opens = formatTime(time);
+  if (dayOffset === 0) return t('hours.opensToday', { time: opens });
+  if (dayOffset === 1) return t('hours.opensTomorrow', { time: opens });
+  return t('hours.opensOn', { day: dayName(day), time: opens });
+};
+
+// ============================================
+// Free-text parser
+// ============================================
+
+// Longest spellings first so "सोमवार" wins over "सोम"
+const DAY_ALIASES: string[][] = [
+  ['रविवार', 'रवि', 'sunday', 'sun'],
+  ['सोमवार', 'सोम', 'monday', 'mon'],
+  ['मंगळवार', 'मंगलवार', 'मंगळ', 'tuesday', 'tue'],
+  ['बुधवार', 'बुध', 'wednesday', 'wed'],
+  ['गुरुवार', 'गुरूवार', 'गुरु', 'thursday', 'thu'],
+  ['शुक्रवार', 'शुक्र', 'friday', 'fri'],
+  ['शनिवार', 'शनि', 'saturday', 'sat'],
+];
+
+const DAY_PATTERN = `(${DAY_ALIASES.flat().sort((a, b) => b.length - a.length).join('|')})`;
+
+const dayIndex = (word: string): number =>
+  DAY_ALIASES.findIndex(aliases => aliases.includes(word.toLowerCase()));
+
+const CLOSED_WORDS = '(?:बंद|सुट्टी|सुटी|closed|off|holiday)';
+
+const CLOSED_DAY_PATTERNS = [
+  new RegExp(`${DAY_PATTERN}\\s*(?:ी|ला|रोजी)?\\s*(?:साप्ताहिक\\s*)?${CLOSED_WORDS}`, 'gi'),
+  new RegExp(`(?:साप्ताहिक\\s*)?${CLOSED_WORDS}\\s*[:-]?\\s*${DAY_PATTERN}`, 'gi'),
+];
+
+const DAY_RANGE_PATTERN = new RegExp(`${DAY_PATTERN}\\s*(?:ते|to|-|–)\\s*${DAY_PATTERN}`, 'gi');
+
+const PERIOD = '(पहाटे|सकाळी|सकाळ|दुपारी|दुपार|संध्याकाळी|सायंकाळी|संध्याकाळ|रात्री|रात्र)?';
+const TIME = `${PERIOD}\\s*(\\d{1,2})(?:[:.](\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)?`;
+const TIME_RANGE_PATTERN = new RegExp(
+  `${TIME}\\s*(?:वाजल्या|वाजे|वाजता|वा\\.)?\\s*(?:पासून|ते|to|-|–|—)\\s*${TIME}`,
+  'gi'
+);
+
+const ALL_DAY_PATTERN = /24\s*(?:तास|hours|hrs|x\s*7|\/\s*7)/i;
+
+/** Hour of day (0–24) for a clock reading such as "संध्याकाळी 7" or "7 pm". */
+const toHour = (hour: number, period: string | undefined, meridiem: string | undefined): number | null => {
+  if (hour > 24) return null;
+  const ampm = meridiem?.toLowerCase().replace(/\./g, '');
+  if (ampm === 'pm') return hour < 12 ? hour + 12 : hour;
+  if (ampm === 'am') return hour === 12 ? 0 : hour;
+
+  switch (period) {
+    case 'दुपारी':
+    case 'दुपार':
+      return hour >= 1 && hour <= 6 ? hour + 12 : hour;
+    case 'संध्याकाळी':
+    case 'सायंकाळी':
+    case 'संध्याकाळ':
+      return hour < 12 ? hour + 12 : hour;
+    case 'रात्री':
+    case 'रात्र':
+      if (hour === 12) return 24;
+      return hour <= 4 ? hour : hour < 12 ? hour + 12 : hour;
+    default:
+      return hour;
+  }
+};
+
+const parseTimeRange = (match: RegExpExecArray): TimeRange | null => {
+  const [, openPeriod, openHour, openMinute, openMeridiem, closePeriod, closeHour, closeMinute, closeMeridiem] = match;
+
+  const open = toHour(Number(openHour), openPeriod, openMeridiem);
+  let close = toHour(Number(closeHour), closePeriod, closeMeridiem);
+  if (open === null || close === null) return null;
+
+  let openMinutes = (open % 24) * 60 + Number(openMinute || 0);
+  let closeMinutes = close * 60 + Number(closeMinute || 0);
+
+  // "१० ते ७" with no period: the closing time is in the evening
+  if (!closePeriod && !closeMeridiem && closeMinutes <= openMinutes && close < 12) {
+    closeMinutes += 12 * 60;
+  }
+  if (closeMinutes > 24 * 60) closeMinutes -= 24 * 60;
+  if (closeMinutes === openMinutes) return null;
+
+  return { open: toTime(openMinutes), close: toTime(closeMinutes) };
+};
+
+/**
+ * Best-effort conversion of the free-text openingHours into a schedule.
+ * Understands Devanagari or ASCII digits, Marathi day parts (सकाळी, दुपारी,
+ * संध्याकाळी, रात्री) or am/pm, several ranges ("सकाळी ९ ते १, संध्याकाळी
+ * ४ ते ९"), day-specific parts ("रविवार सकाळी ९ ते १२"), a weekly closed
+ * day ("रविवार बंद") and "२४ तास". Returns null when no time can be found.
+ */
+export const parseOpeningHours = (text?: string | null): OpeningSchedule | null => {
+  if (!text) return null;
+
+  let rest = toAsciiDigits(text).toLowerCase();
+  let weeklyClosedDay: number | undefined;
+
+  for (const pattern of CLOSED_DAY_PATTERNS) {
+    rest = rest.replace(pattern, (_match, day) => {
+      weeklyClosedDay = dayIndex(day);
+      return ' ';
+    });
+  }
+
+  let defaultRanges: TimeRange[] = [];
+  const dayRanges = new Map<number, TimeRange[]>();
+
+  if (ALL_DAY_PATTERN.test(rest)) {
+    defaultRanges = [{ open: '00:00', close: '24:00' }];
+  } else {
+    for (const segment of rest.split(/[;\n]|,(?=\s*\D)/)) {
+      const ranges: TimeRange[] = [];
+      TIME_RANGE_PATTERN.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = TIME_RANGE_PATTERN.exec(segment))) {
+        const range = parseTimeRange(match);
+        if (range) ranges.push(range);
+      }
+      if (ranges.length === 0) continue;
+
+      const days = new Set<number>();
+      const withoutDayRanges = segment.replace(DAY_RANGE_PATTERN, (_match, from, to) => {
+        const start = dayIndex(from);
+        const end = dayIndex(to);
+        for (let day = start; ; day = (day + 1) % 7) {
+          days.add(day);
+          if (day === end) break;
+        }
+        return ' ';
+      });
+      for (const [day] of withoutDayRanges.matchAll(new RegExp(DAY_PATTERN, 'gi'))) {
+        days.add(dayIndex(day));
+      }
+
+      if (days.size === 0) {
+        defaultRanges.push(...ranges);
+      } else {
+        days.forEach(day => dayRanges.set(day, [...(dayRanges.get(day) || []), ...ranges]));
+      }
+    }
+  }
+
+  if (defaultRanges.length === 0 && dayRanges.size === 0) return null;
+
+  const schedule: OpeningSchedule = {
+    days: Array.from({ length: DAYS_IN_WEEK }, (_, day) => (dayRanges.get(day) || defaultRanges).map(range => ({ ...range }))),
+  };
+  if (weeklyClosedDay !== undefined) schedule.weeklyClosedDay = weeklyClosedDay;
+  return schedule;
+};
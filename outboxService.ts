@@ -0,0 +1,273 @@
+import { Business } from './types';
+import * as CacheService from './cacheService';
+import { OutboxEntry, OutboxOperation } from './cacheService';
+import * as SupabaseService from './supabaseClient';
+
+// ============================================
+// Offline Admin Write Queue
+// ============================================
+// Every admin write goes through the outbox: it is stored in IndexedDB,
+// applied to the local cache straight away, and replayed against Supabase
+// when a connection is available.
+
+const LOCAL_ID_PREFIX = 'local-';
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<OutboxListener>();
+let replayInFlight: Promise<void> | null = null;
+
+export const isLocalId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+const createLocalId = (): string =>
+  `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Supabase reports a dropped connection as a fetch TypeError message
+const isNetworkError = (error: any): boolean => {
+  if (!CacheService.isOnline()) return true;
+  const message = String(error?.message || error || '');
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
+
+async function notifyListeners(): Promise<void> {
+  const entries = await CacheService.getOutboxEntries();
+  listeners.forEach(listener => listener(entries));
+}
+
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  CacheService.getOutboxEntries().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function queue(operation: OutboxOperation, business: Business): Promise<number> {
+  const now = Date.now();
+  return await CacheService.addOutboxEntry({
+    operation,
+    businessId: business.id,
+    business: operation === 'delete' ? undefined : business,
+    shopName: business.shopName,
+    status: 'pending',
+    created_at: now,
+    updated_at: now,
+  });
+}
+
+async function findPendingAdd(businessId: string): Promise<OutboxEntry | undefined> {
+  const entries = await CacheService.getOutboxEntries();
+  return entries.find(e => e.operation === 'add' && e.status !== 'synced' && e.businessId === businessId);
+}
+
+async function findPendingUpdate(businessId: string): Promise<OutboxEntry | undefined> {
+  const entries = await CacheService.getOutboxEntries();
+  return entries.find(e => e.operation === 'update' && e.status === 'pending' && e.businessId === businessId);
+}
+
+// ============================================
+// Queueing (optimistic local apply)
+// ============================================
+
+/**
+ * Queue an add or update and apply it to the local cache immediately.
+ * Returns the outbox entry after an immediate send was attempted, so the
+ * caller can tell whether it is still pending, was sent, or failed.
+ */
+export async function saveBusiness(business: Business): Promise<OutboxEntry | undefined> {
+  if (!business.id) {
+    const localBusiness = { ...business, id: createLocalId() };
+    const entryId = await queue('add', localBusiness);
+    await CacheService.updateCachedBusiness(localBusiness);
+    return await afterQueue(entryId);
+  }
+
+  // Editing a business whose add or earlier edit is still unsent: fold the
+  // edit into that entry so it is checked against the same server version
+  const unsent = isLocalId(business.id)
+    ? await findPendingAdd(business.id)
+    : await findPendingUpdate(business.id);
+  let entryId: number;
+  if (unsent && unsent.id !== undefined) {
+    entryId = unsent.id;
+    await CacheService.putOutboxEntry({
+      ...unsent,
+      business,
+      shopName: business.shopName,
+      status: 'pending',
+      error: undefined,
+      conflict: undefined,
+    });
+  } else {
+    entryId = await queue('update', business);
+  }
+
+  await CacheService.updateCachedBusiness(business);
+  return await afterQueue(entryId);
+}
+
+/**
+ * Queue re-inserting a deleted business under its original id, so its
+ * audit history stays attached.
+ */
+export async function restoreBusiness(business: Business): Promise<OutboxEntry | undefined> {
+  const restored = { ...business, updatedAt: undefined };
+  const entryId = await queue('add', restored);
+  await CacheService.updateCachedBusiness(restored);
+  return await afterQueue(entryId);
+}
+
+/**
+ * Queue a delete and remove the business from the local cache immediately.
+ * Returns the outbox entry, or undefined when an unsent add was just dropped.
+ */
+export async function deleteBusiness(business: Business): Promise<OutboxEntry | undefined> {
+  await CacheService.deleteCachedBusiness(business.id);
+
+  // Deleting a business that was never sent: just drop its add
+  const pendingAdd = isLocalId(business.id) ? await findPendingAdd(business.id) : undefined;
+  if (pendingAdd && pendingAdd.id !== undefined) {
+    await CacheService.deleteOutboxEntry(pendingAdd.id);
+    await notifyListeners();
+    return undefined;
+  }
+
+  return await afterQueue(await queue('delete', business));
+}
+
+async function afterQueue(entryId: number): Promise<OutboxEntry | undefined> {
+  await notifyListeners();
+
+  if (CacheService.isOnline()) {
+    await replayOutbox();
+  } else {
+    await CacheService.registerBackgroundSync();
+  }
+
+  return (await CacheService.getOutboxEntries()).find(e => e.id === entryId);
+}
+
+// ============================================
+// Replay
+// ============================================
+
+async function replayEntry(entry: OutboxEntry): Promise<void> {
+  switch (entry.operation) {
+    case 'add': {
+      // Local placeholder ids are dropped so the database assigns a real one
+      const id = isLocalId(entry.businessId) ? '' : entry.businessId;
+      const saved = await SupabaseService.addBusiness({ ...entry.business!, id });
+      await CacheService.deleteCachedBusiness(entry.businessId);
+      await CacheService.updateCachedBusiness(saved);
+      break;
+    }
+    case 'update': {
+      const saved = await SupabaseService.updateBusiness(entry.business!);
+      await CacheService.updateCachedBusiness(saved);
+      break;
+    }
+    case 'delete':
+      await SupabaseService.deleteBusiness(entry.businessId);
+      break;
+  }
+}
+
+async function runReplay(): Promise<void> {
+  const entries = (await CacheService.getOutboxEntries()).filter(e => e.status === 'pending');
+  if (entries.length === 0) return;
+
+  console.log(`📤 Replaying ${entries.length} queued admin changes...`);
+
+  for (const entry of entries) {
+    try {
+      await replayEntry(entry);
+      await CacheService.putOutboxEntry({ ...entry, status: 'synced', error: undefined });
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        // Connection dropped again - keep the rest pending for the next attempt
+        console.log('📴 Replay interrupted, will retry when online');
+        await CacheService.registerBackgroundSync();
+        break;
+      }
+      console.error('Outbox replay error:', error);
+      await CacheService.putOutboxEntry({
+        ...entry,
+        status: 'failed',
+        error: error?.message || String(error),
+        conflict: error instanceof SupabaseService.BusinessConflictError
+          ? { server: error.serverBusiness }
+          : undefined,
+      });
+    }
+    await notifyListeners();
+  }
+}
+
+/**
+ * Send all pending outbox entries in the order they were queued.
+ * Concurrent calls share the same run.
+ */
+export function replayOutbox(): Promise<void> {
+  if (!replayInFlight) {
+    replayInFlight = runReplay().finally(() => {
+      replayInFlight = null;
+    });
+  }
+  return replayInFlight;
+}
+
+export async function retryOutboxEntry(entry: OutboxEntry): Promise<void> {
+  if (entry.id === undefined) return;
+  await CacheService.putOutboxEntry({ ...entry, status: 'pending', error: undefined, conflict: undefined });
+  await afterQueue(entry.id);
+}
+
+/**
+ * Drop an entry that will not be sent. The optimistic local change is undone
+ * for adds; for edits and deletes the next load does a full sync instead.
+ */
+export async function discardOutboxEntry(entry: OutboxEntry): Promise<void> {
+  if (entry.id === undefined) return;
+  await CacheService.deleteOutboxEntry(entry.id);
+
+  if (entry.status !== 'synced') {
+    if (entry.operation === 'add') {
+      await CacheService.deleteCachedBusiness(entry.businessId);
+    } else {
+      await CacheService.setMetadata('data_version', null);
+    }
+  }
+
+  await notifyListeners();
+}
+
+/**
+ * Replace a conflicted entry with the admin's merged version. The merged
+ * business carries the server's updated_at so it is checked against that.
+ */
+export async function resolveConflict(entry: OutboxEntry, merged: Business): Promise<OutboxEntry | undefined> {
+  if (entry.id !== undefined) {
+    await CacheService.deleteOutboxEntry(entry.id);
+  }
+  return await saveBusiness(merged);
+}
+
+/**
+ * Put the server's copy back in the local cache when the admin leaves a
+ * conflict for later. The rejected edit stays in its failed entry, so it can
+ * still be merged from the outbox panel.
+ */
+export async function showServerVersion(entry: OutboxEntry): Promise<void> {
+  const server = entry.conflict?.server;
+  if (server) {
+    await CacheService.updateCachedBusiness(SupabaseService.dbBusinessToBusiness(server));
+  } else {
+    // Deleted on the server meanwhile
+    await CacheService.deleteCachedBusiness(entry.businessId);
+  }
+}
+
+export async function clearSyncedEntries(): Promise<void> {
+  await CacheService.clearSyncedOutboxEntries();
+  await notifyListeners();
+}
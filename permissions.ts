@@ -0,0 +1,77 @@
+import { Category } from './types';
+import { AdminProfile, AdminRole } from './supabaseClient';
+import { MessageKey, t } from './i18n';
+
+// ============================================
+// Admin Roles and Permissions
+// ============================================
+// Mirrors public.admin_can() in the database (see supabase/migrations), which
+// is what actually enforces these rules; the checks here keep the UI and
+// the service functions from offering or attempting what would be refused.
+
+export type Permission =
+  | 'business.add'
+  | 'business.edit'
+  | 'business.delete'
+  | 'business.import'
+  | 'categories.manage'
+  | 'submissions.review'
+  | 'reviews.moderate'
+  | 'audit.view'
+  | 'analytics.view'
+  | 'maintenance'
+  | 'admins.manage';
+
+export const ADMIN_ROLES: Array<{ role: AdminRole; labelKey: MessageKey; descriptionKey: MessageKey }> = [
+  { role: 'super_admin', labelKey: 'role.superAdmin', descriptionKey: 'role.superAdminInfo' },
+  { role: 'editor', labelKey: 'role.editor', descriptionKey: 'role.editorInfo' },
+  { role: 'category_moderator', labelKey: 'role.categoryModerator', descriptionKey: 'role.categoryModeratorInfo' },
+  { role: 'viewer', labelKey: 'role.viewer', descriptionKey: 'role.viewerInfo' },
+];
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  super_admin: ['business.add', 'business.edit', 'business.delete', 'business.import', 'categories.manage', 'submissions.review', 'reviews.moderate', 'audit.view', 'analytics.view', 'maintenance', 'admins.manage'],
+  editor: ['business.edit', 'submissions.review', 'reviews.moderate', 'audit.view', 'analytics.view'],
+  category_moderator: ['business.add', 'business.edit', 'business.delete', 'submissions.review', 'reviews.moderate', 'audit.view', 'analytics.view'],
+  viewer: ['audit.view', 'analytics.view'],
+};
+
+// What a category moderator may only do inside their own categories
+const CATEGORY_SCOPED = new Set<Permission>(['business.add', 'business.edit', 'business.delete', 'submissions.review', 'reviews.moderate']);
+
+export class PermissionError extends Error {
+  permission: Permission;
+
+  constructor(permission: Permission) {
+    super(t('role.notAllowed'));
+    this.name = 'PermissionError';
+    this.permission = permission;
+  }
+}
+
+export const roleLabel = (role: AdminRole): string => {
+  const entry = ADMIN_ROLES.find(r => r.role === role);
+  return entry ? t(entry.labelKey) : role;
+};
+
+/**
+ * Whether the admin may do something. With a categoryId, a category
+ * moderator must have that category; without one, the question is whether
+ * they may do it anywhere at all.
+ */
+export const can = (admin: AdminProfile | null, permission: Permission, categoryId?: string): boolean => {
+  if (!admin) return false;
+  if (!ROLE_PERMISSIONS[admin.role]?.includes(permission)) return false;
+  if (admin.role !== 'category_moderator' || categoryId === undefined || !CATEGORY_SCOPED.has(permission)) return true;
+  return (admin.category_ids || []).includes(categoryId);
+};
+
+export const assertCan = (admin: AdminProfile | null, permission: Permission, categoryId?: string): void => {
+  if (!can(admin, permission, categoryId)) throw new PermissionError(permission);
+};
+
+/** The categories an admin may file businesses under. */
+export const allowedCategories = (admin: AdminProfile | null, categories: Category[]): Category[] =>
+  admin?.role === 'category_moderator'
+    ? categories.filter(c => (admin.category_ids || []).includes(c.id))
+    : categories;
@@ -0,0 +1,165 @@
+import type { BusinessNote, FavoriteRecord, PersonalData, RecentRecord } from './cacheService';
+import { MessageKey, t } from './i18n';
+
+// ============================================
+// Personal Data Backup
+// ============================================
+// Favourites, notes and recently viewed live only in this browser's
+// IndexedDB. A backup bundle carries them to another phone, either as a
+// JSON file or as a sequence of QR codes scanned with the new phone's
+// camera. No account is involved.
+
+const BACKUP_FORMAT = 'jawala-personal-backup';
+// The first cacheService DB_VERSION that had the personal stores
+const FIRST_BACKUP_VERSION = 4;
+
+export interface PersonalBackup extends PersonalData {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number; // cacheService DB_VERSION of the exporting app
+  exportedAt: string;
+}
+
+export type BackupErrorCode = 'invalid' | 'newer-version' | 'camera-unavailable';
+
+const BACKUP_ERROR_MESSAGES: Record<BackupErrorCode, MessageKey> = {
+  'invalid': 'backup.invalid',
+  'newer-version': 'backup.newerVersion',
+  'camera-unavailable': 'backup.cameraUnavailable',
+};
+
+export class BackupError extends Error {
+  code: BackupErrorCode;
+
+  constructor(code: BackupErrorCode) {
+    super(t(BACKUP_ERROR_MESSAGES[code]));
+    this.name = 'BackupError';
+    this.code = code;
+  }
+}
+
+export const createBackup = async (): Promise<PersonalBackup> => {
+  const CacheService = await import('./cacheService');
+  const data = await CacheService.getPersonalData();
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: CacheService.DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data,
+  };
+};
+
+export const serializeBackup = (backup: PersonalBackup): string => JSON.stringify(backup);
+
+export const backupFileName = (): string =>
+  `jawala-backup-${new Date().toISOString().slice(0, 10)}.json`;
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isTime = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Malformed entries are dropped rather than failing the whole backup
+const readList = <T>(value: unknown, isValid: (item: any) => boolean): T[] =>
+  Array.isArray(value) ? value.filter(item => item && typeof item === 'object' && isValid(item)) : [];
+
+/** Parse and check a backup from a file or joined QR codes. */
+export const parseBackup = async (text: string): Promise<PersonalBackup> => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError('invalid');
+  }
+  if (!raw || raw.format !== BACKUP_FORMAT || !Number.isInteger(raw.schemaVersion) || raw.schemaVersion < FIRST_BACKUP_VERSION) {
+    throw new BackupError('invalid');
+  }
+
+  const { DB_VERSION } = await import('./cacheService');
+  if (raw.schemaVersion > DB_VERSION) throw new BackupError('newer-version');
+
+  // Bundles from older schema versions would be upgraded here once the
+  // personal stores change shape.
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: raw.schemaVersion,
+    exportedAt: isString(raw.exportedAt) ? raw.exportedAt : '',
+    favorites: readList<FavoriteRecord>(raw.favorites, f => isString(f.businessId) && isTime(f.added_at)),
+    recents: readList<RecentRecord>(raw.recents, r => isString(r.businessId) && isTime(r.viewed_at)),
+    notes: readList<BusinessNote>(raw.notes, n => isString(n.businessId) && isString(n.text) && isTime(n.updated_at)),
+  };
+};
+
+export const restoreBackup = async (backup: PersonalBackup, mode: 'merge' | 'replace'): Promise<void> => {
+  const CacheService = await import('./cacheService');
+  const { favorites, recents, notes } = backup;
+  await CacheService.importPersonalData({ favorites, recents, notes }, mode);
+};
+
+// ============================================
+// QR Code Transfer
+// ============================================
+// The bundle is base64-encoded (so Marathi text survives any split point)
+// and cut into pieces small enough for a phone camera to read off another
+// phone's screen. Each code reads "JBK1:<backup id>:<n>:<total>:<piece>",
+// so pieces can be scanned in any order and stray codes from an older
+// backup are ignored.
+
+const QR_PREFIX = 'JBK1';
+const QR_CHUNK_SIZE = 600;
+
+export interface QrChunk {
+  backupId: string;
+  index: number;
+  total: number;
+  data: string;
+}
+
+const toBase64 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+
+export const toQrTexts = (backup: PersonalBackup): string[] => {
+  const encoded = toBase64(serializeBackup(backup));
+  const backupId = Math.random().toString(36).slice(2, 8);
+  const total = Math.max(1, Math.ceil(encoded.length / QR_CHUNK_SIZE));
+  return Array.from({ length: total }, (_, i) =>
+    `${QR_PREFIX}:${backupId}:${i + 1}:${total}:${encoded.slice(i * QR_CHUNK_SIZE, (i + 1) * QR_CHUNK_SIZE)}`
+  );
+};
+
+/** Returns null for QR codes that are not part of a backup. */
+export const parseQrText = (text: string): QrChunk | null => {
+  const match = text.match(/^JBK1:([a-z0-9]+):(\d+):(\d+):([A-Za-z0-9+/=]*)$/);
+  if (!match) return null;
+  const index = Number(match[2]);
+  const total = Number(match[3]);
+  if (index < 1 || index > total) return null;
+  return { backupId: match[1], index, total, data: match[4] };
+};
+
+/** Join a complete set of pieces (keyed by index) back into backup text. */
+export const joinQrChunks = (chunks: Map<number, QrChunk>): string => {
+  const ordered = [...chunks.values()].sort((a, b) => a.index - b.index);
+  try {
+    return fromBase64(ordered.map(c => c.data).join(''));
+  } catch {
+    throw new BackupError('invalid');
+  }
+};
+
+export const renderQrCode = async (text: string): Promise<string> => {
+  const QRCode = await import('qrcode');
+  return QRCode.toDataURL(text, { errorCorrectionLevel: 'L', margin: 2, width: 320 });
+};
+
+/** Look for a QR code in one camera frame. */
+export const decodeQrFrame = async (frame: ImageData): Promise<string | null> => {
+  const { default: jsQR } = await import('jsqr');
+  return jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' })?.data ?? null;
+};
@@ -0,0 +1,185 @@
+import { Business, BusinessContact, ContactKind } from './types';
+import { toAsciiDigits } from './searchIndex';
+import { MessageKey, t } from './i18n';
+
+// ============================================
+// Phone Numbers
+// ============================================
+// The one place that reads, checks and prints phone numbers. Numbers are
+// stored in E.164 ("+919876543210"); anything a person typed goes through
+// parsePhoneNumber first. Indian numbers are 10 digits after +91: mobiles
+// start with 6–9, landlines are the STD code (without its 0) plus the
+// subscriber number.
+
+export const COUNTRY_CODE = '91';
+export const MAX_CONTACTS = 5;
+
+export const CONTACT_KINDS: Array<{ kind: ContactKind; labelKey: MessageKey; icon: string }> = [
+  { kind: 'mobile', labelKey: 'phone.mobile', icon: 'fas fa-mobile-screen' },
+  { kind: 'landline', labelKey: 'phone.landline', icon: 'fas fa-phone' },
+  { kind: 'whatsapp', labelKey: 'phone.whatsappOnly', icon: 'fab fa-whatsapp' },
+];
+
+export const contactKindLabel = (kind: ContactKind): string => {
+  const entry = CONTACT_KINDS.find(k => k.kind === kind);
+  return entry ? t(entry.labelKey) : kind;
+};
+
+export type PhoneParseResult =
+  | { ok: true; number: string; error?: never }
+  | { ok: false; number?: never; error: string }; // in the interface language, ready to show under the input
+
+const fail = (error: string): PhoneParseResult => ({ ok: false, error });
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Read a typed number into E.164. Accepts spaces, dashes, brackets,
+ * Devanagari digits, a leading 0 (trunk prefix), 91, +91 or 00 followed by
+ * another country code. Without a kind any well-formed Indian number passes;
+ * with one, mobiles must be mobiles and landlines must carry their STD code.
+ */
+export const parsePhoneNumber = (input: string, kind?: ContactKind): PhoneParseResult => {
+  const text = toAsciiDigits(input || '').trim();
+  if (!text) return fail(t('phone.empty'));
+  if (/[^\d\s+\-().\/]/.test(text)) return fail(t('phone.digitsOnly'));
+  if (text.lastIndexOf('+') > 0) return fail(t('phone.plusAtStart'));
+
+  let digits = text.replace(/\D/g, '');
+  let international = text.startsWith('+');
+  if (!international && digits.startsWith('00')) {
+    digits = digits.slice(2);
+    international = true;
+  }
+
+  let national: string;
+  if (international) {
+    if (!digits.startsWith(COUNTRY_CODE)) {
+      // Foreign numbers are only checked for shape
+      const number = `+${digits}`;
+      return E164_PATTERN.test(number) ? { ok: true, number } : fail(t('phone.internationalIncomplete'));
+    }
+    national = digits.slice(COUNTRY_CODE.length);
+  } else if (digits.length === 12 && digits.startsWith(COUNTRY_CODE)) {
+    national = digits.slice(COUNTRY_CODE.length);
+  } else if (digits.length === 11 && digits.startsWith('0')) {
+    national = digits.slice(1);
+  } else {
+    national = digits;
+  }
+
+  if (kind === 'landline' && national.length >= 6 && national.length <= 8) {
+    return fail(t('phone.needStdCode'));
+  }
+  if (national.length !== 10) return fail(t('phone.wrongLength', { count: national.length }));
+  if (/^(\d)\1{9}$/.test(national)) return fail(t('phone.allSame'));
+  if (national.startsWith('0')) return fail(t('phone.leadingZero'));
+
+  const isMobile = /^[6-9]/.test(national);
+  // WhatsApp Business also runs on landlines, so WhatsApp-only numbers may be either
+  if (kind === 'mobile' && !isMobile) {
+    return fail(t('phone.notMobile'));
+  }
+  if (kind === 'landline' && national.startsWith('9')) {
+    return fail(t('phone.looksMobile'));
+  }
+
+  return { ok: true, number: `+${COUNTRY_CODE}${national}` };
+};
+
+/** E.164 for anything parseable, otherwise null. */
+export const toE164 = (value: string): string | null => {
+  const result = parsePhoneNumber(value);
+  return result.ok ? result.number : null;
+};
+
+/** A key for spotting the same number written two ways. */
+export const phoneKey = (value?: string): string =>
+  toE164(value || '') || toAsciiDigits(value || '').replace(/\D/g, '');
+
+/** "+91 98765 43210"; numbers that don't parse are shown as entered. */
+export const formatPhoneNumber = (value: string): string => {
+  const number = toE164(value);
+  if (!number) return value;
+  if (!number.startsWith(`+${COUNTRY_CODE}`)) return number;
+  const national = number.slice(COUNTRY_CODE.length + 1);
+  return `+${COUNTRY_CODE} ${national.slice(0, 5)} ${national.slice(5)}`;
+};
+
+export const toTelHref = (value: string): string =>
+  `tel:${toE164(value) || value.replace(/[^\d+]/g, '')}`;
+
+/** wa.me link, or null when the number can't be read. */
+export const toWhatsAppUrl = (value: string, message?: string): string | null => {
+  const number = toE164(value);
+  if (!number) return null;
+  return `https://wa.me/${number.slice(1)}${message ? `?text=${encodeURIComponent(message)}` : ''}`;
+};
+
+// ============================================
+// Business Contacts
+// ============================================
+
+/** Mobile-looking numbers are taken as mobiles, everything else as landlines. */
+export const guessContactKind = (value: string): ContactKind => {
+  const number = toE164(value);
+  return !number || /^\+91[6-9]/.test(number) || !number.startsWith(`+${COUNTRY_CODE}`) ? 'mobile' : 'landline';
+};
+
+/**
+ * The business's numbers in display order. Rows saved before numbers were
+ * labelled only have contactNumber, which becomes a single entry.
+ */
+export const businessContacts = (business: Business): BusinessContact[] => {
+  if (business.contacts && business.contacts.length > 0) return business.contacts;
+  if (!business.contactNumber?.trim()) return [];
+  return [{ kind: guessContactKind(business.contactNumber), number: toE164(business.contactNumber) || business.contactNumber }];
+};
+
+export const canCall = (contact: BusinessContact): boolean => contact.kind !== 'whatsapp';
+export const canWhatsApp = (contact: BusinessContact): boolean => contact.kind !== 'landline';
+
+/** The number calls go to: the first one that takes calls. Mirrors sync_business_contacts(). */
+export const primaryContactNumber = (contacts: BusinessContact[]): string =>
+  (contacts.find(canCall) || contacts[0])?.number || '';
+
+export const callContact = (business: Business): BusinessContact | undefined =>
+  businessContacts(business).find(canCall);
+
+/** A WhatsApp-only number wins over a mobile that also takes chats. */
+export const whatsAppContact = (business: Business): BusinessContact | undefined => {
+  const contacts = businessContacts(business);
+  return contacts.find(c => c.kind === 'whatsapp') || contacts.find(canWhatsApp);
+};
+
+/**
+ * Put a new primary number in place of the old one, keeping the other
+ * numbers. Used when a correction only suggests contact_number.
+ */
+export const replacePrimaryContact = (contacts: BusinessContact[], value: string): BusinessContact[] => {
+  const number = toE164(value) || value;
+  const primary = primaryContactNumber(contacts);
+  if (!primary) return [{ kind: guessContactKind(number), number }];
+  return contacts.map(c => (c.number === primary ? { ...c, number, kind: canCall(c) ? guessContactKind(number) : c.kind } : c));
+};
+
+export interface ContactsCheck {
+  contacts: BusinessContact[];     // Valid rows, numbers in E.164
+  errors: Array<string | null>;    // One per input row
+}
+
+/** Validate the rows of the contact editor; repeats of a number are errors too. */
+export const checkContacts = (rows: BusinessContact[]): ContactsCheck => {
+  const seen = new Set<string>();
+  const contacts: BusinessContact[] = [];
+  const errors = rows.map(row => {
+    const result = parsePhoneNumber(row.number, row.kind);
+    if (!result.ok) return result.error;
+    if (seen.has(result.number)) return t('phone.duplicate');
+    seen.add(result.number);
+    const label = row.label?.trim();
+    contacts.push({ kind: row.kind, number: result.number, ...(label ? { label } : {}) });
+    return null;
+  });
+  return { contacts, errors };
+};
@@ -0,0 +1,213 @@
+import { Business, BusinessPhoto, PhotoKind } from './types';
+import { supabase, getActiveAdmin } from './supabaseClient';
+import { PermissionError, can } from './permissions';
+import { MessageKey, t } from './i18n';
+
+// ============================================
+// Business Photos
+// ============================================
+// Images are resized and re-encoded in the browser, so a 5 MB phone photo
+// goes up as a ~200 KB JPEG plus a small square thumbnail. In production
+// they land in Supabase Storage; with PHOTO_STORAGE=local (development)
+// they are kept inline as data URLs and nothing is uploaded.
+
+const PHOTO_CONFIG = {
+  storage: process.env.PHOTO_STORAGE || 'supabase',
+  bucket: process.env.PHOTO_BUCKET || 'business-photos',
+};
+
+const FULL_MAX_SIZE = 1280;  // Longest side, px
+const THUMB_SIZE = 240;      // Square, px
+const FULL_QUALITY = 0.8;
+const THUMB_QUALITY = 0.7;
+const MAX_INPUT_BYTES = 20 * 1024 * 1024;
+export const MAX_PHOTOS = 8;
+
+export const PHOTO_KINDS: Array<{ kind: PhotoKind; labelKey: MessageKey }> = [
+  { kind: 'shopfront', labelKey: 'photo.shopfront' },
+  { kind: 'product', labelKey: 'photo.product' },
+  { kind: 'ratecard', labelKey: 'photo.ratecard' },
+];
+
+export const photoKindLabel = (kind: PhotoKind): string => {
+  const entry = PHOTO_KINDS.find(k => k.kind === kind);
+  return entry ? t(entry.labelKey) : kind;
+};
+
+export type PhotoErrorCode = 'not-image' | 'too-large' | 'unreadable' | 'upload-failed';
+
+const PHOTO_ERROR_MESSAGES: Record<PhotoErrorCode, MessageKey> = {
+  'not-image': 'photo.notImage',
+  'too-large': 'photo.tooLarge',
+  'unreadable': 'photo.unreadable',
+  'upload-failed': 'photo.uploadFailed',
+};
+
+export class PhotoError extends Error {
+  code: PhotoErrorCode;
+
+  constructor(code: PhotoErrorCode) {
+    super(t(PHOTO_ERROR_MESSAGES[code]));
+    this.name = 'PhotoError';
+    this.code = code;
+  }
+}
+
+/** The photo shown on cards. Admins pick it by moving it first in the form. */
+export const coverPhoto = (business: Business): BusinessPhoto | undefined => business.photos?.[0];
+
+// ============================================
+// Resizing
+// ============================================
+
+const loadImage = async (file: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      // Respects the EXIF rotation phones write into portrait shots
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall through to <img>, e.g. Safari versions without the options bag
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new PhotoError('unreadable'))), 'image/jpeg', quality)
+  );
+
+/**
+ * Draw the image onto a canvas of at most maxSize on its longest side, or,
+ * with square set, a centred square crop of exactly maxSize.
+ */
+const renderResized = (image: ImageBitmap | HTMLImageElement, maxSize: number, square: boolean): HTMLCanvasElement => {
+  const { width, height } = image;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+
+  if (square) {
+    const side = Math.min(width, height);
+    canvas.width = canvas.height = Math.min(maxSize, side);
+    ctx.drawImage(image, (width - side) / 2, (height - side) / 2, side, side, 0, 0, canvas.width, canvas.height);
+  } else {
+    const scale = Math.min(1, maxSize / Math.max(width, height));
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  }
+  return canvas;
+};
+
+export const resizePhoto = async (file: File): Promise<{ full: Blob; thumb: Blob }> => {
+  if (!file.type.startsWith('image/')) throw new PhotoError('not-image');
+  if (file.size > MAX_INPUT_BYTES) throw new PhotoError('too-large');
+
+  let image: ImageBitmap | HTMLImageElement;
+  try {
+    image = await loadImage(file);
+  } catch {
+    throw new PhotoError('unreadable');
+  }
+
+  try {
+    const [full, thumb] = await Promise.all([
+      canvasToBlob(renderResized(image, FULL_MAX_SIZE, false), FULL_QUALITY),
+      canvasToBlob(renderResized(image, THUMB_SIZE, true), THUMB_QUALITY),
+    ]);
+    return { full, thumb };
+  } finally {
+    if ('close' in image) image.close();
+  }
+};
+
+// ============================================
+// Storage Backends
+// ============================================
+
+interface PhotoStorageBackend {
+  upload: (path: string, blob: Blob) => Promise<string>; // Returns the public URL
+}
+
+const supabaseStorageBackend: PhotoStorageBackend = {
+  upload: async (path, blob) => {
+    const bucket = supabase.storage.from(PHOTO_CONFIG.bucket);
+    const { error } = await bucket.upload(path, blob, {
+      contentType: 'image/jpeg',
+      cacheControl: '31536000', // Paths are never reused, so cache for a year
+    });
+    if (error) {
+      console.error('Photo upload error:', error);
+      throw new PhotoError('upload-failed');
+    }
+    return bucket.getPublicUrl(path).data.publicUrl;
+  },
+};
+
+// Development stub: the image travels inside the business row itself
+const localStorageBackend: PhotoStorageBackend = {
+  upload: (_path, blob) =>
+    new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new PhotoError('unreadable'));
+      reader.readAsDataURL(blob);
+    }),
+};
+
+const getStorageBackend = (): PhotoStorageBackend =>
+  PHOTO_CONFIG.storage === 'local' ? localStorageBackend : supabaseStorageBackend;
+
+const createPhotoId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// ============================================
+// Upload / Remove
+// ============================================
+
+/**
+ * Resize and upload one photo. Files are grouped by business; new
+ * businesses without an id yet go under "new/".
+ */
+export const uploadBusinessPhoto = async (
+  file: File,
+  kind: PhotoKind,
+  businessId?: string
+): Promise<BusinessPhoto> => {
+  const admin = getActiveAdmin();
+  if (!can(admin, 'business.add') && !can(admin, 'business.edit')) {
+    throw new PermissionError('business.edit');
+  }
+
+  const { full, thumb } = await resizePhoto(file);
+  const id = createPhotoId();
+  const folder = businessId && !businessId.startsWith('local-') ? businessId : 'new';
+  const path = `${folder}/${id}.jpg`;
+  const thumbPath = `${folder}/${id}_thumb.jpg`;
+
+  const backend = getStorageBackend();
+  const [url, thumbUrl] = await Promise.all([
+    backend.upload(path, full),
+    backend.upload(thumbPath, thumb),
+  ]);
+
+  const isStored = backend === supabaseStorageBackend;
+  return {
+    id,
+    kind,
+    url,
+    thumbUrl,
+    path: isStored ? path : undefined,
+    thumbPath: isStored ? thumbPath : undefined,
+  };
+};
@@ -110,13 +110,40 @@ self.addEventListener('message', (event) => {
   }
 });
 
-// Background sync for offline data submission (future enhancement)
+// Background sync for queued admin edits
+// The outbox lives in IndexedDB and needs the admin's Supabase session, so the
+// replay itself runs in an open page, which answers on a MessageChannel once
+// it is done. With no page open, or when the replay left edits unsent, the
+// sync is rejected and the browser retries it later; the app also replays on
+// its next launch.
+const REPLAY_TIMEOUT_MS = 60000;
+
+const askClientToReplay = (client) =>
+  new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => reject(new Error('Outbox replay timed out')), REPLAY_TIMEOUT_MS);
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      if (event.data && event.data.ok) {
+        resolve();
+      } else {
+        reject(new Error((event.data && event.data.error) || 'Outbox replay failed'));
+      }
+    };
+    client.postMessage({ type: 'REPLAY_OUTBOX' }, [channel.port2]);
+  });
+
 self.addEventListener('sync', (event) => {
   if (event.tag === 'sync-businesses') {
     console.log('🔄 Background sync triggered');
     event.waitUntil(
-      // Future: Implement offline data sync logic here
-      Promise.resolve()
+      self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+        if (clients.length === 0) {
+          throw new Error('No open client to replay the outbox');
+        }
+        // Replays share one run per page, so any page finishing it is enough
+        return Promise.any(clients.map(askClientToReplay));
+      })
     );
   }
 });
@@ -0,0 +1,90 @@
+import { Business, RatingSummary } from './types';
+import { formatNumber } from './i18n';
+
+// ============================================
+// Ratings
+// ============================================
+
+// A business needs a few reviews before its own average outweighs the
+// village-wide one, so a single 5-star review doesn't top the list
+const PRIOR_REVIEWS = 3;
+const PRIOR_AVERAGE = 3.5;
+
+// Enough recent "wrong number" answers to warn other visitors
+const WRONG_NUMBER_MIN_REPORTS = 3;
+
+export const ratingScore = (rating?: RatingSummary): number => {
+  if (!rating || rating.average === null || rating.count === 0) return 0;
+  return (rating.average * rating.count + PRIOR_AVERAGE * PRIOR_REVIEWS) / (rating.count + PRIOR_REVIEWS);
+};
+
+/** Best rated first; unrated businesses keep their order at the end. */
+export const sortByRating = (businesses: Business[]): Business[] =>
+  businesses
+    .map((business, index) => ({ business, index, score: ratingScore(business.rating) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ business }) => business);
+
+export const formatRating = (average: number): string =>
+  formatNumber(average, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/** Most recent answers say the number doesn't reach the business. */
+export const isNumberDoubtful = (rating?: RatingSummary): boolean =>
+  !!rating && rating.numberWrong >= WRONG_NUMBER_MIN_REPORTS && rating.numberWrong > rating.numberOk;
+
+// ============================================
+// Call Feedback
+// ============================================
+// When a visitor taps a call or WhatsApp link the app goes to the
+// background. On coming back we ask whether the number worked, at most
+// once a month per business.
+
+export type ContactChannel = 'call' | 'whatsapp';
+
+export interface PendingContact {
+  businessId: string;
+  channel: ContactChannel;
+  startedAt: number;
+}
+
+const DEVICE_ID_KEY = 'jawala-device-id';
+const CALL_CHECKS_KEY = 'jawala-call-checks';
+const ASK_AGAIN_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+// Back sooner than this and the call most likely never happened
+const MIN_AWAY_MS = 4000;
+
+/** Random id that lets the server replace this phone's earlier review. */
+export const getDeviceId = (): string => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
+
+const loadCallChecks = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(CALL_CHECKS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const rememberCallCheck = (businessId: string): void => {
+  const now = Date.now();
+  const checks = loadCallChecks();
+  checks[businessId] = now;
+  // Drop answers old enough to ask about again
+  const kept = Object.fromEntries(Object.entries(checks).filter(([, at]) => now - at < ASK_AGAIN_AFTER_MS));
+  localStorage.setItem(CALL_CHECKS_KEY, JSON.stringify(kept));
+};
+
+/** Whether to ask about this contact now that the visitor is back. */
+export const shouldAskAboutContact = (contact: PendingContact, now = Date.now()): boolean => {
+  if (now - contact.startedAt < MIN_AWAY_MS) return false;
+  const answeredAt = loadCallChecks()[contact.businessId];
+  return !answeredAt || now - answeredAt >= ASK_AGAIN_AFTER_MS;
+};
@@ -0,0 +1,401 @@
+import { Business, Category } from './types';
+import { businessCategoryIds } from './businessGrouping';
+import { categoryName, shopName } from './i18n';
+
+// ============================================
+// Marathi-aware Search Index
+// ============================================
+// Every word is indexed under two keys:
+// - a folded Devanagari/Latin form (matra, nukta and chandrabindu variants
+//   collapsed, so हाँटेल and हॉटेल meet), and
+// - a phonetic Latin skeleton, so "kirana" finds किराणा and the other way round.
+// Query words are matched against both, with prefix, substring and small
+// edit-distance (typo) fallbacks, and results are ranked across all fields.
+
+export type SearchField = 'shopName' | 'otherNames' | 'ownerName' | 'contactNumber' | 'category' | 'services' | 'tags' | 'address';
+
+export type HighlightRange = [number, number]; // [start, end) in the field text
+
+export type SearchHighlights = Partial<Record<SearchField, { text: string; ranges: HighlightRange[] }>>;
+
+export interface SearchHit {
+  business: Business;
+  score: number;
+  highlights: SearchHighlights;
+}
+
+interface IndexedWord {
+  start: number;
+  end: number;
+  folded: string;
+  phonetic: string;
+}
+
+interface IndexedField {
+  field: SearchField;
+  text: string;
+  words: IndexedWord[];
+  digits: string; // Only used for contactNumber; one run of digits per number, space-separated
+}
+
+interface IndexedBusiness {
+  business: Business;
+  order: number;
+  fields: IndexedField[];
+}
+
+export interface SearchIndex {
+  entries: IndexedBusiness[];
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  shopName: 5,
+  otherNames: 4.5,
+  ownerName: 4,
+  contactNumber: 4,
+  category: 3,
+  services: 3,
+  tags: 3,
+  address: 1.5,
+};
+
+// ============================================
+// Normalization
+// ============================================
+
+const DEVANAGARI_DIGITS = '०१२३४५६७८९';
+
+export const toAsciiDigits = (value: string): string =>
+  value.replace(/[०-९]/g, d => String(DEVANAGARI_DIGITS.indexOf(d)));
+
+// Spelling variants that Marathi writers use interchangeably
+const DEVANAGARI_FOLDS: Array<[RegExp, string]> = [
+  [/[\u093C\u0901\u0903\u094D\u200C\u200D]/g, ''], // nukta, chandrabindu, visarga, virama, ZWNJ/ZWJ
+  [/ॉ/g, 'ा'], // ॉ → ा
+  [/ॅ/g, 'े'], // ॅ → े
+  [/ी/g, 'ि'], // ी → ि
+  [/ू/g, 'ु'], // ू → ु
+  [/ऑ/g, 'आ'], // ऑ → आ
+  [/ऍ/g, 'ए'], // ऍ → ए
+  [/ई/g, 'इ'], // ई → इ
+  [/ऊ/g, 'उ'], // ऊ → उ
+  [/ण/g, 'न'], // ण → न
+  [/ष/g, 'श'], // ष → श
+  [/ळ/g, 'ल'], // ळ → ल
+];
+
+/**
+ * Unicode-normalize, lower-case and fold script-specific variants.
+ */
+export const foldText = (value: string): string => {
+  let text = toAsciiDigits(value.normalize('NFC')).toLowerCase();
+  for (const [pattern, replacement] of DEVANAGARI_FOLDS) {
+    text = text.replace(pattern, replacement);
+  }
+  // Strip Latin diacritics (é → e)
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+};
+
+// ============================================
+// Transliteration (Devanagari → Latin skeleton)
+// ============================================
+
+const CONSONANTS: Record<string, string> = {
+  'क': 'k', 'ख': 'kh', 'ग': 'g', 'घ': 'gh', 'ङ': 'n',
+  'च': 'ch', 'छ': 'chh', 'ज': 'j', 'झ': 'jh', 'ञ': 'n',
+  'ट': 't', 'ठ': 'th', 'ड': 'd', 'ढ': 'dh', 'ण': 'n',
+  'त': 't', 'थ': 'th', 'द': 'd', 'ध': 'dh', 'न': 'n',
+  'प': 'p', 'फ': 'ph', 'ब': 'b', 'भ': 'bh', 'म': 'm',
+  'य': 'y', 'र': 'r', 'ल': 'l', 'व': 'v', 'श': 'sh',
+  'ष': 'sh', 'स': 's', 'ह': 'h', 'ळ': 'l',
+};
+
+const VOWELS: Record<string, string> = {
+  'अ': 'a', 'आ': 'aa', 'इ': 'i', 'ई': 'ee', 'उ': 'u', 'ऊ': 'oo', 'ऋ': 'ru',
+  'ए': 'e', 'ऐ': 'ai', 'ओ': 'o', 'औ': 'au', 'ऑ': 'o', 'ऍ': 'e',
+};
+
+const MATRAS: Record<string, string> = {
+  'ा': 'aa', 'ि': 'i', 'ी': 'ee', 'ु': 'u', 'ू': 'oo', 'ृ': 'ru',
+  'े': 'e', 'ै': 'ai', 'ो': 'o', 'ौ': 'au', 'ॉ': 'o', 'ॅ': 'e',
+};
+
+const VIRAMA = '्';
+
+/**
+ * Romanize one Devanagari word, adding the inherent "a" after consonants and
+ * dropping it at the end of the word as spoken Marathi does.
+ */
+export const transliterate = (word: string): string => {
+  const chars = Array.from(word.normalize('NFC').replace(/\u093C/g, ''));
+  let out = '';
+
+  chars.forEach((char, i) => {
+    const next = chars[i + 1];
+    if (CONSONANTS[char] !== undefined) {
+      out += CONSONANTS[char];
+      // Inherent "a" unless a matra or virama follows, or the word ends here
+      const takesInherentVowel = next !== undefined && next !== VIRAMA && MATRAS[next] === undefined;
+      if (takesInherentVowel) out += 'a';
+    } else if (MATRAS[char] !== undefined) {
+      out += MATRAS[char];
+    } else if (VOWELS[char] !== undefined) {
+      out += VOWELS[char];
+    } else if (char === 'ं' || char === 'ँ') {
+      // Nasal marks; ँ also spells the "n" in loanwords such as स्टँड
+      out += 'n';
+    } else if (char === VIRAMA || char === 'ः') {
+      // Silent
+    } else {
+      out += char;
+    }
+  });
+
+  return out;
+};
+
+/**
+ * Reduce Latin text to a loose phonetic skeleton: aspirates, long vowels
+ * and doubled letters are collapsed so common romanizations agree.
+ */
+export const phoneticKey = (value: string): string => {
+  const latin = /[ऀ-ॿ]/.test(value) ? transliterate(value) : value;
+  return foldText(latin)
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/ph/g, 'f')
+    .replace(/x/g, 'ks')
+    .replace(/q/g, 'k')
+    .replace(/z/g, 'j')
+    .replace(/w/g, 'v')
+    .replace(/ee|ii/g, 'i')
+    .replace(/oo|uu/g, 'u')
+    .replace(/([kgcjtdpbs])h/g, '$1')
+    .replace(/(.)\1+/g, '$1');
+};
+
+// ============================================
+// Fuzzy matching
+// ============================================
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps),
+ * giving up early once it exceeds maxDistance.
+ */
+export const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+};
+
+const allowedTypos = (length: number): number => (length <= 4 ? 0 : length <= 7 ? 1 : 2);
+
+// How well one query token matches one indexed word, from 0 to 1
+const matchQuality = (token: { folded: string; phonetic: string }, word: IndexedWord): number => {
+  if (word.folded === token.folded || (token.phonetic && word.phonetic === token.phonetic)) return 1;
+
+  if (token.folded.length >= 2 && word.folded.startsWith(token.folded)) return 0.85;
+  if (token.phonetic.length >= 2 && word.phonetic.startsWith(token.phonetic)) return 0.8;
+
+  if (token.folded.length >= 3 && word.folded.includes(token.folded)) return 0.6;
+  if (token.phonetic.length >= 3 && word.phonetic.includes(token.phonetic)) return 0.55;
+
+  // Inflected query words: शेवयांसाठी, and किराण्याचे / कपड्यांचे where the
+  // word's last vowel changes before the suffix
+  if (word.folded.length >= 3 && token.folded.startsWith(word.folded)) return 0.45;
+  if (word.phonetic.length >= 4 && token.phonetic.length > word.phonetic.length
+    && token.phonetic.startsWith(word.phonetic.slice(0, -1))) return 0.4;
+
+  const typos = allowedTypos(token.phonetic.length);
+  if (typos > 0) {
+    const distance = editDistance(token.phonetic, word.phonetic, typos);
+    if (distance <= typos) return 0.5 - distance * 0.1;
+    // Also forgive a typo in a word the user has only partly typed
+    if (word.phonetic.length > token.phonetic.length) {
+      const prefixDistance = editDistance(token.phonetic, word.phonetic.slice(0, token.phonetic.length), typos);
+      if (prefixDistance <= typos) return 0.4 - prefixDistance * 0.1;
+    }
+  }
+
+  return 0;
+};
+
+// ============================================
+// Index building and querying
+// ============================================
+
+const WORD_PATTERN = /[^\s,.;:!?()[\]{}"'\/&|+\-–—]+/g;
+
+const indexWords = (text: string): IndexedWord[] =>
+  Array.from(text.matchAll(WORD_PATTERN), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    folded: foldText(match[0]),
+    phonetic: phoneticKey(match[0]),
+  }));
+
+const indexField = (field: SearchField, text: string | undefined): IndexedField | null => {
+  if (!text) return null;
+  return {
+    field,
+    text,
+    words: field === 'contactNumber' ? [] : indexWords(text),
+    digits: field === 'contactNumber' ? text.split(',').map(n => toAsciiDigits(n).replace(/\D/g, '')).join(' ') : '',
+  };
+};
+
+// The name in the current language first, then its other spellings
+const allNames = (shown: string, original: string, translations?: Partial<Record<string, string>>): string[] =>
+  Array.from(new Set([shown, original, ...Object.values(translations || {})].map(name => name?.trim()).filter(Boolean)));
+
+/**
+ * Names are indexed in every language they have, so "Kirana" and
+ * "किराणा" both work whichever language the interface is in. Rebuild the
+ * index when the language changes; shopName holds the name shown on cards.
+ */
+export const buildSearchIndex = (businesses: Business[], categories: Category[]): SearchIndex => {
+  const categoryNames = new Map(categories.map(c => [c.id, allNames(categoryName(c), c.name, c.nameTranslations).join(', ')]));
+
+  return {
+    entries: businesses.map((business, order) => ({
+      business,
+      order,
+      fields: [
+        indexField('shopName', shopName(business)),
+        indexField('otherNames', allNames(shopName(business), business.shopName, business.shopNameTranslations).slice(1).join(', ')),
+        indexField('ownerName', business.ownerName),
+        // Every labelled number, so a search finds the landline as well as the mobile
+        indexField('contactNumber', Array.from(new Set([business.contactNumber, ...(business.contacts || []).map(c => c.number)])).filter(Boolean).join(', ')),
+        indexField('category', businessCategoryIds(business).map(id => categoryNames.get(id)).filter(Boolean).join(', ')),
+        indexField('services', business.services?.join(', ')),
+        indexField('tags', business.tags?.join(', ')),
+        indexField('address', business.address),
+      ].filter((f): f is IndexedField => f !== null),
+    })),
+  };
+};
+
+const tokenizeQuery = (query: string) =>
+  Array.from(query.matchAll(WORD_PATTERN), match => ({
+    folded: foldText(match[0]),
+    phonetic: phoneticKey(match[0]),
+    digits: /^[\d०-९]+$/.test(match[0]) ? toAsciiDigits(match[0]) : '',
+  }));
+
+const addRange = (highlights: SearchHighlights, field: IndexedField, range: HighlightRange) => {
+  const entry = highlights[field.field] || (highlights[field.field] = { text: field.text, ranges: [] });
+  if (!entry.ranges.some(([start, end]) => start === range[0] && end === range[1])) {
+    entry.ranges.push(range);
+  }
+};
+
+export interface SearchOptions {
+  /**
+   * "all" (default): every query word has to match, as in the search box.
+   * "any": a business matching some of the words is enough, and words that
+   * match many businesses count for less; used to pick AI candidates from
+   * natural-language questions.
+   */
+  match?: 'all' | 'any';
+}
+
+interface TokenMatch {
+  score: number;
+  matches: Array<{ field: IndexedField; range: HighlightRange }>;
+}
+
+// Best weighted match of one query word anywhere in a business
+const matchToken = (entry: IndexedBusiness, token: ReturnType<typeof tokenizeQuery>[number]): TokenMatch => {
+  let best = 0;
+  let bestMatches: TokenMatch['matches'] = [];
+
+  for (const field of entry.fields) {
+    const weight = FIELD_WEIGHTS[field.field];
+
+    if (field.field === 'contactNumber') {
+      const position = token.digits.length >= 3 ? field.digits.indexOf(token.digits) : -1;
+      if (position !== -1 && weight > best) {
+        best = weight;
+        bestMatches = [{ field, range: [0, field.text.length] }];
+      }
+      continue;
+    }
+
+    for (const word of field.words) {
+      const quality = matchQuality(token, word) * weight;
+      if (quality <= 0) continue;
+      if (quality > best) {
+        best = quality;
+        bestMatches = [{ field, range: [word.start, word.end] }];
+      } else if (quality === best) {
+        bestMatches.push({ field, range: [word.start, word.end] });
+      }
+    }
+  }
+
+  return { score: best, matches: bestMatches };
+};
+
+/**
+ * Rank businesses against a free-text query. The score adds up the best
+ * weighted match for each query word.
+ */
+export const searchBusinesses = (index: SearchIndex, query: string, options: SearchOptions = {}): SearchHit[] => {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) return [];
+
+  const matchAll = options.match !== 'any';
+  const rows: Array<{ entry: IndexedBusiness; tokenMatches: TokenMatch[] }> = [];
+
+  for (const entry of index.entries) {
+    const tokenMatches: TokenMatch[] = [];
+    for (const token of tokens) {
+      const match = matchToken(entry, token);
+      if (matchAll && match.score === 0) break;
+      tokenMatches.push(match);
+    }
+    if (tokenMatches.length === tokens.length && tokenMatches.some(m => m.score > 0)) {
+      rows.push({ entry, tokenMatches });
+    }
+  }
+
+  // In "any" mode, words found in many businesses (दुकान, जवळ) weigh less
+  const tokenWeights = tokens.map((_, i) => {
+    if (matchAll) return 1;
+    const matchingCount = rows.filter(row => row.tokenMatches[i].score > 0).length;
+    return Math.log(1 + index.entries.length / Math.max(1, matchingCount));
+  });
+
+  const hits = rows.map(({ entry, tokenMatches }) => {
+    const highlights: SearchHighlights = {};
+    let score = 0;
+    tokenMatches.forEach((match, i) => {
+      score += match.score * tokenWeights[i];
+      match.matches.forEach(({ field, range }) => addRange(highlights, field, range));
+    });
+    return { business: entry.business, score, highlights, order: entry.order };
+  });
+
+  return hits
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ order, ...hit }) => hit);
+};
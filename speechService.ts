@@ -0,0 +1,368 @@
+import { Business, Category } from './types';
+import { editDistance, phoneticKey, toAsciiDigits } from './searchIndex';
+import { MessageKey, categoryName, getLocale, localeTag, shopName, t } from './i18n';
+
+// ============================================
+// Speech: voice input and read-aloud
+// ============================================
+// STT_PROVIDER picks the speech-to-text backend at build time:
+// - "auto" (default): the browser's own recognizer where it exists,
+//   otherwise the self-hosted model at STT_URL.
+// - "browser": only the browser recognizer (Chrome/Android send the audio
+//   to the vendor's service).
+// - "http": always record and post to STT_URL, e.g. a whisper.cpp server or
+//   any OpenAI-compatible /audio/transcriptions endpoint on our own machine.
+// Both listen and read aloud in the interface language (localeTag()).
+
+const STT_CONFIG = {
+  provider: process.env.STT_PROVIDER || 'auto',
+  url: process.env.STT_URL || '',
+  model: process.env.STT_MODEL || '',
+};
+
+// The http backend has no silence detection, so stop on its own after this
+const MAX_RECORDING_MS = 15000;
+
+export type SpeechErrorCode = 'unsupported' | 'denied' | 'no-speech' | 'network' | 'aborted' | 'failed';
+
+export class SpeechError extends Error {
+  code: SpeechErrorCode;
+
+  constructor(code: SpeechErrorCode, message: string) {
+    super(message);
+    this.name = 'SpeechError';
+    this.code = code;
+  }
+}
+
+const SPEECH_ERROR_MESSAGES: Record<SpeechErrorCode, MessageKey> = {
+  unsupported: 'speech.unsupported',
+  denied: 'speech.denied',
+  'no-speech': 'speech.noSpeech',
+  network: 'speech.network',
+  aborted: 'speech.aborted',
+  failed: 'speech.failed',
+};
+
+const speechError = (code: SpeechErrorCode) => new SpeechError(code, t(SPEECH_ERROR_MESSAGES[code]));
+
+export interface SpeechSession {
+  /** Resolves with the transcript once listening ends. */
+  result: Promise<string>;
+  /** Stop listening and transcribe what was heard so far. */
+  stop(): void;
+  /** Stop listening and discard; result rejects with code "aborted". */
+  cancel(): void;
+}
+
+export interface SpeechToTextBackend {
+  name: string;
+  isSupported(): boolean;
+  start(options: { lang: string; onInterim?: (text: string) => void }): SpeechSession;
+}
+
+// ============================================
+// Backend: browser speech recognition
+// ============================================
+
+// Not in TypeScript's DOM lib yet; only what we use
+interface RecognitionLike {
+  lang: string;
+  interimResults: boolean;
+  continuous: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type RecognitionConstructor = new () => RecognitionLike;
+
+const getRecognitionConstructor = (): RecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition || w.webkitSpeechRecognition || null;
+};
+
+const RECOGNITION_ERRORS: Record<string, SpeechErrorCode> = {
+  'not-allowed': 'denied',
+  'service-not-allowed': 'denied',
+  'audio-capture': 'denied',
+  'no-speech': 'no-speech',
+  network: 'network',
+  aborted: 'aborted',
+};
+
+export const browserSpeechBackend: SpeechToTextBackend = {
+  name: 'browser',
+  isSupported: () => getRecognitionConstructor() !== null,
+  start({ lang, onInterim }) {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) throw speechError('unsupported');
+
+    const recognition = new Recognition();
+    recognition.lang = lang;
+    recognition.interimResults = true;
+    recognition.continuous = false;
+    recognition.maxAlternatives = 1;
+
+    let transcript = '';
+    let failure: SpeechError | null = null;
+
+    const result = new Promise<string>((resolve, reject) => {
+      recognition.onresult = event => {
+        transcript = Array.from(event.results).map(alternatives => alternatives[0].transcript).join('');
+        onInterim?.(transcript);
+      };
+      recognition.onerror = event => {
+        failure = speechError(RECOGNITION_ERRORS[event.error] || 'failed');
+      };
+      recognition.onend = () => (failure ? reject(failure) : resolve(transcript.trim()));
+    });
+
+    recognition.start();
+    return { result, stop: () => recognition.stop(), cancel: () => recognition.abort() };
+  },
+};
+
+// ============================================
+// Backend: self-hosted model over HTTP
+// ============================================
+
+/**
+ * Records with MediaRecorder and posts the clip as multipart "file" (plus
+ * "language" and, if set, "model"), which both whisper.cpp's server and
+ * OpenAI-style transcription endpoints accept. Expects { text } back.
+ */
+export const createHttpSpeechBackend = (url: string, model?: string): SpeechToTextBackend => ({
+  name: 'http',
+  isSupported: () =>
+    !!url && typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined',
+  start({ lang }) {
+    let recorder: MediaRecorder | null = null;
+    let stopRequested = false;
+    let cancelled = false;
+
+    const stop = () => {
+      stopRequested = true;
+      if (recorder?.state === 'recording') recorder.stop();
+    };
+
+    const result = (async () => {
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch {
+        throw speechError('denied');
+      }
+
+      const chunks: Blob[] = [];
+      const activeRecorder = new MediaRecorder(stream);
+      recorder = activeRecorder;
+      const stopped = new Promise<void>(resolve => { activeRecorder.onstop = () => resolve(); });
+      activeRecorder.ondataavailable = event => chunks.push(event.data);
+      activeRecorder.start();
+      if (stopRequested) activeRecorder.stop();
+
+      const timer = setTimeout(stop, MAX_RECORDING_MS);
+      await stopped;
+      clearTimeout(timer);
+      stream.getTracks().forEach(track => track.stop());
+
+      if (cancelled) throw speechError('aborted');
+      const audio = new Blob(chunks, { type: activeRecorder.mimeType || 'audio/webm' });
+      if (audio.size === 0) throw speechError('no-speech');
+
+      const form = new FormData();
+      form.append('file', audio, 'speech.webm');
+      form.append('language', lang.split('-')[0]);
+      form.append('response_format', 'json');
+      if (model) form.append('model', model);
+
+      let response: Response;
+      try {
+        response = await fetch(url, { method: 'POST', body: form });
+      } catch {
+        throw speechError('network');
+      }
+      if (!response.ok) throw speechError('network');
+
+      const data = await response.json();
+      const text = typeof data?.text === 'string' ? data.text.trim() : '';
+      if (!text) throw speechError('no-speech');
+      return text;
+    })();
+
+    return {
+      result,
+      stop,
+      cancel: () => {
+        cancelled = true;
+        stop();
+      },
+    };
+  },
+});
+
+/** The configured speech-to-text backend, or null when none can run here. */
+export const getSpeechBackend = (): SpeechToTextBackend | null => {
+  const httpBackend = createHttpSpeechBackend(STT_CONFIG.url, STT_CONFIG.model);
+  const options = STT_CONFIG.provider === 'browser'
+    ? [browserSpeechBackend]
+    : STT_CONFIG.provider === 'http'
+      ? [httpBackend]
+      : [browserSpeechBackend, httpBackend];
+  return options.find(backend => backend.isSupported()) || null;
+};
+
+// ============================================
+// Normalizing what was heard
+// ============================================
+
+// Marathi, then the Hindi words that differ, then English
+const NUMBER_WORDS: Record<string, string> = {
+  'शून्य': '0', 'एक': '1', 'दोन': '2', 'तीन': '3', 'चार': '4',
+  'पाच': '5', 'सहा': '6', 'सात': '7', 'आठ': '8', 'नऊ': '9', 'नौ': '9',
+  'दो': '2', 'पांच': '5', 'पाँच': '5', 'छह': '6', 'छः': '6',
+  'zero': '0', 'one': '1', 'two': '2', 'three': '3', 'four': '4',
+  'five': '5', 'six': '6', 'seven': '7', 'eight': '8', 'nine': '9',
+};
+
+// A dictated phone number comes out as a run of digit words or digit groups
+const MIN_DIGIT_RUN = 3;
+const MIN_GROUPED_DIGITS = 6;
+
+/**
+ * Spoken numbers to plain digits: Devanagari digits become ASCII, runs of
+ * digit words ("नऊ आठ दोन...") become one number, and digit groups said
+ * with pauses ("98220 12345") are joined. A lone "एक" stays a word.
+ */
+export const normalizeSpokenNumbers = (text: string): string => {
+  const words = toAsciiDigits(text).split(/\s+/).filter(Boolean);
+  const out: string[] = [];
+  let run: string[] = [];
+
+  const flush = () => {
+    if (run.length === 0) return;
+    const allWords = run.every(word => NUMBER_WORDS[word.toLowerCase()] !== undefined);
+    const digits = run.map(word => NUMBER_WORDS[word.toLowerCase()] ?? word).join('');
+    if ((allWords && run.length >= MIN_DIGIT_RUN) || (!allWords && digits.length >= MIN_GROUPED_DIGITS)) {
+      out.push(digits);
+    } else {
+      out.push(...run);
+    }
+    run = [];
+  };
+
+  for (const word of words) {
+    if (NUMBER_WORDS[word.toLowerCase()] !== undefined || /^\d+$/.test(word)) {
+      run.push(word);
+    } else {
+      flush();
+      out.push(word);
+    }
+  }
+  flush();
+  return out.join(' ');
+};
+
+/** Known spellings of shop names, owners and categories, keyed by sound. */
+export const buildNameVocabulary = (businesses: Business[], categories: Category[]): Map<string, string> => {
+  const vocabulary = new Map<string, string>();
+  const add = (text?: string) => {
+    for (const word of (text || '').split(/[\s,.()\-/]+/)) {
+      if (word.length < 3) continue;
+      const key = phoneticKey(word);
+      if (key.length >= 3 && !vocabulary.has(key)) vocabulary.set(key, word);
+    }
+  };
+  businesses.forEach(b => {
+    add(b.shopName);
+    add(shopName(b));
+    add(b.ownerName);
+  });
+  categories.forEach(c => {
+    add(c.name);
+    add(categoryName(c));
+  });
+  return vocabulary;
+};
+
+const closestName = (key: string, vocabulary: Map<string, string>): string | undefined => {
+  const exact = vocabulary.get(key);
+  if (exact || key.length < 6) return exact;
+  // Longer names may be off by one sound (पदमावार / पद्मावार)
+  for (const [candidate, word] of vocabulary) {
+    if (editDistance(key, candidate, 1) <= 1) return word;
+  }
+  return undefined;
+};
+
+/**
+ * Clean up a transcript before it is searched or sent to the AI: fix the
+ * numbers, then swap words that sound like a known name for the spelling
+ * used in the directory.
+ */
+export const normalizeSpokenQuery = (text: string, vocabulary: Map<string, string>): string =>
+  normalizeSpokenNumbers(text.normalize('NFC').trim())
+    .split(' ')
+    .map(word => {
+      if (word.length < 3 || /^\d+$/.test(word)) return word;
+      return closestName(phoneticKey(word), vocabulary) || word;
+    })
+    .join(' ');
+
+// ============================================
+// Read-aloud (speech synthesis)
+// ============================================
+
+export const isSpeechSynthesisSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Fall back to a Hindi voice: same script, and far more devices ship one
+const pickVoice = (lang: string): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis.getVoices();
+  const base = lang.split('-')[0];
+  return voices.find(v => v.lang === lang)
+    || voices.find(v => v.lang.startsWith(base))
+    || voices.find(v => v.lang.startsWith('hi'));
+};
+
+/** Read text aloud, interrupting anything already being read. */
+export const speak = (text: string, onEnd?: () => void, lang: string = localeTag()): void => {
+  if (!isSpeechSynthesisSupported()) return;
+  window.speechSynthesis.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  utterance.rate = 0.9;
+  const voice = pickVoice(lang);
+  if (voice) utterance.voice = voice;
+  utterance.onend = () => onEnd?.();
+  utterance.onerror = () => onEnd?.();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = (): void => {
+  if (isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+};
+
+const DIGIT_WORDS = {
+  mr: ['शून्य', 'एक', 'दोन', 'तीन', 'चार', 'पाच', 'सहा', 'सात', 'आठ', 'नऊ'],
+  hi: ['शून्य', 'एक', 'दो', 'तीन', 'चार', 'पाँच', 'छह', 'सात', 'आठ', 'नौ'],
+  en: ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'],
+};
+
+/**
+ * A phone number as separate digit words, in groups of five with pauses,
+ * so it is read "नऊ आठ..." rather than as one large amount.
+ */
+export const spellOutPhoneNumber = (phoneNumber: string): string => {
+  const digits = toAsciiDigits(phoneNumber).replace(/\D/g, '').replace(/^91(?=\d{10}$)/, '');
+  const groups = digits.match(/.{1,5}/g) || [];
+  const words = DIGIT_WORDS[getLocale()];
+  return groups.map(group => Array.from(group, d => words[Number(d)]).join(' ')).join(', ');
+};
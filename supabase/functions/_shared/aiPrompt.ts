@@ -0,0 +1,164 @@
+// ============================================
+// AI Assistant Prompt
+// ============================================
+// Callers never send a prompt. They send a small request (the question, the
+// ids of the shortlisted businesses and a few earlier turns), and the prompt
+// is built from directory data looked up by whoever runs the model: the
+// ai-assistant Edge Function for hosted providers, or the browser for a
+// local model. Shared by both, so it uses nothing outside the language.
+
+export type AnswerLanguage = 'mr' | 'hi' | 'en';
+
+export interface AiChatHistoryTurn {
+  question: string;
+  summary: string;
+  businessIds: string[];
+}
+
+export interface AiChatRequest {
+  question: string;
+  candidateIds: string[];
+  history: AiChatHistoryTurn[]; // Oldest first
+  language: AnswerLanguage;
+}
+
+export const AI_REQUEST_LIMITS = {
+  questionLength: 500,
+  candidates: 40,
+  historyTurns: 4, // Older turns add tokens but rarely help resolve "those"
+  summaryLength: 600,
+  businessIdsPerTurn: 20,
+  idLength: 64,
+};
+
+/** The compact per-business record that goes into the prompt. */
+export interface PromptBusiness {
+  id: string;
+  shopName: string;
+  ownerName: string;
+  category: string;
+  otherCategories: string[];
+  tags?: string[];
+  services?: string[];
+  contact: string;
+  address?: string;
+  openingHours?: string;
+  weeklySchedule?: unknown;
+  homeDelivery?: boolean;
+  paymentOptions?: string[];
+  rating?: string;
+}
+
+export interface PromptCategory {
+  name: string;
+  translatedName?: string; // In the answer language, when it differs
+}
+
+export interface PromptContext {
+  businesses: PromptBusiness[];       // The request's candidates, in order
+  businessNames: Record<string, string>; // Names of businesses given in earlier turns
+  categories: PromptCategory[];
+  now: string;                        // e.g. "Monday 18:30", local time
+}
+
+// ============================================
+// Request validation
+// ============================================
+
+export class AiRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiRequestError';
+  }
+}
+
+const LANGUAGES: AnswerLanguage[] = ['mr', 'hi', 'en'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readText = (value: unknown, field: string, maxLength: number, required = true): string => {
+  if (typeof value !== 'string' || (required && !value.trim())) throw new AiRequestError(`${field} is missing`);
+  if (value.length > maxLength) throw new AiRequestError(`${field} is too long`);
+  return value;
+};
+
+const readIds = (value: unknown, field: string, maxCount: number): string[] => {
+  if (!Array.isArray(value)) throw new AiRequestError(`${field} must be a list`);
+  if (value.length > maxCount) throw new AiRequestError(`${field} has too many entries`);
+  return value.map(id => readText(id, field, AI_REQUEST_LIMITS.idLength));
+};
+
+/** Check a request from the network before any of it reaches the model. */
+export const parseChatRequest = (value: unknown): AiChatRequest => {
+  if (!isRecord(value)) throw new AiRequestError('Request must be an object');
+
+  const history = value.history ?? [];
+  if (!Array.isArray(history) || history.length > AI_REQUEST_LIMITS.historyTurns) {
+    throw new AiRequestError('history is invalid');
+  }
+  if (!LANGUAGES.includes(value.language as AnswerLanguage)) throw new AiRequestError('language is invalid');
+
+  return {
+    question: readText(value.question, 'question', AI_REQUEST_LIMITS.questionLength),
+    candidateIds: readIds(value.candidateIds, 'candidateIds', AI_REQUEST_LIMITS.candidates),
+    history: history.map(turn => {
+      if (!isRecord(turn)) throw new AiRequestError('history is invalid');
+      return {
+        question: readText(turn.question, 'history.question', AI_REQUEST_LIMITS.questionLength),
+        summary: readText(turn.summary, 'history.summary', AI_REQUEST_LIMITS.summaryLength, false),
+        businessIds: readIds(turn.businessIds, 'history.businessIds', AI_REQUEST_LIMITS.businessIdsPerTurn),
+      };
+    }),
+    language: value.language as AnswerLanguage,
+  };
+};
+
+/** Every business id the prompt needs details or a name for. */
+export const requestBusinessIds = (request: AiChatRequest): string[] =>
+  [...new Set([...request.candidateIds, ...request.history.flatMap(turn => turn.businessIds)])];
+
+// ============================================
+// Prompt
+// ============================================
+
+const ANSWER_LANGUAGES: Record<AnswerLanguage, string> = { mr: 'Marathi', hi: 'Hindi', en: 'English' };
+
+const formatHistory = (history: AiChatHistoryTurn[], names: Record<string, string>): string =>
+  history
+    .map(turn => {
+      const named = turn.businessIds.filter(id => names[id]).map(id => `${id} (${names[id]})`);
+      return `User: ${turn.question}\nAssistant: ${turn.summary}${named.length > 0 ? `\nBusinesses given: ${named.join(', ')}` : ''}`;
+    })
+    .join('\n\n');
+
+export const buildChatPrompt = (request: AiChatRequest, context: PromptContext): string => {
+  const history = formatHistory(request.history, context.businessNames);
+  const categories = context.categories
+    .map(c => (c.translatedName && c.translatedName !== c.name ? `${c.name} (${c.translatedName})` : c.name))
+    .join(', ');
+
+  return `You are a very helpful assistant for the "Jawala Business Directory".
+        Your goal is to understand a user's request in Marathi, Hindi or English and provide the most relevant information from the business list.
+
+        The directory has these categories: ${categories}.
+        The current local time is ${context.now}. A "weeklySchedule" lists each day's opening times in 24-hour form, indexed from 0 = Sunday.
+
+        Here are the businesses that best match the request (a shortlist, not the whole directory):
+        ${context.businesses.length > 0 ? JSON.stringify(context.businesses, null, 2) : '(none matched)'}
+        ${history ? `
+        The conversation so far (oldest first):
+        ${history}
+
+        The new request may be a follow-up. Words like "त्यापैकी", "यापैकी", "त्यांचा", "इनमें से" or "those" refer to the businesses given in the previous answer.
+        ` : ''}
+        User's Request: "${request.question}"
+
+        Analyze the request and respond with a JSON object. The JSON must contain:
+        1.  "summary": A short, conversational summary of your findings in ${ANSWER_LANGUAGES[request.language]}. Write any "content" text in the same language.
+        2.  "results": An array of results. Each result can be one of two types:
+            -   type: "business": If you find a relevant business, include its "businessId".
+            -   type: "text": If the user asks for specific information (like a phone number) or if no business is a good match, provide a helpful answer in the "content" field.
+
+        Only use "businessId" values from the shortlist above. If you find multiple relevant businesses, list them all. If the request is generic or you cannot find a good match, provide a friendly text response.`;
+};
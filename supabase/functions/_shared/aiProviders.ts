@@ -0,0 +1,224 @@
+// ============================================
+// AI Provider Adapters
+// ============================================
+// Shared by the browser (for a local OpenAI-compatible model) and the
+// ai-assistant Edge Function (for hosted providers whose keys must stay on
+// the server). Uses nothing but fetch so it runs under Vite and Deno alike.
+
+export interface AiResultItem {
+  type: 'business' | 'text';
+  businessId?: string;
+  content?: string;
+}
+
+export interface AiResult {
+  summary: string;
+  results: AiResultItem[];
+}
+
+export interface AiProvider {
+  name: string;
+  /** Send the prompt and return the model's raw (JSON) text. */
+  generate(prompt: string): Promise<string>;
+}
+
+export type AiProviderName = 'gemini' | 'mistral' | 'openai-compatible';
+
+export interface AiProviderConfig {
+  provider: AiProviderName;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // Required for openai-compatible, e.g. http://localhost:11434/v1
+}
+
+// ============================================
+// Errors
+// ============================================
+
+export class AiProviderError extends Error {
+  provider: string;
+  status?: number;
+
+  constructor(provider: string, message: string, status?: number) {
+    super(message);
+    this.name = 'AiProviderError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+/** The model answered, but not with something shaped like an AiResult. */
+export class AiResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiResponseError';
+  }
+}
+
+// ============================================
+// Response validation
+// ============================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parse and check a model's answer before anything in it is trusted.
+ * Tolerates ```json fences (common with local models) and numeric ids;
+ * result items that don't fit the shape are dropped.
+ */
+export const parseAiResult = (text: string): AiResult => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new AiResponseError('AI response is not valid JSON');
+  }
+
+  if (!isRecord(value) || typeof value.summary !== 'string' || !Array.isArray(value.results)) {
+    throw new AiResponseError('AI response does not match the expected shape');
+  }
+
+  const results: AiResultItem[] = [];
+  for (const item of value.results) {
+    if (!isRecord(item)) continue;
+    if (item.type === 'business' && (typeof item.businessId === 'string' || typeof item.businessId === 'number')) {
+      results.push({ type: 'business', businessId: String(item.businessId) });
+    } else if (item.type === 'text' && typeof item.content === 'string' && item.content.trim()) {
+      results.push({ type: 'text', content: item.content });
+    }
+  }
+
+  return { summary: value.summary, results };
+};
+
+// ============================================
+// Adapters
+// ============================================
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data?.error?.message || data?.message || data?.error || response.statusText;
+  } catch {
+    return response.statusText;
+  }
+};
+
+const GEMINI_RESPONSE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    summary: { type: 'STRING' },
+    results: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          type: { type: 'STRING', enum: ['business', 'text'] },
+          businessId: { type: 'STRING' },
+          content: { type: 'STRING' },
+        },
+        required: ['type'],
+      },
+    },
+  },
+  required: ['summary', 'results'],
+};
+
+/** Google Gemini / Gemma through the Generative Language REST API. */
+export const createGeminiProvider = (model: string, apiKey: string): AiProvider => ({
+  name: 'gemini',
+  async generate(prompt) {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:generateContent`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({
+          contents: [{ role: 'user', parts: [{ text: prompt }] }],
+          generationConfig: { responseMimeType: 'application/json', responseSchema: GEMINI_RESPONSE_SCHEMA },
+        }),
+      }
+    );
+    if (!response.ok) throw new AiProviderError('gemini', await readError(response), response.status);
+
+    const data = await response.json();
+    const parts: Array<{ text?: string }> = data?.candidates?.[0]?.content?.parts || [];
+    const text = parts.map(part => part.text || '').join('');
+    if (!text) throw new AiProviderError('gemini', 'Empty response');
+    return text;
+  },
+});
+
+/**
+ * Any endpoint that speaks the OpenAI chat-completions protocol: Ollama
+ * (http://localhost:11434/v1), llama.cpp's server, vLLM, LM Studio...
+ * The API key is optional because local servers usually don't need one.
+ */
+export const createOpenAiCompatibleProvider = (
+  baseUrl: string,
+  model: string,
+  apiKey?: string,
+  name = 'openai-compatible'
+): AiProvider => ({
+  name,
+  async generate(prompt) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: 'Reply with a single JSON object only, no other text.' },
+          { role: 'user', content: prompt },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+      }),
+    });
+    if (!response.ok) throw new AiProviderError(name, await readError(response), response.status);
+
+    const data = await response.json();
+    const text = data?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text) throw new AiProviderError(name, 'Empty response');
+    return text;
+  },
+});
+
+/** Mistral's hosted API speaks the same protocol. */
+export const createMistralProvider = (model: string, apiKey: string): AiProvider =>
+  createOpenAiCompatibleProvider('https://api.mistral.ai/v1', model, apiKey, 'mistral');
+
+export const createProvider = (config: AiProviderConfig): AiProvider => {
+  const requireKey = () => {
+    if (!config.apiKey) throw new AiProviderError(config.provider, `API key for ${config.provider} is not configured`);
+    return config.apiKey;
+  };
+
+  switch (config.provider) {
+    case 'gemini':
+      return createGeminiProvider(config.model, requireKey());
+    case 'mistral':
+      return createMistralProvider(config.model, requireKey());
+    case 'openai-compatible':
+      if (!config.baseUrl) throw new AiProviderError(config.provider, 'Base URL for the OpenAI-compatible endpoint is not configured');
+      return createOpenAiCompatibleProvider(config.baseUrl, config.model, config.apiKey);
+    default:
+      throw new AiProviderError(String(config.provider), `Unsupported AI provider: ${config.provider}`);
+  }
+};
+
+/**
+ * Older configs only set AI_MODEL; pick the provider from the model name
+ * the way the assistant used to.
+ */
+export const inferProvider = (model: string): AiProviderName | null => {
+  if (model.startsWith('gemini') || model.startsWith('gemma')) return 'gemini';
+  if (model.startsWith('mistral') || model.startsWith('pixtral')) return 'mistral';
+  return null;
+};
@@ -0,0 +1,77 @@
+// Supabase Edge Function: lets a super-admin invite another admin. Creating
+// the login needs the service role key, which must never reach the browser.
+//
+// Uses the SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY
+// secrets that Supabase provides to every function.
+//
+// Refusals come back as { error: <code> }; the app shows them in the
+// admin's language (inviteAdmin in supabaseClient.ts).
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const ROLES = ['super_admin', 'editor', 'category_moderator', 'viewer'];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const url = Deno.env.get('SUPABASE_URL')!;
+  const admin = createClient(url, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  try {
+    // Who is asking? Resolve the caller from their own access token
+    const caller = createClient(url, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') || '' } },
+    });
+    const { data: { user } } = await caller.auth.getUser();
+    if (!user) return json({ error: 'login_required' }, 401);
+
+    const { data: callerProfile } = await admin
+      .from('admin_profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+    if (callerProfile?.role !== 'super_admin') {
+      return json({ error: 'super_admin_only' }, 403);
+    }
+
+    const { email, display_name, role, category_ids, redirect_to } = await req.json();
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return json({ error: 'invalid_email' }, 400);
+    }
+    if (!ROLES.includes(role)) return json({ error: 'invalid_role' }, 400);
+
+    const { data: invited, error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, {
+      redirectTo: typeof redirect_to === 'string' ? redirect_to : undefined,
+    });
+    if (inviteError) return json({ error: 'invite_failed', detail: inviteError.message }, 400);
+
+    const { data: profile, error: profileError } = await admin
+      .from('admin_profiles')
+      .upsert({
+        id: invited.user.id,
+        email,
+        display_name: typeof display_name === 'string' && display_name.trim() ? display_name.trim() : email,
+        role,
+        category_ids: role === 'category_moderator' && Array.isArray(category_ids) ? category_ids.map(String) : [],
+      })
+      .select()
+      .single();
+    if (profileError) throw profileError;
+
+    return json({ profile });
+  } catch (error) {
+    console.error('admin-invite error:', error);
+    return json({ error: 'internal_error' }, 500);
+  }
+});
@@ -0,0 +1,204 @@
+// Supabase Edge Function: answers an AI assistant question with the
+// configured hosted provider so its API key never reaches the browser.
+//
+// The browser sends only the question, the ids of the shortlisted businesses
+// and a few earlier turns; the prompt is built here from the database, so the
+// endpoint can't be used to run arbitrary prompts on our key.
+//
+// Secrets (supabase secrets set ...):
+//   AI_PROVIDER   gemini | mistral | openai-compatible (defaults from AI_MODEL)
+//   AI_MODEL      e.g. gemini-1.5-flash, mistral-small-latest, llama3.1
+//   GOOGLE_API_KEY / MISTRAL_API_KEY / AI_API_KEY
+//   AI_BASE_URL   for openai-compatible
+//   AI_ALLOWED_ORIGINS   comma-separated origins allowed to call this (default: any)
+//   AI_RATE_LIMIT        questions per client per window (default 20)
+//   AI_RATE_WINDOW_MINUTES   (default 10)
+//   AI_RATE_SALT         mixed into the hashed client address
+//   AI_TIME_ZONE         for "open now" questions (default Asia/Kolkata)
+// plus the SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY every function gets.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  AiProviderConfig,
+  AiProviderError,
+  AiProviderName,
+  AiResponseError,
+  createProvider,
+  inferProvider,
+  parseAiResult,
+} from '../_shared/aiProviders.ts';
+import {
+  AiChatRequest,
+  AiRequestError,
+  PromptBusiness,
+  PromptContext,
+  buildChatPrompt,
+  parseChatRequest,
+  requestBusinessIds,
+} from '../_shared/aiPrompt.ts';
+
+// The whole request is a question and a few dozen ids; anything bigger is not from the app
+const MAX_BODY_LENGTH = 16_000;
+
+const allowedOrigins = (Deno.env.get('AI_ALLOWED_ORIGINS') || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+
+const corsHeadersFor = (origin: string | null) => ({
+  'Access-Control-Allow-Origin': allowedOrigins.length === 0 ? '*' : origin && allowedOrigins.includes(origin) ? origin : allowedOrigins[0],
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  Vary: 'Origin',
+});
+
+const loadConfig = (): AiProviderConfig => {
+  const model = Deno.env.get('AI_MODEL') || 'gemini-1.5-flash';
+  const provider = (Deno.env.get('AI_PROVIDER') || inferProvider(model) || 'gemini') as AiProviderName;
+  const apiKey = provider === 'gemini'
+    ? Deno.env.get('GOOGLE_API_KEY') || Deno.env.get('GEMINI_API_KEY')
+    : provider === 'mistral'
+      ? Deno.env.get('MISTRAL_API_KEY')
+      : Deno.env.get('AI_API_KEY');
+
+  return { provider, model, apiKey, baseUrl: Deno.env.get('AI_BASE_URL') };
+};
+
+// ============================================
+// Rate limit
+// ============================================
+
+/** The caller's address, hashed so the table never holds raw IPs. */
+const clientHash = async (req: Request): Promise<string> => {
+  const ip = (req.headers.get('x-forwarded-for') || '').split(',')[0].trim();
+  const bytes = new TextEncoder().encode(ip + (Deno.env.get('AI_RATE_SALT') || ''));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// ============================================
+// Prompt context from the database
+// ============================================
+
+interface BusinessRow {
+  id: string;
+  shop_name: string;
+  owner_name: string;
+  category: string;
+  extra_categories: string[] | null;
+  tags: string[] | null;
+  services: string[] | null;
+  contact_number: string;
+  address: string | null;
+  opening_hours: string | null;
+  opening_schedule: unknown;
+  home_delivery: boolean | null;
+  payment_options: string[] | null;
+  rating_avg: number | string | null; // numeric arrives as a string
+  rating_count: number | null;
+}
+
+interface CategoryRow {
+  id: string;
+  name: string;
+  name_translations: Record<string, string> | null;
+}
+
+const formatNow = (timeZone: string): string =>
+  new Intl.DateTimeFormat('en-US', { weekday: 'long', hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZone })
+    .format(new Date())
+    .replace(',', '');
+
+const toPromptBusiness = (row: BusinessRow, categoryNames: Map<string, string>): PromptBusiness => ({
+  id: row.id,
+  shopName: row.shop_name,
+  ownerName: row.owner_name,
+  category: categoryNames.get(row.category) || 'Unknown',
+  otherCategories: (row.extra_categories || []).map(id => categoryNames.get(id)).filter((name): name is string => !!name),
+  tags: row.tags || undefined,
+  services: row.services || undefined,
+  contact: row.contact_number,
+  address: row.address || undefined,
+  openingHours: row.opening_hours || undefined,
+  weeklySchedule: row.opening_schedule || undefined,
+  homeDelivery: row.home_delivery ?? undefined,
+  paymentOptions: row.payment_options || undefined,
+  rating: row.rating_count ? `${Number(row.rating_avg)}/5 (${row.rating_count} reviews)` : undefined,
+});
+
+const loadPromptContext = async (
+  db: ReturnType<typeof createClient>,
+  request: AiChatRequest
+): Promise<PromptContext> => {
+  const [businessResult, categoryResult] = await Promise.all([
+    db
+      .from('businesses')
+      .select('id, shop_name, owner_name, category, extra_categories, tags, services, contact_number, address, opening_hours, opening_schedule, home_delivery, payment_options, rating_avg, rating_count')
+      .in('id', requestBusinessIds(request)),
+    db.from('categories').select('id, name, name_translations'),
+  ]);
+  if (businessResult.error) throw businessResult.error;
+  if (categoryResult.error) throw categoryResult.error;
+
+  const rows = new Map((businessResult.data as BusinessRow[]).map(row => [row.id, row]));
+  const categories = categoryResult.data as CategoryRow[];
+  const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+
+  return {
+    // Unknown ids are simply dropped, so the model can only name real businesses
+    businesses: request.candidateIds
+      .map(id => rows.get(id))
+      .filter((row): row is BusinessRow => !!row)
+      .map(row => toPromptBusiness(row, categoryNames)),
+    businessNames: Object.fromEntries([...rows.values()].map(row => [row.id, row.shop_name])),
+    categories: categories.map(c => ({ name: c.name, translatedName: c.name_translations?.[request.language] })),
+    now: formatNow(Deno.env.get('AI_TIME_ZONE') || 'Asia/Kolkata'),
+  };
+};
+
+Deno.serve(async (req: Request) => {
+  const corsHeaders = corsHeadersFor(req.headers.get('Origin'));
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const origin = req.headers.get('Origin');
+  if (allowedOrigins.length > 0 && origin && !allowedOrigins.includes(origin)) {
+    return json({ error: 'Origin not allowed' }, 403);
+  }
+
+  try {
+    const body = await req.text();
+    if (body.length > MAX_BODY_LENGTH) return json({ error: 'Request too large' }, 413);
+
+    let request: AiChatRequest;
+    try {
+      request = parseChatRequest(JSON.parse(body));
+    } catch (error) {
+      return json({ error: error instanceof AiRequestError ? error.message : 'Invalid request' }, 400);
+    }
+
+    const db = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: allowed, error: limitError } = await db.rpc('take_ai_request_slot', {
+      p_client_hash: await clientHash(req),
+      p_limit: Number(Deno.env.get('AI_RATE_LIMIT')) || 20,
+      p_window: `${Number(Deno.env.get('AI_RATE_WINDOW_MINUTES')) || 10} minutes`,
+    });
+    if (limitError) throw limitError;
+    if (!allowed) return json({ error: 'Too many questions, please try again later' }, 429);
+
+    const prompt = buildChatPrompt(request, await loadPromptContext(db, request));
+    const provider = createProvider(loadConfig());
+    const result = parseAiResult(await provider.generate(prompt));
+    return json(result);
+  } catch (error) {
+    console.error('ai-assistant error:', error);
+    if (error instanceof AiResponseError) return json({ error: error.message }, 502);
+    if (error instanceof AiProviderError) return json({ error: error.message, provider: error.provider }, error.status && error.status < 500 ? 502 : 503);
+    return json({ error: 'Internal error' }, 500);
+  }
+});
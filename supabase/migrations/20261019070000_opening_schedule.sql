@@ -0,0 +1,7 @@
+-- Structured weekly opening hours. opening_hours stays as the free text shown
+-- when there is no schedule; null here means "not entered yet", which is what
+-- the "convert old hours" action in the admin panel looks for.
+
+alter table public.businesses
+  add column if not exists opening_schedule jsonb
+    check (opening_schedule is null or jsonb_typeof(opening_schedule) = 'object');
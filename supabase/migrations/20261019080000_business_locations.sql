@@ -0,0 +1,13 @@
+-- Where a business is, for the map view and distance sorting. Both are null
+-- until an admin places the pin.
+
+alter table public.businesses
+  add column if not exists latitude double precision
+    check (latitude is null or latitude between -90 and 90),
+  add column if not exists longitude double precision
+    check (longitude is null or longitude between -180 and 180);
+
+-- A pin has both coordinates or neither
+alter table public.businesses drop constraint if exists businesses_location_pair;
+alter table public.businesses
+  add constraint businesses_location_pair check ((latitude is null) = (longitude is null));
@@ -0,0 +1,151 @@
+-- Public "suggest a business / report wrong info" submissions, reviewed by
+-- admins before anything reaches the businesses table.
+
+create table if not exists public.business_submissions (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null check (kind in ('new', 'correction')),
+  -- Target of a correction; for a new business, the row created on approval
+  business_id uuid references public.businesses (id) on delete set null,
+  -- Proposed values in the businesses column names (only changed fields for a correction)
+  payload jsonb not null default '{}'::jsonb,
+  message text check (char_length(message) <= 1000),
+  submitter_name text check (char_length(submitter_name) <= 100),
+  submitter_contact text check (char_length(submitter_contact) <= 100),
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  reject_reason text check (char_length(reject_reason) <= 500),
+  reviewed_by uuid references auth.users (id),
+  reviewed_at timestamptz,
+  ip_hash text,
+  created_at timestamptz not null default now(),
+  check (pg_column_size(payload) <= 8000)
+);
+
+create index if not exists business_submissions_status_idx on public.business_submissions (status, created_at desc);
+create index if not exists business_submissions_ip_idx on public.business_submissions (ip_hash, created_at desc);
+
+-- ============================================
+-- Rate limit and spam checks on insert
+-- ============================================
+
+create or replace function public.check_business_submission()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  client_ip text;
+  recent int;
+begin
+  -- Anonymous callers can't choose how their submission starts out
+  new.status := 'pending';
+  new.reject_reason := null;
+  new.reviewed_by := null;
+  new.reviewed_at := null;
+  new.created_at := now();
+  if new.kind = 'new' then
+    new.business_id := null;
+  end if;
+
+  client_ip := split_part(coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1);
+  new.ip_hash := md5(client_ip || coalesce(current_setting('app.submission_salt', true), ''));
+
+  select count(*) into recent
+  from public.business_submissions
+  where ip_hash = new.ip_hash
+    and created_at > now() - interval '1 hour';
+
+  if recent >= 5 then
+    raise exception 'submission_rate_limited' using errcode = 'P0001';
+  end if;
+
+  -- Link spam: real reports almost never carry more than one URL
+  if (select count(*) from regexp_matches(coalesce(new.message, '') || ' ' || new.payload::text, 'https?://|www\.', 'gi')) > 1 then
+    raise exception 'submission_rejected_as_spam' using errcode = 'P0001';
+  end if;
+
+  if new.kind = 'new' and coalesce(new.payload ->> 'shop_name', '') = '' then
+    raise exception 'submission_missing_shop_name' using errcode = 'P0001';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists business_submissions_check on public.business_submissions;
+create trigger business_submissions_check
+  before insert on public.business_submissions
+  for each row execute function public.check_business_submission();
+
+-- ============================================
+-- Moderation decisions: stamp the reviewer and audit
+-- ============================================
+
+alter table public.business_audit_log alter column business_id drop not null;
+alter table public.business_audit_log add column if not exists submission_id uuid references public.business_submissions (id) on delete set null;
+alter table public.business_audit_log drop constraint if exists business_audit_log_action_check;
+alter table public.business_audit_log add constraint business_audit_log_action_check
+  check (action in ('INSERT', 'UPDATE', 'DELETE', 'SUBMISSION_APPROVED', 'SUBMISSION_REJECTED'));
+
+create or replace function public.review_business_submission()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.status <> 'pending' then
+    raise exception 'submission_already_reviewed' using errcode = 'P0001';
+  end if;
+  if new.status = 'pending' then
+    return new;
+  end if;
+
+  new.reviewed_by := auth.uid();
+  new.reviewed_at := now();
+
+  insert into public.business_audit_log (business_id, submission_id, action, performed_by, admin_name, old_data, new_data, performed_at)
+  values (
+    new.business_id,
+    new.id,
+    case new.status when 'approved' then 'SUBMISSION_APPROVED' else 'SUBMISSION_REJECTED' end,
+    auth.uid(),
+    (select display_name from public.admin_profiles where id = auth.uid()),
+    null,
+    new.payload || jsonb_build_object(
+      'submission_kind', new.kind,
+      'message', new.message,
+      'reject_reason', new.reject_reason
+    ),
+    now()
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists business_submissions_review on public.business_submissions;
+create trigger business_submissions_review
+  before update on public.business_submissions
+  for each row execute function public.review_business_submission();
+
+-- ============================================
+-- Row level security
+-- ============================================
+
+alter table public.business_submissions enable row level security;
+
+drop policy if exists "Anyone can submit" on public.business_submissions;
+create policy "Anyone can submit" on public.business_submissions
+  for insert to anon, authenticated
+  with check (status = 'pending');
+
+drop policy if exists "Admins read submissions" on public.business_submissions;
+create policy "Admins read submissions" on public.business_submissions
+  for select to authenticated
+  using (exists (select 1 from public.admin_profiles where id = auth.uid()));
+
+drop policy if exists "Admins review submissions" on public.business_submissions;
+create policy "Admins review submissions" on public.business_submissions
+  for update to authenticated
+  using (exists (select 1 from public.admin_profiles where id = auth.uid()));
@@ -0,0 +1,101 @@
+-- Admin roles. Until now every row in admin_profiles had full rights; those
+-- admins become super-admins, and new roles narrow what others may do.
+
+alter table public.admin_profiles
+  add column if not exists role text not null default 'super_admin'
+    check (role in ('super_admin', 'editor', 'category_moderator', 'viewer')),
+  add column if not exists category_ids text[] not null default '{}';
+
+-- New profiles should not get full rights by accident
+alter table public.admin_profiles alter column role set default 'viewer';
+
+-- ============================================
+-- Permission check (mirrors permissions.ts)
+-- ============================================
+
+create or replace function public.admin_can(permission text, category text default null)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case p.role
+      when 'super_admin' then true
+      when 'editor' then permission in ('business.edit', 'submissions.review', 'audit.view')
+      when 'category_moderator' then
+        permission in ('business.add', 'business.edit', 'business.delete', 'submissions.review', 'audit.view')
+        and (category is null or permission = 'audit.view' or category = any (p.category_ids))
+      when 'viewer' then permission = 'audit.view'
+      else false
+    end
+    from public.admin_profiles p
+    where p.id = auth.uid()
+  ), false);
+$$;
+
+-- ============================================
+-- Businesses: restrictive policies are ANDed with the existing ones
+-- ============================================
+
+drop policy if exists "Role may insert businesses" on public.businesses;
+create policy "Role may insert businesses" on public.businesses
+  as restrictive for insert to authenticated
+  with check (public.admin_can('business.add', category));
+
+-- USING checks the row as it was, WITH CHECK as it will be, so a category
+-- moderator can't move a business out of (or into) someone else's category
+drop policy if exists "Role may update businesses" on public.businesses;
+create policy "Role may update businesses" on public.businesses
+  as restrictive for update to authenticated
+  using (public.admin_can('business.edit', category))
+  with check (public.admin_can('business.edit', category));
+
+drop policy if exists "Role may delete businesses" on public.businesses;
+create policy "Role may delete businesses" on public.businesses
+  as restrictive for delete to authenticated
+  using (public.admin_can('business.delete', category));
+
+-- ============================================
+-- Submissions: only reviewers may decide
+-- ============================================
+
+drop policy if exists "Role may review submissions" on public.business_submissions;
+create policy "Role may review submissions" on public.business_submissions
+  as restrictive for update to authenticated
+  using (public.admin_can('submissions.review'));
+
+-- ============================================
+-- Admin profiles: super-admins manage everyone, nobody promotes themselves
+-- ============================================
+
+drop policy if exists "Admins read own profile" on public.admin_profiles;
+create policy "Admins read own profile" on public.admin_profiles
+  for select to authenticated
+  using (id = auth.uid());
+
+drop policy if exists "Super admins read profiles" on public.admin_profiles;
+create policy "Super admins read profiles" on public.admin_profiles
+  for select to authenticated
+  using (public.admin_can('admins.manage'));
+
+drop policy if exists "Super admins update profiles" on public.admin_profiles;
+create policy "Super admins update profiles" on public.admin_profiles
+  for update to authenticated
+  using (public.admin_can('admins.manage'));
+
+drop policy if exists "Only super admins update profiles" on public.admin_profiles;
+create policy "Only super admins update profiles" on public.admin_profiles
+  as restrictive for update to authenticated
+  using (public.admin_can('admins.manage'));
+
+drop policy if exists "Only super admins insert profiles" on public.admin_profiles;
+create policy "Only super admins insert profiles" on public.admin_profiles
+  as restrictive for insert to authenticated
+  with check (public.admin_can('admins.manage'));
+
+drop policy if exists "Super admins remove admins" on public.admin_profiles;
+create policy "Super admins remove admins" on public.admin_profiles
+  for delete to authenticated
+  using (public.admin_can('admins.manage') and id <> auth.uid());
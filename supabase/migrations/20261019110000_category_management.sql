@@ -0,0 +1,113 @@
+-- Category management from the admin panel: manual ordering, merging and
+-- protected deletes. Only super-admins get 'categories.manage' (admin_can()
+-- already returns true for every permission of that role).
+
+alter table public.categories
+  add column if not exists sort_order integer,
+  add column if not exists updated_at timestamptz not null default now();
+
+-- Start from the alphabetical order the app used to force
+update public.categories c
+set sort_order = o.position
+from (select id, row_number() over (order by name) as position from public.categories) o
+where c.id = o.id and c.sort_order is null;
+
+-- Clients compare this against their cache to notice renames and reorders
+create or replace function public.touch_category()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists touch_category on public.categories;
+create trigger touch_category
+  before update on public.categories
+  for each row execute function public.touch_category();
+
+-- ============================================
+-- A category can only go once nothing is filed under it
+-- ============================================
+
+create or replace function public.prevent_category_in_use_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (select 1 from public.businesses where category = old.id) then
+    raise exception 'category_in_use';
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists prevent_category_in_use_delete on public.categories;
+create trigger prevent_category_in_use_delete
+  before delete on public.categories
+  for each row execute function public.prevent_category_in_use_delete();
+
+-- ============================================
+-- Merge: move every business to the target, then drop the source
+-- ============================================
+
+-- Runs as the caller, so the businesses policies and audit triggers still apply.
+-- Returns the moved rows so the client can update its cache without a full sync.
+create or replace function public.merge_categories(source_id text, target_id text)
+returns setof public.businesses
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not public.admin_can('categories.manage') then
+    raise exception 'permission_denied';
+  end if;
+  if source_id = target_id then
+    raise exception 'category_merge_same';
+  end if;
+  if not exists (select 1 from public.categories where id = target_id) then
+    raise exception 'category_not_found';
+  end if;
+
+  return query
+    update public.businesses
+    set category = target_id, updated_at = now()
+    where category = source_id
+    returning *;
+
+  delete from public.categories where id = source_id;
+end;
+$$;
+
+-- ============================================
+-- Categories: restrictive policies are ANDed with the existing ones
+-- ============================================
+
+alter table public.categories enable row level security;
+
+drop policy if exists "Anyone can read categories" on public.categories;
+create policy "Anyone can read categories" on public.categories
+  for select using (true);
+
+drop policy if exists "Category managers write categories" on public.categories;
+create policy "Category managers write categories" on public.categories
+  for all to authenticated
+  using (public.admin_can('categories.manage'))
+  with check (public.admin_can('categories.manage'));
+
+drop policy if exists "Role may insert categories" on public.categories;
+create policy "Role may insert categories" on public.categories
+  as restrictive for insert to authenticated
+  with check (public.admin_can('categories.manage'));
+
+drop policy if exists "Role may update categories" on public.categories;
+create policy "Role may update categories" on public.categories
+  as restrictive for update to authenticated
+  using (public.admin_can('categories.manage'));
+
+drop policy if exists "Role may delete categories" on public.categories;
+create policy "Role may delete categories" on public.categories
+  as restrictive for delete to authenticated
+  using (public.admin_can('categories.manage'));
@@ -0,0 +1,106 @@
+-- A business keeps one primary category (used for the map pin and for
+-- category moderators' scope) and may also be listed under extra categories.
+-- Tags are free-form labels for browsing.
+
+alter table public.businesses
+  add column if not exists extra_categories text[] not null default '{}',
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists businesses_extra_categories_idx on public.businesses using gin (extra_categories);
+create index if not exists businesses_tags_idx on public.businesses using gin (tags);
+
+-- ============================================
+-- Keep the arrays tidy whoever writes them
+-- ============================================
+
+create or replace function public.normalize_business_categories()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  -- No repeats, and never the primary category again
+  new.extra_categories := coalesce((
+    select array_agg(distinct c order by c)
+    from unnest(new.extra_categories) as c
+    where c is not null and c <> new.category
+  ), '{}');
+
+  if exists (
+    select 1 from unnest(new.extra_categories) as c
+    where not exists (select 1 from public.categories where id = c)
+  ) then
+    raise exception 'unknown_category';
+  end if;
+
+  new.tags := coalesce((
+    select array_agg(t order by first_seen)
+    from (
+      select min(btrim(t)) as t, min(ord) as first_seen
+      from unnest(new.tags) with ordinality as x(t, ord)
+      where btrim(coalesce(t, '')) <> ''
+      group by lower(btrim(t))
+    ) cleaned
+  ), '{}');
+
+  if cardinality(new.tags) > 20 or exists (select 1 from unnest(new.tags) as t where char_length(t) > 40) then
+    raise exception 'too_many_tags';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists normalize_business_categories on public.businesses;
+create trigger normalize_business_categories
+  before insert or update of category, extra_categories, tags on public.businesses
+  for each row execute function public.normalize_business_categories();
+
+-- ============================================
+-- Category delete and merge must see extra memberships too
+-- ============================================
+
+create or replace function public.prevent_category_in_use_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (
+    select 1 from public.businesses
+    where category = old.id or old.id = any (extra_categories)
+  ) then
+    raise exception 'category_in_use';
+  end if;
+  return old;
+end;
+$$;
+
+create or replace function public.merge_categories(source_id text, target_id text)
+returns setof public.businesses
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not public.admin_can('categories.manage') then
+    raise exception 'permission_denied';
+  end if;
+  if source_id = target_id then
+    raise exception 'category_merge_same';
+  end if;
+  if not exists (select 1 from public.categories where id = target_id) then
+    raise exception 'category_not_found';
+  end if;
+
+  -- normalize_business_categories() drops the target from the extras when
+  -- it is already the primary category
+  return query
+    update public.businesses
+    set category = case when category = source_id then target_id else category end,
+        extra_categories = array_replace(extra_categories, source_id, target_id),
+        updated_at = now()
+    where category = source_id or source_id = any (extra_categories)
+    returning *;
+
+  delete from public.categories where id = source_id;
+end;
+$$;
@@ -0,0 +1,35 @@
+-- Business photos: shop front, products and rate card. The files live in a
+-- public Storage bucket; the businesses row keeps the list (order = display
+-- order, the first one is the cover).
+
+alter table public.businesses
+  add column if not exists photos jsonb not null default '[]'::jsonb
+    check (jsonb_typeof(photos) = 'array' and jsonb_array_length(photos) <= 8);
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('business-photos', 'business-photos', true, 2097152, array['image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do nothing;
+
+-- ============================================
+-- Storage policies: everyone reads, admins who can add or edit businesses write
+-- ============================================
+
+drop policy if exists "Anyone can view business photos" on storage.objects;
+create policy "Anyone can view business photos" on storage.objects
+  for select using (bucket_id = 'business-photos');
+
+drop policy if exists "Editors upload business photos" on storage.objects;
+create policy "Editors upload business photos" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'business-photos'
+    and (public.admin_can('business.add') or public.admin_can('business.edit'))
+  );
+
+drop policy if exists "Editors delete business photos" on storage.objects;
+create policy "Editors delete business photos" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'business-photos'
+    and (public.admin_can('business.add') or public.admin_can('business.edit'))
+  );
@@ -0,0 +1,349 @@
+-- Star ratings with optional comments, plus the "was this number correct?"
+-- answers given after a call. Both are anonymous; the aggregates live on the
+-- businesses row so the directory can show and sort by them offline.
+
+create table if not exists public.business_reviews (
+  id uuid primary key default gen_random_uuid(),
+  business_id uuid not null references public.businesses (id) on delete cascade,
+  rating smallint not null check (rating between 1 and 5),
+  comment text check (char_length(comment) <= 500),
+  reviewer_name text check (char_length(reviewer_name) <= 60),
+  status text not null default 'visible' check (status in ('visible', 'hidden')),
+  hidden_reason text check (char_length(hidden_reason) <= 200),
+  report_count int not null default 0,
+  moderated_by uuid references auth.users (id),
+  moderated_at timestamptz,
+  -- Random id kept in the visitor's browser: a second review from the same
+  -- phone replaces the first. Not a security boundary, the IP limit is.
+  device_id text not null check (char_length(device_id) <= 64),
+  ip_hash text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists business_reviews_business_idx on public.business_reviews (business_id, created_at desc);
+create index if not exists business_reviews_reported_idx on public.business_reviews (report_count desc, created_at desc) where report_count > 0;
+create index if not exists business_reviews_ip_idx on public.business_reviews (ip_hash, created_at desc);
+
+create table if not exists public.business_call_checks (
+  id bigint generated always as identity primary key,
+  business_id uuid not null references public.businesses (id) on delete cascade,
+  number_correct boolean not null,
+  device_id text not null check (char_length(device_id) <= 64),
+  ip_hash text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists business_call_checks_business_idx on public.business_call_checks (business_id, created_at desc);
+
+-- One flag per device per review; only report_business_review() writes here
+create table if not exists public.business_review_reports (
+  review_id uuid not null references public.business_reviews (id) on delete cascade,
+  device_id text not null check (char_length(device_id) <= 64),
+  ip_hash text,
+  created_at timestamptz not null default now(),
+  primary key (review_id, device_id)
+);
+
+create index if not exists business_review_reports_ip_idx on public.business_review_reports (ip_hash, created_at desc);
+create index if not exists business_call_checks_ip_idx on public.business_call_checks (ip_hash, created_at desc);
+
+-- ============================================
+-- Aggregates on businesses
+-- ============================================
+-- Kept apart from updated_at, which admins' edits use to detect conflicts
+-- (touch_business() leaves it alone for these columns); clients sync on
+-- rating_updated_at as well.
+
+alter table public.businesses
+  add column if not exists rating_avg numeric(2, 1),
+  add column if not exists rating_count int not null default 0,
+  add column if not exists number_ok_count int not null default 0,
+  add column if not exists number_wrong_count int not null default 0,
+  add column if not exists rating_updated_at timestamptz;
+
+create index if not exists businesses_rating_updated_idx on public.businesses (rating_updated_at);
+
+create or replace function public.refresh_business_rating(target uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.businesses b
+  set rating_avg = r.avg_rating,
+      rating_count = r.review_count,
+      number_ok_count = c.ok_count,
+      number_wrong_count = c.wrong_count,
+      rating_updated_at = now()
+  from
+    (select round(avg(rating), 1) as avg_rating, count(*)::int as review_count
+       from public.business_reviews
+      where business_id = target and status = 'visible') r,
+    -- Only recent answers count, so a fixed number recovers
+    (select count(*) filter (where number_correct)::int as ok_count,
+            count(*) filter (where not number_correct)::int as wrong_count
+       from public.business_call_checks
+      where business_id = target and created_at > now() - interval '180 days') c
+  where b.id = target;
+$$;
+
+create or replace function public.business_feedback_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.refresh_business_rating(coalesce(new.business_id, old.business_id));
+  return null;
+end;
+$$;
+
+drop trigger if exists business_reviews_aggregate on public.business_reviews;
+create trigger business_reviews_aggregate
+  after insert or update or delete on public.business_reviews
+  for each row execute function public.business_feedback_changed();
+
+drop trigger if exists business_call_checks_aggregate on public.business_call_checks;
+create trigger business_call_checks_aggregate
+  after insert on public.business_call_checks
+  for each row execute function public.business_feedback_changed();
+
+-- ============================================
+-- Rate limits and spam checks on insert
+-- ============================================
+
+create or replace function public.check_business_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  client_ip text;
+  recent int;
+begin
+  -- Anonymous callers can't choose how their review starts out
+  new.status := 'visible';
+  new.hidden_reason := null;
+  new.report_count := 0;
+  new.moderated_by := null;
+  new.moderated_at := null;
+  new.created_at := now();
+  new.comment := nullif(btrim(new.comment), '');
+  new.reviewer_name := nullif(btrim(new.reviewer_name), '');
+
+  client_ip := split_part(coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1);
+  new.ip_hash := md5(client_ip || coalesce(current_setting('app.submission_salt', true), ''));
+
+  select count(*) into recent
+  from public.business_reviews
+  where ip_hash = new.ip_hash
+    and created_at > now() - interval '1 hour';
+
+  if recent >= 10 then
+    raise exception 'review_rate_limited' using errcode = 'P0001';
+  end if;
+
+  if coalesce(new.comment, '') ~* 'https?://|www\.' then
+    raise exception 'review_rejected_as_spam' using errcode = 'P0001';
+  end if;
+
+  -- A moderator's decision on the old review must not be undone by re-posting
+  if exists (
+    select 1 from public.business_reviews
+    where business_id = new.business_id and device_id = new.device_id and status = 'hidden'
+  ) then
+    raise exception 'review_blocked' using errcode = 'P0001';
+  end if;
+
+  delete from public.business_reviews
+  where business_id = new.business_id and device_id = new.device_id;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists business_reviews_check on public.business_reviews;
+create trigger business_reviews_check
+  before insert on public.business_reviews
+  for each row execute function public.check_business_review();
+
+create or replace function public.check_business_call_check()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  client_ip text;
+begin
+  new.created_at := now();
+  client_ip := split_part(coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1);
+  new.ip_hash := md5(client_ip || coalesce(current_setting('app.submission_salt', true), ''));
+
+  if (select count(*) from public.business_call_checks
+      where ip_hash = new.ip_hash and created_at > now() - interval '1 hour') >= 20 then
+    raise exception 'review_rate_limited' using errcode = 'P0001';
+  end if;
+
+  -- One answer per phone per business per month
+  if exists (
+    select 1 from public.business_call_checks
+    where business_id = new.business_id and device_id = new.device_id
+      and created_at > now() - interval '30 days'
+  ) then
+    return null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists business_call_checks_check on public.business_call_checks;
+create trigger business_call_checks_check
+  before insert on public.business_call_checks
+  for each row execute function public.check_business_call_check();
+
+-- ============================================
+-- Moderation: stamp the moderator
+-- ============================================
+
+create or replace function public.moderate_business_review()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status is distinct from old.status then
+    new.moderated_by := auth.uid();
+    new.moderated_at := now();
+  end if;
+  if new.status = 'visible' then
+    new.hidden_reason := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists business_reviews_moderate on public.business_reviews;
+create trigger business_reviews_moderate
+  before update on public.business_reviews
+  for each row execute function public.moderate_business_review();
+
+-- Visitors flag abusive reviews without being able to update them. Each
+-- device counts once per review, and each IP address gets the same hourly
+-- limit as posting reviews.
+drop function if exists public.report_business_review(uuid);
+
+create or replace function public.report_business_review(review_id uuid, device_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  client_ip text;
+  client_hash text;
+  recent int;
+begin
+  client_ip := split_part(coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1);
+  client_hash := md5(client_ip || coalesce(current_setting('app.submission_salt', true), ''));
+
+  select count(*) into recent
+  from public.business_review_reports r
+  where r.ip_hash = client_hash
+    and r.created_at > now() - interval '1 hour';
+
+  if recent >= 10 then
+    raise exception 'report_rate_limited' using errcode = 'P0001';
+  end if;
+
+  insert into public.business_review_reports (review_id, device_id, ip_hash)
+  select v.id, report_business_review.device_id, client_hash
+  from public.business_reviews v
+  where v.id = report_business_review.review_id and v.status = 'visible'
+  on conflict do nothing;
+
+  -- Already flagged from this device (or not visible): nothing to count
+  if not found then
+    return;
+  end if;
+
+  update public.business_reviews
+  set report_count = report_count + 1
+  where id = report_business_review.review_id;
+end;
+$$;
+
+grant execute on function public.report_business_review(uuid, text) to anon, authenticated;
+
+-- ============================================
+-- Permission check: adds 'reviews.moderate' (mirrors permissions.ts)
+-- ============================================
+
+create or replace function public.admin_can(permission text, category text default null)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case p.role
+      when 'super_admin' then true
+      when 'editor' then permission in ('business.edit', 'submissions.review', 'reviews.moderate', 'audit.view')
+      when 'category_moderator' then
+        permission in ('business.add', 'business.edit', 'business.delete', 'submissions.review', 'reviews.moderate', 'audit.view')
+        and (category is null or permission = 'audit.view' or category = any (p.category_ids))
+      when 'viewer' then permission = 'audit.view'
+      else false
+    end
+    from public.admin_profiles p
+    where p.id = auth.uid()
+  ), false);
+$$;
+
+-- ============================================
+-- Row level security
+-- ============================================
+
+alter table public.business_reviews enable row level security;
+alter table public.business_call_checks enable row level security;
+-- No policies: reports are only written through report_business_review()
+alter table public.business_review_reports enable row level security;
+
+-- Device and IP hashes stay private
+revoke select on public.business_reviews from anon;
+grant select (id, business_id, rating, comment, reviewer_name, status, created_at) on public.business_reviews to anon;
+
+drop policy if exists "Anyone can review" on public.business_reviews;
+create policy "Anyone can review" on public.business_reviews
+  for insert to anon, authenticated
+  with check (true);
+
+drop policy if exists "Anyone reads visible reviews" on public.business_reviews;
+create policy "Anyone reads visible reviews" on public.business_reviews
+  for select to anon, authenticated
+  using (status = 'visible');
+
+drop policy if exists "Moderators read reviews" on public.business_reviews;
+create policy "Moderators read reviews" on public.business_reviews
+  for select to authenticated
+  using (public.admin_can('reviews.moderate', (select category from public.businesses where id = business_id)));
+
+drop policy if exists "Moderators update reviews" on public.business_reviews;
+create policy "Moderators update reviews" on public.business_reviews
+  for update to authenticated
+  using (public.admin_can('reviews.moderate', (select category from public.businesses where id = business_id)));
+
+drop policy if exists "Moderators delete reviews" on public.business_reviews;
+create policy "Moderators delete reviews" on public.business_reviews
+  for delete to authenticated
+  using (public.admin_can('reviews.moderate', (select category from public.businesses where id = business_id)));
+
+drop policy if exists "Anyone can answer call checks" on public.business_call_checks;
+create policy "Anyone can answer call checks" on public.business_call_checks
+  for insert to anon, authenticated
+  with check (true);
@@ -0,0 +1,84 @@
+-- Several labelled numbers per business: mobiles, landlines (with STD code)
+-- and WhatsApp-only numbers, all in E.164. contact_number stays as the
+-- primary number so search, submissions and older app versions keep working;
+-- the trigger below keeps it in step with the list, and carries an older
+-- app's edit of contact_number into the list rather than reverting it.
+--
+-- Rows saved before this migration keep an empty list; the app falls back
+-- to contact_number for them until they are next edited.
+
+alter table public.businesses
+  add column if not exists contacts jsonb not null default '[]'::jsonb
+    check (jsonb_typeof(contacts) = 'array' and jsonb_array_length(contacts) <= 5);
+
+create or replace function public.sync_business_contacts()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  digits text;
+  edited text;
+  target int;
+begin
+  if jsonb_array_length(new.contacts) = 0 then
+    return new;
+  end if;
+
+  -- Older app versions only write contact_number. Replace the entry that held
+  -- the old primary number, in E.164 like the rest of the list.
+  if tg_op = 'UPDATE'
+    and new.contact_number is distinct from old.contact_number
+    and new.contacts = old.contacts
+  then
+    digits := regexp_replace(coalesce(new.contact_number, ''), '[^0-9]', '', 'g');
+    edited := case
+      when btrim(new.contact_number) like '+%' then '+' || digits
+      when char_length(digits) = 10 then '+91' || digits
+      when char_length(digits) = 12 and digits like '91%' then '+' || digits
+      when char_length(digits) = 11 and digits like '0%' then '+91' || substr(digits, 2)
+    end;
+    if edited is null then
+      raise exception 'invalid_contact';
+    end if;
+
+    select ord - 1 into target
+    from jsonb_array_elements(new.contacts) with ordinality as x(c, ord)
+    order by c->>'number' = old.contact_number desc, c->>'kind' <> 'whatsapp' desc, ord
+    limit 1;
+
+    new.contacts := jsonb_set(new.contacts, array[target::text, 'number'], to_jsonb(edited));
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(new.contacts) as c
+    where jsonb_typeof(c) <> 'object'
+      or coalesce(c->>'kind', '') not in ('mobile', 'landline', 'whatsapp')
+      or coalesce(c->>'number', '') !~ '^\+[1-9][0-9]{7,14}$'
+      or char_length(coalesce(c->>'label', '')) > 30
+  ) or (
+    select count(distinct c->>'number') <> count(*) from jsonb_array_elements(new.contacts) as c
+  ) then
+    raise exception 'invalid_contact';
+  end if;
+
+  -- Calls go to the first number that takes calls (mirrors primaryContactNumber in phone.ts)
+  new.contact_number := coalesce(
+    (
+      select c->>'number'
+      from jsonb_array_elements(new.contacts) with ordinality as x(c, ord)
+      where c->>'kind' <> 'whatsapp'
+      order by ord
+      limit 1
+    ),
+    new.contacts->0->>'number'
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_business_contacts on public.businesses;
+create trigger sync_business_contacts
+  before insert or update of contacts, contact_number on public.businesses
+  for each row execute function public.sync_business_contacts();
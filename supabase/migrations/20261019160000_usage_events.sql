@@ -0,0 +1,186 @@
+-- Anonymous usage events: searches (with how many results they found), AI
+-- questions, category opens, and call / WhatsApp / share taps. Nothing ties
+-- an event to a visitor: no device id, account, IP or time of day, only the
+-- date. Clients queue events offline and send them in batches through
+-- record_usage_events(); admins read totals through usage_report().
+
+create table if not exists public.usage_events (
+  id bigint generated always as identity primary key,
+  kind text not null check (kind in ('search', 'ai_query', 'category', 'call', 'whatsapp', 'share')),
+  query text check (char_length(query) <= 80),
+  result_count int check (result_count >= 0),
+  category_id text,
+  business_id uuid references public.businesses (id) on delete set null,
+  day date not null
+);
+
+create index if not exists usage_events_day_idx on public.usage_events (day, kind);
+create index if not exists usage_events_business_idx on public.usage_events (business_id, day) where business_id is not null;
+
+alter table public.usage_events enable row level security;
+
+-- No direct reads or writes; both go through the functions below
+revoke all on public.usage_events from anon, authenticated;
+
+-- ============================================
+-- Batched insert
+-- ============================================
+
+create or replace function public.record_usage_events(events jsonb)
+returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted int;
+begin
+  if jsonb_typeof(events) <> 'array' or jsonb_array_length(events) > 100 then
+    raise exception 'usage_batch_too_large';
+  end if;
+
+  -- Malformed events are skipped rather than failing the batch, which the
+  -- client would otherwise retry forever. Ids the server doesn't know (for
+  -- example businesses still waiting in an admin's outbox) become null.
+  insert into public.usage_events (kind, query, result_count, category_id, business_id, day)
+  select
+    e.kind,
+    nullif(left(btrim(e.query), 80), ''),
+    greatest(e.result_count, 0),
+    c.id,
+    b.id,
+    e.day
+  from jsonb_to_recordset(events) as e(kind text, query text, result_count int, category_id text, business_id text, day date)
+  left join public.categories c on c.id = e.category_id
+  left join public.businesses b on b.id::text = e.business_id
+  where e.kind in ('search', 'ai_query', 'category', 'call', 'whatsapp', 'share')
+    and e.day between current_date - 30 and current_date + 1
+    and (e.kind not in ('search', 'ai_query') or nullif(btrim(e.query), '') is not null)
+    and (e.kind <> 'category' or c.id is not null)
+    and (e.kind not in ('call', 'whatsapp', 'share') or b.id is not null);
+
+  get diagnostics inserted = row_count;
+  return inserted;
+end;
+$$;
+
+grant execute on function public.record_usage_events(jsonb) to anon, authenticated;
+
+-- ============================================
+-- Report for admins
+-- ============================================
+
+create or replace function public.usage_report(since_days int default 30)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  since date := current_date - greatest(least(since_days, 365), 1) + 1;
+begin
+  if not public.admin_can('analytics.view') then
+    raise exception 'permission_denied';
+  end if;
+
+  return jsonb_build_object(
+    'daily', coalesce((
+      select jsonb_agg(jsonb_build_object('day', day, 'kind', kind, 'count', n) order by day, kind)
+      from (
+        select day, kind, count(*) as n
+        from public.usage_events
+        where day >= since
+        group by day, kind
+      ) d
+    ), '[]'::jsonb),
+    'searches', coalesce((
+      select jsonb_agg(jsonb_build_object('query', query, 'count', n, 'empty_count', empty) order by n desc, query)
+      from (
+        select query, count(*) as n, count(*) filter (where result_count = 0) as empty
+        from public.usage_events
+        where day >= since and kind = 'search'
+        group by query
+        order by n desc, query
+        limit 30
+      ) s
+    ), '[]'::jsonb),
+    'empty_searches', coalesce((
+      select jsonb_agg(jsonb_build_object('query', query, 'count', n, 'last_day', last_day) order by n desc, last_day desc)
+      from (
+        select query, count(*) as n, max(day) as last_day
+        from public.usage_events
+        where day >= since and kind = 'search' and result_count = 0
+        group by query
+        order by n desc, max(day) desc
+        limit 50
+      ) s
+    ), '[]'::jsonb),
+    'ai_queries', coalesce((
+      select jsonb_agg(jsonb_build_object('query', query, 'count', n, 'empty_count', empty) order by n desc, query)
+      from (
+        select query, count(*) as n, count(*) filter (where result_count = 0) as empty
+        from public.usage_events
+        where day >= since and kind = 'ai_query'
+        group by query
+        order by n desc, query
+        limit 30
+      ) s
+    ), '[]'::jsonb),
+    'categories', coalesce((
+      select jsonb_agg(jsonb_build_object('category_id', category_id, 'count', n) order by n desc)
+      from (
+        select category_id, count(*) as n
+        from public.usage_events
+        where day >= since and kind = 'category' and category_id is not null
+        group by category_id
+      ) s
+    ), '[]'::jsonb),
+    'businesses', coalesce((
+      select jsonb_agg(jsonb_build_object('business_id', business_id, 'calls', calls, 'whatsapp', whatsapp, 'shares', shares)
+        order by calls + whatsapp + shares desc)
+      from (
+        select business_id,
+          count(*) filter (where kind = 'call') as calls,
+          count(*) filter (where kind = 'whatsapp') as whatsapp,
+          count(*) filter (where kind = 'share') as shares
+        from public.usage_events
+        where day >= since and business_id is not null
+        group by business_id
+        order by count(*) desc
+        limit 30
+      ) s
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+grant execute on function public.usage_report(int) to authenticated;
+
+-- ============================================
+-- Every admin role may read the totals
+-- ============================================
+-- Same as the previous admin_can() plus 'analytics.view'; keep in step with
+-- permissions.ts.
+
+create or replace function public.admin_can(permission text, category text default null)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case p.role
+      when 'super_admin' then true
+      when 'editor' then permission in ('business.edit', 'submissions.review', 'reviews.moderate', 'audit.view', 'analytics.view')
+      when 'category_moderator' then
+        permission in ('business.add', 'business.edit', 'business.delete', 'submissions.review', 'reviews.moderate', 'audit.view', 'analytics.view')
+        and (category is null or permission in ('audit.view', 'analytics.view') or category = any (p.category_ids))
+      when 'viewer' then permission in ('audit.view', 'analytics.view')
+      else false
+    end
+    from public.admin_profiles p
+    where p.id = auth.uid()
+  ), false);
+$$;
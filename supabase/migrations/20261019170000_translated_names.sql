@@ -0,0 +1,63 @@
+-- Optional Hindi and English names for categories and businesses, keyed by
+-- language code: {"hi": "किराना", "en": "Grocery"}. The Marathi name stays
+-- in name / shop_name and is shown whenever a translation is missing.
+
+alter table public.categories
+  add column if not exists name_translations jsonb not null default '{}'::jsonb
+    check (jsonb_typeof(name_translations) = 'object');
+
+alter table public.businesses
+  add column if not exists shop_name_translations jsonb not null default '{}'::jsonb
+    check (jsonb_typeof(shop_name_translations) = 'object');
+
+-- Seed the built-in categories; admins can change these in category management
+update public.categories as c
+set name_translations = t.names
+from (values
+  ('medical', '{"hi": "चिकित्सा सेवाएँ", "en": "Medical services"}'::jsonb),
+  ('police_services', '{"hi": "पुलिस सेवाएँ", "en": "Police"}'::jsonb),
+  ('water_services', '{"hi": "जल आपूर्ति", "en": "Water supply"}'::jsonb),
+  ('electric_board_services', '{"hi": "बिजली बोर्ड सेवाएँ", "en": "Electricity board"}'::jsonb),
+  ('government_services', '{"hi": "सरकारी सेवाएँ", "en": "Government services"}'::jsonb),
+  ('education', '{"hi": "शैक्षणिक सेवाएँ", "en": "Education"}'::jsonb),
+  ('transportation', '{"hi": "परिवहन सेवाएँ", "en": "Transport"}'::jsonb),
+  ('goods_transport', '{"hi": "माल ढुलाई सेवाएँ", "en": "Goods transport"}'::jsonb),
+  ('rural_construction', '{"hi": "ग्रामीण निर्माण सेवाएँ", "en": "Construction"}'::jsonb),
+  ('groceries', '{"hi": "किराना दुकानें", "en": "Grocery shops"}'::jsonb),
+  ('fruits_vegetables', '{"hi": "फल और सब्ज़ी विक्रेता", "en": "Fruits and vegetables"}'::jsonb),
+  ('dairy', '{"hi": "डेयरी उत्पाद", "en": "Dairy"}'::jsonb),
+  ('restaurants', '{"hi": "रेस्टोरेंट", "en": "Restaurants"}'::jsonb),
+  ('pharmacies', '{"hi": "दवाखाना / मेडिकल स्टोर", "en": "Pharmacies"}'::jsonb),
+  ('agriculture_centers', '{"hi": "कृषि केंद्र", "en": "Agri input shops"}'::jsonb),
+  ('agriculture', '{"hi": "खेती संबंधित", "en": "Farming services"}'::jsonb),
+  ('vermicelli_processing', '{"hi": "सेवइयाँ उत्पादन", "en": "Vermicelli making"}'::jsonb),
+  ('automobile', '{"hi": "ऑटोमोबाइल सर्विस", "en": "Vehicle service"}'::jsonb),
+  ('local_administration', '{"hi": "स्थानीय प्रशासन", "en": "Local administration"}'::jsonb),
+  ('post_office', '{"hi": "डाकघर", "en": "Post office"}'::jsonb),
+  ('newspaper_services', '{"hi": "समाचार पत्र सेवा", "en": "Newspapers"}'::jsonb),
+  ('salons', '{"hi": "सैलून", "en": "Salons"}'::jsonb),
+  ('ladies_tailors', '{"hi": "लेडीज़ टेलर", "en": "Ladies tailors"}'::jsonb),
+  ('gents_tailors', '{"hi": "जेंट्स टेलर", "en": "Gents tailors"}'::jsonb),
+  ('makeup_artists', '{"hi": "मेकअप आर्टिस्ट", "en": "Makeup artists"}'::jsonb),
+  ('photography', '{"hi": "फ़ोटोग्राफ़ी", "en": "Photography"}'::jsonb),
+  ('puja_items', '{"hi": "पूजा सामग्री", "en": "Puja items"}'::jsonb),
+  ('flowers', '{"hi": "फूलों की दुकान", "en": "Flower shops"}'::jsonb),
+  ('clothing', '{"hi": "कपड़ों की दुकान", "en": "Clothing"}'::jsonb),
+  ('electronics', '{"hi": "इलेक्ट्रॉनिक्स", "en": "Electronics"}'::jsonb),
+  ('stationery', '{"hi": "स्टेशनरी", "en": "Stationery"}'::jsonb),
+  ('mobile_accessories', '{"hi": "मोबाइल और एक्सेसरीज़", "en": "Mobiles and accessories"}'::jsonb),
+  ('jewelry_shops', '{"hi": "ज्वेलरी शॉप", "en": "Jewellers"}'::jsonb),
+  ('carpentry_services', '{"hi": "बढ़ईगिरी", "en": "Carpentry"}'::jsonb),
+  ('blacksmith_services', '{"hi": "लोहारी", "en": "Blacksmiths"}'::jsonb),
+  ('hardware', '{"hi": "हार्डवेयर की दुकान", "en": "Hardware"}'::jsonb),
+  ('welding_shop', '{"hi": "वेल्डिंग की दुकान", "en": "Welding"}'::jsonb),
+  ('bakeries_sweets', '{"hi": "बेकरी और मिठाई", "en": "Bakeries and sweets"}'::jsonb),
+  ('internet_cafe', '{"hi": "इंटरनेट / साइबर कैफ़े", "en": "Internet cafes"}'::jsonb),
+  ('street_vendors', '{"hi": "सड़क किनारे की टपरियाँ", "en": "Street stalls"}'::jsonb),
+  ('veterinary_services', '{"hi": "पशु चिकित्सा सेवाएँ", "en": "Veterinary services"}'::jsonb),
+  ('seasonal_sellers', '{"hi": "पटाखा विक्रेता", "en": "Firecracker sellers"}'::jsonb),
+  ('opticals', '{"hi": "ऑप्टिकल्स", "en": "Opticians"}'::jsonb),
+  ('shoe_repair', '{"hi": "जूता मरम्मत", "en": "Shoe repair"}'::jsonb),
+  ('paint_decor', '{"hi": "पेंट और डेकोर", "en": "Paint and decor"}'::jsonb)
+) as t(id, names)
+where c.id = t.id and c.name_translations = '{}'::jsonb;
@@ -0,0 +1,49 @@
+-- Per-client rate limit for the ai-assistant Edge Function. Every request
+-- costs a call to the hosted model, so the function takes a slot here before
+-- building the prompt. Only the function (service role) can touch this.
+
+create table if not exists public.ai_assistant_requests (
+  client_hash text not null,
+  requested_at timestamptz not null default now()
+);
+
+create index if not exists ai_assistant_requests_client_idx on public.ai_assistant_requests (client_hash, requested_at desc);
+
+-- RLS on and no policies: not readable or writable through the public API
+alter table public.ai_assistant_requests enable row level security;
+
+-- ============================================
+-- Slot check
+-- ============================================
+
+-- Returns false when the client has used up its requests for the window.
+create or replace function public.take_ai_request_slot(p_client_hash text, p_limit int, p_window interval)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  recent int;
+begin
+  -- Serialise concurrent requests from the same client so they can't all slip under the limit
+  perform pg_advisory_xact_lock(hashtext('ai_assistant_requests:' || p_client_hash));
+
+  delete from public.ai_assistant_requests
+  where client_hash = p_client_hash
+    and requested_at <= now() - p_window;
+
+  select count(*) into recent
+  from public.ai_assistant_requests
+  where client_hash = p_client_hash;
+
+  if recent >= p_limit then
+    return false;
+  end if;
+
+  insert into public.ai_assistant_requests (client_hash) values (p_client_hash);
+  return true;
+end;
+$$;
+
+revoke execute on function public.take_ai_request_slot(text, int, interval) from public, anon, authenticated;
@@ -0,0 +1,47 @@
+-- businesses.updated_at is what admins' edits compare against to detect
+-- conflicts, so it must only move when the business itself is edited. The
+-- rating triggers (20261019140000_business_reviews.sql) update the same row,
+-- and a blanket "bump on every update" trigger made each new review look like
+-- a conflicting edit.
+
+create or replace function public.touch_business()
+returns trigger
+language plpgsql
+as $$
+declare
+  -- Maintained by refresh_business_rating(); clients sync these on rating_updated_at
+  derived constant text[] := array['rating_avg', 'rating_count', 'number_ok_count', 'number_wrong_count', 'rating_updated_at', 'updated_at'];
+begin
+  if (to_jsonb(new) - derived) = (to_jsonb(old) - derived) then
+    new.updated_at := old.updated_at;
+  else
+    new.updated_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+-- The base schema predates these migrations and bumped updated_at with the
+-- moddatetime extension under a name we don't know. Drop only those triggers,
+-- so it can't undo the check above; audit and other triggers stay.
+do $$
+declare
+  old_trigger record;
+begin
+  for old_trigger in
+    select t.tgname
+    from pg_trigger t
+    join pg_proc p on p.oid = t.tgfoid
+    where t.tgrelid = 'public.businesses'::regclass
+      and not t.tgisinternal
+      and p.proname = 'moddatetime'
+  loop
+    execute format('drop trigger %I on public.businesses', old_trigger.tgname);
+  end loop;
+end;
+$$;
+
+drop trigger if exists touch_business on public.businesses;
+create trigger touch_business
+  before update on public.businesses
+  for each row execute function public.touch_business();
@@ -0,0 +1,23 @@
+-- Delta sync needs to know which businesses were deleted since a client's
+-- last sync. Those tombstones live in business_audit_log, which only admins
+-- can read, so visitors' caches silently kept deleted businesses. This
+-- exposes just the deleted ids, nothing else from the log.
+
+create or replace function public.business_deletions_since(since timestamptz)
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select distinct l.business_id
+  from public.business_audit_log l
+  where l.action = 'DELETE'
+    and l.performed_at > since
+    and l.business_id is not null
+    -- A business restored under its old id is not deleted any more
+    and not exists (select 1 from public.businesses b where b.id = l.business_id);
+$$;
+
+revoke execute on function public.business_deletions_since(timestamptz) from public;
+grant execute on function public.business_deletions_since(timestamptz) to anon, authenticated;
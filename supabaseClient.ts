@@ -1,6 +1,10 @@
 import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
-import { Business, Category } from './types';
-import { DataVersion } from './cacheService';
+import { Business, BusinessContact, BusinessPhoto, Category, LocalizedText, OpeningSchedule, RatingSummary } from './types';
+import { DataVersion, QueuedUsageEvent, SyncChanges, UsageEventKind } from './cacheService';
+import { parseOpeningHours } from './openingHours';
+import { businessContacts, phoneKey, replacePrimaryContact } from './phone';
+import { Permission, assertCan } from './permissions';
+import { MessageKey, cleanTranslations, t } from './i18n';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
@@ -17,14 +21,28 @@ export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKe
 export interface DbBusiness {
   id: string;
   category: string;
+  extra_categories?: string[];
+  tags?: string[];
   shop_name: string;
+  shop_name_translations?: LocalizedText; // jsonb
   owner_name: string;
   contact_number: string;
+  contacts?: BusinessContact[]; // jsonb; contact_number is synced from it by a trigger
   address?: string;
   opening_hours?: string;
+  opening_schedule?: OpeningSchedule | null; // jsonb
+  latitude?: number | null;
+  longitude?: number | null;
   services?: string[];
   home_delivery?: boolean;
   payment_options?: string[];
+  photos?: BusinessPhoto[]; // jsonb
+  // Set by triggers on business_reviews and business_call_checks
+  rating_avg?: number | null;
+  rating_count?: number;
+  number_ok_count?: number;
+  number_wrong_count?: number;
+  rating_updated_at?: string | null;
   created_at?: string;
   updated_at?: string;
   created_by?: string;
@@ -34,19 +52,78 @@ export interface DbBusiness {
 export interface DbCategory {
   id: string;
   name: string;
+  name_translations?: LocalizedText; // jsonb
   icon: string;
+  sort_order?: number | null;
+  updated_at?: string;
 }
 
+export type AdminRole = 'super_admin' | 'editor' | 'category_moderator' | 'viewer';
+
 export interface AdminProfile {
   id: string;
   display_name: string;
   email: string;
+  role: AdminRole;
+  category_ids?: string[] | null; // Only used for category_moderator
+}
+
+export type SubmissionKind = 'new' | 'correction';
+export type SubmissionStatus = 'pending' | 'approved' | 'rejected';
+
+// A villager's suggestion, waiting for an admin to review it
+export interface DbSubmission {
+  id: string;
+  kind: SubmissionKind;
+  business_id?: string | null; // Target of a correction
+  payload: Partial<DbBusiness>; // Proposed values; only the changed fields for a correction
+  message?: string | null;
+  submitter_name?: string | null;
+  submitter_contact?: string | null;
+  status: SubmissionStatus;
+  reject_reason?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  created_at: string;
+}
+
+export type NewSubmission = Pick<DbSubmission, 'kind' | 'business_id' | 'payload' | 'message' | 'submitter_name' | 'submitter_contact'>;
+
+export type ReviewStatus = 'visible' | 'hidden';
+
+export interface DbReview {
+  id: string;
+  business_id: string;
+  rating: number; // 1–5
+  comment?: string | null;
+  reviewer_name?: string | null;
+  status: ReviewStatus;
+  hidden_reason?: string | null; // Moderator-only columns from here on
+  report_count?: number;
+  moderated_at?: string | null;
+  created_at: string;
+}
+
+export type NewReview = Pick<DbReview, 'business_id' | 'rating' | 'comment' | 'reviewer_name'> & { device_id: string };
+
+// A review with the business it is about, for the moderation screen
+export type ModerationReview = DbReview & { business: Pick<DbBusiness, 'shop_name' | 'shop_name_translations' | 'category'> | null };
+
+// Totals for the admin analytics screen, built by usage_report()
+export interface UsageReport {
+  daily: Array<{ day: string; kind: UsageEventKind; count: number }>;
+  searches: Array<{ query: string; count: number; empty_count: number }>; // Most frequent first
+  empty_searches: Array<{ query: string; count: number; last_day: string }>;
+  ai_queries: Array<{ query: string; count: number; empty_count: number }>;
+  categories: Array<{ category_id: string; count: number }>;
+  businesses: Array<{ business_id: string; calls: number; whatsapp: number; shares: number }>;
 }
 
 export interface AuditLog {
   id: number;
-  business_id: string;
-  action: 'INSERT' | 'UPDATE' | 'DELETE';
+  business_id: string | null; // Null for a rejected suggestion of a new business
+  submission_id?: string | null;
+  action: 'INSERT' | 'UPDATE' | 'DELETE' | 'SUBMISSION_APPROVED' | 'SUBMISSION_REJECTED';
   performed_by: string;
   admin_name: string;
   old_data?: any;
@@ -54,42 +131,186 @@ export interface AuditLog {
   performed_at: string;
 }
 
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Thrown when a business changed on the server after it was loaded for editing.
+ * serverBusiness is null when it has since been deleted.
+ */
+export class BusinessConflictError extends Error {
+  localBusiness: Partial<DbBusiness>;
+  serverBusiness: DbBusiness | null;
+
+  constructor(localBusiness: Partial<DbBusiness>, serverBusiness: DbBusiness | null) {
+    super(t(serverBusiness ? 'conflict.changed' : 'conflict.deleted'));
+    this.name = 'BusinessConflictError';
+    this.localBusiness = localBusiness;
+    this.serverBusiness = serverBusiness;
+  }
+}
+
+/** Thrown when deleting a category that still has businesses filed under it. */
+export class CategoryInUseError extends Error {
+  businessCount?: number;
+
+  constructor(businessCount?: number) {
+    super(businessCount
+      ? t('categories.inUseCount', { count: businessCount })
+      : t('categories.inUse'));
+    this.name = 'CategoryInUseError';
+    this.businessCount = businessCount;
+  }
+}
+
+// Messages raised by the business_submissions (and review) triggers
+const SUBMISSION_ERROR_MESSAGES: Record<string, MessageKey> = {
+  submission_rate_limited: 'submission.rateLimited',
+  submission_rejected_as_spam: 'submission.spam',
+  submission_missing_shop_name: 'submission.missingShopName',
+  submission_already_reviewed: 'submission.alreadyReviewed',
+  // business_reviews and business_call_checks
+  review_rate_limited: 'review.rateLimited',
+  review_rejected_as_spam: 'review.spam',
+  review_blocked: 'review.blocked',
+  report_rate_limited: 'review.reportRateLimited',
+};
+
+export class SubmissionError extends Error {
+  code: string;
+
+  constructor(code: string) {
+    super(SUBMISSION_ERROR_MESSAGES[code] ? t(SUBMISSION_ERROR_MESSAGES[code]) : code);
+    this.name = 'SubmissionError';
+    this.code = code;
+  }
+}
+
+const toSubmissionError = (error: { message: string }) => {
+  const code = Object.keys(SUBMISSION_ERROR_MESSAGES).find(key => error.message.includes(key));
+  return code ? new SubmissionError(code) : error;
+};
+
 // ============================================
 // Helper Functions: Convert between formats
 // ============================================
 
+const toRatingSummary = (db: DbBusiness): RatingSummary | undefined =>
+  db.rating_count || db.number_ok_count || db.number_wrong_count
+    ? {
+      average: db.rating_avg == null ? null : Number(db.rating_avg), // numeric arrives as a string
+      count: db.rating_count || 0,
+      numberOk: db.number_ok_count || 0,
+      numberWrong: db.number_wrong_count || 0,
+    }
+    : undefined;
+
 // Convert DB format (snake_case) to App format (camelCase)
 export const dbBusinessToBusiness = (db: DbBusiness): Business => ({
   id: db.id,
   category: db.category,
+  extraCategories: db.extra_categories || [],
+  tags: db.tags || [],
   shopName: db.shop_name,
+  shopNameTranslations: cleanTranslations(db.shop_name_translations),
   ownerName: db.owner_name,
   contactNumber: db.contact_number,
+  contacts: db.contacts && db.contacts.length > 0 ? db.contacts : undefined,
   address: db.address,
   openingHours: db.opening_hours,
+  // Rows not yet migrated still only have the free text
+  schedule: db.opening_schedule || parseOpeningHours(db.opening_hours) || undefined,
+  latitude: db.latitude ?? undefined,
+  longitude: db.longitude ?? undefined,
   services: db.services || [],
   homeDelivery: db.home_delivery || false,
   paymentOptions: db.payment_options || [],
+  photos: db.photos || [],
+  rating: toRatingSummary(db),
+  updatedAt: db.updated_at,
 });
 
 // Convert App format (camelCase) to DB format (snake_case)
 export const businessToDbBusiness = (business: Business): Partial<DbBusiness> => ({
   id: business.id,
   category: business.category,
+  // The primary category is never repeated among the extras
+  extra_categories: (business.extraCategories || []).filter(id => id !== business.category),
+  tags: business.tags || [],
   shop_name: business.shopName,
+  shop_name_translations: cleanTranslations(business.shopNameTranslations) || {},
   owner_name: business.ownerName,
   contact_number: business.contactNumber,
+  contacts: business.contacts || [],
   address: business.address,
   opening_hours: business.openingHours,
+  opening_schedule: business.schedule || null,
+  latitude: business.latitude ?? null,
+  longitude: business.longitude ?? null,
   services: business.services || [],
   home_delivery: business.homeDelivery || false,
   payment_options: business.paymentOptions || [],
+  photos: business.photos || [],
+});
+
+export const dbCategoryToCategory = (db: DbCategory): Category => ({
+  id: db.id,
+  name: db.name,
+  nameTranslations: cleanTranslations(db.name_translations),
+  icon: db.icon,
+  sortOrder: db.sort_order ?? undefined,
+});
+
+const categoryToDbCategory = (category: Category): DbCategory => ({
+  id: category.id,
+  name: category.name,
+  name_translations: cleanTranslations(category.nameTranslations) || {},
+  icon: category.icon,
+  sort_order: category.sortOrder ?? null,
 });
 
 // ============================================
 // Authentication Functions
 // ============================================
 
+// Profile of the signed-in admin; every write below is checked against it
+let activeAdmin: AdminProfile | null = null;
+
+const toAdminProfile = (row: any): AdminProfile => ({
+  ...row,
+  // Profiles from before roles existed keep full rights
+  role: row.role || 'super_admin',
+  category_ids: row.category_ids || [],
+});
+
+export const getActiveAdmin = (): AdminProfile | null => activeAdmin;
+
+/**
+ * Load the admin profile for a restored session. Returns null when the user
+ * is not an admin.
+ */
+export const loadAdminProfile = async (userId: string): Promise<AdminProfile | null> => {
+  const { data, error } = await supabase
+    .from('admin_profiles')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  activeAdmin = !error && data ? toAdminProfile(data) : null;
+  return activeAdmin;
+};
+
+// Writes can be replayed from the outbox before the app has restored the
+// session, so fall back to loading the profile here
+const requirePermission = async (permission: Permission, categoryId?: string): Promise<void> => {
+  if (!activeAdmin) {
+    const user = await getCurrentUser();
+    if (user) await loadAdminProfile(user.id);
+  }
+  assertCan(activeAdmin, permission, categoryId);
+};
+
 export const signIn = async (email: string, password: string) => {
   const { data, error } = await supabase.auth.signInWithPassword({
     email,
@@ -110,12 +331,14 @@ export const signIn = async (email: string, password: string) => {
     throw new Error('You are not authorized as an admin');
   }
   
-  return { user: data.user, adminProfile };
+  activeAdmin = toAdminProfile(adminProfile);
+  return { user: data.user, adminProfile: activeAdmin };
 };
 
 export const signOut = async () => {
   const { error } = await supabase.auth.signOut();
   if (error) throw error;
+  activeAdmin = null;
 };
 
 export const getCurrentUser = async (): Promise<User | null> => {
@@ -141,10 +364,88 @@ export const fetchCategories = async (): Promise<Category[]> => {
   const { data, error } = await supabase
     .from('categories')
     .select('*')
+    .order('sort_order', { nullsFirst: false })
     .order('name');
   
   if (error) throw error;
-  return data || [];
+  return (data || []).map(dbCategoryToCategory);
+};
+
+export const addCategory = async (category: Category): Promise<Category> => {
+  await requirePermission('categories.manage');
+  const { data, error } = await supabase
+    .from('categories')
+    .insert([categoryToDbCategory(category)])
+    .select()
+    .single();
+  
+  if (error) throw error;
+  return dbCategoryToCategory(data);
+};
+
+export const updateCategory = async (category: Category): Promise<Category> => {
+  await requirePermission('categories.manage');
+  const { id, ...changes } = categoryToDbCategory(category);
+  const { data, error } = await supabase
+    .from('categories')
+    .update(changes)
+    .eq('id', id)
+    .select()
+    .single();
+  
+  if (error) throw error;
+  return dbCategoryToCategory(data);
+};
+
+/**
+ * Save the given order: each category's sort_order becomes its index.
+ * Full rows are upserted so the whole order is written in one request.
+ */
+export const reorderCategories = async (categories: Category[]): Promise<Category[]> => {
+  await requirePermission('categories.manage');
+  const rows = categories.map((category, index) => categoryToDbCategory({ ...category, sortOrder: index + 1 }));
+  const { data, error } = await supabase
+    .from('categories')
+    .upsert(rows)
+    .select();
+  
+  if (error) throw error;
+  return (data || []).map(dbCategoryToCategory);
+};
+
+/**
+ * Move every business from one category to another and remove the first.
+ * Returns the moved businesses so the cache can be patched.
+ */
+export const mergeCategories = async (sourceId: string, targetId: string): Promise<Business[]> => {
+  await requirePermission('categories.manage');
+  const { data, error } = await supabase.rpc('merge_categories', {
+    source_id: sourceId,
+    target_id: targetId,
+  });
+  
+  if (error) throw error;
+  return ((data || []) as DbBusiness[]).map(dbBusinessToBusiness);
+};
+
+export const deleteCategory = async (categoryId: string): Promise<void> => {
+  await requirePermission('categories.manage');
+  const { count, error: countError } = await supabase
+    .from('businesses')
+    .select('id', { count: 'exact', head: true })
+    .or(`category.eq.${categoryId},extra_categories.cs.{${categoryId}}`);
+  
+  if (countError) throw countError;
+  if (count) throw new CategoryInUseError(count);
+
+  const { error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', categoryId);
+  
+  // The database refuses too, in case a business was added meanwhile
+  if (error?.message.includes('category_in_use')) throw new CategoryInUseError();
+  if (error) throw error;
 };
 
 // ============================================
@@ -162,6 +463,7 @@ export const fetchBusinesses = async (): Promise<Business[]> => {
 };
 
 export const addBusiness = async (business: Business): Promise<Business> => {
+  await requirePermission('business.add', business.category);
   const dbBusiness = businessToDbBusiness(business);
   
   // Remove id if it's empty (let DB generate it)
@@ -179,27 +481,416 @@ export const addBusiness = async (business: Business): Promise<Business> => {
   return dbBusinessToBusiness(data);
 };
 
+/**
+ * Insert several businesses in one request (used by bulk import)
+ */
+export const addBusinesses = async (businesses: Business[]): Promise<Business[]> => {
+  await requirePermission('business.import');
+  const dbBusinesses = businesses.map(business => {
+    const dbBusiness = businessToDbBusiness(business);
+    if (!dbBusiness.id) {
+      delete dbBusiness.id;
+    }
+    return dbBusiness;
+  });
+  
+  const { data, error } = await supabase
+    .from('businesses')
+    .insert(dbBusinesses)
+    .select();
+  
+  if (error) throw error;
+  return (data || []).map(dbBusinessToBusiness);
+};
+
+/**
+ * Update a business. When business.updatedAt is set, the write only succeeds
+ * if the row still has that updated_at; otherwise a BusinessConflictError
+ * carrying the current server row (null once deleted) is thrown. A row that
+ * is unchanged but still not updated was refused by RLS.
+ */
 export const updateBusiness = async (business: Business): Promise<Business> => {
+  await requirePermission('business.edit', business.category);
   const dbBusiness = businessToDbBusiness(business);
   
-  const { data, error } = await supabase
+  let query = supabase
     .from('businesses')
     .update(dbBusiness)
-    .eq('id', business.id)
-    .select()
-    .single();
+    .eq('id', business.id);
+  
+  if (business.updatedAt) {
+    query = query.eq('updated_at', business.updatedAt);
+  }
+  
+  const { data, error } = await query.select().maybeSingle();
   
   if (error) throw error;
+  
+  if (!data) {
+    // Nothing matched: the row was changed or deleted since it was loaded,
+    // or RLS hid it from the update
+    const { data: current, error: fetchError } = await supabase
+      .from('businesses')
+      .select('*')
+      .eq('id', business.id)
+      .maybeSingle();
+    
+    if (fetchError) throw fetchError;
+    if (current && (!business.updatedAt || current.updated_at === business.updatedAt)) {
+      throw new Error(t('role.notAllowed'));
+    }
+    throw new BusinessConflictError(dbBusiness, current);
+  }
+  
   return dbBusinessToBusiness(data);
 };
 
 export const deleteBusiness = async (businessId: string): Promise<void> => {
-  const { error } = await supabase
+  // Queued deletes only carry the id, so look up the category for the scope check
+  const { data: row } = await supabase
+    .from('businesses')
+    .select('category')
+    .eq('id', businessId)
+    .maybeSingle();
+  await requirePermission('business.delete', row?.category);
+
+  const { data, error } = await supabase
     .from('businesses')
     .delete()
-    .eq('id', businessId);
+    .eq('id', businessId)
+    .select('id');
   
   if (error) throw error;
+  // RLS hides rows it won't let us delete instead of raising an error. A row
+  // that was already gone is fine; one that is still there was refused.
+  if (row && (!data || data.length === 0)) throw new Error(t('role.notAllowed'));
+};
+
+/**
+ * One-off migration: parse the free-text opening_hours of rows that have no
+ * opening_schedule yet and store the result. Rows whose text can't be parsed
+ * are returned so an admin can fix them by hand.
+ */
+export const migrateOpeningHours = async (): Promise<{ migrated: number; unparsed: DbBusiness[] }> => {
+  await requirePermission('maintenance');
+  const { data, error } = await supabase
+    .from('businesses')
+    .select('*')
+    .is('opening_schedule', null)
+    .not('opening_hours', 'is', null);
+
+  if (error) throw error;
+
+  let migrated = 0;
+  const unparsed: DbBusiness[] = [];
+
+  for (const row of (data || []) as DbBusiness[]) {
+    const schedule = parseOpeningHours(row.opening_hours);
+    if (!schedule) {
+      if (row.opening_hours?.trim()) unparsed.push(row);
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('businesses')
+      .update({ opening_schedule: schedule })
+      .eq('id', row.id);
+
+    if (updateError) throw updateError;
+    migrated++;
+  }
+
+  return { migrated, unparsed };
+};
+
+// ============================================
+// Public Submissions Functions
+// ============================================
+
+/**
+ * Send a suggestion or correction from the public form. Anonymous callers
+ * can insert but not read back, so nothing is returned.
+ */
+export const submitSuggestion = async (submission: NewSubmission): Promise<void> => {
+  const { error } = await supabase
+    .from('business_submissions')
+    .insert([submission]);
+
+  if (error) throw toSubmissionError(error);
+};
+
+export const fetchSubmissions = async (status: SubmissionStatus = 'pending'): Promise<DbSubmission[]> => {
+  const { data, error } = await supabase
+    .from('business_submissions')
+    .select('*')
+    .eq('status', status)
+    .order('created_at', { ascending: status === 'pending' })
+    .limit(100);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const countPendingSubmissions = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from('business_submissions')
+    .select('*', { count: 'exact', head: true })
+    .eq('status', 'pending');
+
+  if (error) throw error;
+  return count || 0;
+};
+
+/**
+ * The business a submission proposes: the current row with the suggested
+ * fields laid over it, or a new business built from the payload alone.
+ */
+export const submissionToBusiness = (submission: DbSubmission, current?: Business | null): Business => {
+  if (!current) {
+    return { ...dbBusinessToBusiness({ ...submission.payload, id: '' } as DbBusiness), id: '' };
+  }
+  const merged = { ...businessToDbBusiness(current), ...submission.payload, id: current.id } as DbBusiness;
+  // A suggested number replaces the primary one; the business's other numbers stay
+  const suggested = submission.payload.contact_number;
+  if (suggested && phoneKey(suggested) !== phoneKey(current.contactNumber)) {
+    merged.contacts = replacePrimaryContact(businessContacts(current), suggested);
+  }
+  return { ...dbBusinessToBusiness(merged), updatedAt: current.updatedAt };
+};
+
+const reviewSubmission = async (
+  submissionId: string,
+  changes: Partial<Pick<DbSubmission, 'status' | 'reject_reason' | 'business_id'>>
+): Promise<void> => {
+  const { data, error } = await supabase
+    .from('business_submissions')
+    .update(changes)
+    .eq('id', submissionId)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw toSubmissionError(error);
+  if (!data) throw new SubmissionError('submission_already_reviewed');
+};
+
+/**
+ * Apply a submission (possibly edited by the moderator) to the directory and
+ * mark it approved. The database trigger writes the audit entry.
+ */
+export const approveSubmission = async (submission: DbSubmission, business: Business): Promise<Business> => {
+  await requirePermission('submissions.review', business.category);
+  const { data: current, error } = await supabase
+    .from('business_submissions')
+    .select('status')
+    .eq('id', submission.id)
+    .single();
+
+  if (error) throw error;
+  if (current.status !== 'pending') throw new SubmissionError('submission_already_reviewed');
+
+  const saved = business.id ? await updateBusiness(business) : await addBusiness(business);
+  await reviewSubmission(submission.id, { status: 'approved', business_id: saved.id });
+  return saved;
+};
+
+export const rejectSubmission = async (submissionId: string, reason: string): Promise<void> => {
+  await requirePermission('submissions.review');
+  await reviewSubmission(submissionId, { status: 'rejected', reject_reason: reason });
+};
+
+// ============================================
+// Reviews and Call Feedback
+// ============================================
+
+// Public columns only: anonymous visitors can't read device or IP hashes
+const PUBLIC_REVIEW_COLUMNS = 'id, business_id, rating, comment, reviewer_name, status, created_at';
+
+export const fetchReviews = async (businessId: string): Promise<DbReview[]> => {
+  const { data, error } = await supabase
+    .from('business_reviews')
+    .select(PUBLIC_REVIEW_COLUMNS)
+    .eq('business_id', businessId)
+    .eq('status', 'visible')
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/** Post a review. A later review from the same device replaces the earlier one. */
+export const submitReview = async (review: NewReview): Promise<void> => {
+  const { error } = await supabase
+    .from('business_reviews')
+    .insert([review]);
+
+  if (error) throw toSubmissionError(error);
+};
+
+/** Record the answer to "was this number correct?" after a call. */
+export const submitCallCheck = async (businessId: string, numberCorrect: boolean, deviceId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('business_call_checks')
+    .insert([{ business_id: businessId, number_correct: numberCorrect, device_id: deviceId }]);
+
+  if (error) throw toSubmissionError(error);
+};
+
+/** Flag a review for moderators. A device's second flag on the same review is ignored. */
+export const reportReview = async (reviewId: string, deviceId: string): Promise<void> => {
+  const { error } = await supabase.rpc('report_business_review', { review_id: reviewId, device_id: deviceId });
+  if (error) throw toSubmissionError(error);
+};
+
+/**
+ * Reviews for the moderation screen: reported ones first, or all recent
+ * ones. Row level security limits category moderators to their categories.
+ */
+export const fetchReviewsForModeration = async (filter: 'reported' | 'recent' | 'hidden'): Promise<ModerationReview[]> => {
+  await requirePermission('reviews.moderate');
+  let query = supabase
+    .from('business_reviews')
+    .select('id, business_id, rating, comment, reviewer_name, status, hidden_reason, report_count, moderated_at, created_at, business:businesses(shop_name, shop_name_translations, category)')
+    .limit(100);
+
+  if (filter === 'reported') {
+    query = query.gt('report_count', 0).eq('status', 'visible').order('report_count', { ascending: false });
+  } else if (filter === 'hidden') {
+    query = query.eq('status', 'hidden').order('moderated_at', { ascending: false });
+  } else {
+    query = query.order('created_at', { ascending: false });
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as ModerationReview[];
+};
+
+export const setReviewStatus = async (review: ModerationReview, status: ReviewStatus, reason?: string): Promise<void> => {
+  await requirePermission('reviews.moderate', review.business?.category);
+  const { error } = await supabase
+    .from('business_reviews')
+    .update({ status, hidden_reason: status === 'hidden' ? reason || null : null, report_count: 0 })
+    .eq('id', review.id);
+
+  if (error) throw error;
+};
+
+export const deleteReview = async (review: ModerationReview): Promise<void> => {
+  await requirePermission('reviews.moderate', review.business?.category);
+  const { error } = await supabase
+    .from('business_reviews')
+    .delete()
+    .eq('id', review.id);
+
+  if (error) throw error;
+};
+
+// ============================================
+// Usage Analytics
+// ============================================
+
+/** Send a batch of anonymous events; the server drops malformed ones. */
+export const recordUsageEvents = async (events: QueuedUsageEvent[]): Promise<void> => {
+  const { error } = await supabase.rpc('record_usage_events', {
+    events: events.map(e => ({
+      kind: e.kind,
+      query: e.query ?? null,
+      result_count: e.resultCount ?? null,
+      category_id: e.categoryId ?? null,
+      business_id: e.businessId ?? null,
+      day: e.day,
+    })),
+  });
+
+  if (error) throw error;
+};
+
+export const fetchUsageReport = async (days: number): Promise<UsageReport> => {
+  await requirePermission('analytics.view');
+  const { data, error } = await supabase.rpc('usage_report', { since_days: days });
+
+  if (error) throw error;
+  return data as UsageReport;
+};
+
+// ============================================
+// Admin Management Functions (super-admins)
+// ============================================
+
+export const fetchAdminProfiles = async (): Promise<AdminProfile[]> => {
+  await requirePermission('admins.manage');
+  const { data, error } = await supabase
+    .from('admin_profiles')
+    .select('*')
+    .order('display_name');
+
+  if (error) throw error;
+  return (data || []).map(toAdminProfile);
+};
+
+export const updateAdminProfile = async (
+  adminId: string,
+  changes: Pick<AdminProfile, 'role' | 'category_ids'>
+): Promise<AdminProfile> => {
+  await requirePermission('admins.manage');
+  const { data, error } = await supabase
+    .from('admin_profiles')
+    .update({
+      role: changes.role,
+      category_ids: changes.role === 'category_moderator' ? changes.category_ids || [] : [],
+    })
+    .eq('id', adminId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return toAdminProfile(data);
+};
+
+/** Takes away admin access; the login itself stays. */
+export const removeAdmin = async (adminId: string): Promise<void> => {
+  await requirePermission('admins.manage');
+  if (adminId === activeAdmin?.id) throw new Error(t('admins.cannotRemoveSelf'));
+
+  const { error } = await supabase
+    .from('admin_profiles')
+    .delete()
+    .eq('id', adminId);
+
+  if (error) throw error;
+};
+
+const INVITE_ERRORS: Record<string, MessageKey> = {
+  login_required: 'admins.inviteLoginRequired',
+  super_admin_only: 'admins.inviteSuperAdminOnly',
+  invalid_email: 'admins.inviteBadEmail',
+  invalid_role: 'admins.inviteBadRole',
+};
+
+/**
+ * Invite someone by email. Creating the login needs the service key, so the
+ * admin-invite Edge Function does it and adds their admin profile.
+ */
+export const inviteAdmin = async (invite: {
+  email: string;
+  display_name: string;
+  role: AdminRole;
+  category_ids?: string[];
+}): Promise<AdminProfile> => {
+  await requirePermission('admins.manage');
+  const { data, error } = await supabase.functions.invoke('admin-invite', {
+    body: { ...invite, redirect_to: window.location.origin },
+  });
+
+  if (error) {
+    // The function explains refusals with a code in its JSON body
+    const body = await (error as any).context?.json?.().catch(() => null);
+    const messageKey = INVITE_ERRORS[body?.error];
+    throw new Error(messageKey ? t(messageKey) : body?.detail || error.message);
+  }
+  return toAdminProfile(data.profile);
 };
 
 // ============================================
@@ -232,9 +923,34 @@ export const getDataVersion = async (): Promise<DataVersion> => {
       throw updateError;
     }
     
+    // Renamed or reordered categories must also make clients resync
+    const { data: categoryData, error: categoryError } = await supabase
+      .from('categories')
+      .select('updated_at')
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    
+    if (categoryError) throw categoryError;
+    
+    // New reviews change ratings without touching updated_at
+    const { data: ratingData, error: ratingError } = await supabase
+      .from('businesses')
+      .select('rating_updated_at')
+      .not('rating_updated_at', 'is', null)
+      .order('rating_updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    
+    if (ratingError) throw ratingError;
+    
+    const lastUpdated = [data?.updated_at, categoryData?.updated_at, ratingData?.rating_updated_at]
+      .filter((value): value is string => !!value)
+      .sort((a, b) => Date.parse(b) - Date.parse(a))[0];
+    
     return {
       business_count: count || 0,
-      last_updated: data?.updated_at || new Date().toISOString(),
+      last_updated: lastUpdated || new Date().toISOString(),
       last_sync: Date.now(),
     };
   } catch (error) {
@@ -248,6 +964,31 @@ export const getDataVersion = async (): Promise<DataVersion> => {
   }
 };
 
+/**
+ * Get only what changed since a given server timestamp
+ * Updated rows come from updated_at (or rating_updated_at), deletions from
+ * DELETE audit entries via business_deletions_since(), as the audit log
+ * itself is admin-only
+ */
+export const fetchBusinessChanges = async (since: string): Promise<SyncChanges> => {
+  const [changed, tombstones, categories] = await Promise.all([
+    supabase
+      .from('businesses')
+      .select('*')
+      .or(`updated_at.gt.${since},rating_updated_at.gt.${since}`),
+    supabase.rpc('business_deletions_since', { since }),
+    fetchCategories(),
+  ]);
+  
+  if (changed.error) throw changed.error;
+  if (tombstones.error) throw tombstones.error;
+  
+  const businesses = (changed.data || []).map(dbBusinessToBusiness);
+  const deletedIds = (tombstones.data || []) as string[];
+  
+  return { businesses, deletedIds, categories };
+};
+
 // ============================================
 // Audit Log Functions
 // ============================================
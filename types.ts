@@ -1,20 +1,83 @@
+// Interface languages; Marathi is the one every name is entered in
+export type Locale = 'mr' | 'hi' | 'en';
+
+// Optional translations of a name, shown in place of it in that language
+export type LocalizedText = Partial<Record<Locale, string>>;
+
 export interface Category {
   id: string;
   name: string;
-  icon: string;
+  nameTranslations?: LocalizedText;
+  icon: string;      // Font Awesome classes, e.g. "fa-solid fa-store"
+  sortOrder?: number; // Position in the directory, lowest first
+}
+
+export interface TimeRange {
+  open: string;  // "HH:MM", 24-hour
+  close: string; // "HH:MM"; earlier than open means the range runs past midnight
+}
+
+export interface ScheduleException {
+  date: string;        // YYYY-MM-DD
+  ranges: TimeRange[]; // Empty = closed all day
+  note?: string;
+}
+
+export interface OpeningSchedule {
+  days: TimeRange[][];      // Indexed like Date.getDay(), 0 = Sunday; empty = closed
+  weeklyClosedDay?: number; // Date.getDay() index
+  exceptions?: ScheduleException[];
+}
+
+export type PhotoKind = 'shopfront' | 'product' | 'ratecard';
+
+export interface BusinessPhoto {
+  id: string;
+  kind: PhotoKind;
+  url: string;        // Resized full image
+  thumbUrl: string;   // Square thumbnail, cached offline
+  path?: string;      // Storage object paths; unset for local stub photos
+  thumbPath?: string;
+  caption?: string;
+}
+
+export type ContactKind = 'mobile' | 'landline' | 'whatsapp'; // whatsapp = chat only, not for calls
+
+export interface BusinessContact {
+  kind: ContactKind;
+  number: string;  // E.164, e.g. "+919876543210"
+  label?: string;  // e.g. "दुकान", "घर"
+}
+
+// Maintained by the database from visitors' reviews and call feedback
+export interface RatingSummary {
+  average: number | null; // 1–5, one decimal; null until the first review
+  count: number;
+  numberOk: number;       // "Was this number correct?" answers, last 180 days
+  numberWrong: number;
 }
 
 export interface Business {
   id: string;
-  category: string;
+  category: string;           // Primary category: pin icon, admin scope
+  extraCategories?: string[]; // Also listed under these
+  tags?: string[];            // Free-form, e.g. "फोटो फ्रेमिंग"
   shopName: string;
+  shopNameTranslations?: LocalizedText;
   ownerName: string;
-  contactNumber: string;
+  contactNumber: string;        // Primary number, kept in step with contacts
+  contacts?: BusinessContact[]; // Unset on rows saved before numbers were labelled
   address?: string;
   openingHours?: string;
+  schedule?: OpeningSchedule;
+  latitude?: number;
+  longitude?: number;
   services?: string[];
   homeDelivery?: boolean;
   paymentOptions?: string[];
+  photos?: BusinessPhoto[];
+  rating?: RatingSummary; // Read-only; never written back
+  updatedAt?: string; // Server updated_at, used to detect conflicting edits
 }
 
 export interface BusinessData {
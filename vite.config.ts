@@ -15,10 +15,26 @@ export default defineConfig(({ mode }) => {
         'import.meta.env.VITE_SUPABASE_URL': JSON.stringify(env.VITE_SUPABASE_URL),
         'import.meta.env.VITE_SUPABASE_ANON_KEY': JSON.stringify(env.VITE_SUPABASE_ANON_KEY),
         
-        // AI Model environment variables (for AI assistant)
-        'process.env.GOOGLE_API_KEY': JSON.stringify(env.VITE_GOOGLE_API_KEY || env.GEMINI_API_KEY || env.GOOGLE_API_KEY),
-        'process.env.AI_MODEL': JSON.stringify(env.VITE_AI_MODEL || env.AI_MODEL || 'gemini-1.5-flash'),
-        'process.env.MISTRAL_API_KEY': JSON.stringify(env.VITE_MISTRAL_API_KEY || env.MISTRAL_API_KEY)
+        // AI assistant backend. No API keys here: hosted providers are called
+        // from the ai-assistant Edge Function, which holds the keys.
+        'process.env.AI_PROVIDER': JSON.stringify(env.VITE_AI_PROVIDER || env.AI_PROVIDER || 'edge'),
+        'process.env.AI_BASE_URL': JSON.stringify(env.VITE_AI_BASE_URL || env.AI_BASE_URL || ''),
+        'process.env.AI_MODEL': JSON.stringify(env.VITE_AI_MODEL || env.AI_MODEL || ''),
+
+        // Map settings (tiles are self-hosted, see README)
+        'process.env.MAP_TILE_URL': JSON.stringify(env.VITE_MAP_TILE_URL || env.MAP_TILE_URL || ''),
+        'process.env.MAP_TILE_ATTRIBUTION': JSON.stringify(env.VITE_MAP_TILE_ATTRIBUTION || env.MAP_TILE_ATTRIBUTION || ''),
+        'process.env.MAP_MAX_ZOOM': JSON.stringify(env.VITE_MAP_MAX_ZOOM || env.MAP_MAX_ZOOM || ''),
+        'process.env.MAP_CENTER': JSON.stringify(env.VITE_MAP_CENTER || env.MAP_CENTER || ''),
+
+        // Voice search: browser recognizer and/or a self-hosted speech-to-text server
+        'process.env.STT_PROVIDER': JSON.stringify(env.VITE_STT_PROVIDER || env.STT_PROVIDER || 'auto'),
+        'process.env.STT_URL': JSON.stringify(env.VITE_STT_URL || env.STT_URL || ''),
+        'process.env.STT_MODEL': JSON.stringify(env.VITE_STT_MODEL || env.STT_MODEL || ''),
+
+        // Business photos: Supabase Storage, or 'local' to keep them inline during development
+        'process.env.PHOTO_STORAGE': JSON.stringify(env.VITE_PHOTO_STORAGE || env.PHOTO_STORAGE || 'supabase'),
+        'process.env.PHOTO_BUCKET': JSON.stringify(env.VITE_PHOTO_BUCKET || env.PHOTO_BUCKET || '')
       },
       resolve: {
         alias: {